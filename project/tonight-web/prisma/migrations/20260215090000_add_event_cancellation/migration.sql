@@ -0,0 +1,7 @@
+-- AlterEnum
+ALTER TYPE "EventStatus" ADD VALUE 'CANCELLED';
+
+-- AlterTable
+ALTER TABLE "Event"
+ADD COLUMN "cancelledAt" TIMESTAMP(3),
+ADD COLUMN "cancellationReason" TEXT;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Event"
+ADD COLUMN "endDatetime" TIMESTAMP(3);
@@ -0,0 +1,12 @@
+-- CreateIndex
+CREATE INDEX "Event_location_idx" ON "Event" USING GIST ("location");
+
+-- CreateIndex
+CREATE INDEX "JoinRequest_eventId_status_idx" ON "JoinRequest"("eventId", "status");
+
+-- DropIndex
+-- Covered by the composite index below, which has joinRequestId as its prefix.
+DROP INDEX "Message_joinRequestId_idx";
+
+-- CreateIndex
+CREATE INDEX "Message_joinRequestId_senderId_createdAt_idx" ON "Message"("joinRequestId", "senderId", "createdAt");
@@ -0,0 +1,10 @@
+-- AlterTable
+-- Kept in sync by Postgres; the Prisma client never writes this column.
+ALTER TABLE "Event" ADD COLUMN "searchVector" tsvector GENERATED ALWAYS AS (
+  setweight(to_tsvector('english', coalesce("title", '')), 'A') ||
+  setweight(to_tsvector('english', coalesce("locationName", '')), 'B') ||
+  setweight(to_tsvector('english', coalesce("description", '')), 'C')
+) STORED;
+
+-- CreateIndex
+CREATE INDEX "Event_searchVector_idx" ON "Event" USING GIN ("searchVector");
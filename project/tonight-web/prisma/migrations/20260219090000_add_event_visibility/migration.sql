@@ -0,0 +1,6 @@
+-- CreateEnum
+CREATE TYPE "EventVisibility" AS ENUM ('PUBLIC', 'UNLISTED', 'INVITE_ONLY');
+
+-- AlterTable
+ALTER TABLE "Event"
+ADD COLUMN "visibility" "EventVisibility" NOT NULL DEFAULT 'PUBLIC';
@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "EventInviteLink" (
+    "id" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "createdById" TEXT NOT NULL,
+    "maxUses" INTEGER,
+    "useCount" INTEGER NOT NULL DEFAULT 0,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "revokedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "EventInviteLink_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "JoinRequest" ADD COLUMN "inviteLinkId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "EventInviteLink_eventId_idx" ON "EventInviteLink"("eventId");
+
+-- AddForeignKey
+ALTER TABLE "EventInviteLink"
+  ADD CONSTRAINT "EventInviteLink_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "Event"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "EventInviteLink"
+  ADD CONSTRAINT "EventInviteLink_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+ALTER TABLE "JoinRequest"
+  ADD CONSTRAINT "JoinRequest_inviteLinkId_fkey" FOREIGN KEY ("inviteLinkId") REFERENCES "EventInviteLink"("id") ON DELETE SET NULL ON UPDATE CASCADE;
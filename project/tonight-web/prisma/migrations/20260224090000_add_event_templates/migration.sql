@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "EventTemplate" (
+    "id" TEXT NOT NULL,
+    "hostId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT NOT NULL DEFAULT '',
+    "durationMinutes" INTEGER,
+    "latitude" DOUBLE PRECISION,
+    "longitude" DOUBLE PRECISION,
+    "locationName" TEXT,
+    "category" TEXT,
+    "maxParticipants" INTEGER NOT NULL DEFAULT 2,
+    "visibility" "EventVisibility" NOT NULL DEFAULT 'PUBLIC',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "EventTemplate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "EventTemplate_hostId_name_key" ON "EventTemplate"("hostId", "name");
+
+-- AddForeignKey
+ALTER TABLE "EventTemplate"
+  ADD CONSTRAINT "EventTemplate_hostId_fkey" FOREIGN KEY ("hostId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
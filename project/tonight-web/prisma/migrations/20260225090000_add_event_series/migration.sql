@@ -0,0 +1,32 @@
+-- CreateEnum
+CREATE TYPE "EventRecurrenceFrequency" AS ENUM ('WEEKLY', 'BIWEEKLY', 'CUSTOM');
+
+-- CreateTable
+CREATE TABLE "EventSeries" (
+    "id" TEXT NOT NULL,
+    "hostId" TEXT NOT NULL,
+    "frequency" "EventRecurrenceFrequency" NOT NULL,
+    "weekdays" INTEGER[],
+    "until" TIMESTAMP(3) NOT NULL,
+    "timeZone" TEXT NOT NULL DEFAULT 'UTC',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "EventSeries_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "Event" ADD COLUMN "seriesId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "EventSeries_hostId_idx" ON "EventSeries"("hostId");
+
+-- CreateIndex
+CREATE INDEX "Event_seriesId_idx" ON "Event"("seriesId");
+
+-- AddForeignKey
+ALTER TABLE "EventSeries"
+  ADD CONSTRAINT "EventSeries_hostId_fkey" FOREIGN KEY ("hostId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Event"
+  ADD CONSTRAINT "Event_seriesId_fkey" FOREIGN KEY ("seriesId") REFERENCES "EventSeries"("id") ON DELETE SET NULL ON UPDATE CASCADE;
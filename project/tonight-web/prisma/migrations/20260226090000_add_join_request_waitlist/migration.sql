@@ -0,0 +1,5 @@
+-- AlterEnum
+ALTER TYPE "JoinRequestStatus" ADD VALUE 'WAITLISTED';
+
+-- AlterTable
+ALTER TABLE "Event" ADD COLUMN "waitlistAutoAccept" BOOLEAN NOT NULL DEFAULT true;
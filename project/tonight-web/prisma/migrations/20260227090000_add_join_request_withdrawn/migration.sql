@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "JoinRequestStatus" ADD VALUE 'WITHDRAWN';
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "JoinRequest" ADD COLUMN "intro" TEXT;
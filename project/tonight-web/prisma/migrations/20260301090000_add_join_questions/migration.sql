@@ -0,0 +1,50 @@
+-- CreateEnum
+CREATE TYPE "JoinQuestionKind" AS ENUM ('SHORT_TEXT', 'YES_NO', 'SINGLE_CHOICE');
+
+-- CreateTable
+CREATE TABLE "EventJoinQuestion" (
+    "id" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "kind" "JoinQuestionKind" NOT NULL,
+    "prompt" TEXT NOT NULL,
+    "options" TEXT[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "EventJoinQuestion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "JoinRequestAnswer" (
+    "id" TEXT NOT NULL,
+    "joinRequestId" TEXT NOT NULL,
+    "questionId" TEXT,
+    "kind" "JoinQuestionKind" NOT NULL,
+    "prompt" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "value" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "JoinRequestAnswer_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "EventJoinQuestion_eventId_position_idx" ON "EventJoinQuestion"("eventId", "position");
+
+-- CreateIndex
+CREATE INDEX "JoinRequestAnswer_joinRequestId_idx" ON "JoinRequestAnswer"("joinRequestId");
+
+-- CreateIndex
+CREATE INDEX "JoinRequestAnswer_questionId_idx" ON "JoinRequestAnswer"("questionId");
+
+-- AddForeignKey
+ALTER TABLE "EventJoinQuestion"
+  ADD CONSTRAINT "EventJoinQuestion_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "Event"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "JoinRequestAnswer"
+  ADD CONSTRAINT "JoinRequestAnswer_joinRequestId_fkey" FOREIGN KEY ("joinRequestId") REFERENCES "JoinRequest"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "JoinRequestAnswer"
+  ADD CONSTRAINT "JoinRequestAnswer_questionId_fkey" FOREIGN KEY ("questionId") REFERENCES "EventJoinQuestion"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,12 @@
+-- AlterEnum
+ALTER TYPE "JoinRequestStatus" ADD VALUE 'EXPIRED';
+
+-- CreateEnum
+CREATE TYPE "JoinRequestExpiryReason" AS ENUM ('REQUESTS_CLOSED', 'HOST_TIMEOUT', 'EVENT_ENDED');
+
+-- AlterTable
+ALTER TABLE "Event" ADD COLUMN "joinRequestCutoffMinutes" INTEGER,
+ADD COLUMN "joinRequestTimeoutHours" INTEGER;
+
+-- AlterTable
+ALTER TABLE "JoinRequest" ADD COLUMN "expiryReason" "JoinRequestExpiryReason";
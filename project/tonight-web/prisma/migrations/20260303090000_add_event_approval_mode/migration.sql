@@ -0,0 +1,5 @@
+-- CreateEnum
+CREATE TYPE "EventApprovalMode" AS ENUM ('MANUAL', 'AUTOMATIC');
+
+-- AlterTable
+ALTER TABLE "Event" ADD COLUMN "approvalMode" "EventApprovalMode" NOT NULL DEFAULT 'MANUAL';
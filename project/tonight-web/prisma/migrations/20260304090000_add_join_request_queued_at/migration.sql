@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "JoinRequest" ADD COLUMN "queuedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- Existing requests keep the clock they were already on
+UPDATE "JoinRequest" SET "queuedAt" = "updatedAt";
@@ -0,0 +1,272 @@
+#!/usr/bin/env node
+// Seeds a local database with synthetic events and times the discovery queries.
+//
+//   npm run bench:discovery -- --events 10000 --iterations 50
+//
+// Options:
+//   --events <n>       events to seed (default 5000)
+//   --users <n>        users to seed; hosts and guests are drawn from them (default 500)
+//   --spread-km <n>    events are scattered over a square this wide (default 40)
+//   --radius-km <n>    nearby search radius (default 10)
+//   --iterations <n>   timed runs per query (default 25)
+//   --keep             leave the seeded rows in place afterwards
+//
+// Seeded rows use ids prefixed with "bench_" and are removed at the end unless
+// --keep is given. The SQL below mirrors findNearbyEvents / findEventsInBounds in
+// src/lib/geospatial.ts; keep them in sync when those queries change.
+import 'dotenv/config';
+import { parseArgs } from 'node:util';
+import pg from 'pg';
+
+const { values: args } = parseArgs({
+  options: {
+    events: { type: 'string', default: '5000' },
+    users: { type: 'string', default: '500' },
+    'spread-km': { type: 'string', default: '40' },
+    'radius-km': { type: 'string', default: '10' },
+    iterations: { type: 'string', default: '25' },
+    keep: { type: 'boolean', default: false },
+  },
+});
+
+const EVENT_COUNT = Number(args.events);
+const USER_COUNT = Number(args.users);
+const SPREAD_KM = Number(args['spread-km']);
+const RADIUS_METERS = Number(args['radius-km']) * 1000;
+const ITERATIONS = Number(args.iterations);
+const CENTER = { latitude: 52.52, longitude: 13.405 };
+const VIEWER_ID = 'bench_user_1';
+
+if (!process.env.DATABASE_URL) {
+  console.error('DATABASE_URL must be set');
+  process.exit(1);
+}
+
+// Degrees per kilometre are close enough for scattering test data.
+const latSpread = SPREAD_KM / 111;
+const lngSpread = SPREAD_KM / (111 * Math.cos((CENTER.latitude * Math.PI) / 180));
+
+const EVENT_END_SQL = `COALESCE(e."endDatetime", e."datetime" + INTERVAL '180 minutes')`;
+
+const STATUS_FILTER_SQL = `(
+  (e."status" = 'ACTIVE' AND ${EVENT_END_SQL} > NOW())
+  OR (
+    e."status" = 'CANCELLED'
+    AND e."datetime" >= NOW()
+    AND (e."hostId" = $1 OR viewer_request."status" = 'ACCEPTED')
+  )
+)`;
+
+const VISIBILITY_FILTER_SQL = `(
+  e."visibility" = 'PUBLIC'
+  OR e."hostId" = $1
+  OR viewer_request."id" IS NOT NULL
+  OR (
+    e."visibility" = 'INVITE_ONLY'
+    AND EXISTS (
+      SELECT 1 FROM "EventInviteLog" invite
+      WHERE invite."eventId" = e."id"
+        AND invite."inviteeId" = $1
+    )
+  )
+)`;
+
+const VIEWER_JOINS_SQL = `
+  INNER JOIN "User" u ON u."id" = e."hostId"
+  LEFT JOIN "JoinRequest" AS viewer_request
+    ON viewer_request."eventId" = e."id"
+   AND viewer_request."userId" = $1
+  LEFT JOIN LATERAL (
+    SELECT COUNT(*)::integer AS "acceptedCount"
+    FROM "JoinRequest" jr
+    WHERE jr."eventId" = e."id"
+      AND jr."status" = 'ACCEPTED'
+  ) AS accepted ON TRUE
+  LEFT JOIN LATERAL (
+    SELECT COUNT(*)::integer AS "unseenCount"
+    FROM "Message" m
+    WHERE viewer_request."status" = 'ACCEPTED'
+      AND m."joinRequestId" = viewer_request."id"
+      AND m."senderId" = e."hostId"
+      AND (
+        viewer_request."lastSeenHostActivityAt" IS NULL
+        OR m."createdAt" > viewer_request."lastSeenHostActivityAt"
+      )
+  ) AS host_updates ON TRUE`;
+
+const NOT_BLOCKED_SQL = `NOT EXISTS (
+  SELECT 1 FROM "BlockedUser" b
+  WHERE (b."blockerId" = $1 AND b."blockedId" = e."hostId")
+     OR (b."blockerId" = e."hostId" AND b."blockedId" = $1)
+)`;
+
+const NEARBY_SQL = `
+  SELECT
+    e."id",
+    ST_Distance(e."location", origin."point") AS "distanceMeters",
+    COALESCE(accepted."acceptedCount", 0) AS "acceptedCount",
+    viewer_request."status" AS "viewerJoinRequestStatus",
+    COALESCE(host_updates."unseenCount", 0) AS "viewerHostUpdatesUnseen"
+  FROM "Event" e
+  CROSS JOIN (SELECT ST_SetSRID(ST_MakePoint($3, $2), 4326)::geography AS "point") AS origin
+  ${VIEWER_JOINS_SQL}
+  WHERE ${STATUS_FILTER_SQL}
+    AND ${VISIBILITY_FILTER_SQL}
+    AND ST_DWithin(e."location", origin."point", $4)
+    AND ${NOT_BLOCKED_SQL}
+  ORDER BY "distanceMeters" ASC, e."id" ASC
+  LIMIT 31`;
+
+const VIEWPORT_SQL = `
+  SELECT
+    e."id",
+    COALESCE(accepted."acceptedCount", 0) AS "acceptedCount",
+    viewer_request."status" AS "viewerJoinRequestStatus",
+    COALESCE(host_updates."unseenCount", 0) AS "viewerHostUpdatesUnseen"
+  FROM "Event" e
+  ${VIEWER_JOINS_SQL}
+  WHERE ${STATUS_FILTER_SQL}
+    AND ${VISIBILITY_FILTER_SQL}
+    AND ST_DWithin(e."location", ST_SetSRID(ST_MakePoint($3, $2), 4326)::geography, $4)
+    AND e."location"::geometry && ST_MakeEnvelope($5, $6, $7, $8, 4326)
+    AND ${NOT_BLOCKED_SQL}
+  ORDER BY e."datetime" ASC, e."id" ASC
+  LIMIT 201`;
+
+const seed = async (client) => {
+  console.log(`Seeding ${USER_COUNT} users and ${EVENT_COUNT} events...`);
+  await client.query('BEGIN');
+  await client.query(
+    `INSERT INTO "User" ("id", "email", "displayName", "createdAt", "updatedAt")
+     SELECT 'bench_user_' || g, 'bench-' || g || '@bench.tonight.test', 'Bench User ' || g, NOW(), NOW()
+     FROM generate_series(1, $1) AS g`,
+    [USER_COUNT]
+  );
+  await client.query(
+    `INSERT INTO "Event" (
+       "id", "title", "description", "datetime", "location", "locationName", "category",
+       "maxParticipants", "status", "hostId", "createdAt", "updatedAt"
+     )
+     SELECT
+       'bench_event_' || g,
+       'Bench event ' || g,
+       'Synthetic event for discovery benchmarks',
+       NOW() + (random() * INTERVAL '72 hours') - INTERVAL '6 hours',
+       ST_SetSRID(ST_MakePoint($2 + (random() - 0.5) * $4, $3 + (random() - 0.5) * $5), 4326)::geography,
+       'Bench venue ' || g,
+       (ARRAY['cinema', 'food', 'outdoor', 'music', 'fitness', 'social', 'other', NULL])[1 + floor(random() * 8)::int],
+       2 + floor(random() * 10)::int,
+       (CASE WHEN random() < 0.8 THEN 'ACTIVE' ELSE 'EXPIRED' END)::"EventStatus",
+       'bench_user_' || (1 + floor(random() * $6)::int),
+       NOW(),
+       NOW()
+     FROM generate_series(1, $1) AS g`,
+    [EVENT_COUNT, CENTER.longitude, CENTER.latitude, lngSpread, latSpread, USER_COUNT]
+  );
+  // Roughly three requests per event, a third of them accepted. The lateral
+  // subquery references the outer row so random() is re-evaluated per event.
+  await client.query(
+    `INSERT INTO "JoinRequest" ("id", "status", "eventId", "userId", "createdAt", "updatedAt")
+     SELECT DISTINCT ON (e."id", u."id")
+       'bench_jr_' || e."id" || '_' || u."id",
+       (CASE WHEN random() < 0.33 THEN 'ACCEPTED' ELSE 'PENDING' END)::"JoinRequestStatus",
+       e."id",
+       u."id",
+       NOW(),
+       NOW()
+     FROM "Event" e
+     CROSS JOIN LATERAL (
+       SELECT 'bench_user_' || (1 + floor(random() * $1)::int) AS "id"
+       FROM generate_series(1, 3)
+       WHERE e."id" IS NOT NULL
+     ) AS u
+     WHERE e."id" LIKE 'bench_event_%' AND u."id" <> e."hostId"
+     ON CONFLICT DO NOTHING`,
+    [USER_COUNT]
+  );
+  await client.query(
+    `INSERT INTO "Message" ("id", "content", "joinRequestId", "senderId", "createdAt")
+     SELECT
+       'bench_msg_' || jr."id" || '_' || g,
+       'Bench message ' || g,
+       jr."id",
+       CASE WHEN g % 2 = 0 THEN e."hostId" ELSE jr."userId" END,
+       NOW() - (random() * INTERVAL '12 hours')
+     FROM "JoinRequest" jr
+     INNER JOIN "Event" e ON e."id" = jr."eventId"
+     CROSS JOIN generate_series(1, 4) AS g
+     WHERE jr."id" LIKE 'bench_jr_%' AND jr."status" = 'ACCEPTED'`
+  );
+  await client.query('COMMIT');
+  await client.query('ANALYZE "User", "Event", "JoinRequest", "Message"');
+};
+
+const cleanup = async (client) => {
+  console.log('Removing seeded rows...');
+  await client.query('BEGIN');
+  await client.query(`DELETE FROM "Message" WHERE "id" LIKE 'bench_msg_%'`);
+  await client.query(`DELETE FROM "JoinRequest" WHERE "id" LIKE 'bench_jr_%'`);
+  await client.query(`DELETE FROM "Event" WHERE "id" LIKE 'bench_event_%'`);
+  await client.query(`DELETE FROM "User" WHERE "id" LIKE 'bench_user_%'`);
+  await client.query('COMMIT');
+};
+
+const percentile = (sorted, p) => sorted[Math.min(sorted.length - 1, Math.floor((p / 100) * sorted.length))];
+
+const benchmark = async (client, label, sql, params) => {
+  const { rows: plan } = await client.query(`EXPLAIN (ANALYZE, BUFFERS) ${sql}`, params);
+  console.log(`\n=== ${label}: plan ===`);
+  console.log(plan.map((row) => row['QUERY PLAN']).join('\n'));
+
+  const timings = [];
+  let rowCount = 0;
+  for (let i = 0; i < ITERATIONS; i += 1) {
+    const started = process.hrtime.bigint();
+    const result = await client.query(sql, params);
+    timings.push(Number(process.hrtime.bigint() - started) / 1e6);
+    rowCount = result.rowCount ?? 0;
+  }
+  timings.sort((a, b) => a - b);
+  console.log(
+    `=== ${label}: ${rowCount} rows, p50 ${percentile(timings, 50).toFixed(1)}ms, ` +
+      `p95 ${percentile(timings, 95).toFixed(1)}ms over ${ITERATIONS} runs ===`
+  );
+};
+
+const client = new pg.Client({ connectionString: process.env.DATABASE_URL });
+await client.connect();
+
+let exitCode = 0;
+try {
+  await seed(client);
+
+  await benchmark(client, 'nearby', NEARBY_SQL, [VIEWER_ID, CENTER.latitude, CENTER.longitude, RADIUS_METERS]);
+
+  const halfLat = latSpread / 8;
+  const halfLng = lngSpread / 8;
+  const viewportRadius = Math.hypot(halfLat * 111, halfLng * 111 * Math.cos((CENTER.latitude * Math.PI) / 180)) * 1010;
+  await benchmark(client, 'viewport', VIEWPORT_SQL, [
+    VIEWER_ID,
+    CENTER.latitude,
+    CENTER.longitude,
+    viewportRadius,
+    CENTER.longitude - halfLng,
+    CENTER.latitude - halfLat,
+    CENTER.longitude + halfLng,
+    CENTER.latitude + halfLat,
+  ]);
+} catch (error) {
+  exitCode = 1;
+  console.error('Benchmark failed', error);
+  await client.query('ROLLBACK').catch(() => undefined);
+} finally {
+  if (!args.keep) {
+    await cleanup(client).catch((error) => {
+      exitCode = 1;
+      console.error('Cleanup failed', error);
+    });
+  }
+  await client.end();
+}
+
+process.exit(exitCode);
@@ -0,0 +1,38 @@
+#!/usr/bin/env node
+// Triggers scheduled jobs on a running server, e.g. from cron:
+//   JOBS_SECRET=... APP_URL=https://tonight.example npm run jobs:run -- expire-events
+// With no job names every registered job runs.
+import 'dotenv/config';
+
+const appUrl = (process.env.APP_URL ?? 'http://localhost:3000').replace(/\/$/, '');
+const secret = process.env.JOBS_SECRET;
+
+if (!secret) {
+  console.error('JOBS_SECRET must be set to trigger jobs');
+  process.exit(1);
+}
+
+const jobs = process.argv.slice(2);
+
+const response = await fetch(`${appUrl}/api/jobs/run`, {
+  method: 'POST',
+  headers: {
+    Authorization: `Bearer ${secret}`,
+    'Content-Type': 'application/json',
+  },
+  body: JSON.stringify(jobs.length > 0 ? { jobs } : {}),
+});
+
+const payload = await response.json().catch(() => null);
+
+if (!payload || !Array.isArray(payload.results)) {
+  console.error(`Job trigger failed with HTTP ${response.status}`, payload ?? '');
+  process.exit(1);
+}
+
+for (const result of payload.results) {
+  const detail = result.error ?? JSON.stringify(result.result ?? {});
+  console.log(`${result.name}: ${result.status} in ${result.durationMs}ms ${detail}`);
+}
+
+process.exit(response.ok ? 0 : 1);
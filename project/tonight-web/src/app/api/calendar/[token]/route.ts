@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { renderCalendarFeed } from '@/lib/calendar-feed';
+import { CALENDAR_CONTENT_TYPE } from '@/lib/calendar';
+import { createErrorResponse, handleRouteError } from '@/lib/http/errors';
+
+type RouteContext = {
+  params: Promise<{
+    token: string;
+  }>;
+};
+
+const ROUTE_CONTEXT = 'GET /api/calendar/[token]';
+
+// Some calendar apps only subscribe to URLs that look like a file.
+const stripIcsExtension = (value: string) => value.replace(/\.ics$/i, '');
+
+export const getCalendarFeedHandler = async (_request: NextRequest, context: RouteContext) => {
+  const params = await context.params;
+  const token = params.token ? stripIcsExtension(params.token) : '';
+  if (!token) {
+    return createErrorResponse({
+      message: 'Calendar feed not found',
+      status: 404,
+      context: ROUTE_CONTEXT,
+    });
+  }
+
+  try {
+    const calendar = await renderCalendarFeed(token);
+    if (!calendar) {
+      return createErrorResponse({
+        message: 'Calendar feed not found',
+        status: 404,
+        context: ROUTE_CONTEXT,
+      });
+    }
+
+    return new NextResponse(calendar, {
+      status: 200,
+      headers: {
+        'Content-Type': CALENDAR_CONTENT_TYPE,
+        'Content-Disposition': 'inline; filename="tonight.ics"',
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  } catch (error) {
+    return handleRouteError(error, ROUTE_CONTEXT, 'Unable to load calendar feed');
+  }
+};
+
+export const GET = getCalendarFeedHandler;
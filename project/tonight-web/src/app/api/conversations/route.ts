@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server';
 import { requireAuth } from '@/middleware/auth';
 import { prisma } from '@/lib/prisma';
+import { getCategoryLabel } from '@/lib/categories';
 
 export const GET = requireAuth(async (request, context, auth) => {
   const userId = auth.userId;
@@ -20,6 +21,7 @@ export const GET = requireAuth(async (request, context, auth) => {
             title: true,
             datetime: true,
             locationName: true,
+            category: true,
             host: {
               select: {
                 id: true,
@@ -98,7 +100,7 @@ export const GET = requireAuth(async (request, context, auth) => {
         participantName: otherUser.displayName || otherUser.email.split('@')[0],
         eventTitle: jr.event.title,
         locationName: jr.event.locationName ?? undefined,
-        eventCategoryLabel: "Social", // TODO: Add category to Event model if needed
+        eventCategoryLabel: getCategoryLabel(jr.event.category) ?? undefined,
         messageSnippet: lastMessage?.content || (jr.status === 'PENDING' ? 'Waiting for host response...' : 'No messages yet'),
         updatedAtLabel,
         unreadCount: unreadMap.get(jr.id) || 0
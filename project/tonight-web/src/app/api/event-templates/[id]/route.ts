@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server';
+import type { AuthenticatedRouteHandler } from '@/middleware/auth';
+import { requireAuth } from '@/middleware/auth';
+import { deleteEventTemplate, EventTemplateNotFoundError } from '@/lib/event-templates';
+import { createErrorResponse, handleRouteError } from '@/lib/http/errors';
+
+type RouteContext = {
+  params: Promise<{
+    id?: string;
+  }>;
+};
+
+const ROUTE_CONTEXT = 'DELETE /api/event-templates/[id]';
+
+export const deleteEventTemplateHandler: AuthenticatedRouteHandler<NextResponse> = async (_request, context, auth) => {
+  const params = await (context as RouteContext).params;
+  const templateId = params?.id;
+  if (!templateId) {
+    return createErrorResponse({
+      message: 'Template id is required',
+      status: 400,
+      context: ROUTE_CONTEXT,
+    });
+  }
+
+  try {
+    await deleteEventTemplate({ hostId: auth.userId, templateId });
+    return NextResponse.json({ deleted: true });
+  } catch (error) {
+    if (error instanceof EventTemplateNotFoundError) {
+      return createErrorResponse({ message: 'Template not found', status: 404, context: ROUTE_CONTEXT });
+    }
+    return handleRouteError(error, ROUTE_CONTEXT, 'Unable to delete template');
+  }
+};
+
+export const DELETE = requireAuth(deleteEventTemplateHandler);
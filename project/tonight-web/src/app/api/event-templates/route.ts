@@ -0,0 +1,214 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { AuthenticatedRouteHandler } from '@/middleware/auth';
+import { requireAuth } from '@/middleware/auth';
+import {
+  listEventTemplates,
+  saveEventTemplate,
+  EventTemplateLimitError,
+  type EventTemplateFields,
+} from '@/lib/event-templates';
+import { createErrorResponse, handleRouteError } from '@/lib/http/errors';
+import { CATEGORY_IDS, isCategoryId } from '@/lib/categories';
+import { MAX_EVENT_DURATION_MINUTES } from '@/lib/event-timing';
+import { DEFAULT_EVENT_VISIBILITY, EVENT_VISIBILITIES, isEventVisibility } from '@/lib/event-visibility';
+import { EVENT_DEFAULT_MAX_PARTICIPANTS } from '@/app/api/events/route';
+
+const NAME_MAX = 60;
+const TITLE_MIN = 3;
+const TITLE_MAX = 120;
+const DESCRIPTION_MAX = 2000;
+const LOCATION_NAME_MAX = 120;
+const MAX_PARTICIPANTS_MIN = 2;
+const MAX_PARTICIPANTS_MAX = 50;
+
+const GET_ROUTE_CONTEXT = 'GET /api/event-templates';
+const POST_ROUTE_CONTEXT = 'POST /api/event-templates';
+
+type ValidationResult =
+  | { ok: true; data: { name: string; fields: EventTemplateFields } }
+  | { ok: false; errors: Record<string, string> };
+
+const parseJson = async (request: NextRequest) => {
+  try {
+    return (await request.json()) as Record<string, unknown>;
+  } catch {
+    return null;
+  }
+};
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isBlank = (value: unknown) => typeof value === 'undefined' || value === null || value === '';
+
+const normalizeOptionalString = (value: unknown, max: number, label: string) => {
+  if (isBlank(value)) {
+    return { value: null } as const;
+  }
+  if (typeof value !== 'string') {
+    return { error: `${label} must be a string` } as const;
+  }
+  const trimmed = value.trim();
+  if (trimmed.length > max) {
+    return { error: `${label} must be at most ${max} characters` } as const;
+  }
+  return { value: trimmed.length > 0 ? trimmed : null } as const;
+};
+
+const normalizeLocation = (value: unknown) => {
+  if (isBlank(value)) {
+    return { value: null } as const;
+  }
+  if (typeof value !== 'object') {
+    return { error: 'Location must be an object with latitude and longitude' } as const;
+  }
+  const { latitude, longitude } = value as Record<string, unknown>;
+  if (!isFiniteNumber(latitude) || latitude < -90 || latitude > 90) {
+    return { error: 'Latitude must be a number between -90 and 90' } as const;
+  }
+  if (!isFiniteNumber(longitude) || longitude < -180 || longitude > 180) {
+    return { error: 'Longitude must be a number between -180 and 180' } as const;
+  }
+  return { value: { latitude, longitude } } as const;
+};
+
+/**
+ * Templates are looser than events: only a name and title are required, since
+ * hosts often save a plan before they know where it will happen.
+ */
+export const validateEventTemplatePayload = (body: Record<string, unknown>): ValidationResult => {
+  const errors: Record<string, string> = {};
+
+  const name = typeof body.name === 'string' ? body.name.trim() : '';
+  if (name.length === 0 || name.length > NAME_MAX) {
+    errors.name = `Template name must be between 1 and ${NAME_MAX} characters`;
+  }
+
+  const title = typeof body.title === 'string' ? body.title.trim() : '';
+  if (title.length < TITLE_MIN || title.length > TITLE_MAX) {
+    errors.title = `Title must be between ${TITLE_MIN} and ${TITLE_MAX} characters`;
+  }
+
+  const descriptionField = normalizeOptionalString(body.description, DESCRIPTION_MAX, 'Description');
+  if ('error' in descriptionField) {
+    errors.description = descriptionField.error ?? 'Invalid description';
+  }
+
+  const locationNameField = normalizeOptionalString(body.locationName, LOCATION_NAME_MAX, 'Location name');
+  if ('error' in locationNameField) {
+    errors.locationName = locationNameField.error ?? 'Invalid location name';
+  }
+
+  const locationField = normalizeLocation(body.location);
+  if ('error' in locationField) {
+    errors.location = locationField.error ?? 'Invalid location';
+  }
+
+  let durationMinutes: number | null = null;
+  if (!isBlank(body.durationMinutes)) {
+    const value = body.durationMinutes;
+    if (!isFiniteNumber(value) || Math.floor(value) !== value || value <= 0 || value > MAX_EVENT_DURATION_MINUTES) {
+      errors.durationMinutes = `durationMinutes must be a whole number between 1 and ${MAX_EVENT_DURATION_MINUTES}`;
+    } else {
+      durationMinutes = value;
+    }
+  }
+
+  let maxParticipants = EVENT_DEFAULT_MAX_PARTICIPANTS;
+  if (!isBlank(body.maxParticipants)) {
+    const value = body.maxParticipants;
+    if (!isFiniteNumber(value) || Math.floor(value) !== value || value < MAX_PARTICIPANTS_MIN || value > MAX_PARTICIPANTS_MAX) {
+      errors.maxParticipants = `maxParticipants must be between ${MAX_PARTICIPANTS_MIN} and ${MAX_PARTICIPANTS_MAX}`;
+    } else {
+      maxParticipants = value;
+    }
+  }
+
+  const categoryInput = isBlank(body.category) ? null : String(body.category).trim().toLowerCase();
+  const category = categoryInput !== null && isCategoryId(categoryInput) ? categoryInput : null;
+  if (categoryInput !== null && !category) {
+    errors.category = `Category must be one of: ${CATEGORY_IDS.join(', ')}`;
+  }
+
+  // Same spellings as events: enum values or lower-case, hyphenated ("invite-only").
+  const visibilityInput = isBlank(body.visibility)
+    ? DEFAULT_EVENT_VISIBILITY
+    : String(body.visibility).trim().toUpperCase().replace(/-/g, '_');
+  const visibility = isEventVisibility(visibilityInput) ? visibilityInput : null;
+  if (!visibility) {
+    errors.visibility = `Visibility must be one of: ${EVENT_VISIBILITIES.join(', ')}`;
+  }
+
+  if (
+    Object.keys(errors).length > 0 ||
+    'error' in descriptionField ||
+    'error' in locationNameField ||
+    'error' in locationField ||
+    !visibility
+  ) {
+    return { ok: false, errors };
+  }
+
+  return {
+    ok: true,
+    data: {
+      name,
+      fields: {
+        title,
+        description: descriptionField.value ?? '',
+        durationMinutes,
+        location: locationField.value,
+        locationName: locationNameField.value,
+        category,
+        maxParticipants,
+        visibility,
+      },
+    },
+  };
+};
+
+export const listEventTemplatesHandler: AuthenticatedRouteHandler<NextResponse> = async (_request, _context, auth) => {
+  try {
+    const templates = await listEventTemplates(auth.userId);
+    return NextResponse.json({ templates });
+  } catch (error) {
+    return handleRouteError(error, GET_ROUTE_CONTEXT, 'Unable to load templates');
+  }
+};
+
+export const saveEventTemplateHandler: AuthenticatedRouteHandler<NextResponse> = async (request, _context, auth) => {
+  const body = await parseJson(request);
+  if (!body) {
+    return createErrorResponse({
+      message: 'Invalid JSON body',
+      status: 400,
+      context: POST_ROUTE_CONTEXT,
+    });
+  }
+
+  const validation = validateEventTemplatePayload(body);
+  if (!validation.ok) {
+    return createErrorResponse({
+      message: 'Invalid template data',
+      status: 400,
+      context: POST_ROUTE_CONTEXT,
+      errors: validation.errors,
+    });
+  }
+
+  try {
+    const template = await saveEventTemplate({ hostId: auth.userId, ...validation.data });
+    return NextResponse.json({ template }, { status: 201 });
+  } catch (error) {
+    if (error instanceof EventTemplateLimitError) {
+      return createErrorResponse({
+        message: error.message,
+        status: 409,
+        context: POST_ROUTE_CONTEXT,
+      });
+    }
+    return handleRouteError(error, POST_ROUTE_CONTEXT, 'Unable to save template');
+  }
+};
+
+export const GET = requireAuth(listEventTemplatesHandler);
+export const POST = requireAuth(saveEventTemplateHandler);
@@ -0,0 +1,154 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { AuthenticatedRouteHandler } from '@/middleware/auth';
+import { requireAuth } from '@/middleware/auth';
+import {
+  cancelEvent,
+  EventInactiveError,
+  EventNotFoundError,
+  EventUnauthorizedError,
+} from '@/lib/events';
+import { cancelEventSeries, EventNotInSeriesError } from '@/lib/event-series';
+import { notifyEventCancelled } from '@/lib/event-notifications';
+import { normalizeEditScope } from '@/app/api/events/[id]/route';
+import { createErrorResponse, handleRouteError } from '@/lib/http/errors';
+
+type RouteContext = {
+  params: Promise<{
+    id?: string;
+  }>;
+};
+
+export const CANCELLATION_REASON_MAX = 500;
+
+const ROUTE_CONTEXT = 'POST /api/events/[id]/cancel';
+
+const parseJson = async (request: NextRequest) => {
+  try {
+    const text = await request.text();
+    return text ? (JSON.parse(text) as Record<string, unknown>) : {};
+  } catch {
+    return null;
+  }
+};
+
+const normalizeReason = (value: unknown) => {
+  if (typeof value === 'undefined' || value === null) {
+    return { value: null } as const;
+  }
+
+  if (typeof value !== 'string') {
+    return { error: 'Reason must be a string' } as const;
+  }
+
+  const trimmed = value.trim();
+  if (trimmed.length > CANCELLATION_REASON_MAX) {
+    return { error: `Reason must be at most ${CANCELLATION_REASON_MAX} characters` } as const;
+  }
+
+  return { value: trimmed || null } as const;
+};
+
+export const cancelEventHandler: AuthenticatedRouteHandler<NextResponse> = async (request, context, auth) => {
+  const params = await (context as RouteContext).params;
+  const eventId = params?.id;
+  if (!eventId) {
+    return createErrorResponse({
+      message: 'Event id is required',
+      status: 400,
+      context: ROUTE_CONTEXT,
+    });
+  }
+
+  // The body is optional; hosts can cancel without giving a reason.
+  const body = await parseJson(request);
+  if (!body) {
+    return createErrorResponse({
+      message: 'Invalid JSON body',
+      status: 400,
+      context: ROUTE_CONTEXT,
+    });
+  }
+
+  const reasonField = normalizeReason(body.reason);
+  if ('error' in reasonField) {
+    return createErrorResponse({
+      message: reasonField.error ?? 'Invalid reason',
+      status: 400,
+      context: ROUTE_CONTEXT,
+      errors: { reason: reasonField.error ?? 'Invalid reason' },
+    });
+  }
+
+  const scopeField = normalizeEditScope(body.scope);
+  if ('error' in scopeField) {
+    return createErrorResponse({
+      message: scopeField.error ?? 'Invalid scope',
+      status: 400,
+      context: ROUTE_CONTEXT,
+      errors: { scope: scopeField.error ?? 'Invalid scope' },
+    });
+  }
+
+  try {
+    const input = { eventId, hostId: auth.userId, reason: reasonField.value };
+    const results = scopeField.value === 'series' ? await cancelEventSeries(input) : [await cancelEvent(input)];
+
+    let rejectedJoinRequests = 0;
+    let notified = 0;
+    for (const result of results) {
+      const { event } = result;
+      rejectedJoinRequests += result.rejectedJoinRequests.length;
+      notified += (
+        await notifyEventCancelled(
+          { id: event.id, hostId: event.host.id, updatedAt: event.updatedAt },
+          reasonField.value,
+          result.rejectedJoinRequests
+        )
+      ).length;
+    }
+
+    return NextResponse.json({
+      event: results[0].event,
+      occurrences: results.length,
+      rejectedJoinRequests,
+      notified,
+    });
+  } catch (error) {
+    if (error instanceof EventNotFoundError) {
+      return createErrorResponse({
+        message: 'Event not found',
+        status: 404,
+        context: ROUTE_CONTEXT,
+      });
+    }
+
+    if (error instanceof EventUnauthorizedError) {
+      return createErrorResponse({
+        message: 'Only the host can cancel this event',
+        status: 403,
+        context: ROUTE_CONTEXT,
+      });
+    }
+
+    if (error instanceof EventNotInSeriesError) {
+      return createErrorResponse({
+        message: error.message,
+        status: 400,
+        context: ROUTE_CONTEXT,
+        errors: { scope: error.message },
+      });
+    }
+
+    if (error instanceof EventInactiveError) {
+      return createErrorResponse({
+        message: 'Only active events can be cancelled',
+        status: 409,
+        context: ROUTE_CONTEXT,
+      });
+    }
+
+    return handleRouteError(error, ROUTE_CONTEXT, 'Unable to cancel event');
+  }
+};
+
+export const POST = requireAuth(cancelEventHandler);
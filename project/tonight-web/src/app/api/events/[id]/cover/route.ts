@@ -0,0 +1,123 @@
+import { NextResponse } from 'next/server';
+import type { AuthenticatedRouteHandler } from '@/middleware/auth';
+import { requireAuth } from '@/middleware/auth';
+import {
+  removeEventCoverImage,
+  setEventCoverImage,
+  EventCoverError,
+  EventCoverEventNotFoundError,
+  EventCoverImageError,
+  EventCoverInactiveEventError,
+  EventCoverUnauthorizedError,
+  MAX_COVER_IMAGE_BYTES,
+} from '@/lib/event-covers';
+import { createErrorResponse, handleRouteError } from '@/lib/http/errors';
+import { readUploadedFile } from '@/lib/http/uploads';
+import { isAcceptedImageType } from '@/lib/media-storage';
+
+type RouteContext = {
+  params: Promise<{
+    id: string;
+  }>;
+};
+
+const PUT_ROUTE_CONTEXT = 'PUT /api/events/[id]/cover';
+const DELETE_ROUTE_CONTEXT = 'DELETE /api/events/[id]/cover';
+
+const mapCoverError = (error: EventCoverError, context: string) => {
+  if (error instanceof EventCoverEventNotFoundError) {
+    return createErrorResponse({ message: 'Event not found', status: 404, context });
+  }
+  if (error instanceof EventCoverUnauthorizedError) {
+    return createErrorResponse({ message: error.message, status: 403, context });
+  }
+  if (error instanceof EventCoverInactiveEventError) {
+    return createErrorResponse({ message: 'Cover images can only change on active events', status: 409, context });
+  }
+  if (error instanceof EventCoverImageError) {
+    return createErrorResponse({ message: error.message, status: 400, context });
+  }
+  return null;
+};
+
+export const putEventCoverHandler: AuthenticatedRouteHandler<NextResponse> = async (request, context, auth) => {
+  const params = await (context as RouteContext).params;
+  const eventId = params?.id;
+  if (!eventId) {
+    return createErrorResponse({
+      message: 'Event id is required',
+      status: 400,
+      context: PUT_ROUTE_CONTEXT,
+    });
+  }
+
+  const file = await readUploadedFile(request);
+  if (!file) {
+    return createErrorResponse({
+      message: 'Upload the cover image as multipart form data in a "file" field',
+      status: 400,
+      context: PUT_ROUTE_CONTEXT,
+    });
+  }
+
+  if (!isAcceptedImageType(file.type)) {
+    return createErrorResponse({
+      message: 'Cover images must be JPEG, PNG or WebP',
+      status: 415,
+      context: PUT_ROUTE_CONTEXT,
+    });
+  }
+
+  if (file.size > MAX_COVER_IMAGE_BYTES) {
+    return createErrorResponse({
+      message: 'Cover image must be 8MB or smaller',
+      status: 413,
+      context: PUT_ROUTE_CONTEXT,
+    });
+  }
+
+  try {
+    const coverImage = await setEventCoverImage({
+      eventId,
+      hostId: auth.userId,
+      data: Buffer.from(await file.arrayBuffer()),
+    });
+    return NextResponse.json({ coverImage });
+  } catch (error) {
+    if (error instanceof EventCoverError) {
+      const response = mapCoverError(error, PUT_ROUTE_CONTEXT);
+      if (response) {
+        return response;
+      }
+    }
+    return handleRouteError(error, PUT_ROUTE_CONTEXT, 'Unable to save cover image');
+  }
+};
+
+export const deleteEventCoverHandler: AuthenticatedRouteHandler<NextResponse> = async (_request, context, auth) => {
+  const params = await (context as RouteContext).params;
+  const eventId = params?.id;
+  if (!eventId) {
+    return createErrorResponse({
+      message: 'Event id is required',
+      status: 400,
+      context: DELETE_ROUTE_CONTEXT,
+    });
+  }
+
+  try {
+    await removeEventCoverImage({ eventId, hostId: auth.userId });
+    return NextResponse.json({ coverImage: null });
+  } catch (error) {
+    if (error instanceof EventCoverError) {
+      const response = mapCoverError(error, DELETE_ROUTE_CONTEXT);
+      if (response) {
+        return response;
+      }
+    }
+    return handleRouteError(error, DELETE_ROUTE_CONTEXT, 'Unable to remove cover image');
+  }
+};
+
+export const PUT = requireAuth(putEventCoverHandler);
+export const DELETE = requireAuth(deleteEventCoverHandler);
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/middleware/auth';
+import { canViewEvent, fetchEventById, serializeEvent } from '@/lib/events';
+import { buildCalendar, buildCalendarFilename, CALENDAR_CONTENT_TYPE } from '@/lib/calendar';
+import { createErrorResponse, handleRouteError } from '@/lib/http/errors';
+
+type RouteContext = {
+  params: Promise<{
+    id: string;
+  }>;
+};
+
+const ROUTE_CONTEXT = 'GET /api/events/[id]/ics';
+
+export const getEventCalendarHandler = async (request: NextRequest, context: RouteContext) => {
+  const params = await context.params;
+  const eventId = params.id;
+  if (!eventId) {
+    return createErrorResponse({
+      message: 'Event id is required',
+      status: 400,
+      context: ROUTE_CONTEXT,
+    });
+  }
+
+  try {
+    const record = await fetchEventById(eventId);
+    const auth = record ? await getCurrentUser(request) : null;
+    if (!record || !(await canViewEvent(record, auth?.userId ?? null))) {
+      return createErrorResponse({
+        message: 'Event not found',
+        status: 404,
+        context: ROUTE_CONTEXT,
+      });
+    }
+
+    const event = serializeEvent(record);
+    return new NextResponse(buildCalendar([event]), {
+      status: 200,
+      headers: {
+        'Content-Type': CALENDAR_CONTENT_TYPE,
+        'Content-Disposition': `attachment; filename="${buildCalendarFilename(event.title)}"`,
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  } catch (error) {
+    return handleRouteError(error, ROUTE_CONTEXT, 'Unable to export event');
+  }
+};
+
+export const GET = getEventCalendarHandler;
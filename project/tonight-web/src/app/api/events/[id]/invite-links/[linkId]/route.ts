@@ -0,0 +1,57 @@
+import { NextResponse } from 'next/server';
+import type { AuthenticatedRouteHandler } from '@/middleware/auth';
+import { requireAuth } from '@/middleware/auth';
+import {
+  revokeEventInviteLink,
+  EventInviteLinkEventNotFoundError,
+  EventInviteLinkNotFoundError,
+  EventInviteLinkUnauthorizedError,
+} from '@/lib/event-invite-links';
+import { createErrorResponse, handleRouteError } from '@/lib/http/errors';
+
+type RouteContext = {
+  params: Promise<{
+    id?: string;
+    linkId?: string;
+  }>;
+};
+
+const ROUTE_CONTEXT = 'DELETE /api/events/[id]/invite-links/[linkId]';
+
+export const revokeInviteLinkHandler: AuthenticatedRouteHandler<NextResponse> = async (_request, context, auth) => {
+  const params = await (context as RouteContext).params;
+  const eventId = params?.id;
+  const inviteLinkId = params?.linkId;
+  if (!eventId || !inviteLinkId) {
+    return createErrorResponse({
+      message: 'Event id and invite link id are required',
+      status: 400,
+      context: ROUTE_CONTEXT,
+    });
+  }
+
+  try {
+    const inviteLink = await revokeEventInviteLink({ eventId, inviteLinkId, hostId: auth.userId });
+    return NextResponse.json({ inviteLink });
+  } catch (error) {
+    if (error instanceof EventInviteLinkEventNotFoundError) {
+      return createErrorResponse({ message: 'Event not found', status: 404, context: ROUTE_CONTEXT });
+    }
+
+    if (error instanceof EventInviteLinkNotFoundError) {
+      return createErrorResponse({ message: 'Invite link not found', status: 404, context: ROUTE_CONTEXT });
+    }
+
+    if (error instanceof EventInviteLinkUnauthorizedError) {
+      return createErrorResponse({
+        message: 'Only the host can manage invite links for this event',
+        status: 403,
+        context: ROUTE_CONTEXT,
+      });
+    }
+
+    return handleRouteError(error, ROUTE_CONTEXT, 'Unable to revoke invite link');
+  }
+};
+
+export const DELETE = requireAuth(revokeInviteLinkHandler);
@@ -0,0 +1,141 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { AuthenticatedRouteHandler } from '@/middleware/auth';
+import { requireAuth } from '@/middleware/auth';
+import {
+  createEventInviteLink,
+  listEventInviteLinks,
+  EventInviteLinkEventNotFoundError,
+  EventInviteLinkUnauthorizedError,
+  MAX_INVITE_LINK_EXPIRATION_HOURS,
+  MAX_INVITE_LINK_USES,
+} from '@/lib/event-invite-links';
+import { JoinRequestInactiveEventError } from '@/lib/join-requests';
+import { createErrorResponse, handleRouteError } from '@/lib/http/errors';
+
+type RouteContext = {
+  params: Promise<{
+    id?: string;
+  }>;
+};
+
+const GET_ROUTE_CONTEXT = 'GET /api/events/[id]/invite-links';
+const POST_ROUTE_CONTEXT = 'POST /api/events/[id]/invite-links';
+
+const parseJson = async (request: NextRequest) => {
+  try {
+    return (await request.json()) as Record<string, unknown>;
+  } catch {
+    return null;
+  }
+};
+
+const normalizeBoundedInteger = (value: unknown, max: number, label: string) => {
+  if (typeof value === 'undefined' || value === null) {
+    return { value: undefined } as const;
+  }
+
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 1 || value > max) {
+    return { error: `${label} must be an integer between 1 and ${max}` } as const;
+  }
+
+  return { value } as const;
+};
+
+const mapHostError = (error: unknown, context: string) => {
+  if (error instanceof EventInviteLinkEventNotFoundError) {
+    return createErrorResponse({ message: 'Event not found', status: 404, context });
+  }
+
+  if (error instanceof EventInviteLinkUnauthorizedError) {
+    return createErrorResponse({
+      message: 'Only the host can manage invite links for this event',
+      status: 403,
+      context,
+    });
+  }
+
+  return null;
+};
+
+export const listInviteLinksHandler: AuthenticatedRouteHandler<NextResponse> = async (_request, context, auth) => {
+  const params = await (context as RouteContext).params;
+  const eventId = params?.id;
+  if (!eventId) {
+    return createErrorResponse({
+      message: 'Event id is required',
+      status: 400,
+      context: GET_ROUTE_CONTEXT,
+    });
+  }
+
+  try {
+    const inviteLinks = await listEventInviteLinks({ eventId, hostId: auth.userId });
+    return NextResponse.json({ inviteLinks });
+  } catch (error) {
+    return mapHostError(error, GET_ROUTE_CONTEXT) ?? handleRouteError(error, GET_ROUTE_CONTEXT, 'Unable to list invite links');
+  }
+};
+
+export const createInviteLinkHandler: AuthenticatedRouteHandler<NextResponse> = async (request, context, auth) => {
+  const params = await (context as RouteContext).params;
+  const eventId = params?.id;
+  if (!eventId) {
+    return createErrorResponse({
+      message: 'Event id is required',
+      status: 400,
+      context: POST_ROUTE_CONTEXT,
+    });
+  }
+
+  const body = await parseJson(request);
+  if (!body) {
+    return createErrorResponse({
+      message: 'Invalid JSON body',
+      status: 400,
+      context: POST_ROUTE_CONTEXT,
+    });
+  }
+
+  const errors: Record<string, string> = {};
+  const expiresField = normalizeBoundedInteger(body.expiresInHours, MAX_INVITE_LINK_EXPIRATION_HOURS, 'expiresInHours');
+  if ('error' in expiresField) {
+    errors.expiresInHours = expiresField.error ?? 'Invalid expiry';
+  }
+  const maxUsesField = normalizeBoundedInteger(body.maxUses, MAX_INVITE_LINK_USES, 'maxUses');
+  if ('error' in maxUsesField) {
+    errors.maxUses = maxUsesField.error ?? 'Invalid use limit';
+  }
+
+  if ('error' in expiresField || 'error' in maxUsesField) {
+    return createErrorResponse({
+      message: 'Invalid invite link settings',
+      status: 400,
+      context: POST_ROUTE_CONTEXT,
+      errors,
+    });
+  }
+
+  try {
+    const inviteLink = await createEventInviteLink({
+      eventId,
+      hostId: auth.userId,
+      expiresInHours: expiresField.value,
+      maxUses: maxUsesField.value ?? null,
+    });
+
+    return NextResponse.json({ inviteLink }, { status: 201 });
+  } catch (error) {
+    if (error instanceof JoinRequestInactiveEventError) {
+      return createErrorResponse({
+        message: 'Invite links can only be created for active events',
+        status: 409,
+        context: POST_ROUTE_CONTEXT,
+      });
+    }
+
+    return mapHostError(error, POST_ROUTE_CONTEXT) ?? handleRouteError(error, POST_ROUTE_CONTEXT, 'Unable to create invite link');
+  }
+};
+
+export const GET = requireAuth(listInviteLinksHandler);
+export const POST = requireAuth(createInviteLinkHandler);
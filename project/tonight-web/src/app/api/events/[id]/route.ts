@@ -1,6 +1,22 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { fetchEventById, serializeEvent } from '@/lib/events';
+import type { AuthenticatedRouteHandler } from '@/middleware/auth';
+import { getCurrentUser, requireAuth } from '@/middleware/auth';
+import {
+  canViewEvent,
+  fetchEventById,
+  serializeEvent,
+  updateEvent,
+  EventCapacityError,
+  EventInactiveError,
+  EventNotFoundError,
+  EventUnauthorizedError,
+  type SerializedEvent,
+} from '@/lib/events';
+import { EventNotInSeriesError, updateEventSeries } from '@/lib/event-series';
+import { notifyEventUpdated, notifyWaitlistPromotions } from '@/lib/event-notifications';
+import { promoteWaitlistedJoinRequests } from '@/lib/join-requests';
 import { createErrorResponse, handleRouteError } from '@/lib/http/errors';
+import { validateEventPayload, validateJoinQuestionsPayload } from '@/app/api/events/route';
 
 type RouteContext = {
   params: Promise<{
@@ -9,8 +25,17 @@ type RouteContext = {
 };
 
 const ROUTE_CONTEXT = 'GET /api/events/[id]';
+const PATCH_ROUTE_CONTEXT = 'PATCH /api/events/[id]';
 
-export const getEventHandler = async (_request: NextRequest, context: RouteContext) => {
+const parseJson = async (request: NextRequest) => {
+  try {
+    return (await request.json()) as Record<string, unknown>;
+  } catch {
+    return null;
+  }
+};
+
+export const getEventHandler = async (request: NextRequest, context: RouteContext) => {
   const params = await context.params;
   const eventId = params.id;
   if (!eventId) {
@@ -23,7 +48,9 @@ export const getEventHandler = async (_request: NextRequest, context: RouteConte
 
   try {
     const record = await fetchEventById(eventId);
-    if (!record) {
+    // Invite-only events look missing to everyone else, so their ids can't be probed.
+    const auth = record ? await getCurrentUser(request) : null;
+    if (!record || !(await canViewEvent(record, auth?.userId ?? null))) {
       return createErrorResponse({
         message: 'Event not found',
         status: 404,
@@ -38,3 +65,206 @@ export const getEventHandler = async (_request: NextRequest, context: RouteConte
 };
 
 export const GET = getEventHandler;
+
+// Edits apply to one occurrence unless `scope` is "series", which also updates
+// every later occurrence of a recurring event.
+export const EDIT_SCOPES = ['occurrence', 'series'] as const;
+
+export type EditScope = (typeof EDIT_SCOPES)[number];
+
+export const normalizeEditScope = (value: unknown) => {
+  if (typeof value === 'undefined' || value === null) {
+    return { value: 'occurrence' } as const;
+  }
+
+  if (typeof value !== 'string' || !(EDIT_SCOPES as readonly string[]).includes(value)) {
+    return { error: `Scope must be one of: ${EDIT_SCOPES.join(', ')}` } as const;
+  }
+
+  return { value: value as EditScope } as const;
+};
+
+// Moving the start without touching the end keeps the current duration, and an
+// explicit duration replaces the stored end time.
+const resolveCurrentEnd = (current: SerializedEvent, body: Record<string, unknown>) => {
+  if ('endDatetime' in body || 'durationMinutes' in body || !current.endDatetime) {
+    return {};
+  }
+
+  if ('datetime' in body) {
+    const durationMs = new Date(current.endDatetime).getTime() - new Date(current.datetime).getTime();
+    return { durationMinutes: Math.round(durationMs / (60 * 1000)) };
+  }
+
+  return { endDatetime: current.endDatetime };
+};
+
+export const patchEventHandler: AuthenticatedRouteHandler<NextResponse> = async (request, context, auth) => {
+  const params = await (context as RouteContext).params;
+  const eventId = params?.id;
+  if (!eventId) {
+    return createErrorResponse({
+      message: 'Event id is required',
+      status: 400,
+      context: PATCH_ROUTE_CONTEXT,
+    });
+  }
+
+  const body = await parseJson(request);
+  if (!body) {
+    return createErrorResponse({
+      message: 'Invalid JSON body',
+      status: 400,
+      context: PATCH_ROUTE_CONTEXT,
+    });
+  }
+
+  const scopeField = normalizeEditScope(body.scope);
+  if ('error' in scopeField) {
+    return createErrorResponse({
+      message: scopeField.error ?? 'Invalid scope',
+      status: 400,
+      context: PATCH_ROUTE_CONTEXT,
+      errors: { scope: scopeField.error ?? 'Invalid scope' },
+    });
+  }
+
+  try {
+    const existing = await fetchEventById(eventId);
+    if (!existing) {
+      return createErrorResponse({
+        message: 'Event not found',
+        status: 404,
+        context: PATCH_ROUTE_CONTEXT,
+      });
+    }
+
+    if (existing.hostId !== auth.userId) {
+      return createErrorResponse({
+        message: 'Only the host can edit this event',
+        status: 403,
+        context: PATCH_ROUTE_CONTEXT,
+      });
+    }
+
+    // Fields left out of the body keep their current values, then the merged
+    // payload goes through the same rules as event creation. Only a new start
+    // has to be in the future, so events already under way stay editable.
+    const current = serializeEvent(existing);
+    const validation = validateEventPayload(
+      {
+        title: current.title,
+        description: current.description,
+        datetime: current.datetime,
+        location: current.location,
+        locationName: current.locationName,
+        category: current.category,
+        maxParticipants: current.maxParticipants,
+        visibility: current.visibility,
+        approvalMode: current.approvalMode,
+        waitlistAutoAccept: current.waitlistAutoAccept,
+        joinRequestCutoffMinutes: current.joinRequestCutoffMinutes,
+        joinRequestTimeoutHours: current.joinRequestTimeoutHours,
+        ...resolveCurrentEnd(current, body),
+        ...body,
+      },
+      { currentDatetime: existing.datetime }
+    );
+    if (!validation.ok) {
+      return createErrorResponse({
+        message: 'Invalid event data',
+        status: 400,
+        context: PATCH_ROUTE_CONTEXT,
+        errors: validation.errors,
+      });
+    }
+
+    // Questions are only replaced when the body includes them; an empty list removes them all.
+    const joinQuestions = 'joinQuestions' in body ? validateJoinQuestionsPayload(body.joinQuestions ?? []) : null;
+    if (joinQuestions && !joinQuestions.ok) {
+      return createErrorResponse({
+        message: 'Invalid join questions',
+        status: 400,
+        context: PATCH_ROUTE_CONTEXT,
+        errors: joinQuestions.errors,
+      });
+    }
+
+    const input = {
+      eventId,
+      hostId: auth.userId,
+      ...validation.data,
+      ...(joinQuestions ? { joinQuestions: joinQuestions.data } : {}),
+    };
+    const results = scopeField.value === 'series' ? await updateEventSeries(input) : [await updateEvent(input)];
+
+    // Guests are told about each occurrence they are going to.
+    let notified = 0;
+    let promoted = 0;
+    const promotionSettingChanged = input.waitlistAutoAccept !== current.waitlistAutoAccept;
+    for (const result of results) {
+      const { event } = result;
+      if (result.changes.length) {
+        notified += (
+          await notifyEventUpdated({ id: event.id, hostId: event.host.id, updatedAt: event.updatedAt }, result.changes)
+        ).length;
+      }
+
+      // Extra capacity goes to the waitlist first, as does the pending-queue room
+      // freed by switching to automatic promotion.
+      if (promotionSettingChanged || result.changes.some((change) => change.field === 'maxParticipants')) {
+        const promotions = await promoteWaitlistedJoinRequests(event.id);
+        promoted += (await notifyWaitlistPromotions(event.host.id, promotions)).length;
+      }
+    }
+
+    const { event, changes } = results[0];
+    return NextResponse.json({ event, changes, occurrences: results.length, notified, promoted });
+  } catch (error) {
+    if (error instanceof EventNotFoundError) {
+      return createErrorResponse({
+        message: 'Event not found',
+        status: 404,
+        context: PATCH_ROUTE_CONTEXT,
+      });
+    }
+
+    if (error instanceof EventUnauthorizedError) {
+      return createErrorResponse({
+        message: 'Only the host can edit this event',
+        status: 403,
+        context: PATCH_ROUTE_CONTEXT,
+      });
+    }
+
+    if (error instanceof EventInactiveError) {
+      return createErrorResponse({
+        message: 'Only active events can be edited',
+        status: 409,
+        context: PATCH_ROUTE_CONTEXT,
+      });
+    }
+
+    if (error instanceof EventNotInSeriesError) {
+      return createErrorResponse({
+        message: error.message,
+        status: 400,
+        context: PATCH_ROUTE_CONTEXT,
+        errors: { scope: error.message },
+      });
+    }
+
+    if (error instanceof EventCapacityError) {
+      return createErrorResponse({
+        message: error.message,
+        status: 409,
+        context: PATCH_ROUTE_CONTEXT,
+        errors: { maxParticipants: error.message },
+      });
+    }
+
+    return handleRouteError(error, PATCH_ROUTE_CONTEXT, 'Unable to update event');
+  }
+};
+
+export const PATCH = requireAuth(patchEventHandler);
@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server';
+import type { AuthenticatedRouteHandler } from '@/middleware/auth';
+import { requireAuth } from '@/middleware/auth';
+import {
+  buildEventTemplateFromEvent,
+  EventTemplateEventNotFoundError,
+  EventTemplateUnauthorizedError,
+} from '@/lib/event-templates';
+import { createErrorResponse, handleRouteError } from '@/lib/http/errors';
+
+type RouteContext = {
+  params: Promise<{
+    id?: string;
+  }>;
+};
+
+const ROUTE_CONTEXT = 'GET /api/events/[id]/template';
+
+export const getEventTemplateHandler: AuthenticatedRouteHandler<NextResponse> = async (_request, context, auth) => {
+  const params = await (context as RouteContext).params;
+  const eventId = params?.id;
+  if (!eventId) {
+    return createErrorResponse({
+      message: 'Event id is required',
+      status: 400,
+      context: ROUTE_CONTEXT,
+    });
+  }
+
+  try {
+    const draft = await buildEventTemplateFromEvent(eventId, auth.userId);
+    return NextResponse.json(draft);
+  } catch (error) {
+    if (error instanceof EventTemplateEventNotFoundError) {
+      return createErrorResponse({ message: 'Event not found', status: 404, context: ROUTE_CONTEXT });
+    }
+    if (error instanceof EventTemplateUnauthorizedError) {
+      return createErrorResponse({ message: error.message, status: 403, context: ROUTE_CONTEXT });
+    }
+    return handleRouteError(error, ROUTE_CONTEXT, 'Unable to load event for hosting again');
+  }
+};
+
+export const GET = requireAuth(getEventTemplateHandler);
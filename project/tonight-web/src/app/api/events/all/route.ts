@@ -1,90 +1,59 @@
-import { NextResponse } from "next/server";
-import { JoinRequestStatus } from "@/generated/prisma/client";
-import { requireAuth } from "@/middleware/auth";
-import { findActiveEventsForMap } from "@/lib/geospatial";
-import { createErrorResponse, handleRouteError } from "@/lib/http/errors";
+import { NextResponse } from 'next/server';
+import type { AuthenticatedRouteHandler } from '@/middleware/auth';
+import { requireAuth } from '@/middleware/auth';
+import { findEventsInBounds, MAX_MAP_EVENT_LIMIT, type MapBounds } from '@/lib/geospatial';
+import { createErrorResponse, handleRouteError } from '@/lib/http/errors';
+import { parseTimeWindowParams } from '@/lib/time-windows';
+import { parseCategoriesParam } from '@/lib/categories';
+import { serializeNearbyEvent } from '@/app/api/events/nearby/route';
 
-const ROUTE_CONTEXT = "GET /api/events/all";
+const ROUTE_CONTEXT = 'GET /api/events/all';
 
-const buildHostInitials = (value: string | null | undefined) => {
-  if (!value) {
-    return "YN";
-  }
-  const trimmed = value.trim();
-  if (!trimmed) {
-    return "YN";
-  }
-  const parts = trimmed.split(/\s+/).filter(Boolean);
-  if (parts.length === 0) {
-    return "YN";
-  }
-  const initials = parts
-    .slice(0, 2)
-    .map((segment) => segment.charAt(0).toUpperCase())
-    .join("");
-  return initials || "YN";
-};
+const WORLD_BOUNDS: MapBounds = { minLat: -90, minLng: -180, maxLat: 90, maxLng: 180 };
 
-const serializeEvent = (event: Awaited<ReturnType<typeof findActiveEventsForMap>>[number]) => {
-  const hostInitials = buildHostInitials(event.hostDisplayName);
-  const acceptedCount = Number(event.acceptedCount ?? 0);
-  const spotsRemaining = Math.max(event.maxParticipants - acceptedCount, 0);
-  const viewerStatus = event.viewerJoinRequestStatus ?? null;
-  const hostUpdatesUnseenRaw = Number(event.viewerHostUpdatesUnseen ?? 0);
-  const hostUpdatesUnseenCount =
-    viewerStatus === JoinRequestStatus.ACCEPTED && hostUpdatesUnseenRaw > 0
-      ? hostUpdatesUnseenRaw
-      : null;
-
-  return {
-    id: event.id,
-    title: event.title,
-    description: event.description,
-    datetime: typeof event.datetime === "string" ? event.datetime : event.datetime.toISOString(),
-    locationName: event.locationName,
-    maxParticipants: event.maxParticipants,
-    status: event.status,
-    hostId: event.hostId,
-    hostDisplayName: event.hostDisplayName,
-    hostPhotoUrl: event.hostPhotoUrl,
-    hostInitials,
-    spotsRemaining,
-    createdAt: typeof event.createdAt === "string" ? event.createdAt : event.createdAt.toISOString(),
-    updatedAt: typeof event.updatedAt === "string" ? event.updatedAt : event.updatedAt.toISOString(),
-    distanceMeters: null,
-    location: {
-      latitude: event.latitude,
-      longitude: event.longitude,
-    },
-    availability: {
-      maxParticipants: event.maxParticipants,
-      acceptedCount: event.acceptedCount,
-      spotsRemaining,
-    },
-    host: {
-      id: event.hostId,
-      displayName: event.hostDisplayName,
-      photoUrl: event.hostPhotoUrl,
-      initials: hostInitials,
-    },
-    viewerJoinRequestStatus: viewerStatus,
-    hostUpdatesUnseenCount,
-  };
-};
+/**
+ * Kept for callers written before /api/events/map. Runs the map query over the
+ * whole world, so it returns at most MAX_MAP_EVENT_LIMIT events; new code should
+ * ask /api/events/map for the visible viewport instead.
+ */
+export const getAllEventsHandler: AuthenticatedRouteHandler<NextResponse> = async (request, _context, auth) => {
+  const { searchParams } = new URL(request.url);
+  const categoriesField = parseCategoriesParam(searchParams.getAll('categories'));
+  if ('error' in categoriesField) {
+    return createErrorResponse({
+      message: categoriesField.error ?? 'Invalid categories',
+      status: 400,
+      context: ROUTE_CONTEXT,
+    });
+  }
 
-export const GET = requireAuth(async (_request, _context, auth) => {
-  if (!auth.userId) {
+  const timeWindowField = parseTimeWindowParams(searchParams);
+  if ('error' in timeWindowField) {
     return createErrorResponse({
-      message: "User ID is required.",
-      status: 401,
+      message: timeWindowField.error ?? 'Invalid time window',
+      status: 400,
       context: ROUTE_CONTEXT,
     });
   }
 
   try {
-    const events = await findActiveEventsForMap(auth.userId);
-    return NextResponse.json({ events: events.map(serializeEvent) });
+    const { events } = await findEventsInBounds(
+      WORLD_BOUNDS,
+      auth.userId,
+      {
+        categories: categoriesField.value,
+        from: timeWindowField.value.from,
+        to: timeWindowField.value.to,
+      },
+      MAX_MAP_EVENT_LIMIT
+    );
+
+    return NextResponse.json({
+      events: events.map((event) => ({ ...serializeNearbyEvent(event), distanceMeters: null })),
+    });
   } catch (error) {
-    return handleRouteError(error, ROUTE_CONTEXT, "Unable to fetch events");
+    return handleRouteError(error, ROUTE_CONTEXT, 'Unable to fetch events');
   }
-});
+};
+
+export const GET = requireAuth(getAllEventsHandler);
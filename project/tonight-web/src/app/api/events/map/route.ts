@@ -0,0 +1,185 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { AuthenticatedRouteHandler } from '@/middleware/auth';
+import { requireAuth } from '@/middleware/auth';
+import {
+  findEventsInBounds,
+  findEventClustersInBounds,
+  CLUSTER_MAX_ZOOM,
+  MAX_MAP_EVENT_LIMIT,
+  DEFAULT_MAP_EVENT_LIMIT,
+  MAX_SEARCH_QUERY_LENGTH,
+  type MapBounds,
+} from '@/lib/geospatial';
+import { createErrorResponse, handleRouteError } from '@/lib/http/errors';
+import { parseTimeWindowParams, type TimeWindowPreset } from '@/lib/time-windows';
+import { parseCategoriesParam, type CategoryId } from '@/lib/categories';
+import { serializeNearbyEvent } from '@/app/api/events/nearby/route';
+
+const LATITUDE_MIN = -90;
+const LATITUDE_MAX = 90;
+const LONGITUDE_MIN = -180;
+const LONGITUDE_MAX = 180;
+export const ZOOM_MIN = 0;
+export const ZOOM_MAX = 22;
+
+type ParsedQuery = {
+  bounds: MapBounds;
+  zoom: number | null;
+  limit: number;
+  categories: CategoryId[];
+  from: Date | null;
+  to: Date | null;
+  window: TimeWindowPreset | null;
+  query: string | null;
+};
+
+const parseNumber = (value: string | null) => {
+  if (value === null) {
+    return null;
+  }
+
+  if (value.trim().length === 0) {
+    return null;
+  }
+
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+const parseQuery = (request: NextRequest): ParsedQuery | { error: string } => {
+  const { searchParams } = new URL(request.url);
+  const minLat = parseNumber(searchParams.get('minLat'));
+  const minLng = parseNumber(searchParams.get('minLng'));
+  const maxLat = parseNumber(searchParams.get('maxLat'));
+  const maxLng = parseNumber(searchParams.get('maxLng'));
+
+  if (minLat === null || minLng === null || maxLat === null || maxLng === null) {
+    return { error: 'minLat, minLng, maxLat and maxLng query parameters are required and must be valid numbers' } as const;
+  }
+
+  if (minLat < LATITUDE_MIN || maxLat > LATITUDE_MAX) {
+    return { error: `Latitudes must be between ${LATITUDE_MIN} and ${LATITUDE_MAX}` } as const;
+  }
+
+  if (minLat > maxLat) {
+    return { error: 'minLat must not be greater than maxLat' } as const;
+  }
+
+  // minLng > maxLng is allowed: it describes a viewport crossing the antimeridian.
+  if ([minLng, maxLng].some((value) => value < LONGITUDE_MIN || value > LONGITUDE_MAX)) {
+    return { error: `Longitudes must be between ${LONGITUDE_MIN} and ${LONGITUDE_MAX}` } as const;
+  }
+
+  const zoomRaw = searchParams.get('zoom');
+  const zoom = parseNumber(zoomRaw);
+  if (zoomRaw !== null && (zoom === null || zoom < ZOOM_MIN || zoom > ZOOM_MAX)) {
+    return { error: `zoom must be between ${ZOOM_MIN} and ${ZOOM_MAX}` } as const;
+  }
+
+  const limitRaw = searchParams.get('limit');
+  const limit = parseNumber(limitRaw);
+  if (limitRaw !== null && (limit === null || !Number.isInteger(limit) || limit < 1 || limit > MAX_MAP_EVENT_LIMIT)) {
+    return { error: `limit must be an integer between 1 and ${MAX_MAP_EVENT_LIMIT}` } as const;
+  }
+
+  const categoriesField = parseCategoriesParam(searchParams.getAll('categories'));
+  if ('error' in categoriesField) {
+    return { error: categoriesField.error ?? 'Invalid categories' } as const;
+  }
+
+  const timeWindowField = parseTimeWindowParams(searchParams);
+  if ('error' in timeWindowField) {
+    return { error: timeWindowField.error ?? 'Invalid time window' } as const;
+  }
+
+  const query = searchParams.get('q')?.trim() || null;
+  if (query && query.length > MAX_SEARCH_QUERY_LENGTH) {
+    return { error: `q must be at most ${MAX_SEARCH_QUERY_LENGTH} characters` } as const;
+  }
+
+  return {
+    bounds: { minLat, minLng, maxLat, maxLng },
+    zoom,
+    limit: limit ?? DEFAULT_MAP_EVENT_LIMIT,
+    categories: categoriesField.value,
+    from: timeWindowField.value.from,
+    to: timeWindowField.value.to,
+    window: timeWindowField.value.preset,
+    query,
+  };
+};
+
+const ROUTE_CONTEXT = 'GET /api/events/map';
+
+export const getMapEventsHandler: AuthenticatedRouteHandler<NextResponse> = async (request, _context, auth) => {
+  const parsedQuery = parseQuery(request);
+  if ('error' in parsedQuery) {
+    return createErrorResponse({
+      message: parsedQuery.error,
+      status: 400,
+      context: ROUTE_CONTEXT,
+    });
+  }
+
+  const filters = {
+    categories: parsedQuery.categories,
+    from: parsedQuery.from,
+    to: parsedQuery.to,
+    query: parsedQuery.query,
+  };
+  const meta = {
+    bounds: parsedQuery.bounds,
+    zoom: parsedQuery.zoom,
+    limit: parsedQuery.limit,
+    categories: parsedQuery.categories,
+    from: parsedQuery.from?.toISOString() ?? null,
+    to: parsedQuery.to?.toISOString() ?? null,
+    window: parsedQuery.window,
+    query: parsedQuery.query,
+  };
+
+  try {
+    // Below CLUSTER_MAX_ZOOM nearby events are grouped; cells holding a single
+    // event are loaded and returned as regular events.
+    if (parsedQuery.zoom !== null && parsedQuery.zoom < CLUSTER_MAX_ZOOM) {
+      const { clusters, truncated } = await findEventClustersInBounds(
+        parsedQuery.bounds,
+        parsedQuery.zoom,
+        auth.userId,
+        filters,
+        parsedQuery.limit
+      );
+      const singleEventIds = clusters.filter((cluster) => cluster.count === 1).map((cluster) => cluster.eventId);
+      const { events } =
+        singleEventIds.length > 0
+          ? await findEventsInBounds(parsedQuery.bounds, auth.userId, filters, singleEventIds.length, singleEventIds)
+          : { events: [] };
+
+      return NextResponse.json({
+        events: events.map((event) => ({ ...serializeNearbyEvent(event), distanceMeters: null })),
+        clusters: clusters
+          .filter((cluster) => cluster.count > 1)
+          .map((cluster) => ({
+            id: cluster.id,
+            count: cluster.count,
+            location: { latitude: cluster.latitude, longitude: cluster.longitude },
+            bounds: cluster.bounds,
+            categories: cluster.categories,
+          })),
+        meta: { ...meta, clustered: true, truncated },
+      });
+    }
+
+    const { events, truncated } = await findEventsInBounds(parsedQuery.bounds, auth.userId, filters, parsedQuery.limit);
+
+    return NextResponse.json({
+      events: events.map((event) => ({ ...serializeNearbyEvent(event), distanceMeters: null })),
+      clusters: [],
+      meta: { ...meta, clustered: false, truncated },
+    });
+  } catch (error) {
+    return handleRouteError(error, ROUTE_CONTEXT, 'Unable to fetch events');
+  }
+};
+
+export const GET = requireAuth(getMapEventsHandler);
@@ -2,8 +2,21 @@ import { NextRequest, NextResponse } from 'next/server';
 import { JoinRequestStatus } from '@/generated/prisma/client';
 import type { AuthenticatedRouteHandler } from '@/middleware/auth';
 import { requireAuth } from '@/middleware/auth';
-import { findNearbyEvents, DEFAULT_RADIUS_METERS } from '@/lib/geospatial';
+import {
+  findNearbyEvents,
+  decodeNearbyCursor,
+  DEFAULT_RADIUS_METERS,
+  DEFAULT_NEARBY_EVENT_LIMIT,
+  MAX_NEARBY_EVENT_LIMIT,
+  MAX_SEARCH_QUERY_LENGTH,
+  type NearbyCursor,
+  type NearbyEventRecord,
+} from '@/lib/geospatial';
 import { createErrorResponse, handleRouteError } from '@/lib/http/errors';
+import { parseTimeWindowParams, type TimeWindowPreset } from '@/lib/time-windows';
+import { isCategoryId, parseCategoriesParam, type CategoryId } from '@/lib/categories';
+import { getEventPhase } from '@/lib/event-timing';
+import { buildEventCoverImage } from '@/lib/event-covers';
 
 const LATITUDE_MIN = -90;
 const LATITUDE_MAX = 90;
@@ -14,6 +27,13 @@ type ParsedQuery = {
   latitude: number;
   longitude: number;
   radius: number;
+  categories: CategoryId[];
+  from: Date | null;
+  to: Date | null;
+  window: TimeWindowPreset | null;
+  query: string | null;
+  limit: number;
+  cursor: NearbyCursor | null;
 };
 
 const parseNumber = (value: string | null) => {
@@ -53,10 +73,49 @@ const parseQuery = (request: NextRequest): ParsedQuery | { error: string } => {
 
   const radius = radiusValue !== null && radiusValue > 0 ? radiusValue : DEFAULT_RADIUS_METERS;
 
+  const limitRaw = searchParams.get('limit');
+  const limit = parseNumber(limitRaw);
+  if (limitRaw !== null && (limit === null || !Number.isInteger(limit) || limit < 1 || limit > MAX_NEARBY_EVENT_LIMIT)) {
+    return { error: `limit must be an integer between 1 and ${MAX_NEARBY_EVENT_LIMIT}` } as const;
+  }
+
+  const cursorRaw = searchParams.get('cursor');
+  const cursor = cursorRaw ? decodeNearbyCursor(cursorRaw) : null;
+  if (cursorRaw && !cursor) {
+    return { error: 'cursor is invalid' } as const;
+  }
+
+  const categoriesField = parseCategoriesParam(searchParams.getAll('categories'));
+  if ('error' in categoriesField) {
+    return { error: categoriesField.error ?? 'Invalid categories' } as const;
+  }
+
+  const timeWindowField = parseTimeWindowParams(searchParams);
+  if ('error' in timeWindowField) {
+    return { error: timeWindowField.error ?? 'Invalid time window' } as const;
+  }
+
+  const query = searchParams.get('q')?.trim() || null;
+  if (query && query.length > MAX_SEARCH_QUERY_LENGTH) {
+    return { error: `q must be at most ${MAX_SEARCH_QUERY_LENGTH} characters` } as const;
+  }
+
+  // Search and distance results are ordered differently, so their cursors don't mix.
+  if (cursor && Boolean(query) !== (typeof cursor.score === 'number')) {
+    return { error: 'cursor is invalid' } as const;
+  }
+
   return {
     latitude: latValue,
     longitude: lngValue,
     radius,
+    categories: categoriesField.value,
+    from: timeWindowField.value.from,
+    to: timeWindowField.value.to,
+    window: timeWindowField.value.preset,
+    query,
+    limit: limit ?? DEFAULT_NEARBY_EVENT_LIMIT,
+    cursor,
   };
 };
 
@@ -79,7 +138,7 @@ export const buildHostInitials = (value: string | null | undefined) => {
   return initials || 'YN';
 };
 
-const serializeNearbyEvent = (event: Awaited<ReturnType<typeof findNearbyEvents>>[number]) => {
+export const serializeNearbyEvent = (event: NearbyEventRecord) => {
   const hostInitials = buildHostInitials(event.hostDisplayName);
   const acceptedCount = Number(event.acceptedCount ?? 0);
   const spotsRemaining = Math.max(event.maxParticipants - acceptedCount, 0);
@@ -95,9 +154,14 @@ const serializeNearbyEvent = (event: Awaited<ReturnType<typeof findNearbyEvents>
     title: event.title,
     description: event.description,
     datetime: typeof event.datetime === 'string' ? event.datetime : event.datetime.toISOString(),
+    endDatetime: event.endDatetime ? new Date(event.endDatetime).toISOString() : null,
+    phase: getEventPhase(event.datetime, event.endDatetime),
     locationName: event.locationName,
+    category: isCategoryId(event.category) ? event.category : null,
     maxParticipants: event.maxParticipants,
     status: event.status,
+    cancellationReason: event.cancellationReason ?? null,
+    coverImage: buildEventCoverImage(event.coverImageKey),
     hostId: event.hostId,
     hostDisplayName: event.hostDisplayName,
     hostPhotoUrl: event.hostPhotoUrl,
@@ -143,19 +207,34 @@ export const getNearbyEventsHandler: AuthenticatedRouteHandler<NextResponse> = a
   }
 
   try {
-    const events = await findNearbyEvents(
+    const { events, hasMore, nextCursor } = await findNearbyEvents(
       parsedQuery.latitude,
       parsedQuery.longitude,
       parsedQuery.radius,
-      auth.userId
+      auth.userId,
+      {
+        categories: parsedQuery.categories,
+        from: parsedQuery.from,
+        to: parsedQuery.to,
+        query: parsedQuery.query,
+      },
+      { limit: parsedQuery.limit, cursor: parsedQuery.cursor }
     );
 
     return NextResponse.json({
       events: events.map(serializeNearbyEvent),
+      hasMore,
+      nextCursor,
       meta: {
         latitude: parsedQuery.latitude,
         longitude: parsedQuery.longitude,
         radiusMeters: parsedQuery.radius,
+        categories: parsedQuery.categories,
+        from: parsedQuery.from?.toISOString() ?? null,
+        to: parsedQuery.to?.toISOString() ?? null,
+        window: parsedQuery.window,
+        query: parsedQuery.query,
+        limit: parsedQuery.limit,
       },
     });
   } catch (error) {
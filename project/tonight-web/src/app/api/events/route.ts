@@ -2,7 +2,39 @@ import { NextRequest, NextResponse } from 'next/server';
 import type { AuthenticatedRouteHandler } from '@/middleware/auth';
 import { requireAuth } from '@/middleware/auth';
 import { createEvent } from '@/lib/events';
+import {
+  createEventSeries,
+  isEventRecurrenceFrequency,
+  EVENT_RECURRENCE_FREQUENCIES,
+  MAX_SERIES_SPAN_DAYS,
+  type RecurrenceRule,
+} from '@/lib/event-series';
 import { createErrorResponse, handleRouteError } from '@/lib/http/errors';
+import { CATEGORY_IDS, isCategoryId, type CategoryId } from '@/lib/categories';
+import { MAX_EVENT_DURATION_MINUTES } from '@/lib/event-timing';
+import {
+  DEFAULT_EVENT_APPROVAL_MODE,
+  EVENT_APPROVAL_MODES,
+  isEventApprovalMode,
+  type EventApprovalMode,
+} from '@/lib/event-approval';
+import {
+  DEFAULT_EVENT_VISIBILITY,
+  EVENT_VISIBILITIES,
+  isEventVisibility,
+  type EventVisibility,
+} from '@/lib/event-visibility';
+import {
+  isJoinQuestionKind,
+  JOIN_QUESTION_KINDS,
+  JOIN_QUESTION_OPTION_LIMITS,
+  JOIN_QUESTION_OPTION_MAX_LENGTH,
+  JOIN_QUESTION_PROMPT_MAX_LENGTH,
+  MAX_JOIN_QUESTIONS,
+  type JoinQuestion,
+} from '@/lib/join-questions';
+import { JOIN_REQUEST_CUTOFF_MINUTES_MAX, JOIN_REQUEST_TIMEOUT_HOURS_LIMITS } from '@/lib/join-request-expiry';
+import { DEFAULT_TIME_ZONE, isValidTimeZone } from '@/lib/time-windows';
 
 const TITLE_MIN = 3;
 const TITLE_MAX = 120;
@@ -53,10 +85,17 @@ type NormalizedPayload = {
   title: string;
   description: string;
   datetime: Date;
+  endDatetime: Date | null;
   latitude: number;
   longitude: number;
   locationName: string;
+  category: CategoryId | null;
   maxParticipants: number;
+  visibility: EventVisibility;
+  approvalMode: EventApprovalMode;
+  waitlistAutoAccept: boolean;
+  joinRequestCutoffMinutes: number | null;
+  joinRequestTimeoutHours: number | null;
 };
 
 type ValidationResult =
@@ -107,7 +146,139 @@ const normalizeMaxParticipants = (value: unknown) => {
   return { value: rounded } as const;
 };
 
-export const validateEventPayload = (body: Record<string, unknown>): ValidationResult => {
+const normalizeEndDatetime = (endValue: unknown, durationValue: unknown, start: Date | null) => {
+  const hasEnd = typeof endValue !== 'undefined' && endValue !== null && endValue !== '';
+  const hasDuration = typeof durationValue !== 'undefined' && durationValue !== null;
+
+  if (hasEnd && hasDuration) {
+    return { error: 'Provide either an end time or a duration, not both' } as const;
+  }
+
+  if (!hasEnd && !hasDuration) {
+    return { value: null } as const;
+  }
+
+  if (!start) {
+    return { error: 'End time requires a valid start datetime' } as const;
+  }
+
+  let end: Date | null;
+  if (hasDuration) {
+    if (!isFiniteNumber(durationValue) || Math.floor(durationValue) !== durationValue || durationValue <= 0) {
+      return { error: 'durationMinutes must be a positive integer' } as const;
+    }
+    end = new Date(start.getTime() + durationValue * 60 * 1000);
+  } else {
+    end = parseDate(endValue);
+    if (!end) {
+      return { error: 'End time must be a valid ISO string or timestamp' } as const;
+    }
+  }
+
+  const durationMinutes = (end.getTime() - start.getTime()) / (60 * 1000);
+  if (durationMinutes <= 0) {
+    return { error: 'End time must be after the start time' } as const;
+  }
+
+  if (durationMinutes > MAX_EVENT_DURATION_MINUTES) {
+    return { error: `Events can last at most ${MAX_EVENT_DURATION_MINUTES / 60} hours` } as const;
+  }
+
+  return { value: end } as const;
+};
+
+const normalizeCategory = (value: unknown) => {
+  if (typeof value === 'undefined' || value === null || value === '') {
+    return { value: null } as const;
+  }
+
+  if (typeof value !== 'string') {
+    return { error: 'Category must be a string' } as const;
+  }
+
+  const normalized = value.trim().toLowerCase();
+  if (!isCategoryId(normalized)) {
+    return { error: `Category must be one of: ${CATEGORY_IDS.join(', ')}` } as const;
+  }
+
+  return { value: normalized } as const;
+};
+
+// Accepts the enum values as well as their lower-case, hyphenated spelling
+// ("invite-only").
+const normalizeVisibility = (value: unknown) => {
+  if (typeof value === 'undefined' || value === null || value === '') {
+    return { value: DEFAULT_EVENT_VISIBILITY } as const;
+  }
+
+  if (typeof value !== 'string') {
+    return { error: 'Visibility must be a string' } as const;
+  }
+
+  const normalized = value.trim().toUpperCase().replace(/-/g, '_');
+  if (!isEventVisibility(normalized)) {
+    return { error: `Visibility must be one of: ${EVENT_VISIBILITIES.join(', ')}` } as const;
+  }
+
+  return { value: normalized } as const;
+};
+
+// Accepts the enum values in any case ("automatic").
+const normalizeApprovalMode = (value: unknown) => {
+  if (typeof value === 'undefined' || value === null || value === '') {
+    return { value: DEFAULT_EVENT_APPROVAL_MODE } as const;
+  }
+
+  if (typeof value !== 'string') {
+    return { error: 'Approval mode must be a string' } as const;
+  }
+
+  const normalized = value.trim().toUpperCase();
+  if (!isEventApprovalMode(normalized)) {
+    return { error: `Approval mode must be one of: ${EVENT_APPROVAL_MODES.join(', ')}` } as const;
+  }
+
+  return { value: normalized } as const;
+};
+
+const normalizeWaitlistAutoAccept = (value: unknown) => {
+  if (typeof value === 'undefined' || value === null) {
+    return { value: true } as const;
+  }
+
+  if (typeof value !== 'boolean') {
+    return { error: 'waitlistAutoAccept must be a boolean' } as const;
+  }
+
+  return { value } as const;
+};
+
+// Both expiry settings are optional whole numbers; null turns them off.
+const normalizeOptionalInteger = (value: unknown, min: number, max: number, label: string) => {
+  if (typeof value === 'undefined' || value === null) {
+    return { value: null } as const;
+  }
+
+  if (!isFiniteNumber(value) || !Number.isInteger(value)) {
+    return { error: `${label} must be a whole number` } as const;
+  }
+
+  if (value < min || value > max) {
+    return { error: `${label} must be between ${min} and ${max}` } as const;
+  }
+
+  return { value } as const;
+};
+
+type ValidateEventPayloadOptions = {
+  /** The stored start of an event being edited; keeping it is allowed once it has passed. */
+  currentDatetime?: Date;
+};
+
+export const validateEventPayload = (
+  body: Record<string, unknown>,
+  options: ValidateEventPayloadOptions = {}
+): ValidationResult => {
   const errors: Record<string, string> = {};
 
   const titleField = normalizeString(body.title, TITLE_MIN, TITLE_MAX, 'Title');
@@ -125,10 +296,16 @@ export const validateEventPayload = (body: Record<string, unknown>): ValidationR
   const date = parseDate(body.datetime);
   if (!date) {
     errors.datetime = 'Datetime must be a valid ISO string or timestamp';
-  } else if (date.getTime() <= Date.now()) {
+  } else if (date.getTime() <= Date.now() && date.getTime() !== options.currentDatetime?.getTime()) {
     errors.datetime = 'Event datetime must be in the future';
   }
 
+  const endDatetimeField = normalizeEndDatetime(body.endDatetime, body.durationMinutes, date);
+  if ('error' in endDatetimeField) {
+    errors.endDatetime = endDatetimeField.error ?? 'Invalid end time';
+  }
+  const endDatetimeValue = 'error' in endDatetimeField ? null : endDatetimeField.value;
+
   const locationField = normalizeLocation(body.location);
   if ('error' in locationField) {
     errors.location = locationField.error ?? 'Invalid location';
@@ -152,7 +329,53 @@ export const validateEventPayload = (body: Record<string, unknown>): ValidationR
   }
   const maxParticipantsValue = 'error' in maxParticipantsField ? null : maxParticipantsField.value;
 
-  if (Object.keys(errors).length > 0 || !titleValue || !descriptionValue || !locationValue || !locationNameValue || maxParticipantsValue == null || !date) {
+  const categoryField = normalizeCategory(body.category);
+  if ('error' in categoryField) {
+    errors.category = categoryField.error ?? 'Invalid category';
+  }
+  const categoryValue = 'error' in categoryField ? null : categoryField.value;
+
+  const visibilityField = normalizeVisibility(body.visibility);
+  if ('error' in visibilityField) {
+    errors.visibility = visibilityField.error ?? 'Invalid visibility';
+  }
+  const visibilityValue = 'error' in visibilityField ? null : visibilityField.value;
+
+  const approvalModeField = normalizeApprovalMode(body.approvalMode);
+  if ('error' in approvalModeField) {
+    errors.approvalMode = approvalModeField.error ?? 'Invalid approval mode';
+  }
+  const approvalModeValue = 'error' in approvalModeField ? DEFAULT_EVENT_APPROVAL_MODE : approvalModeField.value;
+
+  const waitlistAutoAcceptField = normalizeWaitlistAutoAccept(body.waitlistAutoAccept);
+  if ('error' in waitlistAutoAcceptField) {
+    errors.waitlistAutoAccept = waitlistAutoAcceptField.error ?? 'Invalid waitlist setting';
+  }
+  const waitlistAutoAcceptValue = 'error' in waitlistAutoAcceptField ? true : waitlistAutoAcceptField.value;
+
+  const cutoffField = normalizeOptionalInteger(
+    body.joinRequestCutoffMinutes,
+    0,
+    JOIN_REQUEST_CUTOFF_MINUTES_MAX,
+    'joinRequestCutoffMinutes'
+  );
+  if ('error' in cutoffField) {
+    errors.joinRequestCutoffMinutes = cutoffField.error ?? 'Invalid request cutoff';
+  }
+  const cutoffValue = 'error' in cutoffField ? null : cutoffField.value;
+
+  const timeoutField = normalizeOptionalInteger(
+    body.joinRequestTimeoutHours,
+    JOIN_REQUEST_TIMEOUT_HOURS_LIMITS.min,
+    JOIN_REQUEST_TIMEOUT_HOURS_LIMITS.max,
+    'joinRequestTimeoutHours'
+  );
+  if ('error' in timeoutField) {
+    errors.joinRequestTimeoutHours = timeoutField.error ?? 'Invalid request timeout';
+  }
+  const timeoutValue = 'error' in timeoutField ? null : timeoutField.value;
+
+  if (Object.keys(errors).length > 0 || !titleValue || !descriptionValue || !locationValue || !locationNameValue || maxParticipantsValue == null || !visibilityValue || !date) {
     return { ok: false, errors };
   }
 
@@ -162,14 +385,144 @@ export const validateEventPayload = (body: Record<string, unknown>): ValidationR
       title: titleValue,
       description: descriptionValue,
       datetime: date,
+      endDatetime: endDatetimeValue,
       latitude: locationValue.latitude,
       longitude: locationValue.longitude,
       locationName: locationNameValue,
+      category: categoryValue,
       maxParticipants: maxParticipantsValue,
+      visibility: visibilityValue,
+      approvalMode: approvalModeValue,
+      waitlistAutoAccept: waitlistAutoAcceptValue,
+      joinRequestCutoffMinutes: cutoffValue,
+      joinRequestTimeoutHours: timeoutValue,
     },
   };
 };
 
+const isWeekday = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= 6;
+
+/**
+ * Validates the optional `recurrence` of a new event:
+ * `{ frequency: 'weekly' | 'biweekly' | 'custom', weekdays?, until, timeZone? }`.
+ * Custom rules list the weekdays (0 = Sunday) they repeat on.
+ */
+export const validateRecurrencePayload = (
+  value: unknown,
+  start: Date
+): { ok: true; data: RecurrenceRule } | { ok: false; errors: Record<string, string> } => {
+  if (!value || typeof value !== 'object') {
+    return { ok: false, errors: { recurrence: 'Recurrence must be an object' } };
+  }
+
+  const body = value as Record<string, unknown>;
+  const errors: Record<string, string> = {};
+
+  const frequency = typeof body.frequency === 'string' ? body.frequency.trim().toUpperCase() : null;
+  if (!isEventRecurrenceFrequency(frequency)) {
+    errors.frequency = `Frequency must be one of: ${EVENT_RECURRENCE_FREQUENCIES.join(', ').toLowerCase()}`;
+  }
+
+  const weekdays = body.weekdays ?? [];
+  if (!Array.isArray(weekdays) || !weekdays.every(isWeekday)) {
+    errors.weekdays = 'Weekdays must be a list of numbers from 0 (Sunday) to 6 (Saturday)';
+  } else if (frequency === 'CUSTOM' && weekdays.length === 0) {
+    errors.weekdays = 'Pick at least one weekday';
+  }
+
+  const until = parseDate(body.until);
+  const latestUntil = start.getTime() + MAX_SERIES_SPAN_DAYS * 24 * 60 * 60 * 1000;
+  if (!until) {
+    errors.until = 'Until must be a valid ISO string or timestamp';
+  } else if (until <= start) {
+    errors.until = 'Until must be after the first occurrence';
+  } else if (until.getTime() > latestUntil) {
+    errors.until = `Series can run for at most ${MAX_SERIES_SPAN_DAYS} days`;
+  }
+
+  const timeZone = typeof body.timeZone === 'string' && body.timeZone.trim() ? body.timeZone.trim() : DEFAULT_TIME_ZONE;
+  if (!isValidTimeZone(timeZone)) {
+    errors.timeZone = 'timeZone must be a valid IANA time zone';
+  }
+
+  if (Object.keys(errors).length > 0 || !isEventRecurrenceFrequency(frequency) || !until) {
+    return { ok: false, errors };
+  }
+
+  return { ok: true, data: { frequency, weekdays: weekdays as number[], until, timeZone } };
+};
+
+const normalizeJoinQuestion = (value: unknown, label: string): { value: JoinQuestion } | { error: string } => {
+  if (!value || typeof value !== 'object') {
+    return { error: `${label} must be an object with a kind and a prompt` };
+  }
+
+  const body = value as Record<string, unknown>;
+  const kind = typeof body.kind === 'string' ? body.kind.trim().toUpperCase().replace(/-/g, '_') : null;
+  if (!isJoinQuestionKind(kind)) {
+    return { error: `${label} kind must be one of: ${JOIN_QUESTION_KINDS.join(', ')}` };
+  }
+
+  const promptField = normalizeString(body.prompt, 1, JOIN_QUESTION_PROMPT_MAX_LENGTH, `${label} prompt`);
+  if ('error' in promptField) {
+    return { error: promptField.error ?? 'Invalid prompt' };
+  }
+  const prompt = promptField.value;
+
+  if (kind !== 'SINGLE_CHOICE') {
+    return { value: { kind, prompt, options: [] } };
+  }
+
+  const options: string[] = [];
+  for (const option of Array.isArray(body.options) ? body.options : []) {
+    const optionField = normalizeString(option, 1, JOIN_QUESTION_OPTION_MAX_LENGTH, `${label} options`);
+    if ('error' in optionField) {
+      return { error: optionField.error ?? 'Invalid option' };
+    }
+    if (options.some((existing) => existing.toLowerCase() === optionField.value.toLowerCase())) {
+      return { error: `${label} lists "${optionField.value}" twice` };
+    }
+    options.push(optionField.value);
+  }
+
+  if (options.length < JOIN_QUESTION_OPTION_LIMITS.min || options.length > JOIN_QUESTION_OPTION_LIMITS.max) {
+    return {
+      error: `${label} needs between ${JOIN_QUESTION_OPTION_LIMITS.min} and ${JOIN_QUESTION_OPTION_LIMITS.max} options`,
+    };
+  }
+
+  return { value: { kind, prompt, options } };
+};
+
+/**
+ * Validates the questions guests answer when they request to join:
+ * `[{ kind: 'short_text' | 'yes_no' | 'single_choice', prompt, options? }]`.
+ * Only single-choice questions take options.
+ */
+export const validateJoinQuestionsPayload = (
+  value: unknown
+): { ok: true; data: JoinQuestion[] } | { ok: false; errors: Record<string, string> } => {
+  if (!Array.isArray(value)) {
+    return { ok: false, errors: { joinQuestions: 'Join questions must be a list' } };
+  }
+
+  if (value.length > MAX_JOIN_QUESTIONS) {
+    return { ok: false, errors: { joinQuestions: `Ask at most ${MAX_JOIN_QUESTIONS} questions` } };
+  }
+
+  const questions: JoinQuestion[] = [];
+  for (const [index, item] of value.entries()) {
+    const field = normalizeJoinQuestion(item, `Question ${index + 1}`);
+    if ('error' in field) {
+      return { ok: false, errors: { joinQuestions: field.error } };
+    }
+    questions.push(field.value);
+  }
+
+  return { ok: true, data: questions };
+};
+
 export const createEventHandler: AuthenticatedRouteHandler<NextResponse> = async (request, _context, auth) => {
   const body = await parseJson(request);
   if (!body) {
@@ -190,11 +543,41 @@ export const createEventHandler: AuthenticatedRouteHandler<NextResponse> = async
     });
   }
 
+  const hasRecurrence = typeof body.recurrence !== 'undefined' && body.recurrence !== null;
+  const recurrence = hasRecurrence ? validateRecurrencePayload(body.recurrence, validation.data.datetime) : null;
+  if (recurrence && !recurrence.ok) {
+    return createErrorResponse({
+      message: 'Invalid recurrence',
+      status: 400,
+      context: ROUTE_CONTEXT,
+      errors: recurrence.errors,
+    });
+  }
+
+  const hasJoinQuestions = typeof body.joinQuestions !== 'undefined' && body.joinQuestions !== null;
+  const joinQuestions = hasJoinQuestions ? validateJoinQuestionsPayload(body.joinQuestions) : null;
+  if (joinQuestions && !joinQuestions.ok) {
+    return createErrorResponse({
+      message: 'Invalid join questions',
+      status: 400,
+      context: ROUTE_CONTEXT,
+      errors: joinQuestions.errors,
+    });
+  }
+
   try {
-    const event = await createEvent({
+    const input = {
       hostId: auth.userId,
       ...validation.data,
-    });
+      ...(joinQuestions ? { joinQuestions: joinQuestions.data } : {}),
+    };
+
+    if (recurrence) {
+      const { event, series } = await createEventSeries(input, recurrence.data);
+      return NextResponse.json({ event, series }, { status: 201 });
+    }
+
+    const event = await createEvent(input);
 
     return NextResponse.json({ event }, { status: 201 });
   } catch (error) {
@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { AuthenticatedRouteHandler } from '@/middleware/auth';
+import { requireAuth } from '@/middleware/auth';
+import {
+  redeemEventInviteLink,
+  EventInviteLinkDeclinedError,
+  EventInviteLinkHostError,
+  EventInviteLinkNotFoundError,
+  EventInviteLinkUnavailableError,
+} from '@/lib/event-invite-links';
+import { JoinRequestEventFullError, JoinRequestInactiveEventError } from '@/lib/join-requests';
+import { notifyInstantJoin } from '@/lib/event-notifications';
+import { createErrorResponse, handleRouteError } from '@/lib/http/errors';
+
+const ROUTE_CONTEXT = 'POST /api/invite-links/redeem';
+
+const parseJson = async (request: NextRequest) => {
+  try {
+    return (await request.json()) as Record<string, unknown>;
+  } catch {
+    return null;
+  }
+};
+
+export const redeemInviteLinkHandler: AuthenticatedRouteHandler<NextResponse> = async (request, _context, auth) => {
+  const body = await parseJson(request);
+  if (!body) {
+    return createErrorResponse({
+      message: 'Invalid JSON body',
+      status: 400,
+      context: ROUTE_CONTEXT,
+    });
+  }
+
+  const token = typeof body.token === 'string' ? body.token.trim() : '';
+  if (!token) {
+    return createErrorResponse({
+      message: 'Invite token is required',
+      status: 400,
+      context: ROUTE_CONTEXT,
+    });
+  }
+
+  try {
+    const { joinRequest, alreadyAccepted } = await redeemEventInviteLink({ token, userId: auth.userId });
+    if (!alreadyAccepted) {
+      notifyInstantJoin(joinRequest);
+    }
+    return NextResponse.json({ joinRequest, alreadyAccepted }, { status: alreadyAccepted ? 200 : 201 });
+  } catch (error) {
+    if (error instanceof EventInviteLinkNotFoundError) {
+      return createErrorResponse({
+        message: 'This invite link is invalid or has expired',
+        status: 404,
+        context: ROUTE_CONTEXT,
+      });
+    }
+
+    if (error instanceof EventInviteLinkUnavailableError) {
+      return createErrorResponse({ message: error.message, status: 410, context: ROUTE_CONTEXT });
+    }
+
+    if (error instanceof EventInviteLinkHostError) {
+      return createErrorResponse({ message: 'You are hosting this event', status: 409, context: ROUTE_CONTEXT });
+    }
+
+    if (error instanceof EventInviteLinkDeclinedError) {
+      return createErrorResponse({
+        message: 'The host has already declined your request for this event',
+        status: 403,
+        context: ROUTE_CONTEXT,
+      });
+    }
+
+    if (error instanceof JoinRequestInactiveEventError) {
+      return createErrorResponse({
+        message: 'This event is not accepting guests',
+        status: 409,
+        context: ROUTE_CONTEXT,
+      });
+    }
+
+    if (error instanceof JoinRequestEventFullError) {
+      return createErrorResponse({
+        message: 'This event is already full',
+        status: 409,
+        context: ROUTE_CONTEXT,
+      });
+    }
+
+    return handleRouteError(error, ROUTE_CONTEXT, 'Unable to redeem invite link');
+  }
+};
+
+export const POST = requireAuth(redeemInviteLinkHandler);
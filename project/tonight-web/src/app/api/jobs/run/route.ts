@@ -0,0 +1,94 @@
+import { timingSafeEqual } from 'node:crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { UnknownJobError } from '@/lib/job-runner';
+import { getJobRunner } from '@/lib/scheduled-jobs';
+import { createErrorResponse, handleRouteError } from '@/lib/http/errors';
+
+const ROUTE_CONTEXT = 'POST /api/jobs/run';
+
+const parseJson = async (request: NextRequest) => {
+  try {
+    const text = await request.text();
+    return text ? (JSON.parse(text) as Record<string, unknown>) : {};
+  } catch {
+    return null;
+  }
+};
+
+const isAuthorized = (request: NextRequest, secret: string) => {
+  const header = request.headers.get('authorization') ?? '';
+  const provided = Buffer.from(header.replace(/^Bearer\s+/i, ''));
+  const expected = Buffer.from(secret);
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+};
+
+const normalizeJobNames = (value: unknown) => {
+  if (typeof value === 'undefined' || value === null) {
+    return { value: undefined } as const;
+  }
+
+  if (!Array.isArray(value) || value.some((name) => typeof name !== 'string' || !name.trim())) {
+    return { error: 'jobs must be an array of job names' } as const;
+  }
+
+  return { value: value.map((name: string) => name.trim()) } as const;
+};
+
+/**
+ * Runs scheduled jobs on demand, for cron-style triggers and the
+ * `npm run jobs:run` script. Guarded by the JOBS_SECRET bearer token.
+ */
+export async function POST(request: NextRequest) {
+  const secret = process.env.JOBS_SECRET;
+  if (!secret) {
+    return createErrorResponse({
+      message: 'Job triggers are not configured',
+      status: 503,
+      context: ROUTE_CONTEXT,
+    });
+  }
+
+  if (!isAuthorized(request, secret)) {
+    return createErrorResponse({
+      message: 'Unauthorized',
+      status: 401,
+      context: ROUTE_CONTEXT,
+    });
+  }
+
+  const body = await parseJson(request);
+  if (!body) {
+    return createErrorResponse({
+      message: 'Invalid JSON body',
+      status: 400,
+      context: ROUTE_CONTEXT,
+    });
+  }
+
+  const jobsField = normalizeJobNames(body.jobs);
+  if ('error' in jobsField) {
+    return createErrorResponse({
+      message: jobsField.error ?? 'Invalid jobs',
+      status: 400,
+      context: ROUTE_CONTEXT,
+      errors: { jobs: jobsField.error ?? 'Invalid jobs' },
+    });
+  }
+
+  try {
+    const results = await getJobRunner().runJobs(jobsField.value);
+    const failed = results.some((result) => result.status === 'failed');
+    return NextResponse.json({ results }, { status: failed ? 500 : 200 });
+  } catch (error) {
+    if (error instanceof UnknownJobError) {
+      return createErrorResponse({
+        message: error.message,
+        status: 400,
+        context: ROUTE_CONTEXT,
+        errors: { jobs: error.message },
+      });
+    }
+
+    return handleRouteError(error, ROUTE_CONTEXT, 'Unable to run jobs');
+  }
+}
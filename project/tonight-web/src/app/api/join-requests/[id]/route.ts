@@ -3,13 +3,18 @@ import { JoinRequestStatus } from '@/generated/prisma/client';
 import type { AuthenticatedRouteHandler } from '@/middleware/auth';
 import { requireAuth } from '@/middleware/auth';
 import {
+  promoteWaitlistedJoinRequests,
   updateJoinRequestStatus,
+  withdrawJoinRequest,
   JoinRequestEventFullError,
+  JoinRequestExpiredError,
   JoinRequestInactiveEventError,
   JoinRequestInvalidStatusError,
   JoinRequestNotFoundError,
   JoinRequestUnauthorizedError,
+  JoinRequestWithdrawnError,
 } from '@/lib/join-requests';
+import { notifyJoinRequestWithdrawn, notifyWaitlistPromotions } from '@/lib/event-notifications';
 import { createErrorResponse, handleRouteError } from '@/lib/http/errors';
 import { socketService } from '@/lib/socket';
 import { JOIN_REQUEST_STATUS_CHANGED_EVENT, type JoinRequestStatusChangedPayload } from '@/lib/socket-shared';
@@ -108,7 +113,14 @@ export const patchJoinRequestHandler: AuthenticatedRouteHandler<NextResponse> =
       }
     }
 
-    return NextResponse.json({ joinRequest }, { status: 200 });
+    // Declining someone may free a spot for the next guest on the waitlist.
+    let promoted = 0;
+    if (statusField.value === JoinRequestStatus.REJECTED) {
+      const promotions = await promoteWaitlistedJoinRequests(joinRequest.eventId);
+      promoted = (await notifyWaitlistPromotions(auth.userId, promotions)).length;
+    }
+
+    return NextResponse.json({ joinRequest, promoted }, { status: 200 });
   } catch (error) {
     if (error instanceof JoinRequestNotFoundError) {
       return createErrorResponse({
@@ -150,8 +162,88 @@ export const patchJoinRequestHandler: AuthenticatedRouteHandler<NextResponse> =
       });
     }
 
+    if (error instanceof JoinRequestWithdrawnError) {
+      return createErrorResponse({
+        message: 'This guest has withdrawn their request',
+        status: 409,
+        context: ROUTE_CONTEXT,
+      });
+    }
+
+    if (error instanceof JoinRequestExpiredError) {
+      return createErrorResponse({
+        message: 'This request expired before it was answered',
+        status: 409,
+        context: ROUTE_CONTEXT,
+      });
+    }
+
     return handleRouteError(error, ROUTE_CONTEXT, 'Unable to update join request');
   }
 };
 
+const DELETE_ROUTE_CONTEXT = 'DELETE /api/join-requests/[id]';
+
+/** Guests withdraw their own request, or their spot once accepted. */
+export const deleteJoinRequestHandler: AuthenticatedRouteHandler<NextResponse> = async (
+  _request,
+  context,
+  auth
+) => {
+  const params = await (context as RouteContext).params;
+  const joinRequestId = params?.id;
+  if (!joinRequestId) {
+    return createErrorResponse({
+      message: 'Join request id is required',
+      status: 400,
+      context: DELETE_ROUTE_CONTEXT,
+    });
+  }
+
+  try {
+    const { joinRequest, previousStatus, hostId } = await withdrawJoinRequest({
+      joinRequestId,
+      userId: auth.userId,
+    });
+
+    notifyJoinRequestWithdrawn(joinRequest);
+
+    // A freed seat, or a shorter pending queue, may let the next guest in.
+    let promoted = 0;
+    if (previousStatus !== JoinRequestStatus.WAITLISTED) {
+      const promotions = await promoteWaitlistedJoinRequests(joinRequest.eventId);
+      promoted = (await notifyWaitlistPromotions(hostId, promotions)).length;
+    }
+
+    return NextResponse.json({ joinRequest, promoted }, { status: 200 });
+  } catch (error) {
+    if (error instanceof JoinRequestNotFoundError) {
+      return createErrorResponse({
+        message: 'Join request not found',
+        status: 404,
+        context: DELETE_ROUTE_CONTEXT,
+      });
+    }
+
+    if (error instanceof JoinRequestUnauthorizedError) {
+      return createErrorResponse({
+        message: 'You can only withdraw your own join request',
+        status: 403,
+        context: DELETE_ROUTE_CONTEXT,
+      });
+    }
+
+    if (error instanceof JoinRequestInvalidStatusError) {
+      return createErrorResponse({
+        message: 'This join request can no longer be withdrawn',
+        status: 409,
+        context: DELETE_ROUTE_CONTEXT,
+      });
+    }
+
+    return handleRouteError(error, DELETE_ROUTE_CONTEXT, 'Unable to withdraw join request');
+  }
+};
+
 export const PATCH = requireAuth(patchJoinRequestHandler);
+export const DELETE = requireAuth(deleteJoinRequestHandler);
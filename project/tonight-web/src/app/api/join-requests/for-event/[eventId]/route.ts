@@ -1,11 +1,17 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { JoinRequestStatus } from '@/generated/prisma/client';
 import type { AuthenticatedRouteHandler } from '@/middleware/auth';
 import { requireAuth } from '@/middleware/auth';
 import {
   listJoinRequestsForEvent,
+  promoteWaitlistedJoinRequests,
+  updateJoinRequestStatuses,
   JoinRequestEventNotFoundError,
+  JoinRequestInactiveEventError,
   JoinRequestUnauthorizedError,
 } from '@/lib/join-requests';
+import { JOIN_REQUEST_BATCH_LIMIT } from '@/lib/join-request-limits';
+import { notifyJoinRequestDecisions, notifyWaitlistPromotions } from '@/lib/event-notifications';
 import { createErrorResponse, handleRouteError } from '@/lib/http/errors';
 
 interface RouteContext {
@@ -27,7 +33,50 @@ const normalizeEventId = (value: unknown) => {
   return { value: trimmed } as const;
 };
 
+const parseRequestBody = async (request: NextRequest) => {
+  try {
+    return (await request.json()) as Record<string, unknown>;
+  } catch {
+    return null;
+  }
+};
+
+const normalizeStatus = (value: unknown) => {
+  if (typeof value !== 'string') {
+    return { error: 'Status must be a string' } as const;
+  }
+
+  const normalized = value.trim().toLowerCase();
+  if (normalized === 'accepted') {
+    return { value: JoinRequestStatus.ACCEPTED } as const;
+  }
+
+  if (normalized === 'rejected') {
+    return { value: JoinRequestStatus.REJECTED } as const;
+  }
+
+  return { error: 'Status must be "accepted" or "rejected"' } as const;
+};
+
+const normalizeJoinRequestIds = (value: unknown) => {
+  if (!Array.isArray(value) || value.length === 0) {
+    return { error: 'joinRequestIds must be a non-empty list' } as const;
+  }
+
+  if (value.length > JOIN_REQUEST_BATCH_LIMIT) {
+    return { error: `Decide on at most ${JOIN_REQUEST_BATCH_LIMIT} requests at a time` } as const;
+  }
+
+  const ids = value.map((id) => (typeof id === 'string' ? id.trim() : ''));
+  if (ids.some((id) => !id)) {
+    return { error: 'joinRequestIds must only contain ids' } as const;
+  }
+
+  return { value: ids } as const;
+};
+
 const ROUTE_CONTEXT = 'GET /api/join-requests/for-event/[eventId]';
+const PATCH_ROUTE_CONTEXT = 'PATCH /api/join-requests/for-event/[eventId]';
 
 export const getJoinRequestsForEventHandler: AuthenticatedRouteHandler<NextResponse> = async (
   _request,
@@ -72,4 +121,106 @@ export const getJoinRequestsForEventHandler: AuthenticatedRouteHandler<NextRespo
   }
 };
 
+/**
+ * Accepts or rejects a batch of the event's requests:
+ * `{ status: 'accepted' | 'rejected', joinRequestIds: string[] }`. Responds
+ * with one result per id, in order, rather than failing the whole batch.
+ */
+export const patchJoinRequestsForEventHandler: AuthenticatedRouteHandler<NextResponse> = async (
+  request,
+  context,
+  auth
+) => {
+  const eventIdParam = (await (context as RouteContext)?.params)?.eventId;
+  const normalizedEventId = normalizeEventId(eventIdParam);
+  if ('error' in normalizedEventId) {
+    return createErrorResponse({
+      message: normalizedEventId.error ?? 'Invalid event ID',
+      status: 400,
+      context: PATCH_ROUTE_CONTEXT,
+    });
+  }
+
+  const body = await parseRequestBody(request);
+  if (!body) {
+    return createErrorResponse({
+      message: 'Invalid JSON body',
+      status: 400,
+      context: PATCH_ROUTE_CONTEXT,
+    });
+  }
+
+  const errors: Record<string, string> = {};
+  const statusField = normalizeStatus(body.status);
+  if ('error' in statusField) {
+    errors.status = statusField.error ?? 'Invalid status';
+  }
+  const idsField = normalizeJoinRequestIds(body.joinRequestIds);
+  if ('error' in idsField) {
+    errors.joinRequestIds = idsField.error ?? 'Invalid join request ids';
+  }
+  if ('error' in statusField || 'error' in idsField) {
+    return createErrorResponse({
+      message: 'Invalid batch update',
+      status: 400,
+      context: PATCH_ROUTE_CONTEXT,
+      errors,
+    });
+  }
+
+  try {
+    const results = await updateJoinRequestStatuses({
+      eventId: normalizedEventId.value,
+      hostId: auth.userId,
+      status: statusField.value,
+      joinRequestIds: idsField.value,
+    });
+
+    const changed = results.flatMap((result) =>
+      result.ok && result.previousStatus !== result.joinRequest.status ? [result.joinRequest] : []
+    );
+    notifyJoinRequestDecisions(changed);
+
+    // Declined guests may free spots for the waitlist, as with single decisions.
+    let promoted = 0;
+    if (statusField.value === JoinRequestStatus.REJECTED && changed.length > 0) {
+      const promotions = await promoteWaitlistedJoinRequests(normalizedEventId.value);
+      promoted = (await notifyWaitlistPromotions(auth.userId, promotions)).length;
+    }
+
+    const updated = results.filter((result) => result.ok).length;
+    return NextResponse.json(
+      { results, updated, failed: results.length - updated, promoted },
+      { status: 200 }
+    );
+  } catch (error) {
+    if (error instanceof JoinRequestEventNotFoundError) {
+      return createErrorResponse({
+        message: 'Event not found',
+        status: 404,
+        context: PATCH_ROUTE_CONTEXT,
+      });
+    }
+
+    if (error instanceof JoinRequestUnauthorizedError) {
+      return createErrorResponse({
+        message: 'You are not allowed to update join requests for this event',
+        status: 403,
+        context: PATCH_ROUTE_CONTEXT,
+      });
+    }
+
+    if (error instanceof JoinRequestInactiveEventError) {
+      return createErrorResponse({
+        message: 'This event is not active',
+        status: 409,
+        context: PATCH_ROUTE_CONTEXT,
+      });
+    }
+
+    return handleRouteError(error, PATCH_ROUTE_CONTEXT, 'Unable to update join requests');
+  }
+};
+
 export const GET = requireAuth(getJoinRequestsForEventHandler);
+export const PATCH = requireAuth(patchJoinRequestsForEventHandler);
@@ -1,13 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { JoinRequestStatus } from '@/generated/prisma/client';
 import type { AuthenticatedRouteHandler } from '@/middleware/auth';
 import { requireAuth } from '@/middleware/auth';
 import {
   createJoinRequest,
+  JoinRequestAnswersError,
   JoinRequestDuplicateError,
   JoinRequestEventFullError,
   JoinRequestEventNotFoundError,
   JoinRequestInactiveEventError,
+  JoinRequestIntroValidationError,
+  JoinRequestNotInvitedError,
 } from '@/lib/join-requests';
+import type { JoinAnswers } from '@/lib/join-questions';
+import { notifyInstantJoin } from '@/lib/event-notifications';
 import { createErrorResponse, handleRouteError } from '@/lib/http/errors';
 
 const parseRequestBody = async (request: NextRequest) => {
@@ -31,6 +37,31 @@ const normalizeEventId = (value: unknown) => {
   return { value: trimmed } as const;
 };
 
+const normalizeIntro = (value: unknown) => {
+  if (value === undefined || value === null) {
+    return { value: null } as const;
+  }
+
+  if (typeof value !== 'string') {
+    return { error: 'Intro must be a string' } as const;
+  }
+
+  return { value } as const;
+};
+
+// Answers are checked against the event's questions by createJoinRequest.
+const normalizeAnswers = (value: unknown) => {
+  if (value === undefined || value === null) {
+    return { value: {} } as const;
+  }
+
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    return { error: 'Answers must be an object keyed by question id' } as const;
+  }
+
+  return { value: value as JoinAnswers } as const;
+};
+
 const ROUTE_CONTEXT = 'POST /api/join-requests';
 
 export const createJoinRequestHandler: AuthenticatedRouteHandler<NextResponse> = async (
@@ -56,14 +87,47 @@ export const createJoinRequestHandler: AuthenticatedRouteHandler<NextResponse> =
     });
   }
 
+  const introField = normalizeIntro(body.intro);
+  if ('error' in introField) {
+    return createErrorResponse({
+      message: introField.error ?? 'Invalid intro',
+      status: 400,
+      context: ROUTE_CONTEXT,
+    });
+  }
+
+  const answersField = normalizeAnswers(body.answers);
+  if ('error' in answersField) {
+    return createErrorResponse({
+      message: answersField.error ?? 'Invalid answers',
+      status: 400,
+      context: ROUTE_CONTEXT,
+    });
+  }
+
   try {
     const joinRequest = await createJoinRequest({
       eventId: eventField.value,
       userId: auth.userId,
+      intro: introField.value,
+      answers: answersField.value,
     });
 
+    // Instant-join events accept the guest straight away.
+    if (joinRequest.status === JoinRequestStatus.ACCEPTED) {
+      notifyInstantJoin(joinRequest);
+    }
+
     return NextResponse.json({ joinRequest }, { status: 201 });
   } catch (error) {
+    if (error instanceof JoinRequestIntroValidationError || error instanceof JoinRequestAnswersError) {
+      return createErrorResponse({
+        message: error.message,
+        status: 400,
+        context: ROUTE_CONTEXT,
+      });
+    }
+
     if (error instanceof JoinRequestEventNotFoundError) {
       return createErrorResponse({
         message: 'Event not found',
@@ -72,6 +136,14 @@ export const createJoinRequestHandler: AuthenticatedRouteHandler<NextResponse> =
       });
     }
 
+    if (error instanceof JoinRequestNotInvitedError) {
+      return createErrorResponse({
+        message: 'Only invited guests can request to join this event',
+        status: 403,
+        context: ROUTE_CONTEXT,
+      });
+    }
+
     if (error instanceof JoinRequestInactiveEventError) {
       return createErrorResponse({
         message: 'This event is not accepting join requests',
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getMediaStorage, isValidMediaKey } from '@/lib/media-storage';
+import { createErrorResponse, handleRouteError } from '@/lib/http/errors';
+
+type RouteContext = {
+  params: Promise<{
+    key: string[];
+  }>;
+};
+
+const ROUTE_CONTEXT = 'GET /api/media/[...key]';
+
+// Uploads get a fresh key every time, so a stored object never changes.
+const IMMUTABLE_CACHE_CONTROL = 'public, max-age=31536000, immutable';
+
+export const getMediaHandler = async (_request: NextRequest, context: RouteContext) => {
+  const params = await context.params;
+  const key = (params.key ?? []).join('/');
+  if (!isValidMediaKey(key)) {
+    return createErrorResponse({
+      message: 'Media not found',
+      status: 404,
+      context: ROUTE_CONTEXT,
+    });
+  }
+
+  try {
+    const object = await getMediaStorage().get(key);
+    if (!object) {
+      return createErrorResponse({
+        message: 'Media not found',
+        status: 404,
+        context: ROUTE_CONTEXT,
+      });
+    }
+
+    return new NextResponse(new Uint8Array(object.data), {
+      status: 200,
+      headers: {
+        'Content-Type': object.contentType,
+        'Content-Length': String(object.data.length),
+        'Cache-Control': IMMUTABLE_CACHE_CONTROL,
+        'X-Content-Type-Options': 'nosniff',
+      },
+    });
+  } catch (error) {
+    return handleRouteError(error, ROUTE_CONTEXT, 'Unable to load media');
+  }
+};
+
+export const GET = getMediaHandler;
@@ -0,0 +1,75 @@
+import { NextResponse } from 'next/server';
+import type { AuthenticatedRouteHandler } from '@/middleware/auth';
+import { requireAuth } from '@/middleware/auth';
+import {
+  removeUserAvatar,
+  setUserAvatar,
+  AvatarImageError,
+  AvatarUserNotFoundError,
+  MAX_AVATAR_IMAGE_BYTES,
+} from '@/lib/avatars';
+import { serializeUser } from '@/lib/user-serialization';
+import { createErrorResponse, handleRouteError } from '@/lib/http/errors';
+import { readUploadedFile } from '@/lib/http/uploads';
+import { isAcceptedImageType } from '@/lib/media-storage';
+
+const PUT_ROUTE_CONTEXT = 'PUT /api/users/me/avatar';
+const DELETE_ROUTE_CONTEXT = 'DELETE /api/users/me/avatar';
+
+export const putAvatarHandler: AuthenticatedRouteHandler<NextResponse> = async (request, _context, auth) => {
+  const file = await readUploadedFile(request);
+  if (!file) {
+    return createErrorResponse({
+      message: 'Upload the photo as multipart form data in a "file" field',
+      status: 400,
+      context: PUT_ROUTE_CONTEXT,
+    });
+  }
+
+  if (!isAcceptedImageType(file.type)) {
+    return createErrorResponse({
+      message: 'Profile photos must be JPEG, PNG or WebP',
+      status: 415,
+      context: PUT_ROUTE_CONTEXT,
+    });
+  }
+
+  if (file.size > MAX_AVATAR_IMAGE_BYTES) {
+    return createErrorResponse({
+      message: 'Profile photo must be 8MB or smaller',
+      status: 413,
+      context: PUT_ROUTE_CONTEXT,
+    });
+  }
+
+  try {
+    const user = await setUserAvatar({
+      userId: auth.userId,
+      data: Buffer.from(await file.arrayBuffer()),
+    });
+    return NextResponse.json({ user: serializeUser(user) });
+  } catch (error) {
+    if (error instanceof AvatarUserNotFoundError) {
+      return createErrorResponse({ message: 'User not found', status: 404, context: PUT_ROUTE_CONTEXT });
+    }
+    if (error instanceof AvatarImageError) {
+      return createErrorResponse({ message: error.message, status: 400, context: PUT_ROUTE_CONTEXT });
+    }
+    return handleRouteError(error, PUT_ROUTE_CONTEXT, 'Unable to save profile photo');
+  }
+};
+
+export const deleteAvatarHandler: AuthenticatedRouteHandler<NextResponse> = async (_request, _context, auth) => {
+  try {
+    const user = await removeUserAvatar(auth.userId);
+    return NextResponse.json({ user: serializeUser(user) });
+  } catch (error) {
+    if (error instanceof AvatarUserNotFoundError) {
+      return createErrorResponse({ message: 'User not found', status: 404, context: DELETE_ROUTE_CONTEXT });
+    }
+    return handleRouteError(error, DELETE_ROUTE_CONTEXT, 'Unable to remove profile photo');
+  }
+};
+
+export const PUT = requireAuth(putAvatarHandler);
+export const DELETE = requireAuth(deleteAvatarHandler);
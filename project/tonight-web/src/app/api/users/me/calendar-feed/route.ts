@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server';
+import type { AuthenticatedRouteHandler } from '@/middleware/auth';
+import { requireAuth } from '@/middleware/auth';
+import {
+  getCalendarFeedLinks,
+  rotateCalendarFeedToken,
+  CalendarFeedUserNotFoundError,
+} from '@/lib/calendar-feed';
+import { createErrorResponse, handleRouteError } from '@/lib/http/errors';
+
+const GET_ROUTE_CONTEXT = 'GET /api/users/me/calendar-feed';
+const POST_ROUTE_CONTEXT = 'POST /api/users/me/calendar-feed';
+
+export const getCalendarFeedLinksHandler: AuthenticatedRouteHandler<NextResponse> = async (_request, _context, auth) => {
+  try {
+    const feed = await getCalendarFeedLinks(auth.userId);
+    return NextResponse.json({ feed });
+  } catch (error) {
+    if (error instanceof CalendarFeedUserNotFoundError) {
+      return createErrorResponse({
+        message: 'User not found',
+        status: 404,
+        context: GET_ROUTE_CONTEXT,
+      });
+    }
+    return handleRouteError(error, GET_ROUTE_CONTEXT, 'Unable to load calendar feed');
+  }
+};
+
+/** Issues a new feed URL; calendars subscribed to the old one stop updating. */
+export const rotateCalendarFeedHandler: AuthenticatedRouteHandler<NextResponse> = async (_request, _context, auth) => {
+  try {
+    const feed = await rotateCalendarFeedToken(auth.userId);
+    return NextResponse.json({ feed });
+  } catch (error) {
+    return handleRouteError(error, POST_ROUTE_CONTEXT, 'Unable to reset calendar feed');
+  }
+};
+
+export const GET = requireAuth(getCalendarFeedLinksHandler);
+export const POST = requireAuth(rotateCalendarFeedHandler);
@@ -3,11 +3,12 @@ import { prisma } from '@/lib/prisma';
 import type { AuthenticatedRouteHandler } from '@/middleware/auth';
 import { requireAuth } from '@/middleware/auth';
 import { serializeUser } from '@/lib/user-serialization';
+import { deleteAvatarFiles } from '@/lib/avatars';
 import { createErrorResponse, handleRouteError } from '@/lib/http/errors';
 
 const DISPLAY_NAME_MIN = 2;
 const DISPLAY_NAME_MAX = 64;
-const PHOTO_URL_MAX = 2_000_000; // 2MB limit for base64 encoded images
+const PHOTO_URL_MAX = 2048;
 
 type NormalizedField = {
   provided: boolean;
@@ -62,16 +63,14 @@ const normalizePhotoUrl = (value: unknown): NormalizedField => {
     return { provided: true, value: null };
   }
 
-  if (trimmed.length > PHOTO_URL_MAX) {
-    return { provided: true, value: null, error: 'Photo URL is too long' };
+  // Uploaded photos go through the avatar pipeline so they are resized and
+  // stripped of metadata; only links to already-hosted images are accepted here.
+  if (trimmed.startsWith('data:')) {
+    return { provided: true, value: null, error: 'Upload photos through /api/users/me/avatar' };
   }
 
-  if (trimmed.startsWith('data:')) {
-    const dataUrlPattern = /^data:image\/[a-zA-Z0-9.+-]+;base64,[A-Za-z0-9+/=]+$/;
-    if (!dataUrlPattern.test(trimmed)) {
-      return { provided: true, value: null, error: 'Photo data URL is invalid' };
-    }
-    return { provided: true, value: trimmed };
+  if (trimmed.length > PHOTO_URL_MAX) {
+    return { provided: true, value: null, error: 'Photo URL is too long' };
   }
 
   try {
@@ -129,12 +128,13 @@ export const patchProfileHandler: AuthenticatedRouteHandler<NextResponse> = asyn
     });
   }
 
-  const data: { displayName?: string | null; photoUrl?: string | null } = {};
+  const data: { displayName?: string | null; photoUrl?: string | null; avatarKey?: null } = {};
   if (displayNameField.provided) {
     data.displayName = displayNameField.value;
   }
   if (photoUrlField.provided) {
     data.photoUrl = photoUrlField.value;
+    data.avatarKey = null;
   }
 
   if (Object.keys(data).length === 0) {
@@ -146,11 +146,19 @@ export const patchProfileHandler: AuthenticatedRouteHandler<NextResponse> = asyn
   }
 
   try {
+    const previousAvatar = photoUrlField.provided
+      ? await prisma.user.findUnique({ where: { id: auth.userId }, select: { avatarKey: true } })
+      : null;
+
     const updatedUser = await prisma.user.update({
       where: { id: auth.userId },
       data,
     });
 
+    if (previousAvatar?.avatarKey) {
+      await deleteAvatarFiles(previousAvatar.avatarKey);
+    }
+
     return NextResponse.json({ user: serializeUser(updatedUser) });
   } catch (error) {
     if (isRecordNotFoundError(error)) {
@@ -1,11 +1,23 @@
 import { notFound } from "next/navigation";
 
-import { JoinRequestStatus } from "@/generated/prisma/client";
+import { EventStatus, JoinRequestStatus, MessageKind } from "@/generated/prisma/client";
 import { EventInsideExperience, type EventInsideExperienceProps } from "@/components/tonight/event-inside/EventInsideExperience";
 import type { MobileActionBarProps } from "@/components/tonight/MobileActionBar";
-import { fetchEventById } from "@/lib/events";
-import { listJoinRequestsForEvent, type SerializedJoinRequestWithUser } from "@/lib/join-requests";
+import { canViewEvent, fetchEventById } from "@/lib/events";
+import { getEventPhase } from "@/lib/event-timing";
+import { buildEventCoverImage } from "@/lib/event-covers";
+import {
+  formatJoinRequestCutoff,
+  getJoinRequestCutoff,
+  JOIN_REQUEST_EXPIRY_MESSAGES,
+} from "@/lib/join-request-expiry";
+import {
+  listJoinQuestionsForEvent,
+  listJoinRequestsForEvent,
+  type SerializedJoinRequestWithUser,
+} from "@/lib/join-requests";
 import { prisma } from "@/lib/prisma";
+import { SYSTEM_MESSAGE_AUTHOR_NAME } from "@/lib/socket-shared";
 import { getCurrentUser } from "@/middleware/auth";
 import { EventInsidePageClient } from "./EventInsidePageClient";
 
@@ -44,23 +56,27 @@ const normalizeEventId = (value: string | string[] | undefined) => {
 const mapJoinRequestsToAttendees = (
   requests: SerializedJoinRequestWithUser[]
 ): EventInsideExperienceProps["attendees"] => {
-  return requests.map((request) => ({
-    id: request.user.id,
-    displayName: request.user.displayName ?? request.user.email,
-    avatarUrl: request.user.photoUrl,
-    status:
-      request.status === JoinRequestStatus.ACCEPTED
-        ? "confirmed"
-        : request.status === JoinRequestStatus.PENDING
-          ? "pending"
-          : "waitlist",
-    blurb:
-      request.status === JoinRequestStatus.PENDING
-        ? "Waiting on host review"
-        : request.status === JoinRequestStatus.ACCEPTED
-          ? "Coming tonight"
-          : "Moved to waitlist",
-  }));
+  return requests
+    .filter(
+      (request) => request.status !== JoinRequestStatus.REJECTED && request.status !== JoinRequestStatus.WITHDRAWN
+    )
+    .map((request) => ({
+      id: request.user.id,
+      displayName: request.user.displayName ?? request.user.email,
+      avatarUrl: request.user.photoUrl,
+      status:
+        request.status === JoinRequestStatus.ACCEPTED
+          ? "confirmed"
+          : request.status === JoinRequestStatus.PENDING
+            ? "pending"
+            : "waitlist",
+      blurb:
+        request.status === JoinRequestStatus.PENDING
+          ? "Waiting on host review"
+          : request.status === JoinRequestStatus.ACCEPTED
+            ? "Coming tonight"
+            : "On the waitlist",
+    }));
 };
 
 const mapPendingJoinRequests = (
@@ -72,7 +88,7 @@ const mapPendingJoinRequests = (
       id: request.id,
       userId: request.user.id,
       displayName: request.user.displayName ?? request.user.email,
-      intro: null,
+      intro: request.intro,
       submittedAtISO: request.createdAt,
       mutualFriends: null,
     }));
@@ -409,6 +425,7 @@ const buildChatPreviewForAcceptedGuest = async ({
         content: true,
         createdAt: true,
         senderId: true,
+        kind: true,
         sender: {
           select: {
             displayName: true,
@@ -442,7 +459,7 @@ const buildChatPreviewForAcceptedGuest = async ({
       },
       orderBy: { createdAt: "desc" },
       take: HOST_ACTIVITY_FEED_LIMIT + 1,
-      select: { id: true, content: true, createdAt: true },
+      select: { id: true, content: true, createdAt: true, kind: true },
     }),
   ]);
 
@@ -453,9 +470,11 @@ const buildChatPreviewForAcceptedGuest = async ({
   const lastMessage = recentMessages[0];
   const lastMessageSnippet = lastMessage?.content ?? "No messages yet. Say hi once you're accepted.";
   const lastMessageAuthorName = lastMessage
-    ? lastMessage.senderId === viewerId
-      ? "You"
-      : lastMessage.sender?.displayName ?? lastMessage.sender?.email ?? "Guest"
+    ? lastMessage.kind === MessageKind.SYSTEM
+      ? SYSTEM_MESSAGE_AUTHOR_NAME
+      : lastMessage.senderId === viewerId
+        ? "You"
+        : lastMessage.sender?.displayName ?? lastMessage.sender?.email ?? "Guest"
     : null;
   const lastMessageAtISO = lastMessage?.createdAt?.toISOString() ?? fallbackTimestampISO ?? null;
   const participantCount = acceptedGuestsCount + 1; // host + accepted guests
@@ -463,19 +482,24 @@ const buildChatPreviewForAcceptedGuest = async ({
     id: message.id,
     message: message.content,
     postedAtISO: message.createdAt?.toISOString() ?? null,
-    authorName: hostDisplayName ?? "Host",
+    authorName: message.kind === MessageKind.SYSTEM ? SYSTEM_MESSAGE_AUTHOR_NAME : hostDisplayName ?? "Host",
   }));
 
-  const guestMessagePreview = recentMessages.map((message) => ({
-    id: message.id,
-    content: message.content,
-    postedAtISO: message.createdAt?.toISOString() ?? null,
-    authorName: message.senderId === viewerId
-      ? "You"
-      : message.sender?.displayName ?? message.sender?.email ?? "Guest",
-    authorAvatarUrl: message.sender?.photoUrl ?? null,
-    isViewer: message.senderId === viewerId,
-  }));
+  const guestMessagePreview = recentMessages.map((message) => {
+    const isSystem = message.kind === MessageKind.SYSTEM;
+    return {
+      id: message.id,
+      content: message.content,
+      postedAtISO: message.createdAt?.toISOString() ?? null,
+      authorName: isSystem
+        ? SYSTEM_MESSAGE_AUTHOR_NAME
+        : message.senderId === viewerId
+          ? "You"
+          : message.sender?.displayName ?? message.sender?.email ?? "Guest",
+      authorAvatarUrl: isSystem ? null : message.sender?.photoUrl ?? null,
+      isViewer: !isSystem && message.senderId === viewerId,
+    };
+  });
 
   return {
     lastMessageSnippet,
@@ -510,6 +534,13 @@ const buildChatPreviewForPendingViewer = (status: JoinRequestStatus | undefined)
     };
   }
 
+  if (status === JoinRequestStatus.WAITLISTED) {
+    return {
+      ctaLabel: "You're on the waitlist",
+      ctaDisabledReason: "The event is full. You'll move up in the order you asked as soon as a spot opens.",
+    };
+  }
+
   return {
     ctaLabel: "Chat unavailable",
     ctaDisabledReason: "Chat is only available to accepted guests.",
@@ -646,7 +677,7 @@ export default async function EventInsidePage({ params }: PageParams) {
   }
 
   const eventRecord = await fetchEventById(eventId);
-  if (!eventRecord) {
+  if (!eventRecord || !(await canViewEvent(eventRecord, authenticatedUser?.userId ?? null))) {
     notFound();
   }
 
@@ -680,6 +711,8 @@ export default async function EventInsidePage({ params }: PageParams) {
         createdAt: true,
         updatedAt: true,
         lastSeenHostActivityAt: true,
+        intro: true,
+        expiryReason: true,
         user: {
           select: {
             id: true,
@@ -701,6 +734,9 @@ export default async function EventInsidePage({ params }: PageParams) {
         createdAt: viewerRequest.createdAt.toISOString(),
         updatedAt: viewerRequest.updatedAt.toISOString(),
         lastSeenHostActivityAt: viewerRequest.lastSeenHostActivityAt?.toISOString() ?? null,
+        intro: viewerRequest.intro,
+        expiryReason: viewerRequest.expiryReason,
+        answers: [],
         user: {
           id: viewerRequest.user.id,
           email: viewerRequest.user.email,
@@ -745,6 +781,10 @@ export default async function EventInsidePage({ params }: PageParams) {
       createdAt: r.createdAt.toISOString(),
       updatedAt: r.updatedAt.toISOString(),
       lastSeenHostActivityAt: r.lastSeenHostActivityAt?.toISOString() ?? null,
+      // Intros and answers are written for the host alone.
+      intro: null,
+      expiryReason: null,
+      answers: [],
       user: {
         id: r.user.id,
         email: r.user.email,
@@ -756,13 +796,14 @@ export default async function EventInsidePage({ params }: PageParams) {
   }
 
   // Pending/public viewers only get counts — no names
-  let attendeeSummary: { confirmed: number; pending: number } | undefined;
+  let attendeeSummary: { confirmed: number; pending: number; waitlisted: number } | undefined;
   if (!isHostViewer && !isGuestViewer) {
-    const [confirmedCount, pendingCount] = await Promise.all([
+    const [confirmedCount, pendingCount, waitlistedCount] = await Promise.all([
       prisma.joinRequest.count({ where: { eventId, status: JoinRequestStatus.ACCEPTED } }),
       prisma.joinRequest.count({ where: { eventId, status: JoinRequestStatus.PENDING } }),
+      prisma.joinRequest.count({ where: { eventId, status: JoinRequestStatus.WAITLISTED } }),
     ]);
-    attendeeSummary = { confirmed: confirmedCount, pending: pendingCount };
+    attendeeSummary = { confirmed: confirmedCount, pending: pendingCount, waitlisted: waitlistedCount };
   }
 
   const allRequestsForAttendees = isHostViewer ? joinRequests : isGuestViewer ? guestJoinRequests : [];
@@ -794,10 +835,33 @@ export default async function EventInsidePage({ params }: PageParams) {
     ? "host"
     : viewerJoinRequest?.status === JoinRequestStatus.ACCEPTED
       ? "guest"
-      : viewerJoinRequest?.status === JoinRequestStatus.PENDING
+      : viewerJoinRequest?.status === JoinRequestStatus.PENDING ||
+          viewerJoinRequest?.status === JoinRequestStatus.WAITLISTED
         ? "pending"
         : "public";
 
+  // Explains why a viewer who is not in yet cannot ask (again).
+  let joinClosedNotice: EventInsideExperienceProps["joinClosedNotice"] = null;
+  const { joinRequestCutoffMinutes } = eventRecord;
+  const joinRequestCutoff = getJoinRequestCutoff(eventRecord.datetime, joinRequestCutoffMinutes);
+  if (viewerJoinRequest?.status === JoinRequestStatus.EXPIRED && viewerJoinRequest.expiryReason) {
+    joinClosedNotice = {
+      title: "Request expired",
+      description: JOIN_REQUEST_EXPIRY_MESSAGES[viewerJoinRequest.expiryReason],
+    };
+  } else if (viewerRole === "public" && joinRequestCutoffMinutes !== null && joinRequestCutoff && joinRequestCutoff <= new Date()) {
+    joinClosedNotice = {
+      title: "Requests closed",
+      description:
+        joinRequestCutoffMinutes === 0
+          ? "The host stopped taking requests once the event started."
+          : `The host stopped taking requests ${formatJoinRequestCutoff(joinRequestCutoffMinutes)} the start.`,
+    };
+  }
+
+  // Only people who can still ask to join need the host's questions.
+  const joinQuestions = viewerRole === "public" && !joinClosedNotice ? await listJoinQuestionsForEvent(eventId) : [];
+
   let chatPreview: EventInsideExperienceProps["chatPreview"] | undefined;
   if (authenticatedUser) {
     if (viewerRole === "host") {
@@ -817,6 +881,21 @@ export default async function EventInsidePage({ params }: PageParams) {
       });
     } else if (viewerRole === "pending") {
       chatPreview = buildChatPreviewForPendingViewer(viewerJoinRequest?.status);
+    } else if (viewerRole === "public" && eventRecord.status === EventStatus.CANCELLED) {
+      chatPreview = {
+        ctaLabel: "Event cancelled",
+        ctaDisabledReason: "The host cancelled this event, so it is no longer taking requests.",
+      };
+    } else if (viewerRole === "public" && joinClosedNotice) {
+      chatPreview = {
+        ctaLabel: joinClosedNotice.title,
+        ctaDisabledReason: joinClosedNotice.description,
+      };
+    } else if (viewerRole === "public" && eventRecord.approvalMode === "AUTOMATIC") {
+      chatPreview = {
+        ctaLabel: "Join event",
+        ctaDisabledReason: "Join to chat with the host and other guests. No approval needed while spots last.",
+      };
     } else if (viewerRole === "public") {
       // Authenticated users who haven't requested to join yet
       chatPreview = {
@@ -846,6 +925,13 @@ export default async function EventInsidePage({ params }: PageParams) {
           }
         : null,
       capacityLabel: `${eventRecord.maxParticipants} spots`,
+      status: eventRecord.status,
+      cancellationReason: eventRecord.cancellationReason,
+      endDateISO: eventRecord.endDatetime?.toISOString() ?? null,
+      phase: getEventPhase(eventRecord.datetime, eventRecord.endDatetime),
+      coverImageUrl: buildEventCoverImage(eventRecord.coverImageKey)?.url ?? null,
+      seriesId: eventRecord.seriesId,
+      approvalMode: eventRecord.approvalMode,
     },
     host: {
       id: eventRecord.hostId,
@@ -856,6 +942,8 @@ export default async function EventInsidePage({ params }: PageParams) {
     attendees,
     attendeeSummary,
     joinRequests: pendingRequests,
+    joinQuestions,
+    joinClosedNotice,
     viewerRole,
     chatPreview,
     hostFriendInvites,
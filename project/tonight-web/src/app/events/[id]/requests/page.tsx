@@ -1,23 +1,31 @@
 'use client';
 
-import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { type ReactNode, useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import Link from 'next/link';
 import { useParams } from 'next/navigation';
 import UserAvatar from '@/components/UserAvatar';
+import { formatJoinAnswer, type SerializedJoinAnswer } from '@/lib/join-questions';
+import { JOIN_REQUEST_BATCH_LIMIT } from '@/lib/join-request-limits';
 import { showErrorToast, showSuccessToast } from '@/lib/toast';
 
-type JoinRequestStatus = 'PENDING' | 'ACCEPTED' | 'REJECTED';
+type JoinRequestStatus = 'PENDING' | 'ACCEPTED' | 'REJECTED' | 'WAITLISTED' | 'WITHDRAWN' | 'EXPIRED';
 
 const STATUS_LABELS: Record<JoinRequestStatus, string> = {
   PENDING: 'Pending',
   ACCEPTED: 'Accepted',
   REJECTED: 'Rejected',
+  WAITLISTED: 'Waitlisted',
+  WITHDRAWN: 'Withdrew',
+  EXPIRED: 'Expired',
 };
 
 const STATUS_BADGE_STYLES: Record<JoinRequestStatus, string> = {
   PENDING: 'border border-amber-400/40 bg-amber-400/10 text-amber-200',
   ACCEPTED: 'border border-emerald-400/40 bg-emerald-400/10 text-emerald-200',
   REJECTED: 'border border-rose-400/40 bg-rose-400/10 text-rose-200',
+  WAITLISTED: 'border border-zinc-400/40 bg-zinc-400/10 text-zinc-200',
+  WITHDRAWN: 'border border-zinc-500/40 bg-zinc-500/10 text-zinc-400',
+  EXPIRED: 'border border-zinc-500/40 bg-zinc-500/10 text-zinc-400',
 };
 
 type JoinRequestWithUser = {
@@ -25,6 +33,7 @@ type JoinRequestWithUser = {
   eventId: string;
   userId: string;
   status: JoinRequestStatus;
+  intro: string | null;
   createdAt: string;
   updatedAt: string;
   user: {
@@ -34,6 +43,7 @@ type JoinRequestWithUser = {
     photoUrl: string | null;
     createdAt: string;
   };
+  answers: SerializedJoinAnswer[];
 };
 
 type JoinRequestsResponse = {
@@ -59,6 +69,27 @@ type ActionNotice = {
 
 type RequestActionState = 'accepting' | 'rejecting';
 
+// Mirrors JoinRequestBatchFailure on the server.
+type BatchFailure = 'not_found' | 'withdrawn' | 'expired' | 'event_full';
+
+type BatchResult =
+  | { joinRequestId: string; ok: true; joinRequest: Pick<JoinRequestWithUser, 'id' | 'status' | 'updatedAt'> }
+  | { joinRequestId: string; ok: false; reason: BatchFailure };
+
+type BatchResponse = {
+  results: BatchResult[];
+  updated: number;
+  failed: number;
+  promoted: number;
+};
+
+const BATCH_FAILURE_MESSAGES: Record<BatchFailure, string> = {
+  not_found: 'This request no longer exists.',
+  withdrawn: 'The guest withdrew this request.',
+  expired: 'This request expired before you answered it.',
+  event_full: 'No spots were left for this guest.',
+};
+
 const formatDateTime = (value: string | null | undefined) => {
   if (!value) return null;
   const date = new Date(value);
@@ -140,6 +171,8 @@ export default function JoinRequestsManagementPage() {
   const [pageError, setPageError] = useState<string | null>(null);
   const [actionState, setActionState] = useState<Record<string, RequestActionState>>({});
   const [actionNotices, setActionNotices] = useState<Record<string, ActionNotice | undefined>>({});
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [bulkAction, setBulkAction] = useState<RequestActionState | null>(null);
   const abortControllerRef = useRef<AbortController | null>(null);
 
   const loadData = useCallback(async () => {
@@ -212,7 +245,8 @@ export default function JoinRequestsManagementPage() {
     const pending = joinRequests.filter((request) => request.status === 'PENDING').length;
     const accepted = joinRequests.filter((request) => request.status === 'ACCEPTED').length;
     const rejected = joinRequests.filter((request) => request.status === 'REJECTED').length;
-    return { pending, accepted, rejected };
+    const waitlisted = joinRequests.filter((request) => request.status === 'WAITLISTED').length;
+    return { pending, accepted, rejected, waitlisted };
   }, [joinRequests]);
 
   const pendingRequests = useMemo(
@@ -227,11 +261,43 @@ export default function JoinRequestsManagementPage() {
     () => joinRequests.filter((request) => request.status === 'REJECTED'),
     [joinRequests]
   );
+  const waitlistedRequests = useMemo(
+    () => joinRequests.filter((request) => request.status === 'WAITLISTED'),
+    [joinRequests]
+  );
+  const expiredRequests = useMemo(
+    () => joinRequests.filter((request) => request.status === 'EXPIRED'),
+    [joinRequests]
+  );
 
   const refresh = useCallback(() => {
     void loadData();
   }, [loadData]);
 
+  // Only pending requests can be selected; drop anything that has moved on.
+  const pendingIds = useMemo(() => pendingRequests.map((request) => request.id), [pendingRequests]);
+  const selectedPendingIds = useMemo(
+    () => selectedIds.filter((id) => pendingIds.includes(id)),
+    [pendingIds, selectedIds]
+  );
+
+  // Each bulk decision is one request to the server, so selections stop at its batch limit.
+  const selectableIds = useMemo(() => pendingIds.slice(0, JOIN_REQUEST_BATCH_LIMIT), [pendingIds]);
+  const selectionFull = selectedPendingIds.length >= JOIN_REQUEST_BATCH_LIMIT;
+
+  const toggleSelected = useCallback((joinRequestId: string) => {
+    setSelectedIds((prev) => {
+      if (prev.includes(joinRequestId)) {
+        return prev.filter((id) => id !== joinRequestId);
+      }
+      return prev.length >= JOIN_REQUEST_BATCH_LIMIT ? prev : [...prev, joinRequestId];
+    });
+  }, []);
+
+  const toggleSelectAll = useCallback(() => {
+    setSelectedIds(selectedPendingIds.length === selectableIds.length ? [] : selectableIds);
+  }, [selectableIds, selectedPendingIds.length]);
+
   const heroMeta = useMemo(
     () => [
       { label: 'Plan', value: eventTitle || 'Waiting for event…' },
@@ -265,7 +331,10 @@ export default function JoinRequestsManagementPage() {
           );
           throw new Error(message);
         }
-        const payload = (await response.json()) as { joinRequest: Pick<JoinRequestWithUser, 'id' | 'status' | 'updatedAt'> };
+        const payload = (await response.json()) as {
+          joinRequest: Pick<JoinRequestWithUser, 'id' | 'status' | 'updatedAt'>;
+          promoted?: string[];
+        };
         setJoinRequests((prev) =>
           prev.map((request) =>
             request.id === joinRequestId
@@ -273,6 +342,10 @@ export default function JoinRequestsManagementPage() {
               : request
           )
         );
+        if (payload.promoted && payload.promoted.length > 0) {
+          // Someone moved off the waitlist; reload so they show up in the right list.
+          void loadData();
+        }
         const successMessage = nextStatus === 'accepted' ? 'Request accepted.' : 'Request rejected.';
         setActionNotices((prev) => ({
           ...prev,
@@ -302,9 +375,98 @@ export default function JoinRequestsManagementPage() {
         });
       }
     },
-    []
+    [loadData]
   );
 
+  const updateStatuses = useCallback(
+    async (joinRequestIds: string[], nextStatus: 'accepted' | 'rejected') => {
+      if (!eventId || joinRequestIds.length === 0) {
+        return;
+      }
+
+      const state: RequestActionState = nextStatus === 'accepted' ? 'accepting' : 'rejecting';
+      setBulkAction(state);
+      setActionState((prev) => ({ ...prev, ...Object.fromEntries(joinRequestIds.map((id) => [id, state])) }));
+      setActionNotices((prev) => ({ ...prev, ...Object.fromEntries(joinRequestIds.map((id) => [id, undefined])) }));
+      try {
+        const response = await fetch(`/api/join-requests/for-event/${eventId}`, {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ status: nextStatus, joinRequestIds }),
+        });
+        if (!response.ok) {
+          const message = await readErrorPayload(response, 'Unable to update these requests.');
+          throw new Error(message);
+        }
+        const payload = (await response.json()) as BatchResponse;
+        const updatedById = new Map(
+          payload.results.flatMap((result) => (result.ok ? [[result.joinRequestId, result.joinRequest] as const] : []))
+        );
+        setJoinRequests((prev) =>
+          prev.map((request) => {
+            const updated = updatedById.get(request.id);
+            return updated
+              ? { ...request, status: updated.status as JoinRequestStatus, updatedAt: updated.updatedAt }
+              : request;
+          })
+        );
+        setActionNotices((prev) => ({
+          ...prev,
+          ...Object.fromEntries(
+            payload.results.flatMap((result) =>
+              result.ok
+                ? []
+                : [[result.joinRequestId, { intent: 'error', message: BATCH_FAILURE_MESSAGES[result.reason] }] as const]
+            )
+          ),
+        }));
+        setSelectedIds([]);
+        if (payload.promoted > 0) {
+          void loadData();
+        }
+
+        const verb = nextStatus === 'accepted' ? 'accepted' : 'rejected';
+        if (payload.failed === 0) {
+          showSuccessToast(`${payload.updated} ${payload.updated === 1 ? 'request' : 'requests'} ${verb}.`);
+        } else {
+          showErrorToast(
+            `${payload.updated} ${verb}, ${payload.failed} not updated`,
+            'See the highlighted requests for why.'
+          );
+        }
+      } catch (error) {
+        console.error('Failed to update join requests', error);
+        const fallback = 'Unable to update these requests right now.';
+        const message = (error as Error).message ?? fallback;
+        setActionNotices((prev) => ({
+          ...prev,
+          ...Object.fromEntries(joinRequestIds.map((id) => [id, { intent: 'error', message } as const])),
+        }));
+        showErrorToast('Join request update failed', message);
+      } finally {
+        setBulkAction(null);
+        setActionState((prev) => {
+          const next = { ...prev };
+          joinRequestIds.forEach((id) => delete next[id]);
+          return next;
+        });
+      }
+    },
+    [eventId, loadData]
+  );
+
+  const rejectAllRemaining = useCallback(() => {
+    const count = pendingIds.length;
+    const prompt =
+      count > selectableIds.length
+        ? `Reject the ${selectableIds.length} oldest of ${count} pending requests? You can pass on the rest afterwards.`
+        : `Reject all ${count} pending ${count === 1 ? 'request' : 'requests'}?`;
+    if (!window.confirm(prompt)) {
+      return;
+    }
+    void updateStatuses(selectableIds, 'rejected');
+  }, [pendingIds.length, selectableIds, updateStatuses]);
+
   return (
     <div className="min-h-dvh bg-gradient-to-b from-[#0c1024] via-[#090f1d] to-[#05070f] px-4 py-10 text-foreground sm:px-6">
       <div className="mx-auto flex max-w-6xl flex-col gap-8">
@@ -360,9 +522,10 @@ export default function JoinRequestsManagementPage() {
         ) : null}
 
         {pageStatus === 'idle' && !pageError ? (
-          <section className="grid gap-4 sm:grid-cols-3">
+          <section className="grid gap-4 sm:grid-cols-4">
             <StatCard label="Pending" value={statistics.pending} accent="text-amber-200" />
             <StatCard label="Accepted" value={statistics.accepted} accent="text-emerald-200" />
+            <StatCard label="Waitlisted" value={statistics.waitlisted} accent="text-zinc-200" />
             <StatCard label="Rejected" value={statistics.rejected} accent="text-rose-200" />
           </section>
         ) : null}
@@ -377,6 +540,21 @@ export default function JoinRequestsManagementPage() {
               actionState={actionState}
               actionNotices={actionNotices}
               onDecision={updateStatus}
+              selectedIds={selectedPendingIds}
+              selectionFull={selectionFull}
+              onToggleSelected={toggleSelected}
+              toolbar={
+                <BulkActionBar
+                  selectedCount={selectedPendingIds.length}
+                  selectableCount={selectableIds.length}
+                  pendingCount={pendingIds.length}
+                  busy={bulkAction}
+                  onToggleSelectAll={toggleSelectAll}
+                  onAcceptSelected={() => void updateStatuses(selectedPendingIds, 'accepted')}
+                  onRejectSelected={() => void updateStatuses(selectedPendingIds, 'rejected')}
+                  onRejectAll={rejectAllRemaining}
+                />
+              }
             />
             <RequestSection
               title="Accepted"
@@ -388,6 +566,16 @@ export default function JoinRequestsManagementPage() {
               onDecision={undefined}
               readOnly
             />
+            <RequestSection
+              title="Waitlisted"
+              description="Guests waiting for a spot, in the order they asked. They move up as spots open."
+              emptyMessage="No one on the waitlist"
+              requests={waitlistedRequests}
+              actionState={actionState}
+              actionNotices={actionNotices}
+              onDecision={undefined}
+              readOnly
+            />
             <RequestSection
               title="Rejected"
               description="Requests you decided to pass on."
@@ -398,6 +586,16 @@ export default function JoinRequestsManagementPage() {
               onDecision={undefined}
               readOnly
             />
+            <RequestSection
+              title="Expired"
+              description="Requests that closed on their own before you answered them."
+              emptyMessage="No expired requests"
+              requests={expiredRequests}
+              actionState={actionState}
+              actionNotices={actionNotices}
+              onDecision={undefined}
+              readOnly
+            />
           </div>
         ) : null}
       </div>
@@ -414,6 +612,11 @@ type RequestSectionProps = {
   actionNotices: Record<string, ActionNotice | undefined>;
   onDecision?: (id: string, status: 'accepted' | 'rejected') => void;
   readOnly?: boolean;
+  selectedIds?: string[];
+  /** Unselected requests cannot be added once the batch limit is reached. */
+  selectionFull?: boolean;
+  onToggleSelected?: (id: string) => void;
+  toolbar?: ReactNode;
 };
 
 const RequestSection = ({
@@ -425,6 +628,10 @@ const RequestSection = ({
   actionNotices,
   onDecision,
   readOnly = false,
+  selectedIds,
+  selectionFull = false,
+  onToggleSelected,
+  toolbar,
 }: RequestSectionProps) => {
   return (
     <section className="space-y-3">
@@ -432,6 +639,7 @@ const RequestSection = ({
         <h2 className="text-2xl font-semibold text-white">{title}</h2>
         <p className="text-sm text-white/70">{description}</p>
       </div>
+      {requests.length > 0 ? toolbar : null}
       {requests.length === 0 ? (
         <p className="rounded-3xl border border-dashed border-white/15 bg-white/5 px-4 py-6 text-center text-sm text-white/60">
           {emptyMessage}
@@ -446,6 +654,9 @@ const RequestSection = ({
               notice={actionNotices[request.id]}
               onDecision={onDecision}
               readOnly={readOnly}
+              selected={selectedIds?.includes(request.id)}
+              selectionFull={selectionFull}
+              onToggleSelected={onToggleSelected}
             />
           ))}
         </div>
@@ -460,9 +671,21 @@ type RequestCardProps = {
   notice?: ActionNotice;
   onDecision?: (id: string, status: 'accepted' | 'rejected') => void;
   readOnly?: boolean;
+  selected?: boolean;
+  selectionFull?: boolean;
+  onToggleSelected?: (id: string) => void;
 };
 
-const RequestCard = ({ request, actionState, notice, onDecision, readOnly = false }: RequestCardProps) => {
+const RequestCard = ({
+  request,
+  actionState,
+  notice,
+  onDecision,
+  readOnly = false,
+  selected = false,
+  selectionFull = false,
+  onToggleSelected,
+}: RequestCardProps) => {
   const relativeTime = formatRelativeTimeFromNow(request.createdAt);
   const joined = formatDateTime(request.user.createdAt);
   const isAccepting = actionState === 'accepting';
@@ -473,6 +696,16 @@ const RequestCard = ({ request, actionState, notice, onDecision, readOnly = fals
     <div className="rounded-3xl border border-white/10 bg-white/5 p-5 text-white shadow-xl shadow-black/20">
       <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
         <div className="flex flex-1 items-center gap-3">
+          {onToggleSelected ? (
+            <input
+              type="checkbox"
+              checked={selected}
+              onChange={() => onToggleSelected(request.id)}
+              disabled={waiting || (selectionFull && !selected)}
+              aria-label={`Select ${request.user.displayName ?? request.user.email}`}
+              className="h-4 w-4 accent-primary"
+            />
+          ) : null}
           <UserAvatar
             displayName={request.user.displayName ?? undefined}
             email={request.user.email}
@@ -494,6 +727,23 @@ const RequestCard = ({ request, actionState, notice, onDecision, readOnly = fals
         </span>
       </div>
 
+      {request.intro ? (
+        <p className="mt-4 whitespace-pre-line rounded-2xl border border-white/10 bg-black/20 px-4 py-3 text-sm text-white/80">
+          {request.intro}
+        </p>
+      ) : null}
+
+      {request.answers.length > 0 ? (
+        <dl className="mt-4 space-y-3 rounded-2xl border border-white/10 bg-black/20 px-4 py-3" data-testid="join-request-answers">
+          {request.answers.map((answer, index) => (
+            <div key={answer.questionId ?? index}>
+              <dt className="text-xs font-semibold uppercase tracking-wide text-white/50">{answer.prompt}</dt>
+              <dd className="mt-0.5 text-sm text-white/85">{formatJoinAnswer(answer)}</dd>
+            </div>
+          ))}
+        </dl>
+      ) : null}
+
       {!readOnly && (
         <div className="mt-4 flex flex-wrap gap-3">
           <button
@@ -526,6 +776,79 @@ const RequestCard = ({ request, actionState, notice, onDecision, readOnly = fals
   );
 };
 
+type BulkActionBarProps = {
+  selectedCount: number;
+  /** Pending requests that fit in one batch; below pendingCount when there are more. */
+  selectableCount: number;
+  pendingCount: number;
+  busy: RequestActionState | null;
+  onToggleSelectAll: () => void;
+  onAcceptSelected: () => void;
+  onRejectSelected: () => void;
+  onRejectAll: () => void;
+};
+
+const BulkActionBar = ({
+  selectedCount,
+  selectableCount,
+  pendingCount,
+  busy,
+  onToggleSelectAll,
+  onAcceptSelected,
+  onRejectSelected,
+  onRejectAll,
+}: BulkActionBarProps) => {
+  const allSelected = selectedCount > 0 && selectedCount === selectableCount;
+  const nothingSelected = selectedCount === 0;
+
+  return (
+    <div
+      className="flex flex-wrap items-center gap-3 rounded-3xl border border-white/10 bg-white/5 px-4 py-3 text-sm text-white/80"
+      data-testid="join-request-bulk-actions"
+    >
+      <label className="flex items-center gap-2">
+        <input
+          type="checkbox"
+          checked={allSelected}
+          onChange={onToggleSelectAll}
+          disabled={busy !== null}
+          className="h-4 w-4 accent-primary"
+        />
+        {nothingSelected ? 'Select all' : `${selectedCount} selected`}
+      </label>
+      {pendingCount > selectableCount ? (
+        <span className="text-xs text-white/50">Up to {selectableCount} at a time</span>
+      ) : null}
+      <div className="ml-auto flex flex-wrap gap-2">
+        <button
+          type="button"
+          onClick={onRejectSelected}
+          disabled={busy !== null || nothingSelected}
+          className="rounded-full border border-white/20 px-4 py-1.5 font-semibold text-white/80 transition hover:border-rose-200/60 hover:text-rose-200 disabled:cursor-not-allowed disabled:border-white/10 disabled:text-white/40"
+        >
+          {busy === 'rejecting' ? 'Passing…' : 'Pass on selected'}
+        </button>
+        <button
+          type="button"
+          onClick={onAcceptSelected}
+          disabled={busy !== null || nothingSelected}
+          className="rounded-full bg-primary px-4 py-1.5 font-semibold text-primary-foreground shadow-lg shadow-primary/30 transition hover:bg-primary/90 disabled:cursor-not-allowed disabled:bg-white/10 disabled:text-white/40"
+        >
+          {busy === 'accepting' ? 'Inviting…' : 'Invite selected'}
+        </button>
+        <button
+          type="button"
+          onClick={onRejectAll}
+          disabled={busy !== null}
+          className="rounded-full border border-rose-300/30 px-4 py-1.5 font-semibold text-rose-200/80 transition hover:border-rose-200/60 hover:text-rose-200 disabled:cursor-not-allowed disabled:border-white/10 disabled:text-white/40"
+        >
+          Pass on all remaining
+        </button>
+      </div>
+    </div>
+  );
+};
+
 type StatCardProps = {
   label: string;
   value: number;
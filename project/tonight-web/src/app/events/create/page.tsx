@@ -2,8 +2,8 @@
 'use client';
 
 import { FormEvent, type ReactNode, useCallback, useEffect, useMemo, useRef, useState } from 'react';
-import { useRouter } from 'next/navigation';
-import { AlignLeft, ArrowLeft, ChevronRight, Clock, MapPin, Sparkles, Type, Users } from 'lucide-react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { AlignLeft, ArrowLeft, BookmarkPlus, ChevronRight, CircleHelp, Clock, Eye, Hourglass, ImagePlus, LayoutTemplate, ListOrdered, MapPin, Plus, Repeat, Sparkles, Trash2, Type, UserCheck, Users, X } from 'lucide-react';
 import type { LucideIcon } from 'lucide-react';
 
 import MapboxLocationPicker, { type MapCoordinates } from '@/components/MapboxLocationPicker';
@@ -14,21 +14,82 @@ import { AuthStatusMessage } from '@/components/auth/AuthStatusMessage';
 import type { AuthUser } from '@/components/auth/AuthProvider';
 import { useRequireAuth } from '@/hooks/useRequireAuth';
 import { CATEGORY_DEFINITIONS, type CategoryId } from '@/lib/categories';
+import {
+  DEFAULT_EVENT_VISIBILITY,
+  EVENT_VISIBILITIES,
+  EVENT_VISIBILITY_DEFINITIONS,
+  type EventVisibility,
+} from '@/lib/event-visibility';
+import {
+  DEFAULT_EVENT_APPROVAL_MODE,
+  EVENT_APPROVAL_MODES,
+  EVENT_APPROVAL_MODE_DEFINITIONS,
+  type EventApprovalMode,
+} from '@/lib/event-approval';
 import { Drawer } from "@/components/tonight/Drawer";
 import { classNames } from '@/lib/classNames';
-import { showErrorToast } from '@/lib/toast';
+import type { EventTemplateFields, HostAgainDraft, SerializedEventTemplate } from '@/lib/event-templates';
+import {
+  JOIN_QUESTION_KINDS,
+  JOIN_QUESTION_KIND_LABELS,
+  JOIN_QUESTION_OPTION_LIMITS,
+  JOIN_QUESTION_OPTION_MAX_LENGTH,
+  JOIN_QUESTION_PROMPT_MAX_LENGTH,
+  MAX_JOIN_QUESTIONS,
+  type JoinQuestion,
+  type JoinQuestionKind,
+} from '@/lib/join-questions';
+import {
+  formatJoinRequestCutoff,
+  formatJoinRequestTimeout,
+  JOIN_REQUEST_CUTOFF_PRESETS,
+  JOIN_REQUEST_TIMEOUT_PRESETS,
+} from '@/lib/join-request-expiry';
+import { showErrorToast, showSuccessToast } from '@/lib/toast';
 
 const TITLE_LIMITS = { min: 3, max: 120 } as const;
 const DESCRIPTION_LIMITS = { min: 1, max: 2000 } as const;
 const LOCATION_NAME_LIMITS = { min: 2, max: 120 } as const;
 const MAX_PARTICIPANTS_LIMITS = { min: 2, max: 50 } as const;
 const DEFAULT_MAX_PARTICIPANTS = 2;
+const COVER_IMAGE_MAX_BYTES = 8 * 1024 * 1024;
+const COVER_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+const DURATION_OPTIONS: Array<{ value: number | null; label: string }> = [
+  { value: null, label: 'Duration: not sure yet' },
+  { value: 60, label: 'About 1 hour' },
+  { value: 120, label: 'About 2 hours' },
+  { value: 180, label: 'About 3 hours' },
+  { value: 240, label: 'About 4 hours' },
+  { value: 360, label: 'About 6 hours' },
+];
+
+const REPEAT_OPTIONS: Array<{ value: RecurrenceDraft['frequency']; label: string }> = [
+  { value: 'none', label: 'Does not repeat' },
+  { value: 'weekly', label: 'Every week' },
+  { value: 'biweekly', label: 'Every 2 weeks' },
+  { value: 'custom', label: 'On chosen days each week' },
+];
+const WEEKDAY_LABELS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+// Mirrors MAX_SERIES_SPAN_DAYS on the server.
+const REPEAT_MAX_SPAN_DAYS = 183;
+const REPEAT_DEFAULT_WEEKS = 8;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const TEMPLATE_NAME_MAX = 60;
+// "Host again" suggests the same weekday and time, at least this far ahead.
+const HOST_AGAIN_MIN_LEAD_MS = 30 * 60 * 1000;
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
 
 const INPUT_BASE_CLASS =
   'h-12 w-full rounded-2xl border border-border/70 bg-card/60 px-4 text-sm text-foreground placeholder:text-muted-foreground shadow-inner shadow-black/10 transition focus:border-primary focus:ring-2 focus:ring-primary/30 focus:outline-none';
 
 const pad = (value: number) => value.toString().padStart(2, '0');
 
+const formatLocalDayInput = (date: Date) => {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
 const formatLocalDateInput = (date: Date) => {
   return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
 };
@@ -45,6 +106,23 @@ const getInitialDateValue = () => {
   return formatLocalDateInput(date);
 };
 
+const getNextWeeklySlot = (previousIso: string) => {
+  const previous = new Date(previousIso).getTime();
+  if (Number.isNaN(previous)) {
+    return getInitialDateValue();
+  }
+  const earliest = Date.now() + HOST_AGAIN_MIN_LEAD_MS;
+  const weeksAhead = Math.max(1, Math.ceil((earliest - previous) / WEEK_MS));
+  return formatLocalDateInput(new Date(previous + weeksAhead * WEEK_MS));
+};
+
+// The duration picker only offers a few options, so saved durations snap to the closest one.
+const snapDurationMinutes = (value: number | null) => {
+  if (value === null) return null;
+  const options = DURATION_OPTIONS.flatMap((option) => (option.value === null ? [] : [option.value]));
+  return options.reduce((closest, option) => (Math.abs(option - value) < Math.abs(closest - value) ? option : closest));
+};
+
 const formatReadableDatetime = (value: string) => {
   if (!value) return 'Not set';
   const date = new Date(value);
@@ -62,7 +140,15 @@ const formatReadableDatetime = (value: string) => {
   }
 };
 
-type FieldErrors = Partial<Record<'title' | 'description' | 'datetime' | 'location' | 'locationName' | 'maxParticipants', string>>;
+type FieldErrors = Partial<
+  Record<'title' | 'description' | 'datetime' | 'endDatetime' | 'location' | 'locationName' | 'category' | 'maxParticipants' | 'visibility' | 'approvalMode' | 'recurrence' | 'joinQuestions', string>
+>;
+type RecurrenceDraft = {
+  frequency: 'none' | 'weekly' | 'biweekly' | 'custom';
+  weekdays: number[];
+  /** Last day occurrences may fall on, as a local yyyy-mm-dd date. */
+  until: string;
+};
 type ApiErrorPayload = { error?: string; errors?: FieldErrors };
 type LocationSuggestion = { id: string; name: string; fullName: string; coords: MapCoordinates };
 
@@ -78,13 +164,24 @@ export default function CreateEventPage() {
 
 function AuthenticatedCreateEventPage({ currentUser }: { currentUser: AuthUser | null }) {
   const router = useRouter();
+  const searchParams = useSearchParams();
+  const hostAgainEventId = searchParams?.get('from') ?? null;
+  const [templates, setTemplates] = useState<SerializedEventTemplate[]>([]);
   const [selectedCategory, setSelectedCategory] = useState<CategoryId | null>(null);
   const [categoryDrawerOpen, setCategoryDrawerOpen] = useState(false);
   const [title, setTitle] = useState('');
   const [description, setDescription] = useState('');
   const [datetimeInput, setDatetimeInput] = useState(getInitialDateValue);
+  const [durationMinutes, setDurationMinutes] = useState<number | null>(null);
   const [locationName, setLocationName] = useState('');
   const [maxParticipants, setMaxParticipants] = useState<number>(DEFAULT_MAX_PARTICIPANTS);
+  const [visibility, setVisibility] = useState<EventVisibility>(DEFAULT_EVENT_VISIBILITY);
+  const [recurrence, setRecurrence] = useState<RecurrenceDraft>({ frequency: 'none', weekdays: [], until: '' });
+  const [approvalMode, setApprovalMode] = useState<EventApprovalMode>(DEFAULT_EVENT_APPROVAL_MODE);
+  const [waitlistAutoAccept, setWaitlistAutoAccept] = useState(true);
+  const [joinQuestions, setJoinQuestions] = useState<JoinQuestion[]>([]);
+  const [requestExpiry, setRequestExpiry] = useState<RequestExpiryDraft>({ cutoffMinutes: null, timeoutHours: null });
+  const [coverFile, setCoverFile] = useState<File | null>(null);
   const [location, setLocation] = useState<MapCoordinates | null>(null);
   const [mapCenter, setMapCenter] = useState<MapCoordinates | null>(null);
   const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
@@ -99,6 +196,110 @@ function AuthenticatedCreateEventPage({ currentUser }: { currentUser: AuthUser |
   const mobileContentRef = useRef<HTMLDivElement>(null);
   const suggestionDebounceRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
+  const applyTemplate = useCallback((template: EventTemplateFields) => {
+    setTitle(template.title);
+    setDescription(template.description);
+    setDurationMinutes(snapDurationMinutes(template.durationMinutes));
+    setLocationName(template.locationName ?? '');
+    if (template.location) {
+      const coords = { lat: template.location.latitude, lng: template.location.longitude };
+      setLocation(coords);
+      setMapCenter(coords);
+    }
+    setSelectedCategory(template.category);
+    setMaxParticipants(template.maxParticipants);
+    setVisibility(template.visibility);
+    setFieldErrors({});
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch('/api/event-templates', { cache: 'no-store' })
+      .then(async (response) => {
+        if (!response.ok) throw new Error('Unable to load templates');
+        const payload = (await response.json()) as { templates: SerializedEventTemplate[] };
+        if (!cancelled) setTemplates(payload.templates);
+      })
+      .catch((error) => {
+        console.error('Failed to load event templates', error);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // "Host again" links land here with ?from=<eventId>.
+  useEffect(() => {
+    if (!hostAgainEventId) return;
+    let cancelled = false;
+    fetch(`/api/events/${encodeURIComponent(hostAgainEventId)}/template`, { cache: 'no-store' })
+      .then(async (response) => {
+        const payload = (await response.json().catch(() => ({}))) as Partial<HostAgainDraft> & ApiErrorPayload;
+        if (cancelled) return;
+        if (!response.ok || !payload.template || !payload.previousDatetime) {
+          showErrorToast('Could not copy that event', payload.error ?? 'Start from a blank form instead.');
+          return;
+        }
+        applyTemplate(payload.template);
+        setDatetimeInput(getNextWeeklySlot(payload.previousDatetime));
+      })
+      .catch((error) => {
+        console.error('Failed to load event to host again', error);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [applyTemplate, hostAgainEventId]);
+
+  const saveTemplate = async (name: string) => {
+    try {
+      const response = await fetch('/api/event-templates', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name,
+          title: title.trim(),
+          description: description.trim(),
+          durationMinutes,
+          location: location ? { latitude: location.lat, longitude: location.lng } : null,
+          locationName: locationName.trim(),
+          category: selectedCategory,
+          maxParticipants,
+          visibility,
+        }),
+      });
+      const payload = (await response.json().catch(() => ({}))) as ApiErrorPayload & { template?: SerializedEventTemplate };
+      if (!response.ok || !payload.template) {
+        const detail = payload.errors ? Object.values(payload.errors)[0] : undefined;
+        showErrorToast('Template not saved', detail ?? payload.error ?? 'Try again in a moment.');
+        return false;
+      }
+      const saved = payload.template;
+      setTemplates((prev) => [saved, ...prev.filter((template) => template.id !== saved.id)]);
+      showSuccessToast('Template saved', `"${saved.name}" is ready for next time.`);
+      return true;
+    } catch (error) {
+      console.error('Failed to save event template', error);
+      showErrorToast('Template not saved', 'Try again in a moment.');
+      return false;
+    }
+  };
+
+  const deleteTemplate = async (templateId: string) => {
+    try {
+      const response = await fetch(`/api/event-templates/${encodeURIComponent(templateId)}`, { method: 'DELETE' });
+      if (!response.ok && response.status !== 404) {
+        const payload = (await response.json().catch(() => ({}))) as ApiErrorPayload;
+        showErrorToast('Template not deleted', payload.error ?? 'Try again in a moment.');
+        return;
+      }
+      setTemplates((prev) => prev.filter((template) => template.id !== templateId));
+    } catch (error) {
+      console.error('Failed to delete event template', error);
+      showErrorToast('Template not deleted', 'Try again in a moment.');
+    }
+  };
+
   const friendlyDatetime = useMemo(() => formatReadableDatetime(datetimeInput), [datetimeInput]);
 
   // On every step change: scroll to top and clear any lingering field errors
@@ -206,6 +407,50 @@ function AuthenticatedCreateEventPage({ currentUser }: { currentUser: AuthUser |
     });
   };
 
+  const validateRecurrence = (start: Date | null): string | null => {
+    if (recurrence.frequency === 'none') return null;
+    if (recurrence.frequency === 'custom' && recurrence.weekdays.length === 0) {
+      return 'Pick at least one day for the event to repeat on.';
+    }
+    const until = recurrence.until ? new Date(`${recurrence.until}T23:59`) : null;
+    if (!until || Number.isNaN(until.getTime())) {
+      return 'Choose when the event stops repeating.';
+    }
+    if (start && until.getTime() <= start.getTime()) {
+      return 'The last date must be after the first one.';
+    }
+    if (start && until.getTime() - start.getTime() > REPEAT_MAX_SPAN_DAYS * DAY_MS) {
+      return `Repeating events can run for up to ${REPEAT_MAX_SPAN_DAYS} days.`;
+    }
+    return null;
+  };
+
+  const validateJoinQuestions = (): string | null => {
+    for (const [index, question] of joinQuestions.entries()) {
+      if (!question.prompt.trim()) {
+        return `Question ${index + 1} needs some text.`;
+      }
+      const options = question.options.map((option) => option.trim()).filter(Boolean);
+      if (question.kind === 'SINGLE_CHOICE' && options.length < JOIN_QUESTION_OPTION_LIMITS.min) {
+        return `Question ${index + 1} needs at least ${JOIN_QUESTION_OPTION_LIMITS.min} options.`;
+      }
+    }
+    return null;
+  };
+
+  const handleRecurrenceChange = (next: RecurrenceDraft) => {
+    const start = new Date(datetimeInput);
+    const startValid = !Number.isNaN(start.getTime());
+    // Fill in sensible defaults the first time a repeat option is picked.
+    const until =
+      next.until || next.frequency === 'none' || !startValid
+        ? next.until
+        : formatLocalDayInput(new Date(start.getTime() + REPEAT_DEFAULT_WEEKS * 7 * DAY_MS));
+    const weekdays =
+      next.frequency === 'custom' && next.weekdays.length === 0 && startValid ? [start.getDay()] : next.weekdays;
+    setRecurrence({ ...next, until, weekdays });
+  };
+
   const validateStep = (step: number): FieldErrors => {
     const errors: FieldErrors = {};
     if (step === 1) {
@@ -229,6 +474,14 @@ function AuthenticatedCreateEventPage({ currentUser }: { currentUser: AuthUser |
       if (Number.isNaN(maxParticipants) || maxParticipants < MAX_PARTICIPANTS_LIMITS.min || maxParticipants > MAX_PARTICIPANTS_LIMITS.max) {
         errors.maxParticipants = `Max participants must be between ${MAX_PARTICIPANTS_LIMITS.min} and ${MAX_PARTICIPANTS_LIMITS.max}.`;
       }
+      const recurrenceError = validateRecurrence(date);
+      if (recurrenceError) {
+        errors.recurrence = recurrenceError;
+      }
+      const joinQuestionsError = validateJoinQuestions();
+      if (joinQuestionsError) {
+        errors.joinQuestions = joinQuestionsError;
+      }
     }
     setFieldErrors(errors);
     return errors;
@@ -262,6 +515,14 @@ function AuthenticatedCreateEventPage({ currentUser }: { currentUser: AuthUser |
     if (Number.isNaN(maxParticipants) || maxParticipants < MAX_PARTICIPANTS_LIMITS.min || maxParticipants > MAX_PARTICIPANTS_LIMITS.max) {
       errors.maxParticipants = `Max participants must be between ${MAX_PARTICIPANTS_LIMITS.min} and ${MAX_PARTICIPANTS_LIMITS.max}.`;
     }
+    const recurrenceError = validateRecurrence(date);
+    if (recurrenceError) {
+      errors.recurrence = recurrenceError;
+    }
+    const joinQuestionsError = validateJoinQuestions();
+    if (joinQuestionsError) {
+      errors.joinQuestions = joinQuestionsError;
+    }
     setFieldErrors(errors);
     return errors;
   };
@@ -284,6 +545,23 @@ function AuthenticatedCreateEventPage({ currentUser }: { currentUser: AuthUser |
     }
   };
 
+  // The event already exists by the time the cover uploads, so a failed upload
+  // is reported without blocking the redirect; hosts can add one from the event page.
+  const uploadCoverImage = async (eventId: string, file: File) => {
+    const formData = new FormData();
+    formData.append('file', file);
+    try {
+      const response = await fetch(`/api/events/${eventId}/cover`, { method: 'PUT', body: formData });
+      if (!response.ok) {
+        const payload = (await response.json().catch(() => ({}))) as ApiErrorPayload;
+        showErrorToast('Cover image not saved', payload.error ?? 'Your event is live without a cover image.');
+      }
+    } catch (error) {
+      console.error('Failed to upload cover image', error);
+      showErrorToast('Cover image not saved', 'Your event is live without a cover image.');
+    }
+  };
+
   const submitEvent = async () => {
     setStatusIntent('idle');
     setStatusMessage(null);
@@ -305,13 +583,37 @@ function AuthenticatedCreateEventPage({ currentUser }: { currentUser: AuthUser |
           title: title.trim(),
           description: description.trim(),
           datetime: datetimeIso,
+          durationMinutes,
           location: { latitude: location.lat, longitude: location.lng },
           locationName: locationName.trim(),
+          category: selectedCategory,
           maxParticipants,
+          visibility,
+          approvalMode,
+          waitlistAutoAccept,
+          joinRequestCutoffMinutes: requestExpiry.cutoffMinutes,
+          joinRequestTimeoutHours: requestExpiry.timeoutHours,
+          joinQuestions: joinQuestions.map((question) => ({
+            kind: question.kind,
+            prompt: question.prompt.trim(),
+            options: question.options.map((option) => option.trim()).filter(Boolean),
+          })),
+          recurrence:
+            recurrence.frequency === 'none'
+              ? undefined
+              : {
+                  frequency: recurrence.frequency,
+                  weekdays: recurrence.weekdays,
+                  until: new Date(`${recurrence.until}T23:59`).toISOString(),
+                  timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+                },
         }),
       });
 
-      const payload = (await response.json().catch(() => ({}))) as ApiErrorPayload & { event?: { id: string } };
+      const payload = (await response.json().catch(() => ({}))) as ApiErrorPayload & {
+        event?: { id: string };
+        series?: { occurrences: Array<{ id: string }> };
+      };
 
       if (!response.ok) {
         setFieldErrors((prev) => ({ ...prev, ...(payload.errors ?? {}) }));
@@ -322,6 +624,14 @@ function AuthenticatedCreateEventPage({ currentUser }: { currentUser: AuthUser |
         return;
       }
 
+      if (coverFile && payload.event?.id) {
+        await uploadCoverImage(payload.event.id, coverFile);
+      }
+
+      if (payload.series) {
+        showSuccessToast('Repeating event created', `${payload.series.occurrences.length} dates are now open for requests.`);
+      }
+
       sessionStorage.setItem('tonight:event-created', '1');
       router.push('/');
       router.refresh();
@@ -389,6 +699,8 @@ function AuthenticatedCreateEventPage({ currentUser }: { currentUser: AuthUser |
             {/* Step 1: Event details */}
             {mobileStep === 1 && (
               <div className="space-y-5">
+                <TemplatePicker templates={templates} onApply={applyTemplate} onSave={saveTemplate} onDelete={deleteTemplate} />
+
                 <section className="rounded-3xl border border-border/60 bg-card/40 p-4 shadow-xl shadow-black/25">
                   <header className="flex items-center justify-between gap-3">
                     <div>
@@ -416,6 +728,7 @@ function AuthenticatedCreateEventPage({ currentUser }: { currentUser: AuthUser |
                       </span>
                       <ChevronRight className="h-4 w-4 text-muted-foreground" />
                     </button>
+                    {fieldErrors.category && <FieldError message={fieldErrors.category} />}
                   </div>
                 </section>
 
@@ -468,6 +781,31 @@ function AuthenticatedCreateEventPage({ currentUser }: { currentUser: AuthUser |
                       />
                       <FieldMeta>{friendlyDatetime}</FieldMeta>
                       {fieldErrors.datetime && <FieldError message={fieldErrors.datetime} />}
+                      <select
+                        id="event-duration"
+                        aria-label="Duration"
+                        value={durationMinutes ?? ''}
+                        onChange={(e) => setDurationMinutes(e.target.value ? Number(e.target.value) : null)}
+                        className={classNames(INPUT_BASE_CLASS, fieldErrors.endDatetime && errorBorderClass)}
+                      >
+                        {DURATION_OPTIONS.map((option) => (
+                          <option key={option.label} value={option.value ?? ''}>
+                            {option.label}
+                          </option>
+                        ))}
+                      </select>
+                      {fieldErrors.endDatetime && <FieldError message={fieldErrors.endDatetime} />}
+                    </FormField>
+
+                    <FormField label="Repeats" icon={Repeat}>
+                      <RecurrencePicker
+                        idPrefix="event-repeat"
+                        value={recurrence}
+                        onChange={handleRecurrenceChange}
+                        startInput={datetimeInput}
+                        hasError={Boolean(fieldErrors.recurrence)}
+                      />
+                      {fieldErrors.recurrence && <FieldError message={fieldErrors.recurrence} />}
                     </FormField>
 
                     <FormField label="Max participants" icon={Users}>
@@ -499,6 +837,33 @@ function AuthenticatedCreateEventPage({ currentUser }: { currentUser: AuthUser |
                       </div>
                       {fieldErrors.maxParticipants && <FieldError message={fieldErrors.maxParticipants} />}
                     </FormField>
+
+                    <FormField label="How guests get in" icon={UserCheck}>
+                      <ApprovalModePicker value={approvalMode} onChange={setApprovalMode} />
+                      {fieldErrors.approvalMode && <FieldError message={fieldErrors.approvalMode} />}
+                    </FormField>
+
+                    <FormField label="When it fills up" icon={ListOrdered}>
+                      <WaitlistPicker value={waitlistAutoAccept} onChange={setWaitlistAutoAccept} />
+                    </FormField>
+
+                    <FormField label="Unanswered requests" icon={Hourglass}>
+                      <RequestExpiryPicker value={requestExpiry} onChange={setRequestExpiry} />
+                    </FormField>
+
+                    <FormField label="Questions for guests" icon={CircleHelp}>
+                      <JoinQuestionsEditor value={joinQuestions} onChange={setJoinQuestions} />
+                      {fieldErrors.joinQuestions && <FieldError message={fieldErrors.joinQuestions} />}
+                    </FormField>
+
+                    <FormField label="Cover image" icon={ImagePlus}>
+                      <CoverImagePicker file={coverFile} onChange={setCoverFile} />
+                    </FormField>
+
+                    <FormField label="Who can see it" icon={Eye}>
+                      <VisibilityPicker value={visibility} onChange={setVisibility} />
+                      {fieldErrors.visibility && <FieldError message={fieldErrors.visibility} />}
+                    </FormField>
                   </div>
                 </section>
               </div>
@@ -649,6 +1014,8 @@ function AuthenticatedCreateEventPage({ currentUser }: { currentUser: AuthUser |
               {statusMessage && <StatusBanner intent={statusIntent} message={statusMessage} />}
 
               <form onSubmit={onSubmit} className="space-y-6">
+                <TemplatePicker templates={templates} onApply={applyTemplate} onSave={saveTemplate} onDelete={deleteTemplate} />
+
                 {/* Category */}
                 <section className="rounded-3xl border border-border/60 bg-card/40 p-5 shadow-xl shadow-black/25">
                   <header className="flex items-center justify-between gap-3">
@@ -680,6 +1047,7 @@ function AuthenticatedCreateEventPage({ currentUser }: { currentUser: AuthUser |
                       </button>
                     ))}
                   </div>
+                  {fieldErrors.category && <div className="mt-3"><FieldError message={fieldErrors.category} /></div>}
                 </section>
 
                 {/* Title & Description */}
@@ -730,6 +1098,31 @@ function AuthenticatedCreateEventPage({ currentUser }: { currentUser: AuthUser |
                       />
                       <FieldMeta>{friendlyDatetime}</FieldMeta>
                       {fieldErrors.datetime && <FieldError message={fieldErrors.datetime} />}
+                      <select
+                        id="event-duration-desktop"
+                        aria-label="Duration"
+                        value={durationMinutes ?? ''}
+                        onChange={(e) => setDurationMinutes(e.target.value ? Number(e.target.value) : null)}
+                        className={classNames(INPUT_BASE_CLASS, fieldErrors.endDatetime && errorBorderClass)}
+                      >
+                        {DURATION_OPTIONS.map((option) => (
+                          <option key={option.label} value={option.value ?? ''}>
+                            {option.label}
+                          </option>
+                        ))}
+                      </select>
+                      {fieldErrors.endDatetime && <FieldError message={fieldErrors.endDatetime} />}
+                    </FormField>
+
+                    <FormField label="Repeats" icon={Repeat}>
+                      <RecurrencePicker
+                        idPrefix="event-repeat-desktop"
+                        value={recurrence}
+                        onChange={handleRecurrenceChange}
+                        startInput={datetimeInput}
+                        hasError={Boolean(fieldErrors.recurrence)}
+                      />
+                      {fieldErrors.recurrence && <FieldError message={fieldErrors.recurrence} />}
                     </FormField>
 
                     <FormField label="Max participants" icon={Users}>
@@ -761,6 +1154,33 @@ function AuthenticatedCreateEventPage({ currentUser }: { currentUser: AuthUser |
                       </div>
                       {fieldErrors.maxParticipants && <FieldError message={fieldErrors.maxParticipants} />}
                     </FormField>
+
+                    <FormField label="How guests get in" icon={UserCheck}>
+                      <ApprovalModePicker value={approvalMode} onChange={setApprovalMode} />
+                      {fieldErrors.approvalMode && <FieldError message={fieldErrors.approvalMode} />}
+                    </FormField>
+
+                    <FormField label="When it fills up" icon={ListOrdered}>
+                      <WaitlistPicker value={waitlistAutoAccept} onChange={setWaitlistAutoAccept} />
+                    </FormField>
+
+                    <FormField label="Unanswered requests" icon={Hourglass}>
+                      <RequestExpiryPicker value={requestExpiry} onChange={setRequestExpiry} />
+                    </FormField>
+
+                    <FormField label="Questions for guests" icon={CircleHelp}>
+                      <JoinQuestionsEditor value={joinQuestions} onChange={setJoinQuestions} />
+                      {fieldErrors.joinQuestions && <FieldError message={fieldErrors.joinQuestions} />}
+                    </FormField>
+
+                    <FormField label="Cover image" icon={ImagePlus}>
+                      <CoverImagePicker file={coverFile} onChange={setCoverFile} />
+                    </FormField>
+
+                    <FormField label="Who can see it" icon={Eye}>
+                      <VisibilityPicker value={visibility} onChange={setVisibility} />
+                      {fieldErrors.visibility && <FieldError message={fieldErrors.visibility} />}
+                    </FormField>
                   </div>
                 </section>
 
@@ -964,6 +1384,550 @@ function FormField({ label, icon: Icon, children }: FormFieldProps) {
   );
 }
 
+function VisibilityPicker({ value, onChange }: { value: EventVisibility; onChange: (value: EventVisibility) => void }) {
+  return (
+    <div role="radiogroup" aria-label="Event visibility" className="space-y-2">
+      {EVENT_VISIBILITIES.map((option) => {
+        const definition = EVENT_VISIBILITY_DEFINITIONS[option];
+        const selected = value === option;
+        return (
+          <button
+            key={option}
+            type="button"
+            role="radio"
+            aria-checked={selected}
+            onClick={() => onChange(option)}
+            className={classNames(
+              'w-full rounded-2xl border px-4 py-3 text-left transition',
+              selected
+                ? 'border-primary/60 bg-primary/10 text-foreground'
+                : 'border-border/70 bg-card/50 text-muted-foreground hover:border-primary/40 hover:text-foreground'
+            )}
+          >
+            <span className="block text-sm font-semibold">{definition.label}</span>
+            <span className="block text-xs text-muted-foreground">{definition.description}</span>
+          </button>
+        );
+      })}
+    </div>
+  );
+}
+
+function ApprovalModePicker({ value, onChange }: { value: EventApprovalMode; onChange: (value: EventApprovalMode) => void }) {
+  return (
+    <div role="radiogroup" aria-label="Join approval" className="space-y-2">
+      {EVENT_APPROVAL_MODES.map((option) => {
+        const definition = EVENT_APPROVAL_MODE_DEFINITIONS[option];
+        const selected = value === option;
+        return (
+          <button
+            key={option}
+            type="button"
+            role="radio"
+            aria-checked={selected}
+            onClick={() => onChange(option)}
+            className={classNames(
+              'w-full rounded-2xl border px-4 py-3 text-left transition',
+              selected
+                ? 'border-primary/60 bg-primary/10 text-foreground'
+                : 'border-border/70 bg-card/50 text-muted-foreground hover:border-primary/40 hover:text-foreground'
+            )}
+          >
+            <span className="block text-sm font-semibold">{definition.label}</span>
+            <span className="block text-xs text-muted-foreground">{definition.description}</span>
+          </button>
+        );
+      })}
+    </div>
+  );
+}
+
+const WAITLIST_OPTIONS: Array<{ value: boolean; label: string; description: string }> = [
+  {
+    value: true,
+    label: 'Let the waitlist in automatically',
+    description: 'When a spot opens, the next person in line is accepted straight away.',
+  },
+  {
+    value: false,
+    label: 'I confirm each one',
+    description: 'When a spot opens, the next person in line moves to your pending requests.',
+  },
+];
+
+// New requests join the waitlist once the event is full; this only decides what
+// happens when a spot opens again.
+function WaitlistPicker({ value, onChange }: { value: boolean; onChange: (value: boolean) => void }) {
+  return (
+    <div role="radiogroup" aria-label="Waitlist promotion" className="space-y-2">
+      {WAITLIST_OPTIONS.map((option) => {
+        const selected = value === option.value;
+        return (
+          <button
+            key={option.label}
+            type="button"
+            role="radio"
+            aria-checked={selected}
+            onClick={() => onChange(option.value)}
+            className={classNames(
+              'w-full rounded-2xl border px-4 py-3 text-left transition',
+              selected
+                ? 'border-primary/60 bg-primary/10 text-foreground'
+                : 'border-border/70 bg-card/50 text-muted-foreground hover:border-primary/40 hover:text-foreground'
+            )}
+          >
+            <span className="block text-sm font-semibold">{option.label}</span>
+            <span className="block text-xs text-muted-foreground">{option.description}</span>
+          </button>
+        );
+      })}
+    </div>
+  );
+}
+
+type RequestExpiryDraft = { cutoffMinutes: number | null; timeoutHours: number | null };
+
+const REQUEST_CUTOFF_OPTIONS: Array<{ value: number | null; label: string }> = [
+  { value: null, label: 'Take requests until it ends' },
+  ...JOIN_REQUEST_CUTOFF_PRESETS.map((minutes) => ({
+    value: minutes,
+    label:
+      minutes === 0
+        ? 'Stop taking requests at the start'
+        : `Stop taking requests ${formatJoinRequestCutoff(minutes)} the start`,
+  })),
+];
+
+const REQUEST_TIMEOUT_OPTIONS: Array<{ value: number | null; label: string }> = [
+  { value: null, label: 'Requests wait until I answer' },
+  ...JOIN_REQUEST_TIMEOUT_PRESETS.map((hours) => ({
+    value: hours,
+    label: `Close them ${formatJoinRequestTimeout(hours).toLowerCase()} without an answer`,
+  })),
+];
+
+// Requests still waiting at the cutoff, or past the timeout, close on their own
+// and the guest is told why.
+function RequestExpiryPicker({
+  value,
+  onChange,
+}: {
+  value: RequestExpiryDraft;
+  onChange: (value: RequestExpiryDraft) => void;
+}) {
+  return (
+    <div className="space-y-2">
+      <select
+        aria-label="Request cutoff"
+        value={value.cutoffMinutes ?? ''}
+        onChange={(e) => onChange({ ...value, cutoffMinutes: e.target.value ? Number(e.target.value) : null })}
+        className={INPUT_BASE_CLASS}
+      >
+        {REQUEST_CUTOFF_OPTIONS.map((option) => (
+          <option key={option.label} value={option.value ?? ''}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+      <select
+        aria-label="Request timeout"
+        value={value.timeoutHours ?? ''}
+        onChange={(e) => onChange({ ...value, timeoutHours: e.target.value ? Number(e.target.value) : null })}
+        className={INPUT_BASE_CLASS}
+      >
+        {REQUEST_TIMEOUT_OPTIONS.map((option) => (
+          <option key={option.label} value={option.value ?? ''}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
+
+const EMPTY_CHOICE_OPTIONS = ['', ''];
+
+// Guests answer every question before their request reaches the host; the
+// answers show on the requests page.
+function JoinQuestionsEditor({ value, onChange }: { value: JoinQuestion[]; onChange: (value: JoinQuestion[]) => void }) {
+  const updateQuestion = (index: number, next: Partial<JoinQuestion>) => {
+    onChange(value.map((question, current) => (current === index ? { ...question, ...next } : question)));
+  };
+
+  const changeKind = (index: number, kind: JoinQuestionKind) => {
+    const options = value[index].options;
+    updateQuestion(index, { kind, options: kind === 'SINGLE_CHOICE' && options.length === 0 ? EMPTY_CHOICE_OPTIONS : options });
+  };
+
+  return (
+    <div className="space-y-3">
+      {value.length === 0 && (
+        <p className="text-xs text-muted-foreground">Optional. Ask things like &quot;Do you have boots?&quot; before you accept anyone.</p>
+      )}
+      {value.map((question, index) => (
+        <div key={index} className="space-y-2 rounded-2xl border border-border/70 bg-card/50 p-3">
+          <div className="flex items-center gap-2">
+            <input
+              value={question.prompt}
+              onChange={(event) => updateQuestion(index, { prompt: event.target.value })}
+              maxLength={JOIN_QUESTION_PROMPT_MAX_LENGTH}
+              placeholder="What position do you play?"
+              aria-label={`Question ${index + 1}`}
+              className={INPUT_BASE_CLASS}
+            />
+            <button
+              type="button"
+              onClick={() => onChange(value.filter((_, current) => current !== index))}
+              aria-label={`Remove question ${index + 1}`}
+              className="flex h-12 w-12 shrink-0 items-center justify-center rounded-2xl border border-border/70 text-muted-foreground transition hover:border-rose-400/60 hover:text-rose-300"
+            >
+              <Trash2 className="h-4 w-4" />
+            </button>
+          </div>
+          <div role="radiogroup" aria-label={`Answer type for question ${index + 1}`} className="flex flex-wrap gap-2">
+            {JOIN_QUESTION_KINDS.map((kind) => (
+              <button
+                key={kind}
+                type="button"
+                role="radio"
+                aria-checked={question.kind === kind}
+                onClick={() => changeKind(index, kind)}
+                className={classNames(
+                  'rounded-full border px-3 py-1 text-xs font-semibold transition',
+                  question.kind === kind
+                    ? 'border-primary/60 bg-primary/10 text-foreground'
+                    : 'border-border/70 text-muted-foreground hover:border-primary/40 hover:text-foreground'
+                )}
+              >
+                {JOIN_QUESTION_KIND_LABELS[kind]}
+              </button>
+            ))}
+          </div>
+          {question.kind === 'SINGLE_CHOICE' && (
+            <div className="space-y-2">
+              {question.options.map((option, optionIndex) => (
+                <input
+                  key={optionIndex}
+                  value={option}
+                  onChange={(event) =>
+                    updateQuestion(index, {
+                      options: question.options.map((current, currentIndex) =>
+                        currentIndex === optionIndex ? event.target.value : current
+                      ),
+                    })
+                  }
+                  maxLength={JOIN_QUESTION_OPTION_MAX_LENGTH}
+                  placeholder={`Option ${optionIndex + 1}`}
+                  aria-label={`Question ${index + 1}, option ${optionIndex + 1}`}
+                  className={INPUT_BASE_CLASS}
+                />
+              ))}
+              {question.options.length < JOIN_QUESTION_OPTION_LIMITS.max && (
+                <button
+                  type="button"
+                  onClick={() => updateQuestion(index, { options: [...question.options, ''] })}
+                  className="text-[11px] font-semibold text-primary"
+                >
+                  Add an option
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      ))}
+      {value.length < MAX_JOIN_QUESTIONS && (
+        <button
+          type="button"
+          onClick={() => onChange([...value, { kind: 'SHORT_TEXT', prompt: '', options: [] }])}
+          className="inline-flex items-center gap-1 text-[11px] font-semibold text-primary"
+        >
+          <Plus className="h-3.5 w-3.5" aria-hidden />
+          Add a question
+        </button>
+      )}
+    </div>
+  );
+}
+
+type RecurrencePickerProps = {
+  idPrefix: string;
+  value: RecurrenceDraft;
+  onChange: (value: RecurrenceDraft) => void;
+  startInput: string;
+  hasError: boolean;
+};
+
+// Each date becomes its own event with its own guest list, so guests request
+// the dates they can make rather than the whole run.
+function RecurrencePicker({ idPrefix, value, onChange, startInput, hasError }: RecurrencePickerProps) {
+  const start = new Date(startInput);
+  const minUntil = Number.isNaN(start.getTime()) ? undefined : formatLocalDayInput(start);
+  const maxUntil = Number.isNaN(start.getTime())
+    ? undefined
+    : formatLocalDayInput(new Date(start.getTime() + REPEAT_MAX_SPAN_DAYS * DAY_MS));
+
+  const toggleWeekday = (weekday: number) => {
+    const weekdays = value.weekdays.includes(weekday)
+      ? value.weekdays.filter((day) => day !== weekday)
+      : [...value.weekdays, weekday].sort((a, b) => a - b);
+    onChange({ ...value, weekdays });
+  };
+
+  return (
+    <div className="space-y-2">
+      <select
+        id={idPrefix}
+        aria-label="Repeats"
+        value={value.frequency}
+        onChange={(e) => onChange({ ...value, frequency: e.target.value as RecurrenceDraft['frequency'] })}
+        className={INPUT_BASE_CLASS}
+      >
+        {REPEAT_OPTIONS.map((option) => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+      {value.frequency === 'custom' && (
+        <div role="group" aria-label="Repeat on" className="flex justify-between gap-1">
+          {WEEKDAY_LABELS.map((label, weekday) => {
+            const selected = value.weekdays.includes(weekday);
+            return (
+              <button
+                key={WEEKDAY_NAMES[weekday]}
+                type="button"
+                aria-pressed={selected}
+                aria-label={WEEKDAY_NAMES[weekday]}
+                onClick={() => toggleWeekday(weekday)}
+                className={classNames(
+                  'flex h-10 w-10 items-center justify-center rounded-full border text-sm font-semibold transition',
+                  selected
+                    ? 'border-primary/60 bg-primary/15 text-foreground'
+                    : 'border-border/70 bg-card/50 text-muted-foreground hover:border-primary/40 hover:text-foreground'
+                )}
+              >
+                {label}
+              </button>
+            );
+          })}
+        </div>
+      )}
+      {value.frequency !== 'none' && (
+        <label htmlFor={`${idPrefix}-until`} className="block space-y-1">
+          <span className="text-xs text-muted-foreground">Last date</span>
+          <input
+            id={`${idPrefix}-until`}
+            type="date"
+            value={value.until}
+            min={minUntil}
+            max={maxUntil}
+            onChange={(e) => onChange({ ...value, until: e.target.value })}
+            className={classNames(
+              INPUT_BASE_CLASS,
+              hasError && 'border-rose-400/80 focus:border-rose-400 focus:ring-rose-400/30'
+            )}
+          />
+        </label>
+      )}
+    </div>
+  );
+}
+
+type TemplatePickerProps = {
+  templates: SerializedEventTemplate[];
+  onApply: (template: EventTemplateFields) => void;
+  onSave: (name: string) => Promise<boolean>;
+  onDelete: (templateId: string) => Promise<void>;
+};
+
+function TemplatePicker({ templates, onApply, onSave, onDelete }: TemplatePickerProps) {
+  const [selectedId, setSelectedId] = useState('');
+  const [naming, setNaming] = useState(false);
+  const [name, setName] = useState('');
+  const [saving, setSaving] = useState(false);
+  const selected = templates.find((template) => template.id === selectedId) ?? null;
+
+  const handleSelect = (templateId: string) => {
+    setSelectedId(templateId);
+    const template = templates.find((entry) => entry.id === templateId);
+    if (template) {
+      onApply(template);
+      showSuccessToast('Template applied', 'Pick a date and check the details before publishing.');
+    }
+  };
+
+  const handleSave = async () => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    setSaving(true);
+    const saved = await onSave(trimmed);
+    setSaving(false);
+    if (saved) {
+      setNaming(false);
+      setName('');
+    }
+  };
+
+  return (
+    <section className="rounded-3xl border border-border/60 bg-card/40 p-4 shadow-xl shadow-black/25">
+      <header className="flex items-center justify-between gap-3">
+        <div>
+          <p className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">Templates</p>
+          <p className="text-xs text-muted-foreground/80">Start from a saved plan, or save this one for next time.</p>
+        </div>
+        {!naming && (
+          <button
+            type="button"
+            onClick={() => {
+              setName(selected?.name ?? '');
+              setNaming(true);
+            }}
+            className="inline-flex items-center gap-1 text-[11px] font-semibold text-primary"
+          >
+            <BookmarkPlus className="h-3.5 w-3.5" aria-hidden />
+            Save as template
+          </button>
+        )}
+      </header>
+
+      {templates.length > 0 && (
+        <div className="mt-4 flex items-center gap-2">
+          <div className="relative flex-1">
+            <LayoutTemplate className="pointer-events-none absolute left-4 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" aria-hidden />
+            <select
+              value={selectedId}
+              onChange={(event) => handleSelect(event.target.value)}
+              aria-label="Start from a template"
+              className={classNames(INPUT_BASE_CLASS, 'pl-10')}
+            >
+              <option value="">Start from a template</option>
+              {templates.map((template) => (
+                <option key={template.id} value={template.id}>
+                  {template.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          {selected && (
+            <button
+              type="button"
+              onClick={() => {
+                setSelectedId('');
+                void onDelete(selected.id);
+              }}
+              aria-label={`Delete template ${selected.name}`}
+              className="flex h-12 w-12 shrink-0 items-center justify-center rounded-2xl border border-border/70 text-muted-foreground transition hover:border-rose-400/60 hover:text-rose-300"
+            >
+              <Trash2 className="h-4 w-4" />
+            </button>
+          )}
+        </div>
+      )}
+
+      {naming && (
+        <div className="mt-4 flex items-center gap-2">
+          <input
+            value={name}
+            onChange={(event) => setName(event.target.value)}
+            onKeyDown={(event) => {
+              if (event.key === 'Enter') {
+                event.preventDefault();
+                void handleSave();
+              }
+            }}
+            maxLength={TEMPLATE_NAME_MAX}
+            placeholder="Template name, e.g. Friday climbing"
+            aria-label="Template name"
+            className={INPUT_BASE_CLASS}
+            autoFocus
+          />
+          <button
+            type="button"
+            onClick={() => void handleSave()}
+            disabled={saving || name.trim().length === 0}
+            className="h-12 shrink-0 rounded-2xl bg-primary px-4 text-sm font-semibold text-primary-foreground transition disabled:opacity-60"
+          >
+            {saving ? 'Saving…' : 'Save'}
+          </button>
+          <button
+            type="button"
+            onClick={() => setNaming(false)}
+            aria-label="Cancel saving template"
+            className="flex h-12 w-12 shrink-0 items-center justify-center rounded-2xl border border-border/70 text-muted-foreground transition hover:text-foreground"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+      )}
+    </section>
+  );
+}
+
+function CoverImagePicker({ file, onChange }: { file: File | null; onChange: (file: File | null) => void }) {
+  const inputRef = useRef<HTMLInputElement | null>(null);
+  const previewUrl = useMemo(() => (file ? URL.createObjectURL(file) : null), [file]);
+
+  useEffect(() => {
+    return () => {
+      if (previewUrl) {
+        URL.revokeObjectURL(previewUrl);
+      }
+    };
+  }, [previewUrl]);
+
+  const handleSelection = (selected: File | undefined) => {
+    if (!selected) return;
+    if (!COVER_IMAGE_TYPES.includes(selected.type)) {
+      showErrorToast('Unsupported image', 'Choose a JPEG, PNG or WebP image.');
+      return;
+    }
+    if (selected.size > COVER_IMAGE_MAX_BYTES) {
+      showErrorToast('Image too large', 'Cover images must be 8MB or smaller.');
+      return;
+    }
+    onChange(selected);
+  };
+
+  return (
+    <div className="space-y-2">
+      <input
+        ref={inputRef}
+        type="file"
+        accept={COVER_IMAGE_TYPES.join(',')}
+        className="hidden"
+        onChange={(event) => {
+          handleSelection(event.target.files?.[0]);
+          event.target.value = '';
+        }}
+      />
+      {previewUrl ? (
+        <div className="relative overflow-hidden rounded-2xl border border-border/70">
+          {/* eslint-disable-next-line @next/next/no-img-element */}
+          <img src={previewUrl} alt="Selected cover" className="aspect-video w-full object-cover" />
+          <button
+            type="button"
+            onClick={() => onChange(null)}
+            aria-label="Remove cover image"
+            className="absolute right-2 top-2 rounded-full bg-black/70 p-1.5 text-white transition hover:bg-black"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+      ) : (
+        <button
+          type="button"
+          onClick={() => inputRef.current?.click()}
+          className="flex aspect-video w-full flex-col items-center justify-center gap-2 rounded-2xl border border-dashed border-border/70 bg-card/50 text-sm text-muted-foreground transition hover:border-primary/40 hover:text-foreground"
+        >
+          <ImagePlus className="h-5 w-5" aria-hidden />
+          Add a cover image
+        </button>
+      )}
+      <FieldMeta>Optional. JPEG, PNG or WebP up to 8MB.</FieldMeta>
+    </div>
+  );
+}
+
 function FieldError({ message }: { message: string }) {
   return <p className="text-xs text-rose-300">{message}</p>;
 }
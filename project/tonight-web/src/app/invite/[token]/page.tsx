@@ -0,0 +1,94 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import { useParams, useRouter } from "next/navigation";
+
+import { AuthStatusMessage } from "@/components/auth/AuthStatusMessage";
+import { useRequireAuth } from "@/hooks/useRequireAuth";
+import { showSuccessToast } from "@/lib/toast";
+
+type RedeemResponse = {
+  joinRequest: { eventId: string };
+  alreadyAccepted: boolean;
+};
+
+const normalizeParam = (value?: string | string[]) => (Array.isArray(value) ? value[0] : value) ?? "";
+
+const readErrorMessage = async (response: Response) => {
+  try {
+    const payload = (await response.json()) as { error?: string };
+    if (payload.error) {
+      return payload.error;
+    }
+  } catch {
+    // Fall through to the generic message.
+  }
+  return "We couldn't open this invite. Ask the host for a new link.";
+};
+
+export default function InviteLinkPage() {
+  const { status: authStatus } = useRequireAuth();
+  const params = useParams<{ token?: string | string[] }>();
+  const token = normalizeParam(params?.token);
+  const router = useRouter();
+  const [error, setError] = useState<string | null>(null);
+  const redeemedRef = useRef(false);
+
+  useEffect(() => {
+    if (authStatus !== "authenticated" || !token || redeemedRef.current) {
+      return;
+    }
+    redeemedRef.current = true;
+
+    const redeem = async () => {
+      try {
+        const response = await fetch("/api/invite-links/redeem", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ token }),
+        });
+
+        if (!response.ok) {
+          setError(await readErrorMessage(response));
+          return;
+        }
+
+        const { joinRequest, alreadyAccepted } = (await response.json()) as RedeemResponse;
+        if (!alreadyAccepted) {
+          showSuccessToast("You're in", "The host's invite link added you to the guest list.");
+        }
+        router.replace(`/events/${joinRequest.eventId}`);
+      } catch (redeemError) {
+        console.error("Failed to redeem invite link", redeemError);
+        setError("Something went wrong while opening this invite.");
+      }
+    };
+
+    void redeem();
+  }, [authStatus, router, token]);
+
+  if (authStatus === "loading") return <AuthStatusMessage label="Checking your session…" />;
+  if (authStatus === "unauthenticated") return <AuthStatusMessage label="Sign in to accept this invite…" />;
+  if (authStatus === "error") return <AuthStatusMessage label="We couldn't verify your session. Refresh to try again." />;
+
+  const message = token ? error : "This invite link is incomplete.";
+  if (!message) {
+    return <AuthStatusMessage label="Adding you to the guest list…" />;
+  }
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-gradient-to-b from-background via-background/95 to-background px-6 text-center">
+      <div className="max-w-sm space-y-4">
+        <p className="text-base font-semibold text-foreground">Invite unavailable</p>
+        <p className="text-sm text-muted-foreground">{message}</p>
+        <Link
+          href="/"
+          className="inline-flex items-center justify-center rounded-full border border-border/70 px-4 py-2 text-sm font-semibold text-foreground transition hover:border-primary/60"
+        >
+          Discover other plans
+        </Link>
+      </div>
+    </div>
+  );
+}
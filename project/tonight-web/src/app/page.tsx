@@ -17,17 +17,20 @@ import {
 import type { ConversationPreview } from "@/components/chat/conversations";
 import { DesktopHeader } from "@/components/tonight/DesktopHeader";
 import { DesktopSidebar } from "@/components/tonight/DesktopSidebar";
+import { DiscoverySearchField } from "@/components/tonight/DiscoverySearchField";
 import { MobileActionBar, type MobileNavTarget } from "@/components/tonight/MobileActionBar";
 import { MiniMap } from "@/components/tonight/MiniMap";
 import { CATEGORY_DEFINITIONS, CATEGORY_ORDER, type CategoryId } from "@/lib/categories";
 import { classNames } from "@/lib/classNames";
+import { TIME_WINDOW_LABELS, TIME_WINDOW_PRESETS, type TimeWindowPreset } from "@/lib/time-windows";
 import { showSuccessToast } from "@/lib/toast";
 
-import EventMapView, { type MapPoint } from "@/components/EventMapView";
+import EventMapView, { type EventMapCluster, type MapPoint, type MapViewport } from "@/components/EventMapView";
 import { AuthStatusMessage } from "@/components/auth/AuthStatusMessage";
 import type { AuthUser } from "@/components/auth/AuthProvider";
 import { useRequireAuth } from "@/hooks/useRequireAuth";
 import { useSocket } from "@/hooks/useSocket";
+import { useInfiniteScroll } from "@/hooks/useInfiniteScroll";
 import type { SocketMessagePayload } from "@/lib/socket-shared";
 
 const DEFAULT_RADIUS_KM = 10;
@@ -36,17 +39,26 @@ const MAX_RADIUS_KM = 50;
 const VIEW_MODE_STORAGE_KEY = "tonight:view-mode";
 const MAP_HEIGHT_DESKTOP = 520;
 const MAP_HEIGHT_MOBILE = 360;
+const SEARCH_DEBOUNCE_MS = 350;
 
 type ViewMode = "list" | "map";
 type PrimarySection = "discover" | "people" | "messages";
-type JoinRequestStatusValue = "PENDING" | "ACCEPTED" | "REJECTED";
+type JoinRequestStatusValue = "PENDING" | "ACCEPTED" | "REJECTED" | "WAITLISTED" | "WITHDRAWN" | "EXPIRED";
+type EventStatusValue = "ACTIVE" | "EXPIRED" | "CANCELLED";
+type EventPhaseValue = "UPCOMING" | "IN_PROGRESS" | "ENDED";
 type NearbyEventPayload = {
   id: string;
   title: string;
   description: string;
   datetime: string;
   locationName: string;
+  category?: CategoryId | null;
   maxParticipants: number;
+  endDatetime?: string | null;
+  phase?: EventPhaseValue;
+  status?: EventStatusValue;
+  cancellationReason?: string | null;
+  coverImage?: { url: string; thumbnailUrl: string } | null;
   distanceMeters?: number | null;
   location: {
     latitude: number;
@@ -73,10 +85,25 @@ type NearbyEventPayload = {
 
 type NearbyEventsResponse = {
   events: NearbyEventPayload[];
+  hasMore?: boolean;
+  nextCursor?: string | null;
   meta: {
     latitude: number;
     longitude: number;
     radiusMeters: number;
+    categories?: CategoryId[];
+    limit?: number;
+  };
+};
+
+type MapEventsResponse = {
+  events: NearbyEventPayload[];
+  clusters?: EventMapCluster[];
+  meta: {
+    zoom: number | null;
+    limit: number;
+    clustered?: boolean;
+    truncated: boolean;
   };
 };
 
@@ -121,6 +148,10 @@ function formatDistance(value?: number | null) {
 }
 
 function deriveEventCategory(event: NearbyEventPayload): CategoryId | null {
+  if (event.category) {
+    return event.category;
+  }
+  // Events created before categories were stored fall back to keyword matching.
   const haystack = `${event.title} ${event.description ?? ""}`.toLowerCase();
   for (const category of Object.values(CATEGORY_DEFINITIONS)) {
     if (category.keywords.some((keyword) => haystack.includes(keyword))) {
@@ -247,8 +278,17 @@ function AuthenticatedHomePage({ currentUser }: { currentUser: AuthUser | null }
   const [eventsError, setEventsError] = useState<string | null>(null);
   const [lastFetchedAt, setLastFetchedAt] = useState<Date | null>(null);
   const [searchMeta, setSearchMeta] = useState<NearbyEventsResponse["meta"] | null>(null);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [loadMoreError, setLoadMoreError] = useState<string | null>(null);
   const [selectedEventId, setSelectedEventId] = useState<string | null>(null);
   const [selectedCategory, setSelectedCategory] = useState<CategoryId | null>(null);
+  const [timeWindow, setTimeWindow] = useState<TimeWindowPreset | null>(null);
+  const [searchInput, setSearchInput] = useState("");
+  const [searchQuery, setSearchQuery] = useState("");
+  const [viewportEvents, setViewportEvents] = useState<NearbyEventPayload[] | null>(null);
+  const [viewportClusters, setViewportClusters] = useState<EventMapCluster[]>([]);
+  const [viewportTruncated, setViewportTruncated] = useState(false);
   const [radiusKm, setRadiusKm] = useState(DEFAULT_RADIUS_KM);
   const [pendingRadiusKm, setPendingRadiusKm] = useState(DEFAULT_RADIUS_KM);
   const [rangeSheetOpen, setRangeSheetOpen] = useState(false);
@@ -396,6 +436,10 @@ function AuthenticatedHomePage({ currentUser }: { currentUser: AuthUser | null }
   );
 
   const fetchAbortRef = useRef<AbortController | null>(null);
+  // Query of the page currently shown, so further pages use the same filters.
+  const nearbyQueryRef = useRef<URLSearchParams | null>(null);
+  const viewportAbortRef = useRef<AbortController | null>(null);
+  const lastViewportRef = useRef<MapViewport | null>(null);
 
   useEffect(() => {
     if (typeof window === "undefined") {
@@ -535,6 +579,18 @@ function AuthenticatedHomePage({ currentUser }: { currentUser: AuthUser | null }
 
       const radiusValue = Math.round((overrideRadiusKm ?? radiusKm) * 1000);
       params.set("radius", radiusValue.toString());
+      if (selectedCategory) {
+        params.set("categories", selectedCategory);
+      }
+      applyTimeWindowParams(params, timeWindow);
+      if (searchQuery) {
+        params.set("q", searchQuery);
+      }
+
+      nearbyQueryRef.current = params;
+      setNextCursor(null);
+      setLoadingMore(false);
+      setLoadMoreError(null);
 
       try {
         const response = await fetch(`/api/events/nearby?${params.toString()}`, {
@@ -548,6 +604,7 @@ function AuthenticatedHomePage({ currentUser }: { currentUser: AuthUser | null }
         const payload = (await response.json()) as NearbyEventsResponse;
         setEvents(payload.events ?? []);
         setSearchMeta(payload.meta ?? null);
+        setNextCursor(payload.hasMore ? payload.nextCursor ?? null : null);
         setEventsStatus("success");
         setLastFetchedAt(new Date());
       } catch (error) {
@@ -559,13 +616,130 @@ function AuthenticatedHomePage({ currentUser }: { currentUser: AuthUser | null }
         setEventsError("Unable to load nearby events. Please try again.");
       }
     },
-    [radiusKm]
+    [radiusKm, searchQuery, selectedCategory, timeWindow]
   );
 
+  useEffect(() => {
+    const trimmed = searchInput.trim();
+    const timeout = window.setTimeout(() => setSearchQuery(trimmed), SEARCH_DEBOUNCE_MS);
+    return () => window.clearTimeout(timeout);
+  }, [searchInput]);
+
+  const fetchMoreEvents = useCallback(async () => {
+    const baseQuery = nearbyQueryRef.current;
+    if (!baseQuery || !nextCursor || loadingMore || eventsStatus !== "success") {
+      return;
+    }
+
+    // Stored where the first page keeps its controller, so a new search
+    // cancels pending pages too.
+    const controller = new AbortController();
+    fetchAbortRef.current = controller;
+    const params = new URLSearchParams(baseQuery);
+    params.set("cursor", nextCursor);
+    setLoadingMore(true);
+    setLoadMoreError(null);
+
+    try {
+      const response = await fetch(`/api/events/nearby?${params.toString()}`, {
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to load more events");
+      }
+
+      const payload = (await response.json()) as NearbyEventsResponse;
+      setEvents((previous) => {
+        const seen = new Set(previous.map((event) => event.id));
+        return [...previous, ...(payload.events ?? []).filter((event) => !seen.has(event.id))];
+      });
+      setNextCursor(payload.hasMore ? payload.nextCursor ?? null : null);
+      setLoadingMore(false);
+    } catch (error) {
+      if ((error as Error).name === "AbortError") {
+        return;
+      }
+      // Leave the cursor in place for the retry button. Scrolling does not
+      // retry on its own, or a failing page would be requested in a loop.
+      console.error("Failed to fetch more nearby events", error);
+      setLoadMoreError("Couldn't load more events.");
+      setLoadingMore(false);
+    }
+  }, [eventsStatus, loadingMore, nextCursor]);
+
+  const fetchEventsForViewport = useCallback(
+    async (viewport: MapViewport) => {
+      lastViewportRef.current = viewport;
+      viewportAbortRef.current?.abort();
+      const controller = new AbortController();
+      viewportAbortRef.current = controller;
+
+      const params = new URLSearchParams({
+        minLat: viewport.minLat.toString(),
+        minLng: viewport.minLng.toString(),
+        maxLat: viewport.maxLat.toString(),
+        maxLng: viewport.maxLng.toString(),
+        zoom: viewport.zoom.toFixed(2),
+      });
+      if (selectedCategory) {
+        params.set("categories", selectedCategory);
+      }
+      applyTimeWindowParams(params, timeWindow);
+      if (searchQuery) {
+        params.set("q", searchQuery);
+      }
+
+      try {
+        const response = await fetch(`/api/events/map?${params.toString()}`, {
+          signal: controller.signal,
+        });
+
+        if (!response.ok) {
+          throw new Error("Failed to load map events");
+        }
+
+        const payload = (await response.json()) as MapEventsResponse;
+        setViewportEvents(payload.events ?? []);
+        setViewportClusters(payload.clusters ?? []);
+        setViewportTruncated(Boolean(payload.meta?.truncated));
+      } catch (error) {
+        if ((error as Error).name === "AbortError") {
+          return;
+        }
+        // Keep showing the last results; the next pan retries.
+        console.error("Failed to fetch events for map viewport", error);
+      }
+    },
+    [searchQuery, selectedCategory, timeWindow]
+  );
+
+  useEffect(() => {
+    if (!lastViewportRef.current) {
+      return;
+    }
+    fetchEventsForViewport(lastViewportRef.current).catch((error) => {
+      console.error("Unexpected error while fetching map events", error);
+    });
+  }, [fetchEventsForViewport]);
+
+  useEffect(() => {
+    if (viewMode === "map") {
+      return;
+    }
+    // The map remounts when switching back, and reports its new viewport then.
+    viewportAbortRef.current?.abort();
+    lastViewportRef.current = null;
+    setViewportEvents(null);
+    setViewportClusters([]);
+    setViewportTruncated(false);
+  }, [viewMode]);
+
   useEffect(() => {
     attemptLocationDetection();
     return () => {
       fetchAbortRef.current?.abort();
+      viewportAbortRef.current?.abort();
     };
   }, [attemptLocationDetection]);
 
@@ -649,17 +823,20 @@ function AuthenticatedHomePage({ currentUser }: { currentUser: AuthUser | null }
   }, [radiusKm]);
 
   const mapItems = useMemo(() => {
-    return visibleEvents.map((event) => ({
+    // Until the map reports its viewport, show the nearby results it opens on.
+    const source: NearbyEventPayload[] = viewportEvents ?? visibleEvents;
+    return source.map((event) => ({
       id: event.id,
       title: event.title,
       locationName: event.locationName,
       location: { ...event.location },
       datetimeISO: event.datetime,
       distanceMeters: event.distanceMeters ?? undefined,
+      coverThumbnailUrl: event.coverImage?.thumbnailUrl ?? null,
       viewerJoinRequestStatus: event.viewerJoinRequestStatus ?? null,
       hostUpdatesUnseenCount: typeof event.hostUpdatesUnseenCount === 'number' ? event.hostUpdatesUnseenCount : null,
     }));
-  }, [visibleEvents]);
+  }, [viewportEvents, visibleEvents]);
 
   const locationReady = locationStatus === "ready" && !!userLocation;
   const isLoading =
@@ -684,6 +861,8 @@ function AuthenticatedHomePage({ currentUser }: { currentUser: AuthUser | null }
             subtitle="Events near you"
             viewMode={viewMode}
             onViewModeChange={handleViewModeChange}
+            searchQuery={searchInput}
+            onSearchChange={setSearchInput}
             onNavigateProfile={() => router.push("/profile")}
             onNavigateMessages={handleNavigateMessages}
             unreadCount={unreadMessageCount}
@@ -697,6 +876,10 @@ function AuthenticatedHomePage({ currentUser }: { currentUser: AuthUser | null }
             onViewModeChange={handleViewModeChange}
             radiusKm={radiusKm}
             onOpenRange={openRangeSheet}
+            timeWindow={timeWindow}
+            onTimeWindowChange={setTimeWindow}
+            searchQuery={searchInput}
+            onSearchChange={setSearchInput}
             locationReady={locationReady}
             selectedCategory={selectedCategory}
             onCategoryChange={setSelectedCategory}
@@ -775,6 +958,10 @@ function AuthenticatedHomePage({ currentUser }: { currentUser: AuthUser | null }
                   </div>
                 )}
 
+                {locationReady && (
+                  <TimeWindowChips value={timeWindow} onChange={setTimeWindow} className="hidden md:flex" />
+                )}
+
                 {isLoading && <DiscoverySkeleton viewMode={viewMode} />}
 
                 {!isLoading && locationReady && viewMode === "map" && (
@@ -820,11 +1007,18 @@ function AuthenticatedHomePage({ currentUser }: { currentUser: AuthUser | null }
                     </div>
                     <EventMapView
                       events={mapItems}
+                      clusters={viewportClusters}
                       userLocation={userLocation || undefined}
                       selectedEventId={selectedEventId}
                       onEventSelect={handleSelectEvent}
+                      onViewportChange={fetchEventsForViewport}
                       height={isDesktop ? MAP_HEIGHT_DESKTOP : MAP_HEIGHT_MOBILE}
                     />
+                    {viewportTruncated && (
+                      <p className="border-t border-border/60 bg-card/40 px-4 py-2 text-xs text-muted-foreground">
+                        Too many events to show them all here. Zoom in to see more.
+                      </p>
+                    )}
                   </div>
                 )}
 
@@ -835,6 +1029,11 @@ function AuthenticatedHomePage({ currentUser }: { currentUser: AuthUser | null }
                     onSelect={handleSelectEvent}
                     locationReady={locationReady}
                     radiusSummary={buildRadiusSummary(radiusKm)}
+                    searchQuery={searchQuery}
+                    hasMore={Boolean(nextCursor)}
+                    isLoadingMore={loadingMore}
+                    loadMoreError={loadMoreError}
+                    onLoadMore={fetchMoreEvents}
                   />
                 )}
               </section>
@@ -929,6 +1128,10 @@ type MobileHeroProps = {
   onViewModeChange: (mode: ViewMode) => void;
   radiusKm: number;
   onOpenRange: () => void;
+  timeWindow: TimeWindowPreset | null;
+  onTimeWindowChange: (value: TimeWindowPreset | null) => void;
+  searchQuery: string;
+  onSearchChange: (value: string) => void;
   locationReady: boolean;
   selectedCategory: CategoryId | null;
   onCategoryChange: (category: CategoryId | null) => void;
@@ -939,6 +1142,10 @@ function MobileHero({
   onViewModeChange,
   radiusKm,
   onOpenRange,
+  timeWindow,
+  onTimeWindowChange,
+  searchQuery,
+  onSearchChange,
   locationReady,
   selectedCategory,
   onCategoryChange,
@@ -1015,9 +1222,14 @@ function MobileHero({
             <SlidersHorizontal className="h-3.5 w-3.5" />
             {Math.round(radiusKm)} km
           </button>
+          <TimeWindowSelect value={timeWindow} onChange={onTimeWindowChange} disabled={!locationReady} />
           </div>
         </div>
 
+        <div className="mb-3 px-4">
+          <DiscoverySearchField value={searchQuery} onChange={onSearchChange} />
+        </div>
+
         <div className="pb-1">
           <CategoryRow
             selectedCategory={selectedCategory}
@@ -1204,6 +1416,12 @@ type DiscoveryListProps = {
   onSelect: (eventId: string) => void;
   locationReady: boolean;
   radiusSummary: string;
+  searchQuery?: string;
+  hasMore?: boolean;
+  isLoadingMore?: boolean;
+  /** Set when the last page failed; loading resumes only from the retry button. */
+  loadMoreError?: string | null;
+  onLoadMore?: () => void;
 };
 
 export function DiscoveryList({
@@ -1212,7 +1430,19 @@ export function DiscoveryList({
   onSelect,
   locationReady,
   radiusSummary,
+  searchQuery = "",
+  hasMore = false,
+  isLoadingMore = false,
+  loadMoreError = null,
+  onLoadMore,
 }: DiscoveryListProps) {
+  const canLoadMore = hasMore && Boolean(onLoadMore);
+  const sentinelRef = useInfiniteScroll({
+    hasMore: canLoadMore && !loadMoreError,
+    isLoading: isLoadingMore,
+    onLoadMore,
+  });
+
   if (!locationReady) {
     return <DiscoverySkeleton viewMode="list" />;
   }
@@ -1220,116 +1450,182 @@ export function DiscoveryList({
   if (events.length === 0) {
     return (
       <div className="rounded-3xl border border-dashed border-border/60 bg-card/40 p-10 text-center text-sm text-muted-foreground">
-        <p>No nearby events yet within {radiusSummary}. Try widening your radius or refreshing.</p>
+        {searchQuery ? (
+          <p>
+            No events matching &ldquo;{searchQuery}&rdquo; within {radiusSummary}. Try different words or a wider radius.
+          </p>
+        ) : (
+          <p>No nearby events yet within {radiusSummary}. Try widening your radius or refreshing.</p>
+        )}
       </div>
     );
   }
 
-  return (
-    <div className="space-y-4">
-      <div className="grid gap-4 md:grid-cols-2 xl:grid-cols-3">
-        {events.map((event) => {
-        const definition = event.categoryId ? CATEGORY_DEFINITIONS[event.categoryId] : null;
-        const Icon = definition?.icon ?? Sparkles;
-        const spotsLabel = formatSpotsLabel(event.spotsRemaining);
-        const hasCoordinates =
-          typeof event.location?.latitude === "number" && typeof event.location?.longitude === "number";
-        const viewerIsAcceptedGuest = event.viewerJoinRequestStatus === "ACCEPTED";
-        const hostUpdatesUnseen =
-          viewerIsAcceptedGuest && typeof event.hostUpdatesUnseenCount === "number" && event.hostUpdatesUnseenCount > 0
-            ? event.hostUpdatesUnseenCount
-            : null;
-        const hostUpdatesIndicator =
-          typeof hostUpdatesUnseen === "number" && hostUpdatesUnseen > 0
-            ? {
-                value: hostUpdatesUnseen > 99 ? "99+" : hostUpdatesUnseen.toString(),
-                plural: hostUpdatesUnseen > 1,
-              }
-            : null;
-        return (
-          <button
-            key={event.id}
-            type="button"
-            onClick={() => onSelect(event.id)}
-            className={classNames(
-              "group flex w-full flex-col overflow-hidden rounded-2xl border border-border/60 bg-card/60 text-left transition-all hover:border-primary/40 hover:shadow-lg hover:shadow-primary/10 active:scale-[0.99] md:max-w-[330px]",
-              selectedEventId === event.id && "border-primary/60 shadow-primary/20"
-            )}
-          >
-            {hasCoordinates ? (
-              <MiniMap
-                latitude={event.location.latitude}
-                longitude={event.location.longitude}
-                locationName={event.locationName}
-                className="w-full"
-              />
-            ) : (
-              <div className="h-[156px] w-full border-b border-border/60 bg-secondary/40" />
-            )}
-            <div className="flex flex-1 flex-col gap-3 border-t border-border/60 p-4">
-              <div className="flex items-start justify-between gap-3">
-                <div className="flex items-start gap-2">
-                  <div
-                    className={classNames(
-                      "flex h-10 w-10 shrink-0 items-center justify-center rounded-2xl border text-sm",
-                      definition?.accent ?? "border-border/70 bg-background/60"
-                    )}
-                  >
-                    <Icon className="h-5 w-5" />
-                  </div>
-                  <div>
-                    <p className="text-sm font-semibold leading-tight text-foreground">{event.title}</p>
-                    <p className="line-clamp-2 min-h-[2.8rem] text-sm leading-[1.4rem] text-muted-foreground">
-                      {event.description ?? "Host will share details once you request to join."}
-                    </p>
-                  </div>
-                </div>
-                <ChevronRight className="h-4 w-4 shrink-0 text-muted-foreground transition group-hover:translate-x-0.5" />
-              </div>
-              <div className="flex flex-wrap items-center gap-3 text-[11px] text-muted-foreground">
-                {event.datetimeLabel && (
-                  <span className="inline-flex items-center gap-1">
-                    <Clock className="h-3.5 w-3.5" />
-                    {event.datetimeLabel}
-                  </span>
-                )}
-                {event.distanceLabel && (
-                  <span className="inline-flex items-center gap-1">
-                    <MapPin className="h-3.5 w-3.5" />
-                    {event.distanceLabel}
-                  </span>
-                )}
-                {hostUpdatesIndicator && (
-                  <span
-                    data-testid="host-updates-pill"
-                    className="ml-auto inline-flex items-center gap-1 rounded-full border border-amber-400/40 bg-amber-400/10 px-2 py-0.5 text-[10px] font-semibold uppercase tracking-wide text-amber-300"
-                  >
-                    <Sparkles className="h-3 w-3" aria-hidden />
-                    <span>
-                      {hostUpdatesIndicator.value} new
-                    </span>
-                  </span>
+  const renderEventCard = (event: DecoratedEvent) => {
+    const definition = event.categoryId ? CATEGORY_DEFINITIONS[event.categoryId] : null;
+    const Icon = definition?.icon ?? Sparkles;
+    const isCancelled = event.status === "CANCELLED";
+    const spotsLabel = isCancelled ? null : formatSpotsLabel(event.spotsRemaining);
+    const hasCoordinates =
+      typeof event.location?.latitude === "number" && typeof event.location?.longitude === "number";
+    const viewerIsAcceptedGuest = event.viewerJoinRequestStatus === "ACCEPTED";
+    const hostUpdatesUnseen =
+      viewerIsAcceptedGuest && typeof event.hostUpdatesUnseenCount === "number" && event.hostUpdatesUnseenCount > 0
+        ? event.hostUpdatesUnseenCount
+        : null;
+    const hostUpdatesIndicator =
+      typeof hostUpdatesUnseen === "number" && hostUpdatesUnseen > 0
+        ? {
+            value: hostUpdatesUnseen > 99 ? "99+" : hostUpdatesUnseen.toString(),
+            plural: hostUpdatesUnseen > 1,
+          }
+        : null;
+    return (
+      <button
+        key={event.id}
+        type="button"
+        onClick={() => onSelect(event.id)}
+        className={classNames(
+          "group flex w-full flex-col overflow-hidden rounded-2xl border border-border/60 bg-card/60 text-left transition-all hover:border-primary/40 hover:shadow-lg hover:shadow-primary/10 active:scale-[0.99] md:max-w-[330px]",
+          selectedEventId === event.id && "border-primary/60 shadow-primary/20"
+        )}
+      >
+        {event.coverImage ? (
+          // eslint-disable-next-line @next/next/no-img-element
+          <img
+            src={event.coverImage.thumbnailUrl}
+            alt=""
+            loading="lazy"
+            className="h-[156px] w-full object-cover"
+          />
+        ) : hasCoordinates ? (
+          <MiniMap
+            latitude={event.location.latitude}
+            longitude={event.location.longitude}
+            locationName={event.locationName}
+            className="w-full"
+          />
+        ) : (
+          <div className="h-[156px] w-full border-b border-border/60 bg-secondary/40" />
+        )}
+        <div className="flex flex-1 flex-col gap-3 border-t border-border/60 p-4">
+          <div className="flex items-start justify-between gap-3">
+            <div className="flex items-start gap-2">
+              <div
+                className={classNames(
+                  "flex h-10 w-10 shrink-0 items-center justify-center rounded-2xl border text-sm",
+                  definition?.accent ?? "border-border/70 bg-background/60"
                 )}
+              >
+                <Icon className="h-5 w-5" />
               </div>
-              <div className="mt-1 flex items-center gap-2 border-t border-border/50 pt-3">
-                <HostAvatar photoUrl={event.hostPhotoUrl} initials={event.hostInitials} label={event.hostLabel} />
-                <span className="text-xs text-muted-foreground">{event.hostLabel}</span>
-                {spotsLabel && (
-                  <span className="ml-auto rounded-full border border-primary/40 bg-primary/10 px-2 py-0.5 text-[10px] font-semibold uppercase tracking-wide text-primary">
-                    {spotsLabel}
-                  </span>
-                )}
-                {definition && (
-                  <span className={classNames("rounded-full px-2 py-0.5 text-[10px] font-semibold", definition.badge)}>
-                    {definition.label}
-                  </span>
-                )}
+              <div>
+                <p className="text-sm font-semibold leading-tight text-foreground">{event.title}</p>
+                <p className="line-clamp-2 min-h-[2.8rem] text-sm leading-[1.4rem] text-muted-foreground">
+                  {event.description ?? "Host will share details once you request to join."}
+                </p>
               </div>
             </div>
-          </button>
-        );
-        })}
+            <ChevronRight className="h-4 w-4 shrink-0 text-muted-foreground transition group-hover:translate-x-0.5" />
+          </div>
+          <div className="flex flex-wrap items-center gap-3 text-[11px] text-muted-foreground">
+            {event.datetimeLabel && (
+              <span className="inline-flex items-center gap-1">
+                <Clock className="h-3.5 w-3.5" />
+                {event.datetimeLabel}
+              </span>
+            )}
+            {event.distanceLabel && (
+              <span className="inline-flex items-center gap-1">
+                <MapPin className="h-3.5 w-3.5" />
+                {event.distanceLabel}
+              </span>
+            )}
+            {isCancelled && (
+              <span
+                data-testid="cancelled-pill"
+                title={event.cancellationReason ?? undefined}
+                className="inline-flex items-center rounded-full border border-rose-400/40 bg-rose-400/10 px-2 py-0.5 text-[10px] font-semibold uppercase tracking-wide text-rose-300"
+              >
+                Cancelled
+              </span>
+            )}
+            {hostUpdatesIndicator && (
+              <span
+                data-testid="host-updates-pill"
+                className="ml-auto inline-flex items-center gap-1 rounded-full border border-amber-400/40 bg-amber-400/10 px-2 py-0.5 text-[10px] font-semibold uppercase tracking-wide text-amber-300"
+              >
+                <Sparkles className="h-3 w-3" aria-hidden />
+                <span>
+                  {hostUpdatesIndicator.value} new
+                </span>
+              </span>
+            )}
+          </div>
+          <div className="mt-1 flex items-center gap-2 border-t border-border/50 pt-3">
+            <HostAvatar photoUrl={event.hostPhotoUrl} initials={event.hostInitials} label={event.hostLabel} />
+            <span className="text-xs text-muted-foreground">{event.hostLabel}</span>
+            {spotsLabel && (
+              <span className="ml-auto rounded-full border border-primary/40 bg-primary/10 px-2 py-0.5 text-[10px] font-semibold uppercase tracking-wide text-primary">
+                {spotsLabel}
+              </span>
+            )}
+            {definition && (
+              <span className={classNames("rounded-full px-2 py-0.5 text-[10px] font-semibold", definition.badge)}>
+                {definition.label}
+              </span>
+            )}
+          </div>
+        </div>
+      </button>
+    );
+  };
+
+  const loadMoreControl = canLoadMore ? (
+    <div ref={sentinelRef} className="flex flex-col items-center gap-2">
+      {loadMoreError ? (
+        <p role="alert" className="text-xs text-rose-300">
+          {loadMoreError}
+        </p>
+      ) : null}
+      <button
+        type="button"
+        onClick={onLoadMore}
+        disabled={isLoadingMore}
+        className="rounded-full border border-border/60 bg-card/40 px-4 py-2 text-xs font-semibold text-muted-foreground transition hover:text-foreground disabled:cursor-wait disabled:opacity-60"
+      >
+        {isLoadingMore ? "Loading more events…" : loadMoreError ? "Try again" : "Load more events"}
+      </button>
+    </div>
+  ) : null;
+
+  const happeningNow = events.filter((event) => event.phase === "IN_PROGRESS" && event.status !== "CANCELLED");
+  if (happeningNow.length === 0) {
+    return (
+      <div className="space-y-4">
+        <div className="grid gap-4 md:grid-cols-2 xl:grid-cols-3">{events.map(renderEventCard)}</div>
+        {loadMoreControl}
       </div>
+    );
+  }
+
+  const upcoming = events.filter((event) => !happeningNow.includes(event));
+  return (
+    <div className="space-y-6">
+      <section aria-label="Happening now" className="space-y-3">
+        <h3 className="flex items-center gap-2 text-xs font-semibold uppercase tracking-wide text-emerald-300">
+          <span className="inline-flex h-2 w-2 animate-pulse rounded-full bg-emerald-400" aria-hidden />
+          Happening now
+        </h3>
+        <div className="grid gap-4 md:grid-cols-2 xl:grid-cols-3">{happeningNow.map(renderEventCard)}</div>
+      </section>
+      {upcoming.length > 0 && (
+        <section aria-label="Upcoming" className="space-y-3">
+          <h3 className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">Upcoming</h3>
+          <div className="grid gap-4 md:grid-cols-2 xl:grid-cols-3">{upcoming.map(renderEventCard)}</div>
+        </section>
+      )}
+      {loadMoreControl}
     </div>
   );
 }
@@ -1379,6 +1675,63 @@ function AlertPanel({ title, description, actionLabel, onAction }: AlertPanelPro
   );
 }
 
+type TimeWindowControlProps = {
+  value: TimeWindowPreset | null;
+  onChange: (value: TimeWindowPreset | null) => void;
+  disabled?: boolean;
+  className?: string;
+};
+
+function TimeWindowSelect({ value, onChange, disabled = false }: TimeWindowControlProps) {
+  return (
+    <label className="relative inline-flex h-9 items-center rounded-lg border border-border bg-card/60 text-xs font-medium text-muted-foreground transition-colors hover:text-foreground">
+      <span className="sr-only">When</span>
+      <Clock className="pointer-events-none absolute left-2.5 h-3.5 w-3.5" aria-hidden />
+      <select
+        value={value ?? ""}
+        onChange={(event) => onChange((event.target.value || null) as TimeWindowPreset | null)}
+        disabled={disabled}
+        className="h-full appearance-none bg-transparent pl-7 pr-2.5 outline-none disabled:cursor-not-allowed disabled:opacity-40"
+      >
+        <option value="">Any time</option>
+        {TIME_WINDOW_PRESETS.map((preset) => (
+          <option key={preset} value={preset}>
+            {TIME_WINDOW_LABELS[preset]}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
+
+function TimeWindowChips({ value, onChange, className }: TimeWindowControlProps) {
+  const options: (TimeWindowPreset | null)[] = [null, ...TIME_WINDOW_PRESETS];
+  return (
+    <div role="group" aria-label="When" className={classNames("flex-wrap items-center gap-2", className)}>
+      <Clock className="h-4 w-4 text-muted-foreground" aria-hidden />
+      {options.map((option) => {
+        const isSelected = value === option;
+        return (
+          <button
+            key={option ?? "any"}
+            type="button"
+            onClick={() => onChange(option)}
+            aria-pressed={isSelected}
+            className={classNames(
+              "rounded-full border px-3 py-1.5 text-xs font-medium transition",
+              isSelected
+                ? "border-primary bg-primary/10 text-primary"
+                : "border-border/70 bg-card/60 text-muted-foreground hover:text-foreground"
+            )}
+          >
+            {option ? TIME_WINDOW_LABELS[option] : "Any time"}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
+
 type RangeSheetProps = {
   value: number;
   onChange: (value: number) => void;
@@ -1479,3 +1832,15 @@ function DiscoverySkeleton({ viewMode }: DiscoverySkeletonProps) {
 const formatCoordinate = (value: number) => value.toFixed(4);
 
 const buildRadiusSummary = (radiusKm: number) => `${Math.round(radiusKm)} km radius`;
+
+// Presets are resolved server-side in the viewer's zone, so "tonight" means their night.
+const applyTimeWindowParams = (params: URLSearchParams, timeWindow: TimeWindowPreset | null) => {
+  if (!timeWindow) {
+    return;
+  }
+  params.set("window", timeWindow);
+  const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  if (timeZone) {
+    params.set("tz", timeZone);
+  }
+};
@@ -1,6 +1,7 @@
 'use client';
 
 import { Fragment, FormEvent, ReactNode, useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import Link from 'next/link';
 import { useRouter } from 'next/navigation';
 import {
   Calendar,
@@ -11,6 +12,7 @@ import {
   LogOut,
   Mail,
   MapPin,
+  RotateCcw,
   Settings,
   Shield,
   Users,
@@ -59,6 +61,7 @@ type StatusState = {
 type ProfileOverviewResponse = {
   stats: ProfileStats;
   activeEvents: ActiveEventSummary[];
+  pastEvents: PastEventSummary[];
 };
 
 type ProfileStats = {
@@ -77,6 +80,14 @@ type ActiveEventSummary = {
   acceptedRequests: number;
 };
 
+type PastEventSummary = {
+  id: string;
+  title: string;
+  datetime: string;
+  locationName: string;
+  status: string;
+};
+
 const formatDate = (isoDate: string) => {
   try {
     return new Intl.DateTimeFormat(undefined, {
@@ -114,50 +125,7 @@ const formatEventDatetime = (isoDate: string) => {
   }
 };
 
-const compressImage = (file: File, maxWidth = 800, maxHeight = 800, quality = 0.8): Promise<string> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      const img = new Image();
-      img.onload = () => {
-        const canvas = document.createElement('canvas');
-        let { width, height } = img;
-
-        // Calculate new dimensions while maintaining aspect ratio
-        if (width > height) {
-          if (width > maxWidth) {
-            height = (height * maxWidth) / width;
-            width = maxWidth;
-          }
-        } else {
-          if (height > maxHeight) {
-            width = (width * maxHeight) / height;
-            height = maxHeight;
-          }
-        }
-
-        canvas.width = width;
-        canvas.height = height;
-
-        const ctx = canvas.getContext('2d');
-        if (!ctx) {
-          reject(new Error('Unable to get canvas context'));
-          return;
-        }
-
-        ctx.drawImage(img, 0, 0, width, height);
-
-        // Convert to JPEG for better compression
-        const dataUrl = canvas.toDataURL('image/jpeg', quality);
-        resolve(dataUrl);
-      };
-      img.onerror = () => reject(new Error('Unable to load image'));
-      img.src = e.target?.result as string;
-    };
-    reader.onerror = () => reject(new Error('Unable to read file'));
-    reader.readAsDataURL(file);
-  });
-};
+const AVATAR_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
 
 const sanitize = (value: string) => value.trim();
 
@@ -283,16 +251,14 @@ function AuthenticatedProfilePage({ currentUserId, currentUser }: AuthenticatedP
     }
 
     try {
-      // Compress the image before uploading
-      const dataUrl = await compressImage(file);
-      setPhotoInput(dataUrl);
       setSaving(true);
 
-      // Auto-save the photo
-      const response = await fetch('/api/users/me', {
-        method: 'PATCH',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ photoUrl: dataUrl }),
+      // The server crops, resizes and strips metadata, so the original file is sent as-is.
+      const formData = new FormData();
+      formData.append('file', file);
+      const response = await fetch('/api/users/me/avatar', {
+        method: 'PUT',
+        body: formData,
       });
 
       const data = await response.json();
@@ -607,6 +573,10 @@ function AuthenticatedProfilePage({ currentUserId, currentUser }: AuthenticatedP
                       events={overview?.activeEvents ?? []}
                     />
 
+                    <PastEventsPanel loading={overviewLoading} events={overview?.pastEvents ?? []} />
+
+                    <CalendarFeedPanel />
+
                     <section className="rounded-3xl border border-border/60 bg-card/60">
                       {settingsRows.map((row) => (
                         <SettingsRow key={row.label} {...row} />
@@ -618,7 +588,7 @@ function AuthenticatedProfilePage({ currentUserId, currentUser }: AuthenticatedP
                     <input
                       ref={fileInputRef}
                       type="file"
-                      accept="image/*"
+                      accept={AVATAR_IMAGE_TYPES.join(',')}
                       className="hidden"
                       onChange={(event) => {
                         const file = event.target.files?.[0];
@@ -828,6 +798,7 @@ function ActiveEventsPanel({ loading, error, events }: ActiveEventsPanelProps) {
                   <span className="truncate text-sm font-semibold text-foreground">{event.title}</span>
                   <span className="text-xs text-muted-foreground">{formatEventDatetime(event.datetime)}</span>
                 </div>
+                {event.status === 'CANCELLED' ? <StatusBadge tone="neutral">Cancelled</StatusBadge> : null}
               </article>
             );
           })
@@ -837,6 +808,157 @@ function ActiveEventsPanel({ loading, error, events }: ActiveEventsPanelProps) {
   );
 }
 
+type PastEventsPanelProps = {
+  loading: boolean;
+  events: PastEventSummary[];
+};
+
+function PastEventsPanel({ loading, events }: PastEventsPanelProps) {
+  if (loading || events.length === 0) {
+    return null;
+  }
+
+  return (
+    <section className="rounded-3xl border border-border/60 bg-card/60 p-6 shadow-xl shadow-black/20">
+      <div>
+        <h3 className="font-serif text-xl font-semibold text-foreground">Past Events</h3>
+        <p className="text-xs text-muted-foreground">Start a new plan from one you have already hosted.</p>
+      </div>
+
+      <div className="mt-5 space-y-3">
+        {events.map((event) => (
+          <article
+            key={event.id}
+            className="flex items-center gap-3 rounded-2xl border border-border/60 bg-background/30 px-4 py-4 text-sm text-foreground"
+          >
+            <div className="flex min-w-0 flex-1 flex-col gap-1">
+              <span className="truncate text-sm font-semibold text-foreground">{event.title}</span>
+              <span className="truncate text-xs text-muted-foreground">
+                {formatEventDatetime(event.datetime)} · {event.locationName}
+              </span>
+            </div>
+            <Link
+              href={`/events/create?from=${encodeURIComponent(event.id)}`}
+              className="inline-flex shrink-0 items-center gap-1.5 rounded-full border border-border/60 px-3 py-1.5 text-xs font-semibold text-foreground transition hover:border-primary/60 hover:text-primary"
+            >
+              <RotateCcw className="h-3.5 w-3.5" aria-hidden />
+              Host again
+            </Link>
+          </article>
+        ))}
+      </div>
+    </section>
+  );
+}
+
+type CalendarFeedLinks = {
+  url: string;
+  webcalUrl: string;
+};
+
+function CalendarFeedPanel() {
+  const [feed, setFeed] = useState<CalendarFeedLinks | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [resetting, setResetting] = useState(false);
+
+  useEffect(() => {
+    const loadFeed = async () => {
+      try {
+        const response = await fetch('/api/users/me/calendar-feed', { cache: 'no-store' });
+        if (!response.ok) {
+          throw new Error('Unable to load calendar feed');
+        }
+        const payload = (await response.json()) as { feed: CalendarFeedLinks };
+        setFeed(payload.feed);
+      } catch (loadError) {
+        console.error('Failed to load calendar feed', loadError);
+        setError('Your calendar link is unavailable right now. Try again shortly.');
+      }
+    };
+    void loadFeed();
+  }, []);
+
+  const handleCopy = useCallback(async () => {
+    if (!feed) {
+      return;
+    }
+    try {
+      await navigator.clipboard.writeText(feed.webcalUrl);
+      showSuccessToast('Calendar link copied', 'Paste it into your calendar app as a subscription.');
+    } catch {
+      showErrorToast('Copy failed', 'Copy the link manually instead.');
+    }
+  }, [feed]);
+
+  const handleReset = useCallback(async () => {
+    setResetting(true);
+    try {
+      const response = await fetch('/api/users/me/calendar-feed', { method: 'POST' });
+      if (!response.ok) {
+        throw new Error('Unable to reset calendar feed');
+      }
+      const payload = (await response.json()) as { feed: CalendarFeedLinks };
+      setFeed(payload.feed);
+      showSuccessToast('Calendar link reset', 'Calendars using the old link will stop updating.');
+    } catch (resetError) {
+      console.error('Failed to reset calendar feed', resetError);
+      showErrorToast('Reset failed', 'Please try again in a moment.');
+    } finally {
+      setResetting(false);
+    }
+  }, []);
+
+  return (
+    <section className="rounded-3xl border border-border/60 bg-card/60 p-6 shadow-xl shadow-black/20">
+      <h3 className="font-serif text-xl font-semibold text-foreground">Calendar Feed</h3>
+      <p className="mt-1 text-xs text-muted-foreground">
+        Subscribe once to see every plan you host or join in your calendar. Keep this link private.
+      </p>
+      {error ? (
+        <div className="mt-4 rounded-2xl border border-rose-200/30 bg-rose-500/10 px-4 py-3 text-sm text-rose-100">
+          {error}
+        </div>
+      ) : (
+        <>
+          <p className="mt-4 break-all rounded-2xl border border-border/60 bg-background/30 px-4 py-3 text-xs text-muted-foreground">
+            {feed?.webcalUrl ?? 'Preparing your calendar link…'}
+          </p>
+          <div className="mt-4 flex flex-wrap gap-2">
+            <a
+              href={feed?.webcalUrl}
+              aria-disabled={!feed}
+              className="inline-flex items-center gap-2 rounded-full border border-primary/40 bg-primary/10 px-4 py-2 text-xs font-semibold text-primary transition hover:border-primary/60"
+            >
+              <Calendar className="h-3.5 w-3.5" aria-hidden />
+              Subscribe
+            </a>
+            <button
+              type="button"
+              onClick={() => {
+                void handleCopy();
+              }}
+              disabled={!feed}
+              className="rounded-full border border-border/70 px-4 py-2 text-xs font-semibold text-foreground transition hover:border-primary/60 disabled:cursor-not-allowed disabled:opacity-60"
+            >
+              Copy link
+            </button>
+            <button
+              type="button"
+              onClick={() => {
+                void handleReset();
+              }}
+              disabled={!feed || resetting}
+              className="rounded-full px-4 py-2 text-xs font-semibold text-muted-foreground transition hover:text-foreground disabled:cursor-not-allowed disabled:opacity-60"
+            >
+              {resetting ? 'Resetting…' : 'Reset link'}
+            </button>
+          </div>
+        </>
+      )}
+    </section>
+  );
+}
+
 type StatusBadgeProps = {
   tone: 'primary' | 'success' | 'neutral';
   children: ReactNode;
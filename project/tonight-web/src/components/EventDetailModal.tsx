@@ -6,6 +6,13 @@ import { Flag } from "lucide-react";
 
 import ReportModal from "@/components/ReportModal";
 import UserAvatar from "./UserAvatar";
+import { classNames } from "@/lib/classNames";
+import {
+  JOIN_ANSWER_MAX_LENGTH,
+  normalizeJoinAnswer,
+  type JoinAnswers,
+  type SerializedJoinQuestion,
+} from "@/lib/join-questions";
 import { showErrorToast, showSuccessToast } from "@/lib/toast";
 
 export type EventDetail = {
@@ -20,6 +27,7 @@ export type EventDetail = {
   } | null;
   maxParticipants?: number | null;
   attendeeCount?: number | null;
+  joinQuestions?: SerializedJoinQuestion[] | null;
 };
 
 export type HostProfile = {
@@ -36,7 +44,7 @@ type EventDetailModalProps = {
   host: HostProfile;
   isOpen: boolean;
   onClose?: () => void;
-  onRequestJoin?: (eventId: string) => void;
+  onRequestJoin?: (eventId: string, intro: string | null, answers: JoinAnswers) => void;
   joinStatus?: JoinRequestStatus;
   joinStatusMessage?: string | null;
   requestButtonLabel?: string;
@@ -44,6 +52,8 @@ type EventDetailModalProps = {
 };
 
 const defaultButtonLabel = "Request to Join";
+// Mirrors JOIN_REQUEST_INTRO_MAX_LENGTH on the server.
+const INTRO_MAX_LENGTH = 280;
 
 export default function EventDetailModal({
   event,
@@ -61,6 +71,8 @@ export default function EventDetailModal({
   const [mounted, setMounted] = useState(false);
   const [internalJoinStatus, setInternalJoinStatus] = useState<JoinRequestStatus>("idle");
   const [internalJoinMessage, setInternalJoinMessage] = useState<string | null>(null);
+  const [intro, setIntro] = useState("");
+  const [answers, setAnswers] = useState<JoinAnswers>({});
   const [isReportModalOpen, setIsReportModalOpen] = useState(false);
   const [reportNotice, setReportNotice] = useState<string | null>(null);
 
@@ -122,6 +134,8 @@ export default function EventDetailModal({
 
   useEffect(() => {
     resetJoinState();
+    setIntro("");
+    setAnswers({});
   }, [event.id, resetJoinState]);
 
   useEffect(() => {
@@ -175,7 +189,7 @@ export default function EventDetailModal({
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify({ eventId: event.id }),
+        body: JSON.stringify({ eventId: event.id, intro: intro.trim() || null, answers }),
         signal: controller.signal,
       });
 
@@ -195,6 +209,13 @@ export default function EventDetailModal({
         throw new Error(errorMessage);
       }
 
+      const payload = (await response.json().catch(() => null)) as { joinRequest?: { status?: string } } | null;
+      if (payload?.joinRequest?.status === "WAITLISTED") {
+        setJoinStatus("success", "The event is full, so you're on the waitlist. We'll let you know if a spot opens up.");
+        showSuccessToast("You're on the waitlist", "You'll move up in the order you asked.");
+        return;
+      }
+
       setJoinStatus("success", "Request sent! The host will follow up soon.");
       showSuccessToast("Request sent", "We let the host know you're interested.");
     } catch (error) {
@@ -207,15 +228,25 @@ export default function EventDetailModal({
       setJoinStatus("error", message);
       showErrorToast("Unable to send request", message);
     }
-  }, [event.id, inferErrorMessage, setJoinStatus]);
+  }, [answers, event.id, inferErrorMessage, intro, setJoinStatus]);
+
+  const joinQuestions = useMemo(() => event.joinQuestions ?? [], [event.joinQuestions]);
 
   const handleJoinRequestClick = useCallback(() => {
+    for (const question of joinQuestions) {
+      const answer = normalizeJoinAnswer(question, answers[question.id]);
+      if ("error" in answer) {
+        setJoinStatus("error", answer.error);
+        return;
+      }
+    }
+
     if (onRequestJoin) {
-      onRequestJoin(event.id);
+      onRequestJoin(event.id, intro.trim() || null, answers);
       return;
     }
     void handleInternalJoinRequest();
-  }, [event.id, handleInternalJoinRequest, onRequestJoin]);
+  }, [answers, event.id, handleInternalJoinRequest, intro, joinQuestions, onRequestJoin, setJoinStatus]);
 
   const handleReportClose = useCallback(() => {
     setIsReportModalOpen(false);
@@ -340,6 +371,41 @@ export default function EventDetailModal({
             </p>
           </section>
 
+          <section className="space-y-1">
+            <label htmlFor="join-request-intro" className="text-xs font-semibold uppercase tracking-wide text-zinc-500">
+              Note to the host (optional)
+            </label>
+            <textarea
+              id="join-request-intro"
+              data-testid="join-request-intro"
+              value={intro}
+              onChange={(changeEvent) => setIntro(changeEvent.target.value)}
+              maxLength={INTRO_MAX_LENGTH}
+              rows={2}
+              disabled={isButtonDisabled}
+              placeholder="A line about you and why you'd like to come"
+              className="w-full rounded-2xl border border-zinc-200 px-4 py-2 text-sm text-zinc-900 placeholder:text-zinc-400 focus:border-pink-300 focus:outline-none disabled:bg-zinc-50"
+            />
+            <p className="text-right text-[11px] text-zinc-400">
+              {intro.length}/{INTRO_MAX_LENGTH}
+            </p>
+          </section>
+
+          {joinQuestions.length > 0 && (
+            <section className="space-y-3" data-testid="join-request-questions">
+              <p className="text-xs font-semibold uppercase tracking-wide text-zinc-500">The host asks</p>
+              {joinQuestions.map((question) => (
+                <JoinQuestionInput
+                  key={question.id}
+                  question={question}
+                  value={answers[question.id] ?? ""}
+                  disabled={isButtonDisabled}
+                  onChange={(value) => setAnswers((prev) => ({ ...prev, [question.id]: value }))}
+                />
+              ))}
+            </section>
+          )}
+
           <footer className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
             <div className="text-sm text-zinc-500">
               Bring your best vibe. Hosts accept guests manually and may ask quick follow-up questions.
@@ -402,6 +468,70 @@ const DetailField = ({ label, value }: DetailFieldProps) => (
   </div>
 );
 
+type JoinQuestionInputProps = {
+  question: SerializedJoinQuestion;
+  value: string;
+  disabled: boolean;
+  onChange: (value: string) => void;
+};
+
+const JoinQuestionInput = ({ question, value, disabled, onChange }: JoinQuestionInputProps) => {
+  const inputId = `join-question-${question.id}`;
+
+  if (question.kind === "SHORT_TEXT") {
+    return (
+      <div className="space-y-1">
+        <label htmlFor={inputId} className="block text-sm font-medium text-zinc-800">
+          {question.prompt}
+        </label>
+        <input
+          id={inputId}
+          type="text"
+          value={value}
+          onChange={(changeEvent) => onChange(changeEvent.target.value)}
+          maxLength={JOIN_ANSWER_MAX_LENGTH}
+          disabled={disabled}
+          className="w-full rounded-2xl border border-zinc-200 px-4 py-2 text-sm text-zinc-900 focus:border-pink-300 focus:outline-none disabled:bg-zinc-50"
+        />
+      </div>
+    );
+  }
+
+  const choices =
+    question.kind === "YES_NO"
+      ? [
+          { value: "yes", label: "Yes" },
+          { value: "no", label: "No" },
+        ]
+      : question.options.map((option) => ({ value: option, label: option }));
+
+  return (
+    <div className="space-y-1">
+      <p className="text-sm font-medium text-zinc-800">{question.prompt}</p>
+      <div role="radiogroup" aria-label={question.prompt} className="flex flex-wrap gap-2">
+        {choices.map((choice) => (
+          <button
+            key={choice.value}
+            type="button"
+            role="radio"
+            aria-checked={value === choice.value}
+            onClick={() => onChange(choice.value)}
+            disabled={disabled}
+            className={classNames(
+              "rounded-full border px-4 py-1.5 text-sm font-medium transition disabled:cursor-not-allowed",
+              value === choice.value
+                ? "border-pink-500 bg-pink-50 text-pink-700"
+                : "border-zinc-200 text-zinc-600 hover:border-zinc-300"
+            )}
+          >
+            {choice.label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
 const formatDateTime = (value?: string | null) => {
   if (!value) return null;
   const date = new Date(value);
@@ -1,6 +1,7 @@
 "use client";
 
 import { useMemo } from "react";
+import { useInfiniteScroll } from "@/hooks/useInfiniteScroll";
 
 export type EventListItem = {
   id: string;
@@ -9,6 +10,7 @@ export type EventListItem = {
   datetimeISO?: string | null;
   distanceMeters?: number | null;
   description?: string | null;
+  coverThumbnailUrl?: string | null;
 };
 
 export type EventListViewProps = {
@@ -18,6 +20,10 @@ export type EventListViewProps = {
   className?: string;
   emptyStateMessage?: string;
   showSummary?: boolean;
+  /** More events exist beyond the ones passed in. */
+  hasMore?: boolean;
+  isLoadingMore?: boolean;
+  onLoadMore?: () => void;
 };
 
 export default function EventListView({
@@ -27,14 +33,21 @@ export default function EventListView({
   className,
   emptyStateMessage = "No nearby events yet",
   showSummary = true,
+  hasMore = false,
+  isLoadingMore = false,
+  onLoadMore,
 }: EventListViewProps) {
+  const canLoadMore = hasMore && Boolean(onLoadMore);
+  const sentinelRef = useInfiniteScroll({ hasMore: canLoadMore, isLoading: isLoadingMore, onLoadMore });
+
   const summaryText = useMemo(() => {
     if (!events.length) {
       return emptyStateMessage;
     }
 
-    return events.length === 1 ? "Showing 1 event" : `Showing ${events.length} events`;
-  }, [emptyStateMessage, events.length]);
+    const shown = events.length === 1 ? "Showing 1 event" : `Showing ${events.length} events`;
+    return hasMore ? `${shown} so far` : shown;
+  }, [emptyStateMessage, events.length, hasMore]);
 
   return (
     <div className={className}>
@@ -73,7 +86,16 @@ export default function EventListView({
                   aria-label={`View details for ${event.title}`}
                 >
                   <div className="flex items-start justify-between gap-3">
-                    <div className="space-y-1">
+                    {event.coverThumbnailUrl && (
+                      // eslint-disable-next-line @next/next/no-img-element
+                      <img
+                        src={event.coverThumbnailUrl}
+                        alt=""
+                        loading="lazy"
+                        className="h-16 w-28 shrink-0 rounded-lg object-cover"
+                      />
+                    )}
+                    <div className="min-w-0 flex-1 space-y-1">
                       <p className="text-base font-semibold text-zinc-900">{event.title}</p>
                       <p className="flex items-center gap-2 text-sm text-zinc-600">
                         <span className="inline-flex h-2 w-2 rounded-full bg-zinc-400" aria-hidden />
@@ -99,6 +121,19 @@ export default function EventListView({
           })}
         </ul>
       )}
+
+      {events.length > 0 && canLoadMore && (
+        <div ref={sentinelRef} className="mt-3 flex justify-center">
+          <button
+            type="button"
+            onClick={onLoadMore}
+            disabled={isLoadingMore}
+            className="rounded-full border border-zinc-200 bg-white px-4 py-2 text-sm font-medium text-zinc-700 transition hover:border-pink-200 hover:text-pink-600 disabled:cursor-wait disabled:opacity-60"
+          >
+            {isLoadingMore ? "Loading more events…" : "Load more events"}
+          </button>
+        </div>
+      )}
     </div>
   );
 }
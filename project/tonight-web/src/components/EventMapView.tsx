@@ -6,17 +6,28 @@ import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import type mapboxgl from "mapbox-gl";
 
 import { getMapboxConfig } from "@/lib/mapbox";
+import { getCategoryLabel } from "@/lib/categories";
 import { classNames } from "@/lib/classNames";
 
 const defaultMapboxLoader = async () => (await import("mapbox-gl")).default;
 const DEFAULT_CENTER: [number, number] = [-98.5795, 39.8283];
+const VIEWPORT_CHANGE_DEBOUNCE_MS = 300;
+const NO_CLUSTERS: EventMapCluster[] = [];
 
 export type MapPoint = {
   latitude: number;
   longitude: number;
 };
 
-type JoinRequestStatusValue = "PENDING" | "ACCEPTED" | "REJECTED";
+export type MapViewport = {
+  minLat: number;
+  minLng: number;
+  maxLat: number;
+  maxLng: number;
+  zoom: number;
+};
+
+type JoinRequestStatusValue = "PENDING" | "ACCEPTED" | "REJECTED" | "WAITLISTED" | "WITHDRAWN" | "EXPIRED";
 
 export type EventMapItem = {
   id: string;
@@ -25,15 +36,36 @@ export type EventMapItem = {
   location: MapPoint;
   datetimeISO?: string | null;
   distanceMeters?: number | null;
+  coverThumbnailUrl?: string | null;
   viewerJoinRequestStatus?: JoinRequestStatusValue | null;
   hostUpdatesUnseenCount?: number | null;
 };
 
+export type EventMapCluster = {
+  id: string;
+  count: number;
+  location: MapPoint;
+  bounds: {
+    minLat: number;
+    minLng: number;
+    maxLat: number;
+    maxLng: number;
+  };
+  categories?: Partial<Record<string, number>>;
+};
+
 export type EventMapViewProps = {
   events: EventMapItem[];
+  clusters?: EventMapCluster[];
   userLocation?: MapPoint | null;
   selectedEventId?: string | null;
   onEventSelect?: (eventId: string) => void;
+  /**
+   * Called (debounced) whenever the user pans or zooms. When provided, the map
+   * only fits itself to the events once, so refetched results don't yank the
+   * viewport away from where the user moved it.
+   */
+  onViewportChange?: (viewport: MapViewport) => void;
   className?: string;
   height?: number;
   mapStyle?: string;
@@ -51,8 +83,39 @@ type EventMarkerEntry = {
   hostUpdatesBadge: HTMLSpanElement | null;
 };
 
+type ClusterMarkerEntry = {
+  marker: mapboxgl.Marker;
+  element: HTMLButtonElement;
+  cleanup: () => void;
+  cluster: EventMapCluster;
+};
+
 type MapStatus = "idle" | "loading" | "ready" | "error";
 
+const getClusterMarkerClass = (count: number) =>
+  classNames(
+    "pointer-events-auto grid place-items-center rounded-full border-2 border-pink-100/80 bg-gradient-to-br from-rose-400/90 to-pink-500/90 font-semibold text-white shadow-lg shadow-pink-500/40 ring-4 ring-pink-400/25 transition-transform duration-200 hover:scale-110 focus-visible:outline-none focus-visible:ring-pink-300",
+    count >= 100 ? "h-14 w-14 text-sm" : count >= 20 ? "h-11 w-11 text-sm" : "h-9 w-9 text-xs"
+  );
+
+const describeCluster = (cluster: EventMapCluster) => {
+  const mix = Object.entries(cluster.categories ?? {})
+    .filter((entry): entry is [string, number] => typeof entry[1] === "number" && entry[1] > 0)
+    .sort((a, b) => b[1] - a[1])
+    .map(([category, count]) => `${count} ${getCategoryLabel(category) ?? category}`);
+  const base = `${cluster.count} events here`;
+  return mix.length ? `${base}: ${mix.join(", ")}` : base;
+};
+
+const applyClusterAppearance = (entry: ClusterMarkerEntry) => {
+  const { cluster, element } = entry;
+  element.className = getClusterMarkerClass(cluster.count);
+  element.textContent = cluster.count > 999 ? "999+" : `${cluster.count}`;
+  const description = describeCluster(cluster);
+  element.title = description;
+  element.setAttribute("aria-label", `${description}. Zoom in`);
+};
+
 const getEventMarkerClass = ({
   isSelected,
   isHovered,
@@ -124,6 +187,14 @@ const buildPopupContent = (event: EventMapItem) => {
   const wrapper = document.createElement("div");
   wrapper.className = "rounded-xl border border-rose-400/40 bg-gradient-to-br from-zinc-700 via-zinc-800 to-zinc-900 p-3 shadow-xl shadow-black/40 backdrop-blur-sm min-w-[200px]";
 
+  if (event.coverThumbnailUrl) {
+    const cover = document.createElement("img");
+    cover.src = event.coverThumbnailUrl;
+    cover.alt = "";
+    cover.className = "mb-2 aspect-video w-full rounded-lg object-cover";
+    wrapper.appendChild(cover);
+  }
+
   const title = document.createElement("p");
   title.className = "text-sm font-semibold text-white mb-2";
   title.textContent = event.title;
@@ -164,6 +235,25 @@ const buildPopupContent = (event: EventMapItem) => {
   return wrapper;
 };
 
+const readViewport = (map: mapboxgl.Map): MapViewport => {
+  const bounds = map.getBounds();
+  const clampLat = (value: number) => Math.max(-90, Math.min(90, value));
+  // Mapbox reports unwrapped longitudes past ±180 once the world repeats; wrap
+  // them back so a viewport across the antimeridian comes out as minLng > maxLng.
+  const wrapLng = (value: number) => ((((value + 180) % 360) + 360) % 360) - 180;
+  const west = bounds?.getWest() ?? -180;
+  const east = bounds?.getEast() ?? 180;
+  const spansWorld = east - west >= 360;
+
+  return {
+    minLat: clampLat(bounds?.getSouth() ?? -90),
+    maxLat: clampLat(bounds?.getNorth() ?? 90),
+    minLng: spansWorld ? -180 : wrapLng(west),
+    maxLng: spansWorld ? 180 : wrapLng(east),
+    zoom: map.getZoom(),
+  };
+};
+
 const formatDistance = (value?: number | null) => {
   if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
     return null;
@@ -193,9 +283,11 @@ const formatDateTime = (value?: string | null) => {
 
 export default function EventMapView({
   events,
+  clusters = NO_CLUSTERS,
   userLocation = null,
   selectedEventId = null,
   onEventSelect,
+  onViewportChange,
   className,
   height = 360,
   mapStyle = "mapbox://styles/mapbox/streets-v12",
@@ -206,8 +298,11 @@ export default function EventMapView({
   const mapRef = useRef<mapboxgl.Map | null>(null);
   const mapboxRef = useRef<typeof mapboxgl | null>(null);
   const eventMarkersRef = useRef<Map<string, EventMarkerEntry>>(new Map());
+  const clusterMarkersRef = useRef<Map<string, ClusterMarkerEntry>>(new Map());
   const userMarkerRef = useRef<mapboxgl.Marker | null>(null);
   const onEventSelectRef = useRef(onEventSelect);
+  const onViewportChangeRef = useRef(onViewportChange);
+  const hasFittedRef = useRef(false);
   const mapboxLoaderRef = useRef(mapboxLoader);
   const [mapStatus, setMapStatus] = useState<MapStatus>("idle");
   const [mapError, setMapError] = useState<string | null>(null);
@@ -216,6 +311,7 @@ export default function EventMapView({
   const selectedEventIdRef = useRef<string | null>(selectedEventId ?? null);
 
   onEventSelectRef.current = onEventSelect;
+  onViewportChangeRef.current = onViewportChange;
   mapboxLoaderRef.current = mapboxLoader;
   selectedEventIdRef.current = selectedEventId ?? null;
 
@@ -279,6 +375,8 @@ export default function EventMapView({
   useEffect(() => {
     initializeMap();
 
+    const clusterMarkers = clusterMarkersRef.current;
+
     return () => {
       eventMarkersRef.current.forEach((entry) => {
         entry.marker.remove();
@@ -286,6 +384,11 @@ export default function EventMapView({
         entry.cleanup();
       });
       eventMarkersRef.current.clear();
+      clusterMarkers.forEach((entry) => {
+        entry.marker.remove();
+        entry.cleanup();
+      });
+      clusterMarkers.clear();
       userMarkerRef.current?.remove();
       userMarkerRef.current = null;
       mapRef.current?.remove();
@@ -317,6 +420,29 @@ export default function EventMapView({
     return () => observer.disconnect();
   }, [mapReady]);
 
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!mapReady || !map) {
+      return;
+    }
+
+    let timeout: ReturnType<typeof setTimeout> | null = null;
+    const handleMoveEnd = () => {
+      if (!onViewportChangeRef.current) return;
+      if (timeout) clearTimeout(timeout);
+      timeout = setTimeout(() => {
+        onViewportChangeRef.current?.(readViewport(map));
+      }, VIEWPORT_CHANGE_DEBOUNCE_MS);
+    };
+
+    map.on("moveend", handleMoveEnd);
+    handleMoveEnd();
+    return () => {
+      map.off("moveend", handleMoveEnd);
+      if (timeout) clearTimeout(timeout);
+    };
+  }, [mapReady]);
+
   const syncEventMarkers = useCallback(() => {
     if (!mapReady) return;
     const map = mapRef.current;
@@ -431,6 +557,69 @@ export default function EventMapView({
     syncEventMarkers();
   }, [syncEventMarkers]);
 
+  useEffect(() => {
+    if (!mapReady) return;
+    const map = mapRef.current;
+    const mapbox = mapboxRef.current;
+    if (!map || !mapbox) return;
+
+    const markerMap = clusterMarkersRef.current;
+    const nextIds = new Set(clusters.map((cluster) => cluster.id));
+
+    markerMap.forEach((entry, id) => {
+      if (!nextIds.has(id)) {
+        entry.marker.remove();
+        entry.cleanup();
+        markerMap.delete(id);
+      }
+    });
+
+    clusters.forEach((cluster) => {
+      const lngLat: [number, number] = [cluster.location.longitude, cluster.location.latitude];
+      const existing = markerMap.get(cluster.id);
+
+      if (existing) {
+        existing.cluster = cluster;
+        existing.marker.setLngLat(lngLat);
+        applyClusterAppearance(existing);
+        return;
+      }
+
+      const button = document.createElement("button");
+      button.type = "button";
+      button.setAttribute("data-cluster-id", cluster.id);
+
+      const marker = new mapbox.Marker({ element: button, anchor: "center" }).setLngLat(lngLat).addTo(map);
+      const entry: ClusterMarkerEntry = { marker, element: button, cleanup: () => {}, cluster };
+
+      const handleClick = (nativeEvent: MouseEvent) => {
+        nativeEvent.stopPropagation();
+        const { bounds } = entry.cluster;
+        const isPoint = bounds.minLat === bounds.maxLat && bounds.minLng === bounds.maxLng;
+        if (isPoint) {
+          // Everything sits on the same spot; step in rather than fitting a zero-size box.
+          map.easeTo({ center: lngLat, zoom: Math.min(map.getZoom() + 2, map.getMaxZoom()), duration: 500 });
+          return;
+        }
+        map.fitBounds(
+          [
+            [bounds.minLng, bounds.minLat],
+            [bounds.maxLng, bounds.maxLat],
+          ],
+          { padding: 64, duration: 600 }
+        );
+      };
+
+      button.addEventListener("click", handleClick);
+      entry.cleanup = () => {
+        button.removeEventListener("click", handleClick);
+      };
+
+      applyClusterAppearance(entry);
+      markerMap.set(cluster.id, entry);
+    });
+  }, [clusters, mapReady]);
+
   useEffect(() => {
     if (!mapReady) return;
     const map = mapRef.current;
@@ -481,6 +670,7 @@ export default function EventMapView({
     const map = mapRef.current;
     const mapbox = mapboxRef.current;
     if (!map || !mapbox) return;
+    if (onViewportChangeRef.current && hasFittedRef.current) return;
 
     const bounds = new mapbox.LngLatBounds();
     let hasBounds = false;
@@ -500,6 +690,8 @@ export default function EventMapView({
       return;
     }
 
+    hasFittedRef.current = true;
+
     if (events.length === 1 && !userLocation) {
       map.easeTo({
         center: bounds.getCenter(),
@@ -520,7 +712,7 @@ export default function EventMapView({
     fitBoundsToContent();
   }, [fitBoundsToContent]);
 
-  const showEmptyOverlay = mapReady && !events.length;
+  const showEmptyOverlay = mapReady && !events.length && !clusters.length;
 
   return (
     <div className={className}>
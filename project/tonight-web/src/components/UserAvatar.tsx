@@ -1,5 +1,6 @@
 import { useState } from 'react';
 
+import { buildAvatarSrcSet } from '@/lib/avatar-sizes';
 import { classNames } from '@/lib/classNames';
 
 const sizeMap = {
@@ -9,6 +10,14 @@ const sizeMap = {
   xl: 'h-28 w-28 text-xl',
 };
 
+// Rendered widths in CSS pixels, so the browser can pick the right stored size.
+const imageSizes: Record<keyof typeof sizeMap, string> = {
+  sm: '40px',
+  md: '56px',
+  lg: '80px',
+  xl: '112px',
+};
+
 export type UserAvatarSize = keyof typeof sizeMap;
 
 interface UserAvatarProps {
@@ -61,6 +70,8 @@ export default function UserAvatar({
         // eslint-disable-next-line @next/next/no-img-element
         <img
           src={photoUrl}
+          srcSet={buildAvatarSrcSet(photoUrl)}
+          sizes={imageSizes[size]}
           alt={displayName ?? email ?? 'User avatar'}
           className={classNames('h-full w-full rounded-full object-cover', imageClassName)}
           onError={() => setImageError(true)}
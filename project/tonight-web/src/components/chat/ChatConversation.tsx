@@ -159,6 +159,7 @@ export default function ChatConversation({
   const [sendStatus, setSendStatus] = useState<'idle' | 'sending'>('idle');
   const [socketNotice, setSocketNotice] = useState<string | null>(null);
   const [hasBlockedCounterpart, setHasBlockedCounterpart] = useState(false);
+  const [closedNotice, setClosedNotice] = useState<string | null>(null);
   const [queuedMessageCount, setQueuedMessageCount] = useState(0);
   const [isOtherUserTyping, setIsOtherUserTyping] = useState(false);
   const [isCurrentlyTyping, setIsCurrentlyTyping] = useState(false);
@@ -537,6 +538,20 @@ export default function ChatConversation({
       }
     },
     onReadReceipt: handleReadReceipt,
+    onJoinRequestStatusChanged: (payload) => {
+      if (payload.joinRequestId !== joinRequestId || payload.status === 'ACCEPTED') {
+        return;
+      }
+      // The server stops accepting messages as soon as the guest is no longer accepted.
+      const guestName = context.participant.displayName ?? context.participant.email.split('@')[0];
+      setClosedNotice(
+        payload.status === 'WITHDRAWN'
+          ? isHostViewer
+            ? `${guestName} withdrew from this event, so this chat is closed.`
+            : 'You withdrew from this event, so this chat is closed.'
+          : 'This chat is closed.'
+      );
+    },
   });
 
   useEffect(() => {
@@ -622,6 +637,7 @@ export default function ChatConversation({
         clientReferenceId,
         joinRequestId,
         senderId: currentUserId,
+        kind: 'USER',
         content,
         createdAt: new Date().toISOString(),
         deliveryStatus: 'queued',
@@ -1424,15 +1440,17 @@ export default function ChatConversation({
                 placeholder={
                   hasBlockedCounterpart
                     ? "Blocked"
-                    : "Type a message"
+                    : closedNotice
+                      ? "Chat closed"
+                      : "Type a message"
                 }
                 rows={1}
-                disabled={hasBlockedCounterpart || sendStatus === 'sending'}
+                disabled={hasBlockedCounterpart || Boolean(closedNotice) || sendStatus === 'sending'}
                 className="max-h-48 min-h-[52px] w-full flex-1 resize-none rounded-2xl border border-border/60 bg-background/70 px-4 py-3 text-sm text-foreground placeholder:text-muted-foreground focus:border-primary focus:outline-none"
               />
               <button
                 type="submit"
-                disabled={sendStatus === 'sending' || composerValue.trim().length === 0 || hasBlockedCounterpart}
+                disabled={sendStatus === 'sending' || composerValue.trim().length === 0 || hasBlockedCounterpart || Boolean(closedNotice)}
                 className="inline-flex h-12 w-12 items-center justify-center rounded-2xl bg-primary text-primary-foreground transition hover:bg-primary/90 disabled:cursor-not-allowed disabled:bg-border"
                 aria-label="Send message"
               >
@@ -1458,6 +1476,7 @@ export default function ChatConversation({
               {hasBlockedCounterpart ? (
                 <p>You blocked this user. Manage safety settings from your profile if you change your mind.</p>
               ) : null}
+              {closedNotice ? <p>{closedNotice}</p> : null}
               {queuedHelperText ? <p className="text-amber-400">{queuedHelperText}</p> : null}
               {sendError ? <p className="text-destructive">{sendError}</p> : null}
             </div>
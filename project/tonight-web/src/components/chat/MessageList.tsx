@@ -4,6 +4,7 @@ import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { Flag, ShieldAlert } from 'lucide-react';
 
 import type { SerializedMessage } from '@/lib/chat';
+import { SYSTEM_MESSAGE_AUTHOR_NAME } from '@/lib/socket-shared';
 
 export type MessageListStatus = 'loading' | 'ready' | 'error';
 
@@ -53,7 +54,7 @@ const shouldGroupMessages = (current: ChatMessage, neighbor: ChatMessage | undef
   if (!neighbor) {
     return false;
   }
-  if (neighbor.senderId !== current.senderId) {
+  if (neighbor.senderId !== current.senderId || neighbor.kind !== current.kind) {
     return false;
   }
   const currentTime = Date.parse(current.createdAt);
@@ -216,6 +217,18 @@ export default function MessageList({
     return (
       <div className="flex flex-col" aria-live="polite">
         {decoratedMessages.map(({ data, isSelf, groupedWithPrevious, groupedWithNext }) => {
+          if (data.kind === 'SYSTEM') {
+            return (
+              <div key={data.id} className="flex flex-col items-center gap-1 pt-2.5">
+                <p className="px-1 text-[10px] font-medium text-white/50">{SYSTEM_MESSAGE_AUTHOR_NAME}</p>
+                <div className="max-w-[90%] break-words rounded-2xl border border-dashed border-border/60 bg-card/40 px-3 py-1.5 text-center text-xs leading-snug text-muted-foreground">
+                  {data.content}
+                </div>
+                <p className="px-1 text-[10px] text-muted-foreground">{formatMessageTimestamp(data.createdAt)}</p>
+              </div>
+            );
+          }
+
           const bubbleClass = classNames(
             'max-w-[82%] break-words rounded-3xl px-3 py-1.5 text-sm leading-snug shadow-[0_15px_40px_rgba(5,7,16,0.35)] transition-all lg:max-w-[60%]',
             data.deliveryStatus === 'failed'
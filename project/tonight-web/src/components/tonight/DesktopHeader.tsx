@@ -7,6 +7,7 @@ import { Edit3, List as ListIcon, Map as MapIcon, MessageCircle } from "lucide-r
 import UserAvatar from "@/components/UserAvatar";
 import { classNames } from "@/lib/classNames";
 import { formatRelativeTime } from "@/lib/chatAttentionHelpers";
+import { DiscoverySearchField } from "./DiscoverySearchField";
 import type { DraftQuickPickEntry, MobileActionBarProps } from "./MobileActionBar";
 
 export type DesktopHeaderProps = {
@@ -17,6 +18,8 @@ export type DesktopHeaderProps = {
   onNavigateMessages?: () => void;
   viewMode?: "list" | "map";
   onViewModeChange?: (mode: "list" | "map") => void;
+  searchQuery?: string;
+  onSearchChange?: (value: string) => void;
   userDisplayName?: string | null;
   userEmail?: string | null;
   userPhotoUrl?: string | null;
@@ -44,6 +47,8 @@ export function DesktopHeader({
   onNavigateMessages,
   viewMode,
   onViewModeChange,
+  searchQuery,
+  onSearchChange,
   userDisplayName,
   userEmail,
   userPhotoUrl,
@@ -212,7 +217,10 @@ export function DesktopHeader({
           {subtitle && <p className="text-sm text-muted-foreground">{subtitle}</p>}
         </div>
 
-        <div className="flex justify-center">
+        <div className="flex items-center justify-center gap-3">
+          {typeof onSearchChange === "function" && (
+            <DiscoverySearchField value={searchQuery ?? ""} onChange={onSearchChange} className="w-full max-w-[240px]" />
+          )}
           {canToggleView && (
             <div className="flex items-center rounded-full border border-border/70 bg-card/60 p-1 text-sm font-semibold">
               <button
@@ -0,0 +1,51 @@
+"use client";
+
+import { Search, X } from "lucide-react";
+
+import { classNames } from "@/lib/classNames";
+
+export type DiscoverySearchFieldProps = {
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  className?: string;
+};
+
+export function DiscoverySearchField({
+  value,
+  onChange,
+  placeholder = "Search events",
+  className,
+}: DiscoverySearchFieldProps) {
+  return (
+    <form
+      role="search"
+      onSubmit={(event) => event.preventDefault()}
+      className={classNames(
+        "relative flex h-9 items-center rounded-full border border-border/70 bg-card/60 text-sm text-foreground focus-within:border-primary/60",
+        className
+      )}
+    >
+      <Search className="pointer-events-none absolute left-3 h-4 w-4 text-muted-foreground" aria-hidden />
+      <input
+        type="search"
+        value={value}
+        onChange={(event) => onChange(event.target.value)}
+        placeholder={placeholder}
+        aria-label="Search events"
+        enterKeyHint="search"
+        className="h-full w-full appearance-none rounded-full bg-transparent pl-9 pr-9 outline-none placeholder:text-muted-foreground [&::-webkit-search-cancel-button]:hidden"
+      />
+      {value && (
+        <button
+          type="button"
+          onClick={() => onChange("")}
+          className="absolute right-2 flex h-6 w-6 items-center justify-center rounded-full text-muted-foreground transition hover:text-foreground"
+          aria-label="Clear search"
+        >
+          <X className="h-3.5 w-3.5" />
+        </button>
+      )}
+    </form>
+  );
+}
@@ -0,0 +1,122 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { ImagePlus, Trash2 } from "lucide-react";
+
+import { showErrorToast, showSuccessToast } from "@/lib/toast";
+
+export type EventCoverImageProps = {
+  eventId: string;
+  imageUrl?: string | null;
+  /** Hosts of active events can replace or remove the cover. */
+  editable?: boolean;
+};
+
+const COVER_IMAGE_TYPES = ["image/jpeg", "image/png", "image/webp"];
+
+const readErrorMessage = async (response: Response, fallback: string) => {
+  try {
+    const payload = (await response.json()) as { error?: string };
+    return payload.error ?? fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+export function EventCoverImage({ eventId, imageUrl: initialImageUrl = null, editable = false }: EventCoverImageProps) {
+  const inputRef = useRef<HTMLInputElement | null>(null);
+  const [imageUrl, setImageUrl] = useState<string | null>(initialImageUrl);
+  const [busy, setBusy] = useState(false);
+
+  if (!imageUrl && !editable) {
+    return null;
+  }
+
+  const uploadCover = async (file: File) => {
+    setBusy(true);
+    try {
+      const formData = new FormData();
+      formData.append("file", file);
+      const response = await fetch(`/api/events/${eventId}/cover`, { method: "PUT", body: formData });
+      if (!response.ok) {
+        showErrorToast("Couldn't update cover", await readErrorMessage(response, "Try a different image."));
+        return;
+      }
+      const { coverImage } = (await response.json()) as { coverImage: { url: string } };
+      setImageUrl(coverImage.url);
+      showSuccessToast("Cover updated", "Guests will see the new image right away.");
+    } catch (error) {
+      console.error("Failed to upload cover image", error);
+      showErrorToast("Couldn't update cover", "Try again in a moment.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const removeCover = async () => {
+    setBusy(true);
+    try {
+      const response = await fetch(`/api/events/${eventId}/cover`, { method: "DELETE" });
+      if (!response.ok) {
+        showErrorToast("Couldn't remove cover", await readErrorMessage(response, "Try again in a moment."));
+        return;
+      }
+      setImageUrl(null);
+    } catch (error) {
+      console.error("Failed to remove cover image", error);
+      showErrorToast("Couldn't remove cover", "Try again in a moment.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="relative mb-6 overflow-hidden rounded-2xl border border-white/10 bg-black/30">
+      {imageUrl ? (
+        // eslint-disable-next-line @next/next/no-img-element
+        <img src={imageUrl} alt="Event cover" className="aspect-video w-full object-cover" />
+      ) : (
+        <div className="flex aspect-[4/1] w-full items-center justify-center text-xs text-white/50">No cover image yet</div>
+      )}
+      {editable ? (
+        <div className="absolute bottom-3 right-3 flex items-center gap-2">
+          <input
+            ref={inputRef}
+            type="file"
+            accept={COVER_IMAGE_TYPES.join(",")}
+            className="hidden"
+            onChange={(event) => {
+              const file = event.target.files?.[0];
+              event.target.value = "";
+              if (file) {
+                void uploadCover(file);
+              }
+            }}
+          />
+          <button
+            type="button"
+            onClick={() => inputRef.current?.click()}
+            disabled={busy}
+            className="inline-flex items-center gap-1.5 rounded-full bg-black/70 px-3 py-1.5 text-xs font-semibold text-white transition hover:bg-black disabled:opacity-60"
+          >
+            <ImagePlus className="h-3.5 w-3.5" aria-hidden />
+            {imageUrl ? "Change cover" : "Add cover"}
+          </button>
+          {imageUrl ? (
+            <button
+              type="button"
+              onClick={() => {
+                void removeCover();
+              }}
+              disabled={busy}
+              aria-label="Remove cover image"
+              className="rounded-full bg-black/70 p-2 text-white transition hover:bg-black hover:text-rose-300 disabled:opacity-60"
+            >
+              <Trash2 className="h-3.5 w-3.5" />
+            </button>
+          ) : null}
+        </div>
+      ) : null}
+    </div>
+  );
+}
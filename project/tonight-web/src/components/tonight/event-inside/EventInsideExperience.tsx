@@ -2,12 +2,14 @@
 
 import Link from "next/link";
 import { Fragment, useCallback, useEffect, useMemo, useRef, useState, type ComponentType, type ReactNode, type SVGProps } from "react";
-import { CheckCircle2, ChevronDown, Clock3, Copy, MapPin, MessageCircle, Send, Share2, Shield, Sparkles, Users } from "lucide-react";
+import { Ban, CalendarPlus, CheckCircle2, ChevronDown, Clock3, Copy, LogOut, MapPin, MessageCircle, RotateCcw, Send, Share2, Shield, Sparkles, Users } from "lucide-react";
 import dynamic from "next/dynamic";
 
 const EventMapView = dynamic(() => import("@/components/EventMapView"), { ssr: false });
 
 import UserAvatar from "@/components/UserAvatar";
+import { HostInviteLinksPanel } from "@/components/tonight/event-inside/HostInviteLinksPanel";
+import { EventCoverImage } from "@/components/tonight/event-inside/EventCoverImage";
 import MessageList, { type ChatMessage, type MessageListStatus } from "@/components/chat/MessageList";
 import { useSocket } from "@/hooks/useSocket";
 import { useSnoozeCountdown } from "@/hooks/useSnoozeCountdown";
@@ -15,8 +17,10 @@ import { classNames } from "@/lib/classNames";
 import { CHAT_ATTENTION_SNOOZE_OPTIONS_MINUTES, DEFAULT_CHAT_ATTENTION_SNOOZE_MINUTES } from "@/lib/chatAttentionSnoozeOptions";
 import { buildChatAttentionLabels } from "@/lib/buildChatAttentionLabels";
 import { buildChatAttentionLinkLabel, formatRelativeTime } from "@/lib/chatAttentionHelpers";
+import { JOIN_ANSWER_MAX_LENGTH, normalizeJoinAnswer, type JoinAnswers, type SerializedJoinQuestion } from "@/lib/join-questions";
 import { JOIN_REQUEST_MESSAGE_EVENT } from "@/lib/socket-shared";
-import type { SocketMessagePayload, JoinRequestStatusChangedPayload } from "@/lib/socket-shared";
+import { SYSTEM_MESSAGE_AUTHOR_NAME } from "@/lib/socket-shared";
+import type { SocketMessagePayload, JoinRequestStatusChangedPayload, EventUpdatedPayload } from "@/lib/socket-shared";
 import { showErrorToast, showSuccessToast } from "@/lib/toast";
 
 type EventChatPreview = {
@@ -98,6 +102,15 @@ export type EventInsideExperienceProps = {
     vibeTags?: string[];
     entryNotes?: string[];
     capacityLabel?: string;
+    status?: "ACTIVE" | "EXPIRED" | "CANCELLED";
+    cancellationReason?: string | null;
+    endDateISO?: string | null;
+    phase?: "UPCOMING" | "IN_PROGRESS" | "ENDED";
+    coverImageUrl?: string | null;
+    /** Set when this is one date of a repeating event. */
+    seriesId?: string | null;
+    /** AUTOMATIC lets guests straight in while there is room. */
+    approvalMode?: "MANUAL" | "AUTOMATIC";
   };
   host: {
     id: string;
@@ -121,9 +134,13 @@ export type EventInsideExperienceProps = {
     submittedAtISO?: string | null;
     mutualFriends?: number | null;
   }>;
+  /** The host's questions, asked of public viewers when they request to join. */
+  joinQuestions?: SerializedJoinQuestion[];
+  /** Set when a public viewer can no longer ask to join, with the reason to show them. */
+  joinClosedNotice?: { title: string; description: string } | null;
   viewerRole: "host" | "guest" | "pending" | "public";
   /** Counts only — shown to pending/public viewers instead of full attendee list */
-  attendeeSummary?: { confirmed: number; pending: number };
+  attendeeSummary?: { confirmed: number; pending: number; waitlisted: number };
   chatPreview?: EventChatPreview;
   hostFriendInvites?: Array<{
     joinRequestId: string;
@@ -192,6 +209,8 @@ const quickReplyTemplates: Array<{ label: string; message: string }> = [
 ];
 
 const HOST_ANNOUNCEMENT_MAX_LENGTH = 1000;
+// Mirrors JOIN_REQUEST_INTRO_MAX_LENGTH on the server.
+const JOIN_INTRO_MAX_LENGTH = 280;
 
 const HOST_ACTIVITY_SCROLL_THRESHOLD = 16;
 
@@ -298,6 +317,8 @@ export function EventInsideExperience({
   attendees,
   attendeeSummary,
   joinRequests,
+  joinQuestions = [],
+  joinClosedNotice = null,
   viewerRole,
   chatPreview: initialChatPreview,
   hostFriendInvites,
@@ -371,10 +392,20 @@ export function EventInsideExperience({
   const [guestComposerValue, setGuestComposerValue] = useState("");
   const [guestComposerStatus, setGuestComposerStatus] = useState<"idle" | "sending">("idle");
   const [joinRequestStatus, setJoinRequestStatus] = useState<"idle" | "submitting" | "submitted">("idle");
+  const [joinIntro, setJoinIntro] = useState("");
+  const [joinAnswers, setJoinAnswers] = useState<JoinAnswers>({});
   const isHostViewer = viewerRole === "host";
   const isGuestViewer = viewerRole === "guest";
   const isPendingViewer = viewerRole === "pending";
   const isPublicViewer = viewerRole === "public";
+  const isCancelled = event.status === "CANCELLED";
+  const canHostAgain = isHostViewer && (isCancelled || event.status === "EXPIRED" || event.phase === "ENDED");
+  const canRequestToJoin = isPublicViewer && !isCancelled && !joinClosedNotice;
+  const isInstantJoin = event.approvalMode === "AUTOMATIC";
+  const [cancelEventReason, setCancelEventReason] = useState("");
+  const [cancelEventScope, setCancelEventScope] = useState<"occurrence" | "series">("occurrence");
+  const [withdrawState, setWithdrawState] = useState<"idle" | "confirming" | "withdrawing">("idle");
+  const [cancelEventState, setCancelEventState] = useState<"idle" | "confirming" | "cancelling">("idle");
   const hostFriendInviteEntries = useMemo(
     () => (isHostViewer ? hostFriendInvites ?? [] : []),
     [isHostViewer, hostFriendInvites]
@@ -438,7 +469,9 @@ export function EventInsideExperience({
   const realtimeHostActivityEnabled = Boolean(guestRealtimeChatEnabled && isGuestViewer);
   const realtimeJoinApprovalEnabled = Boolean(socketToken && isPendingViewer && pendingJoinRequestId);
   const activeJoinRequestId = guestJoinRequestId || pendingJoinRequestId || null;
-  const socketEnabled = realtimeChatUpdatesEnabled || realtimeJoinApprovalEnabled;
+  // Withdrawals and instant joins reach the host before any chat room exists
+  const realtimeHostRequestsEnabled = Boolean(socketToken && isHostViewer);
+  const socketEnabled = realtimeChatUpdatesEnabled || realtimeJoinApprovalEnabled || realtimeHostRequestsEnabled;
   const latestHostActivityTimestamp = hostActivityEntries.length ? hostActivityEntries[0]?.postedAtISO ?? null : null;
   const eventInviteShareText = useMemo(() => buildEventInviteShareText(event), [event]);
   const requestChatAttention = useCallback(
@@ -1192,6 +1225,8 @@ export function EventInsideExperience({
 
       const createdAtISO = payload.createdAt ?? new Date().toISOString();
       const isHostSender = payload.senderId === host.id;
+      const isSystemMessage = payload.kind === "SYSTEM";
+      const hostAuthorName = isSystemMessage ? SYSTEM_MESSAGE_AUTHOR_NAME : host.displayName ?? host.email ?? "Host";
 
       if (guestRealtimeChatEnabled && guestJoinRequestId && payload.joinRequestId === guestJoinRequestId) {
         setChatPreviewState((prev) => {
@@ -1203,7 +1238,7 @@ export function EventInsideExperience({
           const nextPreview: EventChatPreview = {
             ...reference,
             lastMessageSnippet: payload.content,
-            lastMessageAuthorName: isHostSender ? host.displayName ?? host.email ?? "Host" : "You",
+            lastMessageAuthorName: isHostSender ? hostAuthorName : "You",
             lastMessageAtISO: createdAtISO,
           };
 
@@ -1220,8 +1255,8 @@ export function EventInsideExperience({
               id: payload.id,
               content: payload.content,
               postedAtISO: createdAtISO,
-              authorName: isHostSender ? host.displayName ?? host.email ?? "Host" : "You",
-              authorAvatarUrl: isHostSender ? host.avatarUrl ?? null : null,
+              authorName: isHostSender ? hostAuthorName : "You",
+              authorAvatarUrl: isHostSender && !isSystemMessage ? host.avatarUrl ?? null : null,
               isViewer: !isHostSender,
             };
             const normalized = [...existingPreview, nextEntry];
@@ -1241,9 +1276,9 @@ export function EventInsideExperience({
           requestChatAttention({
             id: attentionId,
             snippet: payload.content,
-            authorName: host.displayName ?? host.email ?? "Host",
+            authorName: hostAuthorName,
             timestampISO: payload.createdAt ?? createdAtISO,
-            helperText: "Host just shared a new update",
+            helperText: isSystemMessage ? "The event just changed" : "Host just shared a new update",
             href: guestJoinRequestId ? `/chat/${guestJoinRequestId}` : chatPreview?.ctaHref ?? undefined,
           });
         }
@@ -1260,7 +1295,7 @@ export function EventInsideExperience({
             id: payload.id,
             message: payload.content,
             postedAtISO: payload.createdAt,
-            authorName: host.displayName ?? host.email ?? "Host",
+            authorName: hostAuthorName,
           };
           const listEl = hostActivityListRef.current;
           const scrolledAway = listEl ? listEl.scrollTop > HOST_ACTIVITY_SCROLL_THRESHOLD : false;
@@ -1367,7 +1402,29 @@ export function EventInsideExperience({
 
   const handleJoinRequestStatusChanged = useCallback(
     (payload: JoinRequestStatusChangedPayload) => {
-      // Only handle if this is for the current join request and status is ACCEPTED
+      if (isHostViewer && payload.status === "WITHDRAWN") {
+        const guest = roster.find((attendee) => attendee.id === payload.userId);
+        showSuccessToast("A guest withdrew", `${guest?.displayName ?? "A guest"} can no longer make it.`);
+        setRoster((prev) => prev.filter((attendee) => attendee.id !== payload.userId));
+        setPendingRequests((prev) => prev.filter((request) => request.id !== payload.joinRequestId));
+        return;
+      }
+
+      if (isHostViewer && payload.status === "EXPIRED") {
+        setPendingRequests((prev) => prev.filter((request) => request.id !== payload.joinRequestId));
+        return;
+      }
+
+      if (isHostViewer && payload.status === "ACCEPTED") {
+        // Someone joined through instant join or an invite link; reload to show them on the roster
+        showSuccessToast("A guest joined", "They're in and can chat with you now.");
+        setTimeout(() => {
+          window.location.reload();
+        }, 1500);
+        return;
+      }
+
+      // Only handle if this is for the current join request
       if (!activeJoinRequestId || payload.joinRequestId !== activeJoinRequestId) {
         return;
       }
@@ -1379,9 +1436,41 @@ export function EventInsideExperience({
         setTimeout(() => {
           window.location.reload();
         }, 1500);
+      } else if (payload.status === "PENDING") {
+        // Promoted off the waitlist into the host's review queue
+        showSuccessToast("Off the waitlist", "A spot opened up and the host will review your request.");
+        setTimeout(() => {
+          window.location.reload();
+        }, 1500);
+      } else if (payload.status === "EXPIRED") {
+        // The reloaded page explains why
+        showErrorToast("Request expired", "Your request closed before the host answered it.");
+        setTimeout(() => {
+          window.location.reload();
+        }, 1500);
+      }
+    },
+    [activeJoinRequestId, isHostViewer, roster]
+  );
+
+  const handleEventUpdated = useCallback(
+    (payload: EventUpdatedPayload) => {
+      if (isHostViewer || payload.eventId !== event.id) {
+        return;
+      }
+
+      if (payload.status === "CANCELLED") {
+        showErrorToast("Event cancelled", payload.summary);
+      } else {
+        showSuccessToast("Event updated", payload.summary);
       }
+
+      // Reload so the new time, venue, and details are reflected everywhere
+      setTimeout(() => {
+        window.location.reload();
+      }, 1500);
     },
-    [activeJoinRequestId]
+    [event.id, isHostViewer]
   );
 
   const handleCopyEventInvite = useCallback(async () => {
@@ -1440,6 +1529,14 @@ export function EventInsideExperience({
       return;
     }
 
+    for (const question of joinQuestions) {
+      const answer = normalizeJoinAnswer(question, joinAnswers[question.id]);
+      if ("error" in answer) {
+        showErrorToast("Answer the host's questions", answer.error);
+        return;
+      }
+    }
+
     try {
       setJoinRequestStatus("submitting");
       const response = await fetch("/api/join-requests", {
@@ -1447,7 +1544,7 @@ export function EventInsideExperience({
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify({ eventId: event.id }),
+        body: JSON.stringify({ eventId: event.id, intro: joinIntro.trim() || null, answers: joinAnswers }),
       });
 
       if (!response.ok) {
@@ -1456,8 +1553,24 @@ export function EventInsideExperience({
         throw new Error(message);
       }
 
+      const payload = (await response.json().catch(() => null)) as {
+        joinRequest?: { id?: string; status?: string };
+      } | null;
       setJoinRequestStatus("submitted");
-      showSuccessToast("Request sent!", "The host will review your request soon.");
+      if (payload?.joinRequest?.status === "ACCEPTED" && payload.joinRequest.id) {
+        // Instant-join events let the guest straight into the chat
+        showSuccessToast("You're in!", "Opening the chat with the host.");
+        const chatHref = `/chat/${payload.joinRequest.id}`;
+        setTimeout(() => {
+          window.location.assign(chatHref);
+        }, 1000);
+        return;
+      }
+      if (payload?.joinRequest?.status === "WAITLISTED") {
+        showSuccessToast("You're on the waitlist", "The event is full. We'll let you know if a spot opens up.");
+      } else {
+        showSuccessToast("Request sent!", "The host will review your request soon.");
+      }
 
       // Reload the page to show the updated status
       setTimeout(() => {
@@ -1468,14 +1581,80 @@ export function EventInsideExperience({
       const message = (error as Error)?.message ?? "Unable to submit join request";
       showErrorToast("Request failed", message);
     }
-  }, [event.id, joinRequestStatus]);
+  }, [event.id, joinAnswers, joinIntro, joinQuestions, joinRequestStatus]);
+
+  const handleWithdrawJoinRequest = useCallback(async () => {
+    if (!activeJoinRequestId || withdrawState === "withdrawing") {
+      return;
+    }
+
+    try {
+      setWithdrawState("withdrawing");
+      const response = await fetch(`/api/join-requests/${activeJoinRequestId}`, {
+        method: "DELETE",
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => null);
+        const message = errorData?.error ?? "Unable to withdraw";
+        throw new Error(message);
+      }
+
+      showSuccessToast(isGuestViewer ? "You're out" : "Request withdrawn", "We let the host know.");
+      setTimeout(() => {
+        window.location.reload();
+      }, 1000);
+    } catch (error) {
+      setWithdrawState("confirming");
+      const message = (error as Error)?.message ?? "Unable to withdraw";
+      showErrorToast("Withdraw failed", message);
+    }
+  }, [activeJoinRequestId, isGuestViewer, withdrawState]);
+
+  const handleCancelEvent = useCallback(async () => {
+    if (cancelEventState === "cancelling") {
+      return;
+    }
+
+    try {
+      setCancelEventState("cancelling");
+      const response = await fetch(`/api/events/${event.id}/cancel`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ reason: cancelEventReason.trim() || null, scope: cancelEventScope }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => null);
+        const message = errorData?.error ?? "Unable to cancel event";
+        throw new Error(message);
+      }
+
+      const payload = (await response.json().catch(() => null)) as { occurrences?: number } | null;
+      const cancelledDates = payload?.occurrences ?? 1;
+      showSuccessToast(
+        cancelledDates > 1 ? `${cancelledDates} dates cancelled` : "Event cancelled",
+        "Guests have been notified in their chats."
+      );
+      setTimeout(() => {
+        window.location.reload();
+      }, 1000);
+    } catch (error) {
+      setCancelEventState("confirming");
+      const message = (error as Error)?.message ?? "Unable to cancel event";
+      showErrorToast("Cancel failed", message);
+    }
+  }, [cancelEventReason, cancelEventScope, cancelEventState, event.id]);
 
-  const { socket, isConnected, joinRoom } = useSocket({
+  const { socket, isConnected, joinRoom, joinEventHostRoom } = useSocket({
     token: socketEnabled ? socketToken ?? undefined : undefined,
     autoConnect: socketEnabled,
     readinessEndpoint: "/api/socket/io",
     onMessage: realtimeChatUpdatesEnabled ? handleRealtimeChatMessage : undefined,
     onJoinRequestStatusChanged: socketEnabled ? handleJoinRequestStatusChanged : undefined,
+    onEventUpdated: socketEnabled ? handleEventUpdated : undefined,
   });
 
   useEffect(() => {
@@ -1511,6 +1690,12 @@ export function EventInsideExperience({
     pendingJoinRequestId,
   ]);
 
+  useEffect(() => {
+    if (realtimeHostRequestsEnabled && isConnected) {
+      joinEventHostRoom(event.id);
+    }
+  }, [event.id, isConnected, joinEventHostRoom, realtimeHostRequestsEnabled]);
+
   const handleMarkThreadAsRead = async (joinRequestId: string) => {
     const fallback = "Unable to mark this thread as read.";
     setMarkingThreadId(joinRequestId);
@@ -1569,14 +1754,15 @@ export function EventInsideExperience({
 
         setPendingRequests((prev) => prev.filter((request) => request.id !== requestId));
         setRoster((prev) => {
-          let found = false;
-          const status: "confirmed" | "pending" | "waitlist" = nextStatus === "accepted" ? "confirmed" : "waitlist";
-          const blurb = nextStatus === "accepted" ? "Coming tonight" : "Moved to waitlist";
+          if (nextStatus === "rejected") {
+            return prev.filter((attendee) => attendee.id !== userId);
+          }
 
+          let found = false;
           const nextRoster = prev.map((attendee) => {
             if (attendee.id === userId) {
               found = true;
-              return { ...attendee, status, blurb };
+              return { ...attendee, status: "confirmed" as const, blurb: "Coming tonight" };
             }
             return attendee;
           });
@@ -1585,8 +1771,8 @@ export function EventInsideExperience({
             nextRoster.push({
               id: userId,
               displayName,
-              status,
-              blurb,
+              status: "confirmed",
+              blurb: "Coming tonight",
             });
           }
 
@@ -2175,6 +2361,11 @@ export function EventInsideExperience({
       <div className="flex flex-col gap-6 lg:flex-row">
         <div className="min-w-0 flex-[3] space-y-6">
           <Card>
+            <EventCoverImage
+              eventId={event.id}
+              imageUrl={event.coverImageUrl}
+              editable={isHostViewer && !isCancelled}
+            />
             <SectionHeading icon={Sparkles} title="Tonight's plan" subtitle="Everything guests need once they're inside" />
 
             {/* Confirmation status moved from header */}
@@ -2189,14 +2380,51 @@ export function EventInsideExperience({
               </span>
               <div className="flex items-center gap-2 text-sm text-white/70">
                 <Clock3 className="h-4 w-4" />
-                <span>{formatDateTime(event.startDateISO) ?? "Time TBA"}</span>
+                <span>
+                  {formatDateTime(event.startDateISO) ?? "Time TBA"}
+                  {formatTime(event.endDateISO) ? ` – ${formatTime(event.endDateISO)}` : ""}
+                </span>
               </div>
+              {event.phase === "IN_PROGRESS" && !isCancelled ? (
+                <span className="inline-flex items-center gap-1.5 rounded-full bg-emerald-500/10 px-3 py-1 text-xs font-semibold uppercase tracking-wide text-emerald-400">
+                  <span className="h-1.5 w-1.5 animate-pulse rounded-full bg-emerald-400" aria-hidden />
+                  Happening now
+                </span>
+              ) : null}
               <div className="flex items-center gap-2 text-sm text-white/70">
                 <MapPin className="h-4 w-4" />
                 <span>{event.locationName ?? "Location coming soon"}</span>
               </div>
+              {(isHostViewer || isGuestViewer) && !isCancelled ? (
+                <a
+                  href={`/api/events/${event.id}/ics`}
+                  className="inline-flex items-center gap-1.5 rounded-full border border-white/20 px-3 py-1 text-xs font-semibold text-white/80 transition hover:border-white/40 hover:text-white"
+                >
+                  <CalendarPlus className="h-3.5 w-3.5" aria-hidden />
+                  Add to calendar
+                </a>
+              ) : null}
+              {canHostAgain ? (
+                <Link
+                  href={`/events/create?from=${encodeURIComponent(event.id)}`}
+                  className="inline-flex items-center gap-1.5 rounded-full border border-white/20 px-3 py-1 text-xs font-semibold text-white/80 transition hover:border-white/40 hover:text-white"
+                >
+                  <RotateCcw className="h-3.5 w-3.5" aria-hidden />
+                  Host again
+                </Link>
+              ) : null}
             </div>
 
+            {isCancelled ? (
+              <div className="mt-5 rounded-2xl border border-rose-500/30 bg-rose-500/10 p-4 text-sm text-rose-100" role="status">
+                <p className="flex items-center gap-2 text-xs font-semibold uppercase tracking-wide text-rose-300">
+                  <Ban className="h-4 w-4" aria-hidden />
+                  Event cancelled
+                </p>
+                <p className="mt-2">{event.cancellationReason ?? "The host cancelled this event."}</p>
+              </div>
+            ) : null}
+
             {/* Event map */}
             {event.location && (
               <div className="mt-6 relative">
@@ -2259,16 +2487,15 @@ export function EventInsideExperience({
             <SectionHeading icon={Users} title="Attendees" subtitle="Confirmed + pending guests" />
             <div className="mt-4 grid gap-6 lg:grid-cols-2">
               {isHostViewer || isGuestViewer ? (
-                (["confirmed", "waitlist"] as const).map((bucket) => {
-                  const bucketLabel = bucket === "confirmed" ? "Confirmed" : "Waitlist";
+                (["confirmed", "pending", "waitlist"] as const).map((bucket) => {
+                  const bucketLabel = bucket === "confirmed" ? "Confirmed" : bucket === "pending" ? "Pending" : "Waitlist";
                   const bucketColor =
                     bucket === "confirmed"
                       ? "text-emerald-300"
-                      : "text-zinc-300";
-                  const people =
-                    bucket === "waitlist"
-                      ? [...groupedAttendees.pending, ...groupedAttendees.waitlist]
-                      : groupedAttendees[bucket];
+                      : bucket === "pending"
+                        ? "text-amber-300"
+                        : "text-zinc-300";
+                  const people = groupedAttendees[bucket];
                   return (
                     <div key={bucket} className="rounded-2xl border border-white/10 bg-white/5 p-4">
                       <p className={classNames("text-xs font-semibold uppercase tracking-wide", bucketColor)}>
@@ -2299,9 +2526,14 @@ export function EventInsideExperience({
                       Confirmed · {attendeeSummary?.confirmed ?? 0}
                     </p>
                   </div>
+                  <div className="rounded-2xl border border-white/10 bg-white/5 p-4">
+                    <p className="text-xs font-semibold uppercase tracking-wide text-amber-300">
+                      Pending · {attendeeSummary?.pending ?? 0}
+                    </p>
+                  </div>
                   <div className="rounded-2xl border border-white/10 bg-white/5 p-4">
                     <p className="text-xs font-semibold uppercase tracking-wide text-zinc-300">
-                      Waitlist · {attendeeSummary?.pending ?? 0}
+                      Waitlist · {attendeeSummary?.waitlisted ?? 0}
                     </p>
                   </div>
                 </>
@@ -2420,6 +2652,8 @@ export function EventInsideExperience({
                   <p className="mt-2 break-all text-[11px] text-white/60">{eventShareUrl ?? "Preparing invite link…"}</p>
                 </div>
 
+                <HostInviteLinksPanel eventId={event.id} />
+
                 {hostFriendInviteEntries.length ? (
                   <div className="rounded-2xl border border-white/10 bg-black/30 p-4">
                     <p className="text-sm font-semibold text-white">Invite a friend</p>
@@ -2444,21 +2678,197 @@ export function EventInsideExperience({
             </Card>
           ) : null}
 
+          {isHostViewer && event.status === "ACTIVE" ? (
+            <Card>
+              <SectionHeading icon={Ban} title="Cancel event" subtitle="Plans fell through? Let everyone know" />
+              {cancelEventState === "idle" ? (
+                <button
+                  type="button"
+                  onClick={() => setCancelEventState("confirming")}
+                  className="mt-4 w-full rounded-xl border border-rose-500/40 bg-rose-500/10 px-4 py-2.5 text-sm font-semibold text-rose-200 transition hover:border-rose-500/60"
+                >
+                  Cancel this event
+                </button>
+              ) : (
+                <div className="mt-4 space-y-3">
+                  <textarea
+                    value={cancelEventReason}
+                    onChange={(changeEvent) => setCancelEventReason(changeEvent.target.value)}
+                    maxLength={500}
+                    rows={3}
+                    placeholder="Optional: tell guests why"
+                    className="w-full rounded-xl border border-white/15 bg-black/40 px-4 py-2.5 text-sm text-white placeholder:text-white/40 focus:border-rose-500/40 focus:outline-none focus:ring-1 focus:ring-rose-500/50"
+                  />
+                  {event.seriesId ? (
+                    <div role="radiogroup" aria-label="What to cancel" className="grid grid-cols-2 gap-2">
+                      {(
+                        [
+                          { value: "occurrence", label: "Only this date" },
+                          { value: "series", label: "This and later dates" },
+                        ] as const
+                      ).map((option) => (
+                        <button
+                          key={option.value}
+                          type="button"
+                          role="radio"
+                          aria-checked={cancelEventScope === option.value}
+                          onClick={() => setCancelEventScope(option.value)}
+                          disabled={cancelEventState === "cancelling"}
+                          className={classNames(
+                            "rounded-xl border px-3 py-2 text-xs font-semibold transition disabled:opacity-60",
+                            cancelEventScope === option.value
+                              ? "border-rose-500/60 bg-rose-500/15 text-rose-100"
+                              : "border-white/15 bg-white/5 text-white/60 hover:border-white/30 hover:text-white"
+                          )}
+                        >
+                          {option.label}
+                        </button>
+                      ))}
+                    </div>
+                  ) : null}
+                  <p className="text-xs text-white/50">
+                    Pending requests are declined and confirmed guests get a note in their chat.
+                  </p>
+                  <div className="flex gap-2">
+                    <button
+                      type="button"
+                      onClick={() => {
+                        void handleCancelEvent();
+                      }}
+                      disabled={cancelEventState === "cancelling"}
+                      className="flex-1 rounded-xl bg-rose-500 px-3 py-2.5 text-sm font-semibold text-rose-950 transition hover:bg-rose-400 disabled:opacity-60"
+                    >
+                      {cancelEventState === "cancelling" ? "Cancelling…" : "Confirm cancellation"}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setCancelEventState("idle")}
+                      disabled={cancelEventState === "cancelling"}
+                      className="flex-1 rounded-xl border border-white/15 bg-white/5 px-3 py-2.5 text-sm font-semibold text-white/70 transition hover:border-white/30 hover:text-white disabled:opacity-60"
+                    >
+                      Keep event
+                    </button>
+                  </div>
+                </div>
+              )}
+            </Card>
+          ) : null}
+
+          {(isGuestViewer || isPendingViewer) && activeJoinRequestId && !isCancelled ? (
+            <Card>
+              <SectionHeading
+                icon={LogOut}
+                title={isGuestViewer ? "Can't make it?" : "Changed your mind?"}
+                subtitle={isGuestViewer ? "Give your spot to someone else" : "Take back your request"}
+              />
+              {withdrawState === "idle" ? (
+                <button
+                  type="button"
+                  onClick={() => setWithdrawState("confirming")}
+                  className="mt-4 w-full rounded-xl border border-white/15 bg-white/5 px-4 py-2.5 text-sm font-semibold text-white/80 transition hover:border-white/30 hover:text-white"
+                >
+                  {isGuestViewer ? "Withdraw from this event" : "Withdraw my request"}
+                </button>
+              ) : (
+                <div className="mt-4 space-y-3">
+                  <p className="text-xs text-white/50">
+                    {isGuestViewer
+                      ? "The host is told and your chat with them closes. Your spot goes to the next person waiting."
+                      : "The host is told. You can ask again later if there's still room."}
+                  </p>
+                  <div className="flex gap-2">
+                    <button
+                      type="button"
+                      onClick={() => {
+                        void handleWithdrawJoinRequest();
+                      }}
+                      disabled={withdrawState === "withdrawing"}
+                      className="flex-1 rounded-xl bg-rose-500 px-3 py-2.5 text-sm font-semibold text-rose-950 transition hover:bg-rose-400 disabled:opacity-60"
+                    >
+                      {withdrawState === "withdrawing" ? "Withdrawing…" : "Confirm"}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setWithdrawState("idle")}
+                      disabled={withdrawState === "withdrawing"}
+                      className="flex-1 rounded-xl border border-white/15 bg-white/5 px-3 py-2.5 text-sm font-semibold text-white/70 transition hover:border-white/30 hover:text-white disabled:opacity-60"
+                    >
+                      {isGuestViewer ? "Keep my spot" : "Keep my request"}
+                    </button>
+                  </div>
+                </div>
+              )}
+            </Card>
+          ) : null}
+
+          {canRequestToJoin && joinRequestStatus !== "submitted" ? (
+            <div className="space-y-1">
+              <label htmlFor="join-intro" className="text-xs font-semibold uppercase tracking-wide text-white/60">
+                Say hi to {host.displayName} (optional)
+              </label>
+              <textarea
+                id="join-intro"
+                value={joinIntro}
+                onChange={(changeEvent) => setJoinIntro(changeEvent.target.value)}
+                maxLength={JOIN_INTRO_MAX_LENGTH}
+                rows={3}
+                disabled={joinRequestStatus !== "idle"}
+                placeholder="A line about you and why you'd like to come"
+                className="w-full rounded-xl border border-white/15 bg-black/40 px-4 py-2.5 text-sm text-white placeholder:text-white/40 focus:border-primary/40 focus:outline-none focus:ring-1 focus:ring-primary/50 disabled:opacity-60"
+              />
+              <p className="text-right text-[11px] text-white/40">
+                {joinIntro.length}/{JOIN_INTRO_MAX_LENGTH}
+              </p>
+            </div>
+          ) : null}
+
+          {canRequestToJoin && joinRequestStatus !== "submitted" && joinQuestions.length > 0 ? (
+            <div className="space-y-3" data-testid="join-questions">
+              <p className="text-xs font-semibold uppercase tracking-wide text-white/60">{host.displayName} asks</p>
+              {joinQuestions.map((question) => (
+                <JoinQuestionField
+                  key={question.id}
+                  question={question}
+                  value={joinAnswers[question.id] ?? ""}
+                  disabled={joinRequestStatus !== "idle"}
+                  onChange={(value) => setJoinAnswers((prev) => ({ ...prev, [question.id]: value }))}
+                />
+              ))}
+            </div>
+          ) : null}
+
           {isPublicViewer || isPendingViewer ? (
-            <button
-              type="button"
-              onClick={isPublicViewer ? handleJoinRequest : undefined}
-              disabled={!isPublicViewer || joinRequestStatus !== "idle"}
-              className="w-full rounded-xl bg-primary/80 px-4 py-3 text-sm font-semibold text-white transition hover:bg-primary disabled:opacity-60 disabled:cursor-not-allowed"
-            >
-              {isPendingViewer
-                ? "Awaiting host approval…"
-                : joinRequestStatus === "submitting"
-                  ? "Sending request..."
-                  : joinRequestStatus === "submitted"
-                    ? "Request sent!"
-                    : "Request to join event"}
-            </button>
+            <>
+              <button
+                type="button"
+                onClick={canRequestToJoin ? handleJoinRequest : undefined}
+                disabled={!canRequestToJoin || joinRequestStatus !== "idle"}
+                className="w-full rounded-xl bg-primary/80 px-4 py-3 text-sm font-semibold text-white transition hover:bg-primary disabled:opacity-60 disabled:cursor-not-allowed"
+              >
+                {isCancelled
+                  ? "Event cancelled"
+                  : isPendingViewer
+                    ? "Awaiting host approval…"
+                    : joinClosedNotice
+                      ? joinClosedNotice.title
+                      : joinRequestStatus === "submitting"
+                        ? isInstantJoin
+                          ? "Joining..."
+                          : "Sending request..."
+                        : joinRequestStatus === "submitted"
+                          ? isInstantJoin
+                            ? "You're in!"
+                            : "Request sent!"
+                          : isInstantJoin
+                            ? "Join event"
+                            : "Request to join event"}
+              </button>
+              {!isCancelled && joinClosedNotice ? (
+                <p className="text-xs text-white/60" data-testid="join-closed-notice">
+                  {joinClosedNotice.description}
+                </p>
+              ) : null}
+            </>
           ) : (
             <Card>
               <SectionHeading icon={MessageCircle} title="Event chat" subtitle="Hosts + guests coordinate here" />
@@ -2567,14 +2977,22 @@ export function EventInsideExperience({
                 >
                   {chatCtaLabel}
                 </Link>
-              ) : isPublicViewer ? (
+              ) : canRequestToJoin ? (
                 <button
                   type="button"
                   onClick={handleJoinRequest}
                   disabled={joinRequestStatus !== "idle"}
                   className="mt-4 w-full rounded-xl bg-primary/80 px-4 py-2 text-sm font-semibold text-white transition hover:bg-primary disabled:opacity-60 disabled:cursor-not-allowed"
                 >
-                  {joinRequestStatus === "submitting" ? "Sending request..." : joinRequestStatus === "submitted" ? "Request sent!" : chatCtaLabel}
+                  {joinRequestStatus === "submitting"
+                    ? isInstantJoin
+                      ? "Joining..."
+                      : "Sending request..."
+                    : joinRequestStatus === "submitted"
+                      ? isInstantJoin
+                        ? "You're in!"
+                        : "Request sent!"
+                      : chatCtaLabel}
                 </button>
               ) : (
                 <button
@@ -2628,6 +3046,70 @@ const SectionHeading = ({
   </div>
 );
 
+const JoinQuestionField = ({
+  question,
+  value,
+  disabled,
+  onChange,
+}: {
+  question: SerializedJoinQuestion;
+  value: string;
+  disabled: boolean;
+  onChange: (value: string) => void;
+}) => {
+  const inputId = `join-question-${question.id}`;
+  const choices =
+    question.kind === "YES_NO"
+      ? [
+          { value: "yes", label: "Yes" },
+          { value: "no", label: "No" },
+        ]
+      : question.options.map((option) => ({ value: option, label: option }));
+
+  return (
+    <div className="space-y-1.5">
+      <label htmlFor={question.kind === "SHORT_TEXT" ? inputId : undefined} className="block text-sm text-white/80">
+        {question.prompt}
+      </label>
+      {question.kind === "SHORT_TEXT" ? (
+        <input
+          id={inputId}
+          type="text"
+          value={value}
+          onChange={(changeEvent) => onChange(changeEvent.target.value)}
+          maxLength={JOIN_ANSWER_MAX_LENGTH}
+          disabled={disabled}
+          className="w-full rounded-xl border border-white/15 bg-black/40 px-4 py-2.5 text-sm text-white placeholder:text-white/40 focus:border-primary/40 focus:outline-none focus:ring-1 focus:ring-primary/50 disabled:opacity-60"
+        />
+      ) : (
+        <div role="radiogroup" aria-label={question.prompt} className="flex flex-wrap gap-2">
+          {choices.map((choice) => {
+            const selected = value === choice.value;
+            return (
+              <button
+                key={choice.value}
+                type="button"
+                role="radio"
+                aria-checked={selected}
+                onClick={() => onChange(choice.value)}
+                disabled={disabled}
+                className={classNames(
+                  "rounded-full border px-3.5 py-1.5 text-sm font-semibold transition disabled:opacity-60",
+                  selected
+                    ? "border-primary/60 bg-primary/20 text-white"
+                    : "border-white/15 bg-white/5 text-white/70 hover:border-white/30 hover:text-white"
+                )}
+              >
+                {choice.label}
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
 const isInviteGuardrailActive = (value?: string | null) => {
   const timestamp = parseIsoTimestamp(value);
   return typeof timestamp === "number" && timestamp > Date.now();
@@ -2672,7 +3154,7 @@ const buildStats = (
     {
       label: "Capacity",
       value: event.capacityLabel ?? `${confirmed} confirmed`,
-      subLabel: pending > 0 ? `${pending} pending / ${waitlist} waitlisted` : undefined,
+      subLabel: pending > 0 || waitlist > 0 ? `${pending} pending / ${waitlist} waitlisted` : undefined,
     },
     {
       label: "Host",
@@ -2790,6 +3272,13 @@ const formatDateTime = (value?: string | null) => {
   return new Intl.DateTimeFormat(undefined, { dateStyle: "full", timeStyle: "short" }).format(date);
 };
 
+const formatTime = (value?: string | null) => {
+  if (!value) return null;
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return null;
+  return new Intl.DateTimeFormat(undefined, { timeStyle: "short" }).format(date);
+};
+
 const parseIsoTimestamp = (value?: string | null): number | null => {
   if (!value) {
     return null;
@@ -0,0 +1,201 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Copy, Link2, Trash2 } from "lucide-react";
+
+import { showErrorToast, showSuccessToast } from "@/lib/toast";
+
+type InviteLink = {
+  id: string;
+  url: string;
+  maxUses: number | null;
+  useCount: number;
+  remainingUses: number | null;
+  expiresAt: string;
+};
+
+const EXPIRY_OPTIONS = [
+  { hours: 24, label: "Expires in 24 hours" },
+  { hours: 72, label: "Expires in 3 days" },
+  { hours: 7 * 24, label: "Expires in a week" },
+] as const;
+
+const USE_OPTIONS: Array<{ value: number | null; label: string }> = [
+  { value: 1, label: "Single use" },
+  { value: 5, label: "Up to 5 guests" },
+  { value: null, label: "No use limit" },
+];
+
+export type HostInviteLinksPanelProps = {
+  eventId: string;
+};
+
+const readErrorMessage = async (response: Response, fallback: string) => {
+  try {
+    const payload = (await response.json()) as { error?: string };
+    return payload.error ?? fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+const describeUsage = (link: InviteLink) => {
+  if (link.maxUses === null) {
+    return link.useCount === 1 ? "Used once" : `Used ${link.useCount} times`;
+  }
+  return `${link.useCount} of ${link.maxUses} used`;
+};
+
+const formatExpiry = (value: string) =>
+  new Intl.DateTimeFormat(undefined, { weekday: "short", hour: "numeric", minute: "2-digit" }).format(new Date(value));
+
+export function HostInviteLinksPanel({ eventId }: HostInviteLinksPanelProps) {
+  const [links, setLinks] = useState<InviteLink[]>([]);
+  const [expiresInHours, setExpiresInHours] = useState<number>(EXPIRY_OPTIONS[1].hours);
+  const [maxUses, setMaxUses] = useState<number | null>(1);
+  const [creating, setCreating] = useState(false);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+
+  const loadLinks = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/events/${eventId}/invite-links`, { cache: "no-store" });
+      if (!response.ok) {
+        return;
+      }
+      const payload = (await response.json()) as { inviteLinks?: InviteLink[] };
+      setLinks(payload.inviteLinks ?? []);
+    } catch (error) {
+      console.error("Failed to load invite links", error);
+    }
+  }, [eventId]);
+
+  useEffect(() => {
+    void loadLinks();
+  }, [loadLinks]);
+
+  const copyLink = useCallback(async (url: string) => {
+    try {
+      await navigator.clipboard.writeText(url);
+      showSuccessToast("Invite link copied", "Anyone who opens it joins straight away.");
+    } catch {
+      showErrorToast("Copy failed", "Copy the link manually instead.");
+    }
+  }, []);
+
+  const createLink = useCallback(async () => {
+    setCreating(true);
+    try {
+      const response = await fetch(`/api/events/${eventId}/invite-links`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ expiresInHours, maxUses }),
+      });
+      if (!response.ok) {
+        showErrorToast("Couldn't create invite link", await readErrorMessage(response, "Try again in a moment."));
+        return;
+      }
+      const { inviteLink } = (await response.json()) as { inviteLink: InviteLink };
+      setLinks((prev) => [inviteLink, ...prev]);
+      await copyLink(inviteLink.url);
+    } finally {
+      setCreating(false);
+    }
+  }, [copyLink, eventId, expiresInHours, maxUses]);
+
+  const revokeLink = useCallback(
+    async (linkId: string) => {
+      setRevokingId(linkId);
+      try {
+        const response = await fetch(`/api/events/${eventId}/invite-links/${linkId}`, { method: "DELETE" });
+        if (!response.ok) {
+          showErrorToast("Couldn't revoke invite link", await readErrorMessage(response, "Try again in a moment."));
+          return;
+        }
+        setLinks((prev) => prev.filter((link) => link.id !== linkId));
+        showSuccessToast("Invite link revoked", "Guests who already joined keep their spot.");
+      } finally {
+        setRevokingId(null);
+      }
+    },
+    [eventId]
+  );
+
+  return (
+    <div className="rounded-2xl border border-white/10 bg-black/30 p-4">
+      <p className="text-sm font-semibold text-white">Pre-approved invite links</p>
+      <p className="mt-1 text-xs text-white/60">People who open one of these skip the request and join right away, while spots last.</p>
+      <div className="mt-3 flex flex-wrap gap-2">
+        <select
+          aria-label="Invite link expiry"
+          value={expiresInHours}
+          onChange={(event) => setExpiresInHours(Number(event.target.value))}
+          className="rounded-xl border border-white/15 bg-black/40 px-3 py-2 text-xs text-white focus:border-primary/40 focus:outline-none"
+        >
+          {EXPIRY_OPTIONS.map((option) => (
+            <option key={option.hours} value={option.hours}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <select
+          aria-label="Invite link use limit"
+          value={maxUses ?? ""}
+          onChange={(event) => setMaxUses(event.target.value ? Number(event.target.value) : null)}
+          className="rounded-xl border border-white/15 bg-black/40 px-3 py-2 text-xs text-white focus:border-primary/40 focus:outline-none"
+        >
+          {USE_OPTIONS.map((option) => (
+            <option key={option.label} value={option.value ?? ""}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={() => {
+            void createLink();
+          }}
+          disabled={creating}
+          className="inline-flex items-center gap-2 rounded-full border border-primary/40 bg-primary/10 px-4 py-2 text-xs font-semibold text-primary/90 transition hover:border-primary/60 disabled:cursor-not-allowed disabled:opacity-60"
+        >
+          <Link2 className="h-3.5 w-3.5" aria-hidden />
+          {creating ? "Creating…" : "Create link"}
+        </button>
+      </div>
+      {links.length > 0 && (
+        <ul className="mt-4 space-y-2" aria-label="Outstanding invite links">
+          {links.map((link) => (
+            <li key={link.id} className="flex items-center justify-between gap-3 rounded-xl border border-white/10 bg-white/5 px-3 py-2">
+              <div className="min-w-0 text-xs">
+                <p className="font-semibold text-white/85">{describeUsage(link)}</p>
+                <p className="text-white/50">Expires {formatExpiry(link.expiresAt)}</p>
+              </div>
+              <div className="flex shrink-0 items-center gap-1">
+                <button
+                  type="button"
+                  onClick={() => {
+                    void copyLink(link.url);
+                  }}
+                  className="rounded-full p-2 text-white/70 transition hover:text-white"
+                  aria-label="Copy invite link"
+                >
+                  <Copy className="h-3.5 w-3.5" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => {
+                    void revokeLink(link.id);
+                  }}
+                  disabled={revokingId === link.id}
+                  className="rounded-full p-2 text-white/70 transition hover:text-rose-300 disabled:opacity-60"
+                  aria-label="Revoke invite link"
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
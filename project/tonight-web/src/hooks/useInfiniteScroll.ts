@@ -0,0 +1,59 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+
+const DEFAULT_ROOT_MARGIN = "400px 0px";
+
+export type InfiniteScrollOptions = {
+  hasMore: boolean;
+  isLoading: boolean;
+  onLoadMore?: () => void;
+  rootMargin?: string;
+};
+
+/**
+ * Returns a ref for a sentinel element placed after the last item. When the
+ * sentinel scrolls into view (with some margin) and more results exist,
+ * `onLoadMore` is called. Without IntersectionObserver support nothing happens
+ * automatically, so callers should keep an explicit "load more" control.
+ */
+export function useInfiniteScroll({
+  hasMore,
+  isLoading,
+  onLoadMore,
+  rootMargin = DEFAULT_ROOT_MARGIN,
+}: InfiniteScrollOptions) {
+  const [sentinel, setSentinel] = useState<Element | null>(null);
+  const onLoadMoreRef = useRef(onLoadMore);
+
+  useEffect(() => {
+    onLoadMoreRef.current = onLoadMore;
+  }, [onLoadMore]);
+
+  useEffect(() => {
+    if (!sentinel || !hasMore || isLoading || typeof IntersectionObserver === "undefined") {
+      return;
+    }
+
+    // Re-created after every load, so a sentinel that is still visible once the
+    // new page renders triggers the next page straight away.
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) {
+          observer.disconnect();
+          onLoadMoreRef.current?.();
+        }
+      },
+      { rootMargin }
+    );
+    observer.observe(sentinel);
+
+    return () => {
+      observer.disconnect();
+    };
+  }, [hasMore, isLoading, rootMargin, sentinel]);
+
+  return useCallback((node: Element | null) => {
+    setSentinel(node);
+  }, []);
+}
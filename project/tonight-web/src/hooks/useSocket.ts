@@ -5,6 +5,7 @@ import type { DefaultEventsMap } from 'socket.io';
 import { io, type Socket } from 'socket.io-client';
 
 import {
+  EVENT_HOST_JOIN_EVENT,
   JOIN_REQUEST_JOIN_EVENT,
   JOIN_REQUEST_MESSAGE_EVENT,
   JOIN_REQUEST_STATUS_CHANGED_EVENT,
@@ -13,6 +14,8 @@ import {
   CHAT_TYPING_STOP_EVENT,
   CHAT_TYPING_EVENT,
   CHAT_TYPING_STOP_BROADCAST_EVENT,
+  EVENT_UPDATED_EVENT,
+  type EventUpdatedPayload,
   type SocketMessagePayload,
   type SocketTypingPayload,
   type JoinRequestStatusChangedPayload,
@@ -32,6 +35,7 @@ type EventHandlers = {
   onTypingStop?: (payload: { joinRequestId: string; userId: string }) => void;
   onJoinRequestStatusChanged?: (payload: JoinRequestStatusChangedPayload) => void;
   onReadReceipt?: (payload: SocketReadReceiptEventPayload) => void;
+  onEventUpdated?: (payload: EventUpdatedPayload) => void;
 };
 
 export type UseSocketOptions = EventHandlers & {
@@ -55,6 +59,8 @@ export type UseSocketResult = {
   connect: () => Promise<void>;
   disconnect: () => void;
   joinRoom: (joinRequestId: string) => void;
+  /** Follows status changes for every request to an event the viewer hosts. */
+  joinEventHostRoom: (eventId: string) => void;
   sendMessage: (joinRequestId: string, payload: Omit<SocketMessagePayload, 'joinRequestId'>) => void;
   sendTypingStart: (joinRequestId: string) => void;
   sendTypingStop: (joinRequestId: string) => void;
@@ -104,6 +110,7 @@ export const useSocket = (options: UseSocketOptions): UseSocketResult => {
     onTypingStop,
     onJoinRequestStatusChanged,
     onReadReceipt,
+    onEventUpdated,
   } = options;
 
   const handlersRef = useRef<EventHandlers>({
@@ -115,6 +122,7 @@ export const useSocket = (options: UseSocketOptions): UseSocketResult => {
     onTypingStop,
     onJoinRequestStatusChanged,
     onReadReceipt,
+    onEventUpdated,
   });
 
   useEffect(() => {
@@ -127,11 +135,23 @@ export const useSocket = (options: UseSocketOptions): UseSocketResult => {
       onTypingStop,
       onJoinRequestStatusChanged,
       onReadReceipt,
+      onEventUpdated,
     };
-  }, [onMessage, onConnect, onDisconnect, onError, onTyping, onTypingStop, onJoinRequestStatusChanged, onReadReceipt]);
+  }, [
+    onMessage,
+    onConnect,
+    onDisconnect,
+    onError,
+    onTyping,
+    onTypingStop,
+    onJoinRequestStatusChanged,
+    onReadReceipt,
+    onEventUpdated,
+  ]);
 
   const socketRef = useRef<ClientSocket | null>(null);
   const joinedRoomsRef = useRef<Set<string>>(new Set());
+  const joinedHostRoomsRef = useRef<Set<string>>(new Set());
   const tokenRef = useRef<string | null>(token ?? null);
   const isMountedRef = useRef(true);
   const reconnectAttemptsRef = useRef(0);
@@ -151,6 +171,7 @@ export const useSocket = (options: UseSocketOptions): UseSocketResult => {
     tokenRef.current = token ?? null;
     if (!token) {
       joinedRoomsRef.current.clear();
+      joinedHostRoomsRef.current.clear();
     }
   }, [token]);
 
@@ -232,6 +253,9 @@ export const useSocket = (options: UseSocketOptions): UseSocketResult => {
     joinedRoomsRef.current.forEach((roomId) => {
       socket.emit(JOIN_REQUEST_JOIN_EVENT, roomId);
     });
+    joinedHostRoomsRef.current.forEach((eventId) => {
+      socket.emit(EVENT_HOST_JOIN_EVENT, eventId);
+    });
   }, []);
 
   const scheduleReconnect = useCallback(() => {
@@ -328,6 +352,10 @@ export const useSocket = (options: UseSocketOptions): UseSocketResult => {
       socket.on(JOIN_REQUEST_READ_RECEIPT_EVENT, (payload: SocketReadReceiptEventPayload) => {
         handlersRef.current.onReadReceipt?.(payload);
       });
+
+      socket.on(EVENT_UPDATED_EVENT, (payload: EventUpdatedPayload) => {
+        handlersRef.current.onEventUpdated?.(payload);
+      });
     },
     [clearConnectionTimeout, flushQueuedRoomJoins, resetReconnectTracking, scheduleReconnect, updateState]
   );
@@ -415,6 +443,7 @@ export const useSocket = (options: UseSocketOptions): UseSocketResult => {
     connectionAttemptInProgressRef.current = false;
     manualDisconnectRef.current = true;
     joinedRoomsRef.current.clear();
+    joinedHostRoomsRef.current.clear();
     clearReconnectTimer();
     clearReconnectCountdown();
     clearConnectionTimeout();
@@ -442,6 +471,23 @@ export const useSocket = (options: UseSocketOptions): UseSocketResult => {
     }
   }, []);
 
+  const joinEventHostRoom = useCallback((eventId: string) => {
+    const normalized = eventId?.trim();
+    if (!normalized) {
+      return;
+    }
+
+    if (joinedHostRoomsRef.current.has(normalized) && socketRef.current?.connected) {
+      return;
+    }
+
+    joinedHostRoomsRef.current.add(normalized);
+    const socket = socketRef.current;
+    if (socket && socket.connected) {
+      socket.emit(EVENT_HOST_JOIN_EVENT, normalized);
+    }
+  }, []);
+
   const sendMessage = useCallback((joinRequestId: string, payload: Omit<SocketMessagePayload, 'joinRequestId'>) => {
     const normalized = normalizeJoinRequestId(joinRequestId);
     if (!normalized) {
@@ -478,6 +524,7 @@ export const useSocket = (options: UseSocketOptions): UseSocketResult => {
     connect: publicConnect,
     disconnect,
     joinRoom,
+    joinEventHostRoom,
     sendMessage,
     sendTypingStart,
     sendTypingStop,
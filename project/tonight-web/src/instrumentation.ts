@@ -0,0 +1,13 @@
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') {
+    return;
+  }
+
+  // Deployments that trigger jobs externally (see scripts/run-jobs.mjs) can opt out.
+  if (process.env.BACKGROUND_JOBS_DISABLED === '1') {
+    return;
+  }
+
+  const { startScheduledJobs } = await import('@/lib/scheduled-jobs');
+  startScheduledJobs();
+}
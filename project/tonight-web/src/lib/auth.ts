@@ -5,6 +5,9 @@ const MAGIC_LINK_TOKEN_BYTES = 32;
 export const MAGIC_LINK_EXPIRATION_MINUTES = 15;
 const JWT_EXPIRATION_DAYS = 7;
 const AUTH_COOKIE_NAME = 'tonight_auth';
+// Invite tokens share the session secret, so the audience keeps the two kinds
+// of token from being accepted in place of each other.
+const EVENT_INVITE_AUDIENCE = 'event-invite';
 
 const textEncoder = new TextEncoder();
 
@@ -59,3 +62,39 @@ export const verifyJWT = async (token: string): Promise<{ userId: string }> => {
 
   return { userId };
 };
+
+export type EventInviteTokenPayload = {
+  inviteLinkId: string;
+  eventId: string;
+};
+
+export const generateEventInviteToken = async (
+  payload: EventInviteTokenPayload,
+  expiresAt: Date
+): Promise<string> => {
+  if (!payload.inviteLinkId || !payload.eventId) {
+    throw new Error('inviteLinkId and eventId are required');
+  }
+
+  return await new SignJWT({ inviteLinkId: payload.inviteLinkId, eventId: payload.eventId })
+    .setProtectedHeader({ alg: 'HS256' })
+    .setAudience(EVENT_INVITE_AUDIENCE)
+    .setIssuedAt()
+    .setExpirationTime(Math.floor(expiresAt.getTime() / 1000))
+    .sign(getJwtSecret());
+};
+
+export const verifyEventInviteToken = async (token: string): Promise<EventInviteTokenPayload> => {
+  if (!token) {
+    throw new Error('token is required');
+  }
+
+  const { payload } = await jwtVerify(token, getJwtSecret(), { audience: EVENT_INVITE_AUDIENCE });
+  const { inviteLinkId, eventId } = payload;
+
+  if (typeof inviteLinkId !== 'string' || !inviteLinkId || typeof eventId !== 'string' || !eventId) {
+    throw new Error('Invalid token payload');
+  }
+
+  return { inviteLinkId, eventId };
+};
@@ -0,0 +1,23 @@
+/**
+ * Square sizes every uploaded avatar is rendered at. The largest one is what
+ * `photoUrl` points to; smaller ones are offered to browsers through srcset.
+ */
+export const AVATAR_SIZES = [128, 256] as const;
+
+export type AvatarSize = (typeof AVATAR_SIZES)[number];
+
+export const AVATAR_PRIMARY_SIZE: AvatarSize = 256;
+
+const STORED_AVATAR_URL_PATTERN = /\/avatar-[a-z0-9]+\/256\.webp$/;
+
+export const buildAvatarFileName = (size: AvatarSize) => `${size}.webp`;
+
+/** Builds a srcset for avatars stored by the upload pipeline; other photo URLs get none. */
+export const buildAvatarSrcSet = (photoUrl: string | null | undefined) => {
+  if (!photoUrl || !STORED_AVATAR_URL_PATTERN.test(photoUrl)) {
+    return undefined;
+  }
+
+  const prefix = photoUrl.slice(0, photoUrl.length - buildAvatarFileName(AVATAR_PRIMARY_SIZE).length);
+  return AVATAR_SIZES.map((size) => `${prefix}${buildAvatarFileName(size)} ${size}w`).join(', ');
+};
@@ -0,0 +1,202 @@
+import sharp from 'sharp';
+import { createId } from '@paralleldrive/cuid2';
+import { prisma } from '@/lib/prisma';
+import { getMediaStorage, type MediaStorage } from '@/lib/media-storage';
+import { AVATAR_PRIMARY_SIZE, AVATAR_SIZES, buildAvatarFileName, type AvatarSize } from '@/lib/avatar-sizes';
+
+export const MAX_AVATAR_IMAGE_BYTES = 8 * 1024 * 1024;
+
+const AVATAR_WEBP_QUALITY = 82;
+const DATA_URL_PATTERN = /^data:image\/[a-zA-Z0-9.+-]+;base64,([A-Za-z0-9+/=]+)$/;
+const DATA_URL_MIGRATION_BATCH_SIZE = 25;
+const DATA_URL_MIGRATION_MAX_PER_RUN = 200;
+
+export class AvatarError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+export class AvatarUserNotFoundError extends AvatarError {}
+export class AvatarImageError extends AvatarError {}
+
+export type SetUserAvatarInput = {
+  userId: string;
+  data: Buffer;
+};
+
+export type AvatarOptions = {
+  storage?: MediaStorage;
+};
+
+export type MigrateDataUrlAvatarsOptions = AvatarOptions & {
+  batchSize?: number;
+  maxPerRun?: number;
+};
+
+const buildAvatarKeys = (avatarKey: string) =>
+  AVATAR_SIZES.map((size) => ({ size, key: `${avatarKey}/${buildAvatarFileName(size)}` }));
+
+/** The URL stored in `photoUrl` for an uploaded avatar. */
+export const buildAvatarUrl = (avatarKey: string, storage: MediaStorage = getMediaStorage()) =>
+  storage.getUrl(`${avatarKey}/${buildAvatarFileName(AVATAR_PRIMARY_SIZE)}`);
+
+/**
+ * Re-encodes an upload as square WebP crops at every avatar size. Orientation
+ * is applied first; EXIF, GPS and other metadata are not carried over.
+ */
+export const processAvatarImage = async (data: Buffer): Promise<Record<AvatarSize, Buffer>> => {
+  try {
+    const source = sharp(data, { failOn: 'error' }).rotate();
+    const images = await Promise.all(
+      AVATAR_SIZES.map((size) =>
+        source
+          .clone()
+          .resize({ width: size, height: size, fit: 'cover', position: 'attention' })
+          .webp({ quality: AVATAR_WEBP_QUALITY })
+          .toBuffer()
+      )
+    );
+    return Object.fromEntries(AVATAR_SIZES.map((size, index) => [size, images[index]])) as Record<AvatarSize, Buffer>;
+  } catch {
+    throw new AvatarImageError('Profile photo could not be read');
+  }
+};
+
+const storeAvatarFiles = async (userId: string, data: Buffer, storage: MediaStorage) => {
+  if (data.length > MAX_AVATAR_IMAGE_BYTES) {
+    throw new AvatarImageError('Profile photo must be 8MB or smaller');
+  }
+
+  const images = await processAvatarImage(data);
+  const avatarKey = `users/${userId}/avatar-${createId()}`;
+  for (const { size, key } of buildAvatarKeys(avatarKey)) {
+    await storage.put(key, images[size], 'image/webp');
+  }
+  return avatarKey;
+};
+
+// Like cover images, files are only removed once the row no longer points at
+// them, so a failed cleanup leaves an orphan rather than a broken avatar.
+export const deleteAvatarFiles = async (avatarKey: string, storage: MediaStorage = getMediaStorage()) => {
+  try {
+    await Promise.all(buildAvatarKeys(avatarKey).map(({ key }) => storage.delete(key)));
+  } catch (error) {
+    console.error('Failed to delete avatar files', { avatarKey, error });
+  }
+};
+
+export const setUserAvatar = async (input: SetUserAvatarInput, options: AvatarOptions = {}) => {
+  const storage = options.storage ?? getMediaStorage();
+  const user = await prisma.user.findUnique({
+    where: { id: input.userId },
+    select: { id: true, avatarKey: true },
+  });
+  if (!user) {
+    throw new AvatarUserNotFoundError('User not found');
+  }
+
+  const avatarKey = await storeAvatarFiles(user.id, input.data, storage);
+  const updatedUser = await prisma.user.update({
+    where: { id: user.id },
+    data: { avatarKey, photoUrl: buildAvatarUrl(avatarKey, storage) },
+  });
+
+  if (user.avatarKey) {
+    await deleteAvatarFiles(user.avatarKey, storage);
+  }
+
+  return updatedUser;
+};
+
+export const removeUserAvatar = async (userId: string, options: AvatarOptions = {}) => {
+  const storage = options.storage ?? getMediaStorage();
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { id: true, avatarKey: true },
+  });
+  if (!user) {
+    throw new AvatarUserNotFoundError('User not found');
+  }
+
+  const updatedUser = await prisma.user.update({
+    where: { id: user.id },
+    data: { avatarKey: null, photoUrl: null },
+  });
+
+  if (user.avatarKey) {
+    await deleteAvatarFiles(user.avatarKey, storage);
+  }
+
+  return updatedUser;
+};
+
+const decodeDataUrl = (value: string) => {
+  const match = DATA_URL_PATTERN.exec(value);
+  return match ? Buffer.from(match[1], 'base64') : null;
+};
+
+/**
+ * Moves profile photos saved as base64 data URLs (the old upload path) into
+ * media storage. Photos that cannot be decoded are cleared so the user falls
+ * back to initials instead of being retried forever.
+ */
+export const migrateDataUrlAvatars = async (options: MigrateDataUrlAvatarsOptions = {}) => {
+  const storage = options.storage ?? getMediaStorage();
+  const batchSize = options.batchSize ?? DATA_URL_MIGRATION_BATCH_SIZE;
+  const maxPerRun = options.maxPerRun ?? DATA_URL_MIGRATION_MAX_PER_RUN;
+  let processed = 0;
+  let migrated = 0;
+  let cleared = 0;
+
+  while (processed < maxPerRun) {
+    const users = await prisma.user.findMany({
+      where: { photoUrl: { startsWith: 'data:' } },
+      select: { id: true, photoUrl: true },
+      orderBy: { id: 'asc' },
+      take: Math.min(batchSize, maxPerRun - processed),
+    });
+    if (users.length === 0) {
+      break;
+    }
+
+    for (const user of users) {
+      processed += 1;
+      const photoUrl = user.photoUrl ?? '';
+      const data = decodeDataUrl(photoUrl);
+      let avatarKey: string | null = null;
+      if (data) {
+        try {
+          avatarKey = await storeAvatarFiles(user.id, data, storage);
+        } catch (error) {
+          if (!(error instanceof AvatarImageError)) {
+            throw error;
+          }
+        }
+      }
+
+      // Only touch rows whose photo is still the one we read, in case the user
+      // uploaded a new avatar while this batch was running.
+      const { count } = await prisma.user.updateMany({
+        where: { id: user.id, photoUrl },
+        data: avatarKey ? { avatarKey, photoUrl: buildAvatarUrl(avatarKey, storage) } : { photoUrl: null },
+      });
+
+      if (count === 0) {
+        if (avatarKey) {
+          await deleteAvatarFiles(avatarKey, storage);
+        }
+        continue;
+      }
+      if (avatarKey) {
+        migrated += 1;
+      } else {
+        console.warn('Cleared unreadable data URL avatar', { userId: user.id });
+        cleared += 1;
+      }
+    }
+  }
+
+  return { migrated, cleared };
+};
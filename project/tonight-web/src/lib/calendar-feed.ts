@@ -0,0 +1,72 @@
+import { randomBytes } from 'node:crypto';
+import { prisma } from '@/lib/prisma';
+import { buildCalendar } from '@/lib/calendar';
+import { buildCalendarFeedUrl } from '@/lib/eventShare';
+import { fetchCalendarEventsForUser, serializeEvent } from '@/lib/events';
+
+const CALENDAR_FEED_TOKEN_BYTES = 24;
+
+export class CalendarFeedUserNotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+export type CalendarFeedLinks = {
+  url: string;
+  webcalUrl: string;
+};
+
+const generateCalendarFeedToken = () => randomBytes(CALENDAR_FEED_TOKEN_BYTES).toString('hex');
+
+export const buildCalendarFeedLinks = (token: string): CalendarFeedLinks => {
+  const url = buildCalendarFeedUrl(token);
+  return {
+    url,
+    webcalUrl: url.replace(/^https?:/, 'webcal:'),
+  };
+};
+
+/** Returns the user's feed links, issuing a token the first time they ask. */
+export const getCalendarFeedLinks = async (userId: string): Promise<CalendarFeedLinks> => {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { calendarFeedToken: true },
+  });
+
+  if (!user) {
+    throw new CalendarFeedUserNotFoundError('User not found');
+  }
+
+  if (user.calendarFeedToken) {
+    return buildCalendarFeedLinks(user.calendarFeedToken);
+  }
+
+  return rotateCalendarFeedToken(userId);
+};
+
+/** Replaces the feed token, so any previously shared feed URL stops working. */
+export const rotateCalendarFeedToken = async (userId: string): Promise<CalendarFeedLinks> => {
+  const token = generateCalendarFeedToken();
+  await prisma.user.update({
+    where: { id: userId },
+    data: { calendarFeedToken: token },
+  });
+  return buildCalendarFeedLinks(token);
+};
+
+/** Renders the feed for `token`, or null when no user owns it. */
+export const renderCalendarFeed = async (token: string): Promise<string | null> => {
+  const user = await prisma.user.findUnique({
+    where: { calendarFeedToken: token },
+    select: { id: true },
+  });
+
+  if (!user) {
+    return null;
+  }
+
+  const records = await fetchCalendarEventsForUser(user.id);
+  return buildCalendar(records.map(serializeEvent), { name: 'Tonight', feed: true });
+};
@@ -0,0 +1,136 @@
+import { resolveEventEnd } from '@/lib/event-timing';
+import { buildEventShareUrl } from '@/lib/eventShare';
+import type { SerializedEvent } from '@/lib/events';
+
+const PRODUCT_ID = '-//Tonight//Events//EN';
+const UID_DOMAIN = 'tonight.app';
+const MAX_LINE_OCTETS = 75;
+// Subscribed calendars poll the feed; this asks clients to refresh hourly.
+const FEED_REFRESH_INTERVAL = 'PT1H';
+
+export const CALENDAR_CONTENT_TYPE = 'text/calendar; charset=utf-8';
+
+export type BuildCalendarOptions = {
+  name?: string;
+  feed?: boolean;
+  generatedAt?: Date;
+};
+
+const textEncoder = new TextEncoder();
+
+/** Escapes a TEXT value per RFC 5545 section 3.3.11. */
+export const escapeCalendarText = (value: string) =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r\n|\r|\n/g, '\\n');
+
+/**
+ * Folds a content line so no physical line exceeds 75 octets. Continuation
+ * lines start with a single space, and multi-byte characters are never split.
+ */
+export const foldCalendarLine = (line: string) => {
+  const segments: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+
+  for (const char of line) {
+    const octets = textEncoder.encode(char).length;
+    const limit = segments.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (currentOctets + octets > limit) {
+      segments.push(current);
+      current = '';
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  segments.push(current);
+
+  return segments.join('\r\n ');
+};
+
+/** Formats a date as a UTC DATE-TIME, e.g. 20300101T200000Z. */
+export const formatCalendarDate = (value: Date | string) => {
+  const date = value instanceof Date ? value : new Date(value);
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+};
+
+const formatCoordinate = (value: number) => Number(value.toFixed(6)).toString();
+
+// Calendar clients only replace an event they already have when SEQUENCE goes
+// up. Seconds since creation grows with every edit without a stored counter.
+const resolveSequence = (event: Pick<SerializedEvent, 'createdAt' | 'updatedAt'>) =>
+  Math.max(0, Math.floor((new Date(event.updatedAt).getTime() - new Date(event.createdAt).getTime()) / 1000));
+
+const buildDescription = (event: SerializedEvent, url: string) => {
+  const parts: string[] = [];
+  if (event.status === 'CANCELLED') {
+    parts.push(event.cancellationReason ? `Cancelled: ${event.cancellationReason}` : 'Cancelled by the host.');
+  }
+  const description = event.description.trim();
+  if (description) {
+    parts.push(description);
+  }
+  parts.push(url);
+  return parts.join('\n\n');
+};
+
+export const buildCalendarEventLines = (event: SerializedEvent, generatedAt: Date = new Date()) => {
+  const url = buildEventShareUrl(event.id);
+  const cancelled = event.status === 'CANCELLED';
+
+  return [
+    'BEGIN:VEVENT',
+    `UID:event-${event.id}@${UID_DOMAIN}`,
+    `DTSTAMP:${formatCalendarDate(generatedAt)}`,
+    `CREATED:${formatCalendarDate(event.createdAt)}`,
+    `LAST-MODIFIED:${formatCalendarDate(event.updatedAt)}`,
+    `SEQUENCE:${resolveSequence(event)}`,
+    `DTSTART:${formatCalendarDate(event.datetime)}`,
+    `DTEND:${formatCalendarDate(resolveEventEnd(event.datetime, event.endDatetime))}`,
+    `SUMMARY:${escapeCalendarText(cancelled ? `Cancelled: ${event.title}` : event.title)}`,
+    `DESCRIPTION:${escapeCalendarText(buildDescription(event, url))}`,
+    `LOCATION:${escapeCalendarText(event.locationName)}`,
+    `GEO:${formatCoordinate(event.location.latitude)};${formatCoordinate(event.location.longitude)}`,
+    `URL:${url}`,
+    `STATUS:${cancelled ? 'CANCELLED' : 'CONFIRMED'}`,
+    'END:VEVENT',
+  ];
+};
+
+/** Builds a complete VCALENDAR document with CRLF line endings. */
+export const buildCalendar = (events: SerializedEvent[], options: BuildCalendarOptions = {}) => {
+  const generatedAt = options.generatedAt ?? new Date();
+  const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', `PRODID:${PRODUCT_ID}`, 'CALSCALE:GREGORIAN', 'METHOD:PUBLISH'];
+
+  if (options.name) {
+    lines.push(`NAME:${escapeCalendarText(options.name)}`, `X-WR-CALNAME:${escapeCalendarText(options.name)}`);
+  }
+
+  if (options.feed) {
+    lines.push(
+      `REFRESH-INTERVAL;VALUE=DURATION:${FEED_REFRESH_INTERVAL}`,
+      `X-PUBLISHED-TTL:${FEED_REFRESH_INTERVAL}`
+    );
+  }
+
+  events.forEach((event) => {
+    lines.push(...buildCalendarEventLines(event, generatedAt));
+  });
+
+  lines.push('END:VCALENDAR');
+
+  return `${lines.map(foldCalendarLine).join('\r\n')}\r\n`;
+};
+
+/** Turns an event title into a safe `.ics` download name. */
+export const buildCalendarFilename = (title: string) => {
+  const slug = title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60);
+  return `${slug || 'event'}.ics`;
+};
@@ -88,3 +88,29 @@ export const CATEGORY_ORDER: (CategoryId | "all")[] = [
   "fitness",
   "social",
 ];
+
+export const CATEGORY_IDS = Object.keys(CATEGORY_DEFINITIONS) as CategoryId[];
+
+export const isCategoryId = (value: unknown): value is CategoryId =>
+  typeof value === "string" && Object.prototype.hasOwnProperty.call(CATEGORY_DEFINITIONS, value);
+
+export const getCategoryLabel = (value: string | null | undefined): string | null => {
+  return isCategoryId(value) ? CATEGORY_DEFINITIONS[value].label : null;
+};
+
+/**
+ * Parses a `categories=` query value (comma separated, repeatable) into known category ids.
+ */
+export const parseCategoriesParam = (values: string[]) => {
+  const requested = values
+    .flatMap((value) => value.split(","))
+    .map((value) => value.trim().toLowerCase())
+    .filter(Boolean);
+
+  const invalid = requested.filter((value) => !isCategoryId(value));
+  if (invalid.length > 0) {
+    return { error: `categories must be a comma separated list of: ${CATEGORY_IDS.join(", ")}` } as const;
+  }
+
+  return { value: Array.from(new Set(requested)) as CategoryId[] } as const;
+};
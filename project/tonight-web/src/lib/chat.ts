@@ -1,4 +1,4 @@
-import { JoinRequestStatus, type Message, type JoinRequest } from '@/generated/prisma/client';
+import { JoinRequestStatus, MessageKind, type Message, type JoinRequest } from '@/generated/prisma/client';
 import { prisma } from '@/lib/prisma';
 import { socketService } from '@/lib/socket';
 import { chatRateLimiter } from '@/lib/chat-rate-limiter';
@@ -25,6 +25,7 @@ export type SerializedMessage = {
   id: string;
   joinRequestId: string;
   senderId: string;
+  kind: MessageKind;
   content: string;
   createdAt: string;
   readBy: SerializedMessageReadReceipt[];
@@ -48,6 +49,8 @@ export type CreateChatMessageInput = ChatAccessInput & {
 
 export type CreateChatMessageOptions = {
   skipRateLimit?: boolean;
+  /** Defaults to USER. SYSTEM marks a notice the app posts for the sender rather than text they wrote. */
+  kind?: MessageKind;
 };
 
 type JoinRequestAccessRecord = {
@@ -67,6 +70,7 @@ const serializeMessage = (
   id: record.id,
   joinRequestId: record.joinRequestId,
   senderId: record.senderId,
+  kind: record.kind,
   content: record.content,
   createdAt: record.createdAt.toISOString(),
   readBy: (record.readBy ?? []).map((entry) => ({
@@ -206,6 +210,7 @@ export const createMessageForJoinRequest = async (
     data: {
       joinRequestId: context.joinRequestId,
       senderId: input.userId,
+      kind: options?.kind ?? MessageKind.USER,
       content,
     },
     include: {
@@ -0,0 +1,27 @@
+export const EVENT_APPROVAL_MODES = ["MANUAL", "AUTOMATIC"] as const;
+
+export type EventApprovalMode = (typeof EVENT_APPROVAL_MODES)[number];
+
+export const DEFAULT_EVENT_APPROVAL_MODE: EventApprovalMode = "MANUAL";
+
+export type EventApprovalModeDefinition = {
+  id: EventApprovalMode;
+  label: string;
+  description: string;
+};
+
+export const EVENT_APPROVAL_MODE_DEFINITIONS: Record<EventApprovalMode, EventApprovalModeDefinition> = {
+  MANUAL: {
+    id: "MANUAL",
+    label: "I approve each request",
+    description: "Guests ask to join and wait for you to say yes.",
+  },
+  AUTOMATIC: {
+    id: "AUTOMATIC",
+    label: "Anyone can join",
+    description: "Guests are in straight away until it fills up, then join the waitlist.",
+  },
+};
+
+export const isEventApprovalMode = (value: unknown): value is EventApprovalMode =>
+  typeof value === "string" && (EVENT_APPROVAL_MODES as readonly string[]).includes(value);
@@ -0,0 +1,171 @@
+import sharp from 'sharp';
+import { createId } from '@paralleldrive/cuid2';
+import { EventStatus } from '@/generated/prisma/client';
+import { prisma } from '@/lib/prisma';
+import { getMediaStorage, type MediaStorage } from '@/lib/media-storage';
+
+export const MAX_COVER_IMAGE_BYTES = 8 * 1024 * 1024;
+
+const COVER_IMAGE_SIZE = { width: 1600, height: 900 };
+const COVER_THUMBNAIL_SIZE = { width: 480, height: 270 };
+const COVER_WEBP_QUALITY = 82;
+const COVER_FILE = 'cover.webp';
+const THUMBNAIL_FILE = 'thumb.webp';
+
+export class EventCoverError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+export class EventCoverEventNotFoundError extends EventCoverError {}
+export class EventCoverUnauthorizedError extends EventCoverError {}
+export class EventCoverInactiveEventError extends EventCoverError {}
+export class EventCoverImageError extends EventCoverError {}
+
+export type EventCoverImage = {
+  url: string;
+  thumbnailUrl: string;
+};
+
+export type SetEventCoverImageInput = {
+  eventId: string;
+  hostId: string;
+  data: Buffer;
+};
+
+export type RemoveEventCoverImageInput = {
+  eventId: string;
+  hostId: string;
+};
+
+export type EventCoverOptions = {
+  storage?: MediaStorage;
+};
+
+const buildCoverKeys = (coverImageKey: string) => ({
+  cover: `${coverImageKey}/${COVER_FILE}`,
+  thumbnail: `${coverImageKey}/${THUMBNAIL_FILE}`,
+});
+
+/** Resolves the stored cover prefix into the URLs clients load. */
+export const buildEventCoverImage = (
+  coverImageKey: string | null | undefined,
+  storage: MediaStorage = getMediaStorage()
+): EventCoverImage | null => {
+  if (!coverImageKey) {
+    return null;
+  }
+  const keys = buildCoverKeys(coverImageKey);
+  return {
+    url: storage.getUrl(keys.cover),
+    thumbnailUrl: storage.getUrl(keys.thumbnail),
+  };
+};
+
+/**
+ * Re-encodes an upload as WebP: a full-width cover that keeps its aspect ratio
+ * and a 16:9 thumbnail for cards. Orientation is applied and EXIF dropped.
+ */
+export const processCoverImage = async (data: Buffer) => {
+  try {
+    const source = sharp(data, { failOn: 'error' }).rotate();
+    const [cover, thumbnail] = await Promise.all([
+      source
+        .clone()
+        .resize({ ...COVER_IMAGE_SIZE, fit: 'inside', withoutEnlargement: true })
+        .webp({ quality: COVER_WEBP_QUALITY })
+        .toBuffer(),
+      source
+        .clone()
+        .resize({ ...COVER_THUMBNAIL_SIZE, fit: 'cover', position: 'attention' })
+        .webp({ quality: COVER_WEBP_QUALITY })
+        .toBuffer(),
+    ]);
+    return { cover, thumbnail };
+  } catch {
+    throw new EventCoverImageError('Cover image could not be read');
+  }
+};
+
+const loadHostedEvent = async (eventId: string, hostId: string) => {
+  const event = await prisma.event.findUnique({
+    where: { id: eventId },
+    select: { id: true, hostId: true, status: true, coverImageKey: true },
+  });
+
+  if (!event) {
+    throw new EventCoverEventNotFoundError('Event not found');
+  }
+
+  if (event.hostId !== hostId) {
+    throw new EventCoverUnauthorizedError('Only the host can change the cover image');
+  }
+
+  if (event.status !== EventStatus.ACTIVE) {
+    throw new EventCoverInactiveEventError('Event is not active');
+  }
+
+  return event;
+};
+
+// Old files are removed after the row points elsewhere, so a failed cleanup
+// only leaves an orphaned file behind rather than a broken image.
+const deleteCoverFiles = async (coverImageKey: string, storage: MediaStorage) => {
+  const keys = buildCoverKeys(coverImageKey);
+  try {
+    await Promise.all([storage.delete(keys.cover), storage.delete(keys.thumbnail)]);
+  } catch (error) {
+    console.error('Failed to delete cover image files', { coverImageKey, error });
+  }
+};
+
+export const setEventCoverImage = async (
+  input: SetEventCoverImageInput,
+  options: EventCoverOptions = {}
+): Promise<EventCoverImage> => {
+  const storage = options.storage ?? getMediaStorage();
+  const event = await loadHostedEvent(input.eventId, input.hostId);
+
+  if (input.data.length > MAX_COVER_IMAGE_BYTES) {
+    throw new EventCoverImageError('Cover image must be 8MB or smaller');
+  }
+
+  const { cover, thumbnail } = await processCoverImage(input.data);
+  const coverImageKey = `events/${event.id}/cover-${createId()}`;
+  const keys = buildCoverKeys(coverImageKey);
+  await storage.put(keys.cover, cover, 'image/webp');
+  await storage.put(keys.thumbnail, thumbnail, 'image/webp');
+
+  await prisma.event.update({
+    where: { id: event.id },
+    data: { coverImageKey },
+  });
+
+  if (event.coverImageKey) {
+    await deleteCoverFiles(event.coverImageKey, storage);
+  }
+
+  return {
+    url: storage.getUrl(keys.cover),
+    thumbnailUrl: storage.getUrl(keys.thumbnail),
+  };
+};
+
+export const removeEventCoverImage = async (
+  input: RemoveEventCoverImageInput,
+  options: EventCoverOptions = {}
+): Promise<void> => {
+  const storage = options.storage ?? getMediaStorage();
+  const event = await loadHostedEvent(input.eventId, input.hostId);
+  if (!event.coverImageKey) {
+    return;
+  }
+
+  await prisma.event.update({
+    where: { id: event.id },
+    data: { coverImageKey: null },
+  });
+  await deleteCoverFiles(event.coverImageKey, storage);
+};
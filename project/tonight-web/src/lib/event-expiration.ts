@@ -1,13 +1,26 @@
 import { EventStatus } from '@/generated/prisma/client';
 import { prisma } from '@/lib/prisma';
+import { getDefaultDurationCutoff } from '@/lib/event-timing';
 
 export const expirePastEvents = async (referenceDate: Date = new Date()) => {
+  // Events expire once they end, not when they start, so guests keep access
+  // while the plan is still happening.
   return prisma.event.updateMany({
     where: {
       status: EventStatus.ACTIVE,
-      datetime: {
-        lt: referenceDate,
-      },
+      OR: [
+        {
+          endDatetime: {
+            lt: referenceDate,
+          },
+        },
+        {
+          endDatetime: null,
+          datetime: {
+            lt: getDefaultDurationCutoff(referenceDate),
+          },
+        },
+      ],
     },
     data: {
       status: EventStatus.EXPIRED,
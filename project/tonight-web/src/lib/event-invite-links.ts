@@ -0,0 +1,291 @@
+import { EventStatus, JoinRequestStatus, type EventInviteLink } from '@/generated/prisma/client';
+import { prisma } from '@/lib/prisma';
+import { generateEventInviteToken, verifyEventInviteToken } from '@/lib/auth';
+import { buildEventInviteLinkUrl } from '@/lib/eventShare';
+import { getEventPhase } from '@/lib/event-timing';
+import {
+  calculateJoinCapacity,
+  serializeJoinRequest,
+  JoinRequestEventFullError,
+  JoinRequestInactiveEventError,
+  type SerializedJoinRequest,
+} from '@/lib/join-requests';
+
+export const DEFAULT_INVITE_LINK_EXPIRATION_HOURS = 72;
+export const MAX_INVITE_LINK_EXPIRATION_HOURS = 14 * 24;
+export const MAX_INVITE_LINK_USES = 50;
+
+export class EventInviteLinkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+export class EventInviteLinkEventNotFoundError extends EventInviteLinkError {}
+export class EventInviteLinkUnauthorizedError extends EventInviteLinkError {}
+export class EventInviteLinkNotFoundError extends EventInviteLinkError {}
+export class EventInviteLinkUnavailableError extends EventInviteLinkError {}
+export class EventInviteLinkHostError extends EventInviteLinkError {}
+export class EventInviteLinkDeclinedError extends EventInviteLinkError {}
+
+export type SerializedEventInviteLink = {
+  id: string;
+  eventId: string;
+  url: string;
+  maxUses: number | null;
+  useCount: number;
+  remainingUses: number | null;
+  expiresAt: string;
+  revokedAt: string | null;
+  createdAt: string;
+};
+
+export type CreateEventInviteLinkInput = {
+  eventId: string;
+  hostId: string;
+  expiresInHours?: number;
+  maxUses?: number | null;
+};
+
+export type ListEventInviteLinksInput = {
+  eventId: string;
+  hostId: string;
+};
+
+export type RevokeEventInviteLinkInput = {
+  eventId: string;
+  inviteLinkId: string;
+  hostId: string;
+};
+
+export type RedeemEventInviteLinkInput = {
+  token: string;
+  userId: string;
+};
+
+export type RedeemEventInviteLinkResult = {
+  joinRequest: SerializedJoinRequest;
+  alreadyAccepted: boolean;
+};
+
+const getRemainingUses = (link: Pick<EventInviteLink, 'maxUses' | 'useCount'>) =>
+  link.maxUses === null ? null : Math.max(link.maxUses - link.useCount, 0);
+
+const describeUnavailableLink = (link: EventInviteLink, now: Date) => {
+  if (link.revokedAt) {
+    return 'This invite link has been revoked';
+  }
+  if (link.expiresAt <= now) {
+    return 'This invite link has expired';
+  }
+  if (getRemainingUses(link) === 0) {
+    return 'This invite link has already been used';
+  }
+  return null;
+};
+
+// The token is re-signed on every read, so hosts can copy an outstanding link
+// again without it ever being stored.
+const serializeEventInviteLink = async (link: EventInviteLink): Promise<SerializedEventInviteLink> => {
+  const token = await generateEventInviteToken({ inviteLinkId: link.id, eventId: link.eventId }, link.expiresAt);
+  return {
+    id: link.id,
+    eventId: link.eventId,
+    url: buildEventInviteLinkUrl(token),
+    maxUses: link.maxUses,
+    useCount: link.useCount,
+    remainingUses: getRemainingUses(link),
+    expiresAt: link.expiresAt.toISOString(),
+    revokedAt: link.revokedAt ? link.revokedAt.toISOString() : null,
+    createdAt: link.createdAt.toISOString(),
+  };
+};
+
+const assertHostOfEvent = async (eventId: string, hostId: string) => {
+  const event = await prisma.event.findUnique({
+    where: { id: eventId },
+    select: { id: true, hostId: true, status: true },
+  });
+
+  if (!event) {
+    throw new EventInviteLinkEventNotFoundError('Event not found');
+  }
+
+  if (event.hostId !== hostId) {
+    throw new EventInviteLinkUnauthorizedError('Only the host can manage invite links for this event');
+  }
+
+  return event;
+};
+
+export const createEventInviteLink = async (
+  input: CreateEventInviteLinkInput
+): Promise<SerializedEventInviteLink> => {
+  const event = await assertHostOfEvent(input.eventId, input.hostId);
+  if (event.status !== EventStatus.ACTIVE) {
+    throw new JoinRequestInactiveEventError('Event is not active');
+  }
+
+  const expiresInHours = input.expiresInHours ?? DEFAULT_INVITE_LINK_EXPIRATION_HOURS;
+  const link = await prisma.eventInviteLink.create({
+    data: {
+      eventId: input.eventId,
+      createdById: input.hostId,
+      maxUses: input.maxUses ?? null,
+      expiresAt: new Date(Date.now() + expiresInHours * 60 * 60 * 1000),
+    },
+  });
+
+  return serializeEventInviteLink(link);
+};
+
+/** Lists links that can still be redeemed, newest first. */
+export const listEventInviteLinks = async (
+  input: ListEventInviteLinksInput
+): Promise<SerializedEventInviteLink[]> => {
+  await assertHostOfEvent(input.eventId, input.hostId);
+
+  const now = new Date();
+  const links = await prisma.eventInviteLink.findMany({
+    where: {
+      eventId: input.eventId,
+      revokedAt: null,
+      expiresAt: { gt: now },
+    },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  return Promise.all(
+    links.filter((link) => !describeUnavailableLink(link, now)).map((link) => serializeEventInviteLink(link))
+  );
+};
+
+export const revokeEventInviteLink = async (
+  input: RevokeEventInviteLinkInput
+): Promise<SerializedEventInviteLink> => {
+  await assertHostOfEvent(input.eventId, input.hostId);
+
+  const link = await prisma.eventInviteLink.findUnique({ where: { id: input.inviteLinkId } });
+  if (!link || link.eventId !== input.eventId) {
+    throw new EventInviteLinkNotFoundError('Invite link not found');
+  }
+
+  if (link.revokedAt) {
+    return serializeEventInviteLink(link);
+  }
+
+  const revoked = await prisma.eventInviteLink.update({
+    where: { id: link.id },
+    data: { revokedAt: new Date() },
+  });
+
+  return serializeEventInviteLink(revoked);
+};
+
+/**
+ * Turns an invite token into an accepted join request for `userId`. A pending
+ * request is accepted in place; guests who were already accepted keep their
+ * request without using up the link.
+ */
+export const redeemEventInviteLink = async (
+  input: RedeemEventInviteLinkInput
+): Promise<RedeemEventInviteLinkResult> => {
+  let claims: Awaited<ReturnType<typeof verifyEventInviteToken>>;
+  try {
+    claims = await verifyEventInviteToken(input.token);
+  } catch {
+    throw new EventInviteLinkNotFoundError('Invite link is invalid or has expired');
+  }
+
+  return prisma.$transaction(async (tx) => {
+    // Lock the event row so concurrent redemptions and host accepts cannot
+    // overfill the event or overspend the link.
+    await tx.$queryRaw`SELECT "id" FROM "Event" WHERE "id" = ${claims.eventId} FOR UPDATE`;
+
+    const link = await tx.eventInviteLink.findUnique({
+      where: { id: claims.inviteLinkId },
+      include: {
+        event: {
+          select: {
+            id: true,
+            hostId: true,
+            status: true,
+            maxParticipants: true,
+            datetime: true,
+            endDatetime: true,
+          },
+        },
+      },
+    });
+
+    if (!link || link.eventId !== claims.eventId) {
+      throw new EventInviteLinkNotFoundError('Invite link is invalid or has expired');
+    }
+
+    if (link.event.hostId === input.userId) {
+      throw new EventInviteLinkHostError('You are hosting this event');
+    }
+
+    const unavailable = describeUnavailableLink(link, new Date());
+    if (unavailable) {
+      throw new EventInviteLinkUnavailableError(unavailable);
+    }
+
+    if (
+      link.event.status !== EventStatus.ACTIVE ||
+      getEventPhase(link.event.datetime, link.event.endDatetime) === 'ENDED'
+    ) {
+      throw new JoinRequestInactiveEventError('Event is not active');
+    }
+
+    const existing = await tx.joinRequest.findUnique({
+      where: {
+        eventId_userId: {
+          eventId: link.eventId,
+          userId: input.userId,
+        },
+      },
+    });
+
+    if (existing?.status === JoinRequestStatus.ACCEPTED) {
+      return { joinRequest: serializeJoinRequest(existing), alreadyAccepted: true };
+    }
+
+    if (existing?.status === JoinRequestStatus.REJECTED) {
+      throw new EventInviteLinkDeclinedError('The host has already declined your request');
+    }
+
+    const acceptedCount = await tx.joinRequest.count({
+      where: {
+        eventId: link.eventId,
+        status: JoinRequestStatus.ACCEPTED,
+      },
+    });
+
+    if (acceptedCount >= calculateJoinCapacity(link.event.maxParticipants)) {
+      throw new JoinRequestEventFullError('Event is already full');
+    }
+
+    const record = existing
+      ? await tx.joinRequest.update({
+          where: { id: existing.id },
+          data: { status: JoinRequestStatus.ACCEPTED, inviteLinkId: link.id, expiryReason: null },
+        })
+      : await tx.joinRequest.create({
+          data: {
+            eventId: link.eventId,
+            userId: input.userId,
+            status: JoinRequestStatus.ACCEPTED,
+            inviteLinkId: link.id,
+          },
+        });
+
+    await tx.eventInviteLink.update({
+      where: { id: link.id },
+      data: { useCount: { increment: 1 } },
+    });
+
+    return { joinRequest: serializeJoinRequest(record), alreadyAccepted: false };
+  });
+};
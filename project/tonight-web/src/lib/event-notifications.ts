@@ -0,0 +1,312 @@
+import { EventStatus, JoinRequestStatus, MessageKind } from '@/generated/prisma/client';
+import { getCategoryLabel } from '@/lib/categories';
+import { createMessageForJoinRequest } from '@/lib/chat';
+import type { EventChange } from '@/lib/events';
+import type { ExpiredJoinRequest, SerializedJoinRequest, WaitlistPromotion } from '@/lib/join-requests';
+import { prisma } from '@/lib/prisma';
+import { socketService } from '@/lib/socket';
+
+export type NotifyAcceptedGuestsInput = {
+  eventId: string;
+  hostId: string;
+  content: string;
+};
+
+const formatEventDatetime = (value: string | number | null) => {
+  if (value === null) {
+    return 'an unscheduled time';
+  }
+
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    return String(value);
+  }
+
+  return `${new Intl.DateTimeFormat('en-US', {
+    dateStyle: 'medium',
+    timeStyle: 'short',
+    timeZone: 'UTC',
+  }).format(date)} UTC`;
+};
+
+const describeChange = (change: EventChange) => {
+  switch (change.field) {
+    case 'title':
+      return `renamed to "${change.next}"`;
+    case 'description':
+      return 'description updated';
+    case 'datetime':
+      return `now starts ${formatEventDatetime(change.next)}`;
+    case 'endDatetime':
+      return change.next ? `now ends ${formatEventDatetime(change.next)}` : 'end time removed';
+    case 'location':
+      return `moved to ${change.next}`;
+    case 'category':
+      return `category is now ${getCategoryLabel(typeof change.next === 'string' ? change.next : null) ?? 'unset'}`;
+    case 'maxParticipants':
+      return `capacity is now ${change.next} people`;
+    default:
+      return null;
+  }
+};
+
+export const formatEventChangeSummary = (changes: EventChange[]) => {
+  const parts = changes.map(describeChange).filter((part): part is string => Boolean(part));
+  if (parts.length === 0) {
+    return null;
+  }
+  return `Event updated: ${parts.join('; ')}.`;
+};
+
+/**
+ * Posts a system notice into every accepted guest's chat and returns the
+ * join request ids that received it. A failure for one guest (for example a block)
+ * is logged and does not stop the remaining deliveries.
+ */
+export const notifyAcceptedGuests = async (input: NotifyAcceptedGuestsInput): Promise<string[]> => {
+  const acceptedJoinRequests = await prisma.joinRequest.findMany({
+    where: {
+      eventId: input.eventId,
+      status: JoinRequestStatus.ACCEPTED,
+    },
+    select: { id: true },
+  });
+
+  const delivered: string[] = [];
+  for (const joinRequest of acceptedJoinRequests) {
+    try {
+      await createMessageForJoinRequest(
+        {
+          joinRequestId: joinRequest.id,
+          userId: input.hostId,
+          content: input.content,
+        },
+        { skipRateLimit: true, kind: MessageKind.SYSTEM }
+      );
+      delivered.push(joinRequest.id);
+    } catch (error) {
+      console.error('Failed to notify accepted guest', { joinRequestId: joinRequest.id, error });
+    }
+  }
+
+  return delivered;
+};
+
+export const notifyEventUpdated = async (
+  event: { id: string; hostId: string; updatedAt: string },
+  changes: EventChange[]
+): Promise<string[]> => {
+  const summary = formatEventChangeSummary(changes);
+  if (!summary) {
+    return [];
+  }
+
+  const delivered = await notifyAcceptedGuests({
+    eventId: event.id,
+    hostId: event.hostId,
+    content: summary,
+  });
+
+  for (const joinRequestId of delivered) {
+    try {
+      socketService.emitEventUpdated({
+        eventId: event.id,
+        joinRequestId,
+        changedFields: changes.map((change) => change.field),
+        status: EventStatus.ACTIVE,
+        summary,
+        updatedAt: event.updatedAt,
+      });
+    } catch (error) {
+      console.error('Failed to emit event update via Socket.IO', error);
+    }
+  }
+
+  return delivered;
+};
+
+export const formatEventCancellationNotice = (reason: string | null) => {
+  return reason ? `Event cancelled by the host: ${reason}` : 'Event cancelled by the host.';
+};
+
+export const notifyEventCancelled = async (
+  event: { id: string; hostId: string; updatedAt: string },
+  reason: string | null,
+  rejectedJoinRequests: Array<{ id: string; userId: string }>
+): Promise<string[]> => {
+  const summary = formatEventCancellationNotice(reason);
+  const delivered = await notifyAcceptedGuests({
+    eventId: event.id,
+    hostId: event.hostId,
+    content: summary,
+  });
+
+  for (const joinRequest of rejectedJoinRequests) {
+    try {
+      socketService.emitJoinRequestStatusChanged({
+        joinRequestId: joinRequest.id,
+        userId: joinRequest.userId,
+        status: JoinRequestStatus.REJECTED,
+        eventId: event.id,
+      });
+    } catch (error) {
+      console.error('Failed to emit join request status change via Socket.IO', error);
+    }
+  }
+
+  const rooms = [...delivered, ...rejectedJoinRequests.map((joinRequest) => joinRequest.id)];
+  for (const joinRequestId of rooms) {
+    try {
+      socketService.emitEventUpdated({
+        eventId: event.id,
+        joinRequestId,
+        changedFields: ['status'],
+        status: EventStatus.CANCELLED,
+        summary,
+        updatedAt: event.updatedAt,
+      });
+    } catch (error) {
+      console.error('Failed to emit event update via Socket.IO', error);
+    }
+  }
+
+  return delivered;
+};
+
+export const WAITLIST_PROMOTION_NOTICE = "A spot opened up, so you're off the waitlist and in. See you there!";
+
+/**
+ * Tells guests they have moved off the waitlist. Accepted guests also get a
+ * host-authored note in their chat; guests moved into the host's pending queue
+ * only get the status change, since their chat is not open yet. Returns the
+ * join request ids that were notified.
+ */
+export const notifyWaitlistPromotions = async (
+  hostId: string,
+  promotions: WaitlistPromotion[]
+): Promise<string[]> => {
+  const delivered: string[] = [];
+  for (const promotion of promotions) {
+    try {
+      socketService.emitJoinRequestStatusChanged({
+        joinRequestId: promotion.id,
+        userId: promotion.userId,
+        status: promotion.status,
+        eventId: promotion.eventId,
+      });
+    } catch (error) {
+      console.error('Failed to emit join request status change via Socket.IO', error);
+    }
+
+    if (promotion.status !== JoinRequestStatus.ACCEPTED) {
+      delivered.push(promotion.id);
+      continue;
+    }
+
+    try {
+      await createMessageForJoinRequest(
+        {
+          joinRequestId: promotion.id,
+          userId: hostId,
+          content: WAITLIST_PROMOTION_NOTICE,
+        },
+        { skipRateLimit: true }
+      );
+      delivered.push(promotion.id);
+    } catch (error) {
+      console.error('Failed to notify promoted guest', { joinRequestId: promotion.id, error });
+    }
+  }
+
+  return delivered;
+};
+
+/**
+ * Tells the host, and any open chat, that a guest has withdrawn. The host
+ * hears it in their event room, since pending and waitlisted guests have no
+ * chat room with them yet.
+ */
+export const notifyJoinRequestWithdrawn = (joinRequest: { id: string; eventId: string; userId: string }) => {
+  try {
+    socketService.emitJoinRequestStatusChanged(
+      {
+        joinRequestId: joinRequest.id,
+        userId: joinRequest.userId,
+        status: JoinRequestStatus.WITHDRAWN,
+        eventId: joinRequest.eventId,
+      },
+      { includeHost: true }
+    );
+  } catch (error) {
+    console.error('Failed to emit join request status change via Socket.IO', error);
+  }
+};
+
+/**
+ * Tells guests their request closed on its own. Their chat never opened, so
+ * the status change is all they get; the event page explains the reason.
+ * Returns the join request ids that were notified.
+ */
+export const notifyJoinRequestsExpired = (expired: ExpiredJoinRequest[]): string[] => {
+  const delivered: string[] = [];
+  for (const joinRequest of expired) {
+    try {
+      socketService.emitJoinRequestStatusChanged({
+        joinRequestId: joinRequest.id,
+        userId: joinRequest.userId,
+        status: JoinRequestStatus.EXPIRED,
+        eventId: joinRequest.eventId,
+      });
+      delivered.push(joinRequest.id);
+    } catch (error) {
+      console.error('Failed to emit join request status change via Socket.IO', error);
+    }
+  }
+
+  return delivered;
+};
+
+/**
+ * Tells guests the host has decided on their request. Accepted guests' pages
+ * reload into the chat, and a guest the host removes sees their chat close.
+ * Returns the join request ids that were notified.
+ */
+export const notifyJoinRequestDecisions = (joinRequests: SerializedJoinRequest[]): string[] => {
+  const delivered: string[] = [];
+  for (const joinRequest of joinRequests) {
+    try {
+      socketService.emitJoinRequestStatusChanged({
+        joinRequestId: joinRequest.id,
+        userId: joinRequest.userId,
+        status: joinRequest.status,
+        eventId: joinRequest.eventId,
+      });
+      delivered.push(joinRequest.id);
+    } catch (error) {
+      console.error('Failed to emit join request status change via Socket.IO', error);
+    }
+  }
+
+  return delivered;
+};
+
+/**
+ * Tells the host a guest has joined without asking, through an instant-join
+ * event or an invite link. The guest's chat is already open, so there is
+ * nothing for the host to approve; they hear about it in their event room.
+ */
+export const notifyInstantJoin = (joinRequest: SerializedJoinRequest) => {
+  try {
+    socketService.emitJoinRequestStatusChanged(
+      {
+        joinRequestId: joinRequest.id,
+        userId: joinRequest.userId,
+        status: JoinRequestStatus.ACCEPTED,
+        eventId: joinRequest.eventId,
+      },
+      { includeHost: true }
+    );
+  } catch (error) {
+    console.error('Failed to emit join request status change via Socket.IO', error);
+  }
+};
@@ -0,0 +1,291 @@
+import {
+  EventStatus,
+  JoinRequestStatus,
+  type EventRecurrenceFrequency,
+  type EventSeries,
+} from '@/generated/prisma/client';
+import { prisma } from '@/lib/prisma';
+import {
+  fetchEventById,
+  fetchEventsInSeries,
+  insertEvent,
+  readEventUpdateResult,
+  serializeEvent,
+  writeEventCancellation,
+  writeEventUpdate,
+  EventCapacityError,
+  EventInactiveError,
+  EventNotFoundError,
+  EventUnauthorizedError,
+  type CancelEventInput,
+  type CancelEventResult,
+  type CreateEventInput,
+  type EventRecordWithHost,
+  type SerializedEvent,
+  type UpdateEventInput,
+  type UpdateEventResult,
+} from '@/lib/events';
+import { calculateJoinCapacity } from '@/lib/join-requests';
+import { addZonedDays, getZonedWeekday, DEFAULT_TIME_ZONE } from '@/lib/time-windows';
+
+export const EVENT_RECURRENCE_FREQUENCIES = ['WEEKLY', 'BIWEEKLY', 'CUSTOM'] as const satisfies readonly EventRecurrenceFrequency[];
+
+/** Upper bound on occurrences, whatever the end date. */
+export const MAX_SERIES_OCCURRENCES = 26;
+/** How far past the first occurrence a series may run. */
+export const MAX_SERIES_SPAN_DAYS = 183;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class EventSeriesError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+export class EventNotInSeriesError extends EventSeriesError {}
+
+export const isEventRecurrenceFrequency = (value: unknown): value is EventRecurrenceFrequency =>
+  typeof value === 'string' && (EVENT_RECURRENCE_FREQUENCIES as readonly string[]).includes(value);
+
+export type RecurrenceRule = {
+  frequency: EventRecurrenceFrequency;
+  /** Only read for CUSTOM; weekly rules repeat on the first occurrence's weekday. */
+  weekdays: number[];
+  until: Date;
+  timeZone: string;
+};
+
+export type SerializedEventSeries = {
+  id: string;
+  frequency: EventRecurrenceFrequency;
+  weekdays: number[];
+  until: string;
+  timeZone: string;
+  occurrences: Array<{ id: string; datetime: string }>;
+};
+
+export type CreateEventSeriesResult = {
+  event: SerializedEvent;
+  series: SerializedEventSeries;
+};
+
+const resolveWeekdays = (start: Date, rule: RecurrenceRule): number[] => {
+  if (rule.frequency !== 'CUSTOM') {
+    return [getZonedWeekday(start, rule.timeZone)];
+  }
+  return [...new Set(rule.weekdays)].sort((a, b) => a - b);
+};
+
+/**
+ * Start times for every occurrence, beginning with `start` itself. Later
+ * occurrences keep the same local start time in the rule's time zone.
+ */
+export const buildOccurrenceStarts = (start: Date, rule: RecurrenceRule): Date[] => {
+  const starts = [start];
+  const weekdays = resolveWeekdays(start, rule);
+  if (weekdays.length === 0) {
+    return starts;
+  }
+
+  const intervalWeeks = rule.frequency === 'BIWEEKLY' ? 2 : 1;
+  const startWeekday = getZonedWeekday(start, rule.timeZone);
+
+  for (let week = 0; ; week += intervalWeeks) {
+    for (const weekday of weekdays) {
+      const offsetDays = week * 7 + weekday - startWeekday;
+      if (offsetDays <= 0) {
+        continue;
+      }
+
+      const occurrence = addZonedDays(start, offsetDays, rule.timeZone);
+      if (occurrence > rule.until || starts.length >= MAX_SERIES_OCCURRENCES) {
+        return starts;
+      }
+      starts.push(occurrence);
+    }
+  }
+};
+
+const serializeEventSeries = (series: EventSeries, events: EventRecordWithHost[]): SerializedEventSeries => ({
+  id: series.id,
+  frequency: series.frequency,
+  weekdays: series.weekdays,
+  until: series.until.toISOString(),
+  timeZone: series.timeZone,
+  occurrences: events.map((event) => ({ id: event.id, datetime: event.datetime.toISOString() })),
+});
+
+/** Creates the series and all of its occurrences together; `event` is the first occurrence. */
+export const createEventSeries = async (
+  input: CreateEventInput,
+  rule: RecurrenceRule
+): Promise<CreateEventSeriesResult> => {
+  const starts = buildOccurrenceStarts(input.datetime, rule);
+  const durationMs = input.endDatetime ? input.endDatetime.getTime() - input.datetime.getTime() : null;
+
+  const series = await prisma.$transaction(async (tx) => {
+    const created = await tx.eventSeries.create({
+      data: {
+        hostId: input.hostId,
+        frequency: rule.frequency,
+        weekdays: resolveWeekdays(input.datetime, rule),
+        until: rule.until,
+        timeZone: rule.timeZone,
+      },
+    });
+
+    for (const datetime of starts) {
+      await insertEvent(tx, {
+        ...input,
+        datetime,
+        endDatetime: durationMs === null ? null : new Date(datetime.getTime() + durationMs),
+        seriesId: created.id,
+      });
+    }
+
+    return created;
+  });
+
+  const records = await fetchEventsInSeries(series.id);
+  if (records.length === 0) {
+    throw new Error('Created series has no events');
+  }
+
+  return { event: serializeEvent(records[0]), series: serializeEventSeries(series, records) };
+};
+
+// "The whole series" means the given occurrence and every active one after it;
+// past occurrences keep what actually happened.
+const findRemainingOccurrences = async (seriesId: string, from: Date) => {
+  return prisma.eventSeries.findUnique({
+    where: { id: seriesId },
+    select: {
+      timeZone: true,
+      events: {
+        where: { status: EventStatus.ACTIVE, datetime: { gte: from } },
+        select: {
+          id: true,
+          datetime: true,
+          _count: { select: { joinRequests: { where: { status: JoinRequestStatus.ACCEPTED } } } },
+        },
+        orderBy: { datetime: 'asc' },
+      },
+    },
+  });
+};
+
+/**
+ * Applies an edit of one occurrence to it and every later occurrence. A new
+ * start time moves each occurrence by the same number of days and to the same
+ * local time, and a new duration applies to all of them. Every occurrence is
+ * written in one transaction, so a failure leaves the series as it was.
+ */
+export const updateEventSeries = async (input: UpdateEventInput): Promise<UpdateEventResult[]> => {
+  const existing = await fetchEventById(input.eventId);
+  if (!existing) {
+    throw new EventNotFoundError('Event not found');
+  }
+
+  if (existing.hostId !== input.hostId) {
+    throw new EventUnauthorizedError('Only the host can edit this event');
+  }
+
+  if (existing.status !== EventStatus.ACTIVE) {
+    throw new EventInactiveError('Event is not active');
+  }
+
+  if (!existing.seriesId) {
+    throw new EventNotInSeriesError('This event does not repeat');
+  }
+
+  const series = await findRemainingOccurrences(existing.seriesId, existing.datetime);
+  const occurrences = series?.events ?? [];
+
+  // Fails fast before any writes. Each occurrence is checked again under its
+  // lock, and one that filled up since rolls the whole series back.
+  const mostAccepted = Math.max(0, ...occurrences.map((occurrence) => occurrence._count.joinRequests));
+  if (mostAccepted > calculateJoinCapacity(input.maxParticipants)) {
+    throw new EventCapacityError(
+      `maxParticipants cannot be lower than ${mostAccepted + 1} (accepted guests plus the host)`
+    );
+  }
+
+  const timeZone = series?.timeZone ?? DEFAULT_TIME_ZONE;
+  const durationMs = input.endDatetime ? input.endDatetime.getTime() - input.datetime.getTime() : null;
+  const previousRecords: EventRecordWithHost[] = [];
+  for (const occurrence of occurrences) {
+    const record = await fetchEventById(occurrence.id);
+    if (!record) {
+      throw new EventNotFoundError('Event not found');
+    }
+    previousRecords.push(record);
+  }
+
+  await prisma.$transaction(async (tx) => {
+    for (const previous of previousRecords) {
+      const daysFromEdited = Math.round((previous.datetime.getTime() - existing.datetime.getTime()) / DAY_MS);
+      const datetime = addZonedDays(input.datetime, daysFromEdited, timeZone);
+      await writeEventUpdate(tx, previous, {
+        ...input,
+        eventId: previous.id,
+        datetime,
+        endDatetime: durationMs === null ? null : new Date(datetime.getTime() + durationMs),
+      });
+    }
+  });
+
+  const results: UpdateEventResult[] = [];
+  for (const previous of previousRecords) {
+    results.push(await readEventUpdateResult(previous));
+  }
+
+  return results;
+};
+
+/** Cancels the given occurrence and every later one that is still active, all or nothing. */
+export const cancelEventSeries = async (input: CancelEventInput): Promise<CancelEventResult[]> => {
+  const event = await prisma.event.findUnique({
+    where: { id: input.eventId },
+    select: { hostId: true, status: true, seriesId: true, datetime: true },
+  });
+
+  if (!event) {
+    throw new EventNotFoundError('Event not found');
+  }
+
+  if (event.hostId !== input.hostId) {
+    throw new EventUnauthorizedError('Only the host can cancel this event');
+  }
+
+  if (event.status !== EventStatus.ACTIVE) {
+    throw new EventInactiveError('Event is not active');
+  }
+
+  if (!event.seriesId) {
+    throw new EventNotInSeriesError('This event does not repeat');
+  }
+
+  const series = await findRemainingOccurrences(event.seriesId, event.datetime);
+  const occurrences = series?.events ?? [];
+
+  const rejectedPerOccurrence = await prisma.$transaction(async (tx) => {
+    const rejected: CancelEventResult['rejectedJoinRequests'][] = [];
+    for (const occurrence of occurrences) {
+      rejected.push(await writeEventCancellation(tx, { ...input, eventId: occurrence.id }));
+    }
+    return rejected;
+  });
+
+  const results: CancelEventResult[] = [];
+  for (const [index, occurrence] of occurrences.entries()) {
+    const record = await fetchEventById(occurrence.id);
+    if (!record) {
+      throw new EventNotFoundError('Event not found');
+    }
+    results.push({ event: serializeEvent(record), rejectedJoinRequests: rejectedPerOccurrence[index] });
+  }
+
+  return results;
+};
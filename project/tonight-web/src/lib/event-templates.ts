@@ -0,0 +1,163 @@
+import type { EventTemplate } from '@/generated/prisma/client';
+import { prisma } from '@/lib/prisma';
+import { isCategoryId, type CategoryId } from '@/lib/categories';
+import { fetchEventById } from '@/lib/events';
+import type { EventVisibility } from '@/lib/event-visibility';
+
+export const MAX_EVENT_TEMPLATES_PER_HOST = 20;
+
+export class EventTemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+export class EventTemplateNotFoundError extends EventTemplateError {}
+export class EventTemplateLimitError extends EventTemplateError {}
+export class EventTemplateEventNotFoundError extends EventTemplateError {}
+export class EventTemplateUnauthorizedError extends EventTemplateError {}
+
+/** The parts of an event the create form can be pre-filled with. */
+export type EventTemplateFields = {
+  title: string;
+  description: string;
+  durationMinutes: number | null;
+  location: { latitude: number; longitude: number } | null;
+  locationName: string | null;
+  category: CategoryId | null;
+  maxParticipants: number;
+  visibility: EventVisibility;
+};
+
+export type SerializedEventTemplate = EventTemplateFields & {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type HostAgainDraft = {
+  template: EventTemplateFields;
+  /** When the original started, so the form can suggest the same slot again. */
+  previousDatetime: string;
+};
+
+export type SaveEventTemplateInput = {
+  hostId: string;
+  name: string;
+  fields: EventTemplateFields;
+};
+
+export type DeleteEventTemplateInput = {
+  hostId: string;
+  templateId: string;
+};
+
+const serializeEventTemplate = (template: EventTemplate): SerializedEventTemplate => ({
+  id: template.id,
+  name: template.name,
+  title: template.title,
+  description: template.description,
+  durationMinutes: template.durationMinutes,
+  location:
+    template.latitude !== null && template.longitude !== null
+      ? { latitude: template.latitude, longitude: template.longitude }
+      : null,
+  locationName: template.locationName,
+  category: isCategoryId(template.category) ? template.category : null,
+  maxParticipants: template.maxParticipants,
+  visibility: template.visibility,
+  createdAt: template.createdAt.toISOString(),
+  updatedAt: template.updatedAt.toISOString(),
+});
+
+const toTemplateData = (fields: EventTemplateFields) => ({
+  title: fields.title,
+  description: fields.description,
+  durationMinutes: fields.durationMinutes,
+  latitude: fields.location?.latitude ?? null,
+  longitude: fields.location?.longitude ?? null,
+  locationName: fields.locationName,
+  category: fields.category,
+  maxParticipants: fields.maxParticipants,
+  visibility: fields.visibility,
+});
+
+export const listEventTemplates = async (hostId: string): Promise<SerializedEventTemplate[]> => {
+  const templates = await prisma.eventTemplate.findMany({
+    where: { hostId },
+    orderBy: { updatedAt: 'desc' },
+  });
+  return templates.map(serializeEventTemplate);
+};
+
+/** Saving under an existing name replaces that template rather than adding another. */
+export const saveEventTemplate = async (input: SaveEventTemplateInput): Promise<SerializedEventTemplate> => {
+  const data = toTemplateData(input.fields);
+  const existing = await prisma.eventTemplate.findUnique({
+    where: { hostId_name: { hostId: input.hostId, name: input.name } },
+    select: { id: true },
+  });
+
+  if (existing) {
+    const template = await prisma.eventTemplate.update({ where: { id: existing.id }, data });
+    return serializeEventTemplate(template);
+  }
+
+  const count = await prisma.eventTemplate.count({ where: { hostId: input.hostId } });
+  if (count >= MAX_EVENT_TEMPLATES_PER_HOST) {
+    throw new EventTemplateLimitError(
+      `You can keep up to ${MAX_EVENT_TEMPLATES_PER_HOST} templates. Delete one to save another.`
+    );
+  }
+
+  const template = await prisma.eventTemplate.create({
+    data: { hostId: input.hostId, name: input.name, ...data },
+  });
+  return serializeEventTemplate(template);
+};
+
+export const deleteEventTemplate = async (input: DeleteEventTemplateInput): Promise<void> => {
+  const template = await prisma.eventTemplate.findUnique({
+    where: { id: input.templateId },
+    select: { id: true, hostId: true },
+  });
+
+  // Other hosts' templates look missing rather than forbidden.
+  if (!template || template.hostId !== input.hostId) {
+    throw new EventTemplateNotFoundError('Template not found');
+  }
+
+  await prisma.eventTemplate.delete({ where: { id: template.id } });
+};
+
+/** "Host again": the fields of one of the host's own events, ready for the create form. */
+export const buildEventTemplateFromEvent = async (eventId: string, hostId: string): Promise<HostAgainDraft> => {
+  const record = await fetchEventById(eventId);
+  if (!record) {
+    throw new EventTemplateEventNotFoundError('Event not found');
+  }
+
+  if (record.hostId !== hostId) {
+    throw new EventTemplateUnauthorizedError('Only the host can reuse this event');
+  }
+
+  const durationMinutes = record.endDatetime
+    ? Math.round((record.endDatetime.getTime() - record.datetime.getTime()) / (60 * 1000))
+    : null;
+
+  return {
+    template: {
+      title: record.title,
+      description: record.description,
+      durationMinutes,
+      location: { latitude: Number(record.latitude), longitude: Number(record.longitude) },
+      locationName: record.locationName,
+      category: isCategoryId(record.category) ? record.category : null,
+      maxParticipants: record.maxParticipants,
+      visibility: record.visibility,
+    },
+    previousDatetime: record.datetime.toISOString(),
+  };
+};
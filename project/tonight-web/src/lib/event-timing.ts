@@ -0,0 +1,43 @@
+import { Prisma } from '@/generated/prisma/client';
+
+/** Events without an explicit end are treated as lasting this long. */
+export const DEFAULT_EVENT_DURATION_MINUTES = 180;
+export const MAX_EVENT_DURATION_MINUTES = 24 * 60;
+
+const MINUTE_MS = 60 * 1000;
+
+export type EventPhase = 'UPCOMING' | 'IN_PROGRESS' | 'ENDED';
+
+const toDate = (value: Date | string) => (value instanceof Date ? value : new Date(value));
+
+export const resolveEventEnd = (start: Date | string, end?: Date | string | null): Date => {
+  if (end) {
+    return toDate(end);
+  }
+  return new Date(toDate(start).getTime() + DEFAULT_EVENT_DURATION_MINUTES * MINUTE_MS);
+};
+
+export const getEventPhase = (
+  start: Date | string,
+  end?: Date | string | null,
+  referenceDate: Date = new Date()
+): EventPhase => {
+  const now = referenceDate.getTime();
+  if (toDate(start).getTime() > now) {
+    return 'UPCOMING';
+  }
+  return resolveEventEnd(start, end).getTime() > now ? 'IN_PROGRESS' : 'ENDED';
+};
+
+/**
+ * Latest start time an event without an explicit end can have and still be
+ * considered over at `referenceDate`.
+ */
+export const getDefaultDurationCutoff = (referenceDate: Date = new Date()) => {
+  return new Date(referenceDate.getTime() - DEFAULT_EVENT_DURATION_MINUTES * MINUTE_MS);
+};
+
+/** SQL expression for an event's effective end, for use against the `e` alias. */
+export const EVENT_END_SQL = Prisma.sql`COALESCE(e."endDatetime", e."datetime" + ${Prisma.raw(
+  `INTERVAL '${DEFAULT_EVENT_DURATION_MINUTES} minutes'`
+)})`;
@@ -0,0 +1,32 @@
+export const EVENT_VISIBILITIES = ["PUBLIC", "UNLISTED", "INVITE_ONLY"] as const;
+
+export type EventVisibility = (typeof EVENT_VISIBILITIES)[number];
+
+export const DEFAULT_EVENT_VISIBILITY: EventVisibility = "PUBLIC";
+
+export type EventVisibilityDefinition = {
+  id: EventVisibility;
+  label: string;
+  description: string;
+};
+
+export const EVENT_VISIBILITY_DEFINITIONS: Record<EventVisibility, EventVisibilityDefinition> = {
+  PUBLIC: {
+    id: "PUBLIC",
+    label: "Public",
+    description: "Anyone nearby can find it and ask to join.",
+  },
+  UNLISTED: {
+    id: "UNLISTED",
+    label: "Unlisted",
+    description: "Hidden from discovery. Anyone with the link can view it and ask to join.",
+  },
+  INVITE_ONLY: {
+    id: "INVITE_ONLY",
+    label: "Invite only",
+    description: "Only people you invite can see it and ask to join.",
+  },
+};
+
+export const isEventVisibility = (value: unknown): value is EventVisibility =>
+  typeof value === "string" && (EVENT_VISIBILITIES as readonly string[]).includes(value);
@@ -16,6 +16,10 @@ const resolveShareOrigin = () => {
 
 export const buildEventShareUrl = (eventId: string) => `${resolveShareOrigin()}/events/${eventId}`;
 
+export const buildEventInviteLinkUrl = (token: string) => `${resolveShareOrigin()}/invite/${token}`;
+
+export const buildCalendarFeedUrl = (token: string) => `${resolveShareOrigin()}/api/calendar/${token}`;
+
 export const buildEventInviteShareText = ({ title, startDateISO, locationName }: EventShareDetails) => {
   const parts: string[] = [`Join me at "${title}"`];
   const when = formatEventShareMoment(startDateISO);
@@ -1,6 +1,25 @@
-import { Prisma, EventStatus } from '@/generated/prisma/client';
+import { Prisma, EventStatus, JoinRequestStatus } from '@/generated/prisma/client';
 import { prisma } from '@/lib/prisma';
 import { createId } from '@paralleldrive/cuid2';
+import { isCategoryId, type CategoryId } from '@/lib/categories';
+import { calculateJoinCapacity } from '@/lib/join-requests';
+import { EVENT_END_SQL, getEventPhase, type EventPhase } from '@/lib/event-timing';
+import { DEFAULT_EVENT_APPROVAL_MODE, type EventApprovalMode } from '@/lib/event-approval';
+import { DEFAULT_EVENT_VISIBILITY, type EventVisibility } from '@/lib/event-visibility';
+import { buildEventCoverImage, type EventCoverImage } from '@/lib/event-covers';
+import type { JoinQuestion } from '@/lib/join-questions';
+
+export class EventError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+export class EventNotFoundError extends EventError {}
+export class EventUnauthorizedError extends EventError {}
+export class EventInactiveError extends EventError {}
+export class EventCapacityError extends EventError {}
 
 const EARTH_SRID = 4326;
 
@@ -27,9 +46,20 @@ export type EventRecordWithHost = {
   title: string;
   description: string;
   datetime: Date;
+  endDatetime: Date | null;
   locationName: string;
+  category: string | null;
   maxParticipants: number;
   status: EventStatus;
+  visibility: EventVisibility;
+  approvalMode: EventApprovalMode;
+  cancelledAt: Date | null;
+  cancellationReason: string | null;
+  waitlistAutoAccept: boolean;
+  joinRequestCutoffMinutes: number | null;
+  joinRequestTimeoutHours: number | null;
+  coverImageKey: string | null;
+  seriesId: string | null;
   hostId: string;
   createdAt: Date;
   updatedAt: Date;
@@ -46,13 +76,30 @@ export type SerializedEvent = {
   title: string;
   description: string;
   datetime: string;
+  endDatetime: string | null;
+  phase: EventPhase;
   location: {
     latitude: number;
     longitude: number;
   };
   locationName: string;
+  category: CategoryId | null;
   maxParticipants: number;
   status: EventStatus;
+  visibility: EventVisibility;
+  /** AUTOMATIC accepts guests on arrival while there is room. */
+  approvalMode: EventApprovalMode;
+  cancelledAt: string | null;
+  cancellationReason: string | null;
+  /** Whether a freed spot goes straight to the next waitlisted guest. */
+  waitlistAutoAccept: boolean;
+  /** Minutes before the start that requests close; null keeps them open. */
+  joinRequestCutoffMinutes: number | null;
+  /** Hours a request may wait for the host before it closes; null for no limit. */
+  joinRequestTimeoutHours: number | null;
+  coverImage: EventCoverImage | null;
+  /** Shared by every occurrence of a recurring event. */
+  seriesId: string | null;
   host: {
     id: string;
     email: string;
@@ -69,10 +116,55 @@ export type CreateEventInput = {
   title: string;
   description: string;
   datetime: Date;
+  endDatetime?: Date | null;
   latitude: number;
   longitude: number;
   locationName: string;
+  category?: CategoryId | null;
   maxParticipants: number;
+  visibility?: EventVisibility;
+  approvalMode?: EventApprovalMode;
+  waitlistAutoAccept?: boolean;
+  joinRequestCutoffMinutes?: number | null;
+  joinRequestTimeoutHours?: number | null;
+  seriesId?: string | null;
+  /** Left out of an update, the event keeps the questions it has. */
+  joinQuestions?: JoinQuestion[];
+};
+
+export type UpdateEventInput = CreateEventInput & {
+  eventId: string;
+};
+
+export type EventChangeField =
+  | 'title'
+  | 'description'
+  | 'datetime'
+  | 'endDatetime'
+  | 'location'
+  | 'category'
+  | 'maxParticipants';
+
+export type EventChange = {
+  field: EventChangeField;
+  previous: string | number | null;
+  next: string | number | null;
+};
+
+export type UpdateEventResult = {
+  event: SerializedEvent;
+  changes: EventChange[];
+};
+
+export type CancelEventInput = {
+  eventId: string;
+  hostId: string;
+  reason: string | null;
+};
+
+export type CancelEventResult = {
+  event: SerializedEvent;
+  rejectedJoinRequests: Array<{ id: string; userId: string }>;
 };
 
 const EVENT_SELECT_FRAGMENT = Prisma.sql`
@@ -80,9 +172,20 @@ const EVENT_SELECT_FRAGMENT = Prisma.sql`
   e."title",
   e."description",
   e."datetime",
+  e."endDatetime",
   e."locationName",
+  e."category",
   e."maxParticipants",
   e."status",
+  e."visibility",
+  e."approvalMode",
+  e."cancelledAt",
+  e."cancellationReason",
+  e."waitlistAutoAccept",
+  e."joinRequestCutoffMinutes",
+  e."joinRequestTimeoutHours",
+  e."coverImageKey",
+  e."seriesId",
   e."hostId",
   e."createdAt",
   e."updatedAt",
@@ -105,9 +208,20 @@ export const fetchEventById = async (eventId: string): Promise<EventRecordWithHo
       e."title",
       e."description",
       e."datetime",
+      e."endDatetime",
       e."locationName",
+      e."category",
       e."maxParticipants",
       e."status",
+      e."visibility",
+      e."approvalMode",
+      e."cancelledAt",
+      e."cancellationReason",
+      e."waitlistAutoAccept",
+      e."joinRequestCutoffMinutes",
+      e."joinRequestTimeoutHours",
+      e."coverImageKey",
+      e."seriesId",
       e."hostId",
       e."createdAt",
       e."updatedAt",
@@ -126,19 +240,75 @@ export const fetchEventById = async (eventId: string): Promise<EventRecordWithHo
   return records[0] ?? null;
 };
 
+const CALENDAR_FEED_LOOKBACK_DAYS = 30;
+const CALENDAR_FEED_LIMIT = 500;
+
+/**
+ * Events a user hosts or has been accepted to, for their calendar feed.
+ * Cancelled events stay in so subscribed calendars can mark them cancelled.
+ */
+export const fetchCalendarEventsForUser = async (
+  userId: string,
+  referenceDate: Date = new Date()
+): Promise<EventRecordWithHost[]> => {
+  const since = new Date(referenceDate.getTime() - CALENDAR_FEED_LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+
+  return prisma.$queryRaw<EventRecordWithHost[]>`
+    SELECT ${EVENT_SELECT_FRAGMENT}
+    FROM "Event" e
+    JOIN "User" u ON u."id" = e."hostId"
+    WHERE (
+      e."hostId" = ${userId}
+      OR EXISTS (
+        SELECT 1
+        FROM "JoinRequest" jr
+        WHERE jr."eventId" = e."id"
+          AND jr."userId" = ${userId}
+          AND jr."status" = 'ACCEPTED'
+      )
+    )
+      AND ${EVENT_END_SQL} >= ${since}
+    ORDER BY e."datetime" ASC
+    LIMIT ${CALENDAR_FEED_LIMIT}
+  `;
+};
+
+/** Every occurrence of a series, earliest first. */
+export const fetchEventsInSeries = async (seriesId: string): Promise<EventRecordWithHost[]> => {
+  return prisma.$queryRaw<EventRecordWithHost[]>`
+    SELECT ${EVENT_SELECT_FRAGMENT}
+    FROM "Event" e
+    JOIN "User" u ON u."id" = e."hostId"
+    WHERE e."seriesId" = ${seriesId}
+    ORDER BY e."datetime" ASC
+  `;
+};
+
 export const serializeEvent = (record: EventRecordWithHost): SerializedEvent => {
   return {
     id: record.id,
     title: record.title,
     description: record.description,
     datetime: record.datetime.toISOString(),
+    endDatetime: record.endDatetime ? record.endDatetime.toISOString() : null,
+    phase: getEventPhase(record.datetime, record.endDatetime),
     location: {
       latitude: toNumber(record.latitude),
       longitude: toNumber(record.longitude),
     },
     locationName: record.locationName,
+    category: isCategoryId(record.category) ? record.category : null,
     maxParticipants: record.maxParticipants,
     status: record.status,
+    visibility: record.visibility,
+    approvalMode: record.approvalMode ?? DEFAULT_EVENT_APPROVAL_MODE,
+    cancelledAt: record.cancelledAt ? record.cancelledAt.toISOString() : null,
+    cancellationReason: record.cancellationReason ?? null,
+    waitlistAutoAccept: record.waitlistAutoAccept ?? true,
+    joinRequestCutoffMinutes: record.joinRequestCutoffMinutes ?? null,
+    joinRequestTimeoutHours: record.joinRequestTimeoutHours ?? null,
+    coverImage: buildEventCoverImage(record.coverImageKey),
+    seriesId: record.seriesId ?? null,
     host: {
       id: record.hostId,
       email: record.hostEmail,
@@ -151,7 +321,71 @@ export const serializeEvent = (record: EventRecordWithHost): SerializedEvent =>
   };
 };
 
-export const createEvent = async (input: CreateEventInput): Promise<SerializedEvent> => {
+/**
+ * Public and unlisted events are open to anyone with the link. Invite-only
+ * events are limited to the host, invited users, and anyone who already has a
+ * join request from before the host restricted the event.
+ */
+// Closed requests (rejected, withdrawn or expired) no longer open an invite-only event.
+const VIEWABLE_JOIN_REQUEST_STATUSES: JoinRequestStatus[] = [
+  JoinRequestStatus.PENDING,
+  JoinRequestStatus.ACCEPTED,
+  JoinRequestStatus.WAITLISTED,
+];
+
+export const canViewEvent = async (
+  event: Pick<EventRecordWithHost, 'id' | 'hostId' | 'visibility'>,
+  viewerId: string | null
+): Promise<boolean> => {
+  if (event.visibility !== 'INVITE_ONLY') {
+    return true;
+  }
+
+  if (!viewerId) {
+    return false;
+  }
+
+  if (event.hostId === viewerId) {
+    return true;
+  }
+
+  const [invite, joinRequest] = await Promise.all([
+    prisma.eventInviteLog.findUnique({
+      where: { eventId_inviteeId: { eventId: event.id, inviteeId: viewerId } },
+      select: { id: true },
+    }),
+    prisma.joinRequest.findUnique({
+      where: { eventId_userId: { eventId: event.id, userId: viewerId } },
+      select: { status: true },
+    }),
+  ]);
+
+  return Boolean(invite) || (joinRequest !== null && VIEWABLE_JOIN_REQUEST_STATUSES.includes(joinRequest.status));
+};
+
+type EventInsertClient = Pick<Prisma.TransactionClient, '$queryRaw' | 'eventJoinQuestion'>;
+
+const insertJoinQuestions = async (client: EventInsertClient, eventId: string, questions: JoinQuestion[]) => {
+  if (questions.length === 0) {
+    return;
+  }
+
+  await client.eventJoinQuestion.createMany({
+    data: questions.map((question, position) => ({
+      eventId,
+      position,
+      kind: question.kind,
+      prompt: question.prompt,
+      options: question.options,
+    })),
+  });
+};
+
+/**
+ * Inserts the event row without reading it back, so series creation can add
+ * every occurrence inside one transaction.
+ */
+export const insertEvent = async (client: EventInsertClient, input: CreateEventInput): Promise<string> => {
   // Validate coordinates before using them
   if (!Number.isFinite(input.latitude) || !Number.isFinite(input.longitude)) {
     throw new Error(
@@ -168,16 +402,24 @@ export const createEvent = async (input: CreateEventInput): Promise<SerializedEv
   const eventId = createId();
   const now = new Date();
 
-  const inserted = await prisma.$queryRaw<Array<{ id: string }>>`
+  const inserted = await client.$queryRaw<Array<{ id: string }>>`
     INSERT INTO "Event" (
       "id",
       "title",
       "description",
       "datetime",
+      "endDatetime",
       "location",
       "locationName",
+      "category",
       "maxParticipants",
       "status",
+      "visibility",
+      "approvalMode",
+      "waitlistAutoAccept",
+      "joinRequestCutoffMinutes",
+      "joinRequestTimeoutHours",
+      "seriesId",
       "hostId",
       "createdAt",
       "updatedAt"
@@ -187,10 +429,18 @@ export const createEvent = async (input: CreateEventInput): Promise<SerializedEv
       ${input.title},
       ${input.description},
       ${input.datetime},
+      ${input.endDatetime ?? null},
       ST_SetSRID(ST_MakePoint(${input.longitude}, ${input.latitude}), ${EARTH_SRID})::geography,
       ${input.locationName},
+      ${input.category ?? null},
       ${input.maxParticipants},
       ${EventStatus.ACTIVE},
+      ${input.visibility ?? DEFAULT_EVENT_VISIBILITY},
+      ${input.approvalMode ?? DEFAULT_EVENT_APPROVAL_MODE},
+      ${input.waitlistAutoAccept ?? true},
+      ${input.joinRequestCutoffMinutes ?? null},
+      ${input.joinRequestTimeoutHours ?? null},
+      ${input.seriesId ?? null},
       ${input.hostId},
       ${now},
       ${now}
@@ -202,6 +452,14 @@ export const createEvent = async (input: CreateEventInput): Promise<SerializedEv
     throw new Error('Failed to create event');
   }
 
+  await insertJoinQuestions(client, eventId, input.joinQuestions ?? []);
+
+  return eventId;
+};
+
+export const createEvent = async (input: CreateEventInput): Promise<SerializedEvent> => {
+  const eventId = await prisma.$transaction((tx) => insertEvent(tx, input));
+
   const record = await fetchEventById(eventId);
   if (!record) {
     throw new Error('Created event not found');
@@ -209,3 +467,202 @@ export const createEvent = async (input: CreateEventInput): Promise<SerializedEv
 
   return serializeEvent(record);
 };
+
+export const describeEventChanges = (previous: SerializedEvent, next: SerializedEvent): EventChange[] => {
+  const changes: EventChange[] = [];
+
+  if (previous.title !== next.title) {
+    changes.push({ field: 'title', previous: previous.title, next: next.title });
+  }
+
+  if (previous.description !== next.description) {
+    changes.push({ field: 'description', previous: previous.description, next: next.description });
+  }
+
+  if (previous.datetime !== next.datetime) {
+    changes.push({ field: 'datetime', previous: previous.datetime, next: next.datetime });
+  }
+
+  if (previous.endDatetime !== next.endDatetime) {
+    changes.push({ field: 'endDatetime', previous: previous.endDatetime, next: next.endDatetime });
+  }
+
+  const locationMoved =
+    previous.locationName !== next.locationName ||
+    previous.location.latitude !== next.location.latitude ||
+    previous.location.longitude !== next.location.longitude;
+  if (locationMoved) {
+    changes.push({ field: 'location', previous: previous.locationName, next: next.locationName });
+  }
+
+  if (previous.category !== next.category) {
+    changes.push({ field: 'category', previous: previous.category, next: next.category });
+  }
+
+  if (previous.maxParticipants !== next.maxParticipants) {
+    changes.push({ field: 'maxParticipants', previous: previous.maxParticipants, next: next.maxParticipants });
+  }
+
+  return changes;
+};
+
+type EventWriteClient = Pick<
+  Prisma.TransactionClient,
+  '$queryRaw' | '$executeRaw' | 'event' | 'joinRequest' | 'eventJoinQuestion'
+>;
+
+/**
+ * Writes an edit under the event's row lock. Takes the client so series edits
+ * can write every occurrence inside one transaction.
+ */
+export const writeEventUpdate = async (
+  client: EventWriteClient,
+  existing: EventRecordWithHost,
+  input: UpdateEventInput
+): Promise<void> => {
+  const locationFragment = buildLocationFragment(input.latitude, input.longitude);
+
+  // Lock the event row so a concurrent accept cannot slip past the new capacity.
+  await client.$queryRaw`SELECT "id" FROM "Event" WHERE "id" = ${input.eventId} FOR UPDATE`;
+
+  const acceptedCount = await client.joinRequest.count({
+    where: {
+      eventId: input.eventId,
+      status: JoinRequestStatus.ACCEPTED,
+    },
+  });
+
+  if (acceptedCount > calculateJoinCapacity(input.maxParticipants)) {
+    throw new EventCapacityError(
+      `maxParticipants cannot be lower than ${acceptedCount + 1} (accepted guests plus the host)`
+    );
+  }
+
+  await client.$executeRaw`
+    UPDATE "Event"
+    SET
+      "title" = ${input.title},
+      "description" = ${input.description},
+      "datetime" = ${input.datetime},
+      "endDatetime" = ${input.endDatetime ?? null},
+      "location" = ${locationFragment},
+      "locationName" = ${input.locationName},
+      "category" = ${input.category ?? null},
+      "maxParticipants" = ${input.maxParticipants},
+      "visibility" = ${input.visibility ?? existing.visibility},
+      "approvalMode" = ${input.approvalMode ?? existing.approvalMode},
+      "waitlistAutoAccept" = ${input.waitlistAutoAccept ?? existing.waitlistAutoAccept},
+      "joinRequestCutoffMinutes" = ${input.joinRequestCutoffMinutes ?? null},
+      "joinRequestTimeoutHours" = ${input.joinRequestTimeoutHours ?? null},
+      "updatedAt" = ${new Date()}
+    WHERE "id" = ${input.eventId}
+  `;
+
+  // Answers already given keep their own copy of the question.
+  if (input.joinQuestions) {
+    await client.eventJoinQuestion.deleteMany({ where: { eventId: input.eventId } });
+    await insertJoinQuestions(client, input.eventId, input.joinQuestions);
+  }
+};
+
+/** Reads the event back after a committed edit and lists what changed. */
+export const readEventUpdateResult = async (existing: EventRecordWithHost): Promise<UpdateEventResult> => {
+  const record = await fetchEventById(existing.id);
+  if (!record) {
+    throw new EventNotFoundError('Event not found');
+  }
+
+  const previous = serializeEvent(existing);
+  const event = serializeEvent(record);
+
+  return { event, changes: describeEventChanges(previous, event) };
+};
+
+export const updateEvent = async (input: UpdateEventInput): Promise<UpdateEventResult> => {
+  const existing = await fetchEventById(input.eventId);
+  if (!existing) {
+    throw new EventNotFoundError('Event not found');
+  }
+
+  if (existing.hostId !== input.hostId) {
+    throw new EventUnauthorizedError('Only the host can edit this event');
+  }
+
+  if (existing.status !== EventStatus.ACTIVE) {
+    throw new EventInactiveError('Event is not active');
+  }
+
+  await prisma.$transaction((tx) => writeEventUpdate(tx, existing, input));
+
+  return readEventUpdateResult(existing);
+};
+
+/**
+ * Cancels the event under its row lock and rejects everyone still waiting.
+ * Returns the rejected requests so callers can tell those guests.
+ */
+export const writeEventCancellation = async (
+  client: EventWriteClient,
+  input: CancelEventInput
+): Promise<CancelEventResult['rejectedJoinRequests']> => {
+  // Same lock as event edits, so a series cancel cannot race an edit of one occurrence.
+  await client.$queryRaw`SELECT "id" FROM "Event" WHERE "id" = ${input.eventId} FOR UPDATE`;
+
+  const event = await client.event.findUnique({
+    where: { id: input.eventId },
+    select: {
+      id: true,
+      hostId: true,
+      status: true,
+    },
+  });
+
+  if (!event) {
+    throw new EventNotFoundError('Event not found');
+  }
+
+  if (event.hostId !== input.hostId) {
+    throw new EventUnauthorizedError('Only the host can cancel this event');
+  }
+
+  if (event.status !== EventStatus.ACTIVE) {
+    throw new EventInactiveError('Event is not active');
+  }
+
+  await client.event.update({
+    where: { id: event.id },
+    data: {
+      status: EventStatus.CANCELLED,
+      cancelledAt: new Date(),
+      cancellationReason: input.reason,
+    },
+  });
+
+  const pending = await client.joinRequest.findMany({
+    where: {
+      eventId: event.id,
+      status: { in: [JoinRequestStatus.PENDING, JoinRequestStatus.WAITLISTED] },
+    },
+    select: { id: true, userId: true },
+  });
+
+  if (pending.length > 0) {
+    await client.joinRequest.updateMany({
+      where: { id: { in: pending.map((request) => request.id) } },
+      data: { status: JoinRequestStatus.REJECTED },
+    });
+  }
+
+  return pending;
+};
+
+export const cancelEvent = async (input: CancelEventInput): Promise<CancelEventResult> => {
+  const rejectedJoinRequests = await prisma.$transaction((tx) => writeEventCancellation(tx, input));
+
+  const record = await fetchEventById(input.eventId);
+  if (!record) {
+    throw new EventNotFoundError('Event not found');
+  }
+
+  return { event: serializeEvent(record), rejectedJoinRequests };
+};
@@ -1,6 +1,7 @@
 import { Prisma, EventStatus, JoinRequestStatus } from '@/generated/prisma/client';
 import { prisma } from '@/lib/prisma';
-import { expirePastEvents } from '@/lib/event-expiration';
+import { isCategoryId, type CategoryId } from '@/lib/categories';
+import { EVENT_END_SQL } from '@/lib/event-timing';
 
 const EARTH_SRID = 4326;
 export const DEFAULT_RADIUS_METERS = 10_000;
@@ -10,9 +11,13 @@ export type NearbyEventRecord = {
   title: string;
   description: string;
   datetime: Date | string;
+  endDatetime: Date | string | null;
   locationName: string;
+  category: string | null;
   maxParticipants: number;
   status: EventStatus;
+  cancellationReason: string | null;
+  coverImageKey: string | null;
   hostId: string;
   hostDisplayName: string | null;
   hostPhotoUrl: string | null;
@@ -24,6 +29,90 @@ export type NearbyEventRecord = {
   acceptedCount: number | string;
   viewerJoinRequestStatus: JoinRequestStatus | null;
   viewerHostUpdatesUnseen: number | string | null;
+  /** Only set when searching: text relevance damped by distance. */
+  searchScore?: number | string | null;
+};
+
+export type NearbyEventsPage = {
+  events: NearbyEventRecord[];
+  hasMore: boolean;
+  nextCursor: string | null;
+};
+
+/** Position of the last event on a page; the next page starts strictly after it. */
+export type NearbyCursor = {
+  distanceMeters: number;
+  id: string;
+  /** Present on cursors from search results, which are ordered by score first. */
+  score?: number;
+};
+
+export type NearbyPageOptions = {
+  limit?: number | null;
+  cursor?: NearbyCursor | null;
+};
+
+export const DEFAULT_NEARBY_EVENT_LIMIT = 30;
+export const MAX_NEARBY_EVENT_LIMIT = 100;
+
+export type DiscoveryFilters = {
+  categories?: CategoryId[] | null;
+  /** Only events still running at or after this instant. */
+  from?: Date | null;
+  /** Only events starting before this instant. */
+  to?: Date | null;
+  /** Full-text search over title, location name and description. */
+  query?: string | null;
+};
+
+export const MAX_SEARCH_QUERY_LENGTH = 200;
+/** A match this far away scores half as much as the same match next door. */
+const SEARCH_DISTANCE_DECAY_METERS = 2_000;
+
+export type MapBounds = {
+  minLat: number;
+  minLng: number;
+  maxLat: number;
+  maxLng: number;
+};
+
+export type BoundedEventsResult = {
+  events: NearbyEventRecord[];
+  truncated: boolean;
+};
+
+export const DEFAULT_MAP_EVENT_LIMIT = 200;
+export const MAX_MAP_EVENT_LIMIT = 500;
+
+/** At and above this zoom every event is returned individually. */
+export const CLUSTER_MAX_ZOOM = 14;
+/** Approximate on-screen width of a clustering cell, in pixels. */
+const CLUSTER_CELL_PIXELS = 64;
+const TILE_SIZE_PIXELS = 512;
+
+export type EventClusterRecord = {
+  id: string;
+  count: number;
+  latitude: number;
+  longitude: number;
+  bounds: MapBounds;
+  categories: Partial<Record<CategoryId, number>>;
+  /** Earliest event in the cell; the only one when `count` is 1. */
+  eventId: string;
+};
+
+type EventClusterRow = {
+  cellX: number | string;
+  cellY: number | string;
+  count: number | string;
+  latitude: number | string;
+  longitude: number | string;
+  minLat: number | string;
+  minLng: number | string;
+  maxLat: number | string;
+  maxLng: number | string;
+  categories: Array<string | null>;
+  eventId: string;
 };
 
 const assertFiniteCoordinate = (value: number, label: 'latitude' | 'longitude'): number => {
@@ -68,6 +157,203 @@ const buildOriginFragment = (latitude: number, longitude: number) => {
   return Prisma.sql`ST_SetSRID(ST_MakePoint(${longitude}, ${latitude}), ${EARTH_SRID})::geography`;
 };
 
+const buildCategoryFilterFragment = (categories?: CategoryId[] | null) => {
+  if (!categories || categories.length === 0) {
+    return Prisma.empty;
+  }
+
+  return Prisma.sql`AND e."category" IN (${Prisma.join(categories)})`;
+};
+
+// Must match the text search configuration of the generated "searchVector" column.
+const buildSearchQueryFragment = (query: string) => Prisma.sql`websearch_to_tsquery('english', ${query})`;
+
+const normalizeSearchQuery = (query?: string | null) => {
+  const trimmed = query?.trim();
+  return trimmed ? trimmed : null;
+};
+
+const buildSearchFilterFragment = (query?: string | null) => {
+  const normalized = normalizeSearchQuery(query);
+  if (!normalized) {
+    return Prisma.empty;
+  }
+  return Prisma.sql`AND e."searchVector" @@ ${buildSearchQueryFragment(normalized)}`;
+};
+
+// Events overlapping the window match, so "tonight" includes events already under way.
+const buildTimeWindowFilterFragment = (filters: DiscoveryFilters) => {
+  const from = filters.from ? Prisma.sql`AND ${EVENT_END_SQL} > ${filters.from}` : Prisma.empty;
+  const to = filters.to ? Prisma.sql`AND e."datetime" < ${filters.to}` : Prisma.empty;
+  return Prisma.sql`${from} ${to}`;
+};
+
+// Ended events are filtered by time rather than status: the background job only
+// flips them to EXPIRED periodically. Cancelled events stay visible to their host
+// and accepted guests until the original start time, so plans don't silently
+// vanish from their feeds.
+const buildStatusFilterFragment = (userId: string) => {
+  return Prisma.sql`(
+    (e."status" = 'ACTIVE' AND ${EVENT_END_SQL} > NOW())
+    OR (
+      e."status" = 'CANCELLED'
+      AND e."datetime" >= NOW()
+      AND (e."hostId" = ${userId} OR viewer_request."status" = 'ACCEPTED')
+    )
+  )`;
+};
+
+// Only public events are listed for everyone. Hosts still see their own unlisted
+// and invite-only events, invitees see the invite-only events they were invited
+// to, and anyone whose join request is still open keeps seeing the event they
+// asked to join. Rejected, withdrawn and expired requests no longer count.
+const buildVisibilityFilterFragment = (userId: string) => {
+  return Prisma.sql`(
+    e."visibility" = 'PUBLIC'
+    OR e."hostId" = ${userId}
+    OR viewer_request."status" IN ('PENDING', 'ACCEPTED', 'WAITLISTED')
+    OR (
+      e."visibility" = 'INVITE_ONLY'
+      AND EXISTS (
+        SELECT 1 FROM "EventInviteLog" invite
+        WHERE invite."eventId" = e."id"
+          AND invite."inviteeId" = ${userId}
+      )
+    )
+  )`;
+};
+
+// Counted per candidate row so the (eventId, status) index is used, instead of
+// aggregating accepted requests for every event in the table up front.
+const ACCEPTED_COUNT_JOIN = Prisma.sql`LEFT JOIN LATERAL (
+      SELECT COUNT(*)::integer AS "acceptedCount"
+      FROM "JoinRequest" jr
+      WHERE jr."eventId" = e."id"
+        AND jr."status" = 'ACCEPTED'
+    ) AS accepted ON TRUE`;
+
+const EARTH_RADIUS_METERS = 6_371_008.8;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+export const haversineDistanceMeters = (
+  from: { latitude: number; longitude: number },
+  to: { latitude: number; longitude: number }
+) => {
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLng = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(a)));
+};
+
+/**
+ * Smallest circle around the viewport centre that contains the whole viewport,
+ * or null when the viewport is too wide for a circle to narrow anything down.
+ * For viewports under 180° of longitude the farthest points are the corners.
+ */
+export const getBoundsSearchCircle = (bounds: MapBounds) => {
+  const lngSpan = bounds.minLng <= bounds.maxLng ? bounds.maxLng - bounds.minLng : 360 - (bounds.minLng - bounds.maxLng);
+  if (lngSpan >= 180) {
+    return null;
+  }
+
+  const centerLng = bounds.minLng + lngSpan / 2;
+  const center = {
+    latitude: (bounds.minLat + bounds.maxLat) / 2,
+    longitude: centerLng > 180 ? centerLng - 360 : centerLng,
+  };
+  const corners = [
+    { latitude: bounds.minLat, longitude: bounds.minLng },
+    { latitude: bounds.minLat, longitude: bounds.maxLng },
+    { latitude: bounds.maxLat, longitude: bounds.minLng },
+    { latitude: bounds.maxLat, longitude: bounds.maxLng },
+  ];
+  // A little slack absorbs the difference between the haversine sphere and the
+  // spheroid PostGIS measures on.
+  const radiusMeters = Math.max(...corners.map((corner) => haversineDistanceMeters(center, corner))) * 1.01 + 1;
+
+  return { center, radiusMeters };
+};
+
+// A viewport that crosses the antimeridian arrives with minLng > maxLng and is
+// split into two envelopes on either side of it. The envelope test is exact but
+// runs on a geometry cast, so a geography ST_DWithin around the viewport goes
+// first to let the planner use the GIST index on "location".
+const buildBoundsFilterFragment = (bounds: MapBounds) => {
+  const envelope = (minLng: number, maxLng: number) =>
+    Prisma.sql`e."location"::geometry && ST_MakeEnvelope(${minLng}, ${bounds.minLat}, ${maxLng}, ${bounds.maxLat}, ${EARTH_SRID})`;
+
+  const exact =
+    bounds.minLng <= bounds.maxLng
+      ? envelope(bounds.minLng, bounds.maxLng)
+      : Prisma.sql`(${envelope(bounds.minLng, 180)} OR ${envelope(-180, bounds.maxLng)})`;
+
+  const circle = getBoundsSearchCircle(bounds);
+  if (!circle) {
+    return exact;
+  }
+
+  return Prisma.sql`ST_DWithin(e."location", ${buildOriginFragment(
+    circle.center.latitude,
+    circle.center.longitude
+  )}, ${circle.radiusMeters}) AND ${exact}`;
+};
+
+const resolveMapLimit = (limit?: number | null): number => {
+  if (typeof limit === 'number' && Number.isInteger(limit) && limit > 0) {
+    return Math.min(limit, MAX_MAP_EVENT_LIMIT);
+  }
+  return DEFAULT_MAP_EVENT_LIMIT;
+};
+
+// Cells are sized in degrees so that one spans roughly CLUSTER_CELL_PIXELS at the
+// given zoom; flooring the zoom keeps clusters stable while the user zooms smoothly.
+export const getClusterCellSizeDegrees = (zoom: number) => {
+  const level = Math.max(0, Math.floor(zoom));
+  return (360 / (TILE_SIZE_PIXELS * 2 ** level)) * CLUSTER_CELL_PIXELS;
+};
+
+const resolveNearbyLimit = (limit?: number | null): number => {
+  if (typeof limit === 'number' && Number.isInteger(limit) && limit > 0) {
+    return Math.min(limit, MAX_NEARBY_EVENT_LIMIT);
+  }
+  return DEFAULT_NEARBY_EVENT_LIMIT;
+};
+
+/**
+ * Cursors are opaque to clients: base64url-encoded JSON holding the distance and
+ * id of the last event returned. The distance round-trips exactly through JSON,
+ * so the keyset comparison never skips or repeats an event.
+ */
+export const encodeNearbyCursor = (cursor: NearbyCursor): string => {
+  const payload = { d: cursor.distanceMeters, id: cursor.id, ...(typeof cursor.score === 'number' ? { s: cursor.score } : {}) };
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+};
+
+export const decodeNearbyCursor = (value: string): NearbyCursor | null => {
+  try {
+    const parsed = JSON.parse(Buffer.from(value, 'base64url').toString('utf8')) as unknown;
+    if (!parsed || typeof parsed !== 'object') {
+      return null;
+    }
+    const { d, id, s } = parsed as { d?: unknown; id?: unknown; s?: unknown };
+    if (typeof d !== 'number' || !Number.isFinite(d) || d < 0 || typeof id !== 'string' || !id) {
+      return null;
+    }
+    if (typeof s === 'undefined') {
+      return { distanceMeters: d, id };
+    }
+    if (typeof s !== 'number' || !Number.isFinite(s)) {
+      return null;
+    }
+    return { distanceMeters: d, id, score: s };
+  } catch {
+    return null;
+  }
+};
+
 const toDate = (value: Date | string): Date => {
   return value instanceof Date ? value : new Date(value);
 };
@@ -76,17 +362,38 @@ export const findNearbyEvents = async (
   latitude: number,
   longitude: number,
   radiusMeters: number | null | undefined,
-  userId: string
-): Promise<NearbyEventRecord[]> => {
+  userId: string,
+  filters: DiscoveryFilters = {},
+  page: NearbyPageOptions = {}
+): Promise<NearbyEventsPage> => {
   if (!userId) {
     throw new Error('userId is required');
   }
 
-  await expirePastEvents();
-
   const lat = assertFiniteCoordinate(latitude, 'latitude');
   const lng = assertFiniteCoordinate(longitude, 'longitude');
   const radius = resolveRadius(radiusMeters);
+  const limit = resolveNearbyLimit(page.limit);
+  const searchQuery = normalizeSearchQuery(filters.query);
+  if (searchQuery && page.cursor && typeof page.cursor.score !== 'number') {
+    throw new Error('cursor does not belong to a search');
+  }
+
+  // Searches rank by relevance damped by distance, then fall back to plain distance.
+  const distanceExpression = Prisma.sql`ST_Distance(e."location", origin."point")`;
+  const scoreExpression = searchQuery
+    ? Prisma.sql`(ts_rank_cd(e."searchVector", ${buildSearchQueryFragment(searchQuery)}, 32) / (1 + ${distanceExpression} / ${SEARCH_DISTANCE_DECAY_METERS}))`
+    : null;
+  const orderBy = scoreExpression
+    ? Prisma.sql`"searchScore" DESC, "distanceMeters" ASC, e."id" ASC`
+    : Prisma.sql`"distanceMeters" ASC, e."id" ASC`;
+
+  let cursorFilter = Prisma.empty;
+  if (page.cursor && scoreExpression) {
+    cursorFilter = Prisma.sql`AND (-${scoreExpression}, ${distanceExpression}, e."id") > (${-(page.cursor.score ?? 0)}, ${page.cursor.distanceMeters}, ${page.cursor.id})`;
+  } else if (page.cursor) {
+    cursorFilter = Prisma.sql`AND (${distanceExpression}, e."id") > (${page.cursor.distanceMeters}, ${page.cursor.id})`;
+  }
 
   const events = await prisma.$queryRaw<NearbyEventRecord[]>`
     SELECT
@@ -94,9 +401,13 @@ export const findNearbyEvents = async (
       e."title",
       e."description",
       e."datetime",
+      e."endDatetime",
       e."locationName",
+      e."category",
       e."maxParticipants",
       e."status",
+      e."cancellationReason",
+      e."coverImageKey",
       e."hostId",
       u."displayName" AS "hostDisplayName",
       u."photoUrl" AS "hostPhotoUrl",
@@ -104,21 +415,18 @@ export const findNearbyEvents = async (
       e."updatedAt",
       ST_Y(e."location"::geometry) AS "latitude",
       ST_X(e."location"::geometry) AS "longitude",
-      ST_Distance(e."location", ST_SetSRID(ST_MakePoint(${lng}, ${lat}), ${EARTH_SRID})::geography) AS "distanceMeters",
+      ${distanceExpression} AS "distanceMeters",
+      ${scoreExpression ?? Prisma.sql`NULL::double precision`} AS "searchScore",
       COALESCE(accepted."acceptedCount", 0) AS "acceptedCount",
       viewer_request."status" AS "viewerJoinRequestStatus",
       COALESCE(host_updates."unseenCount", 0) AS "viewerHostUpdatesUnseen"
     FROM "Event" e
+    CROSS JOIN (SELECT ${buildOriginFragment(lat, lng)} AS "point") AS origin
     INNER JOIN "User" u ON u."id" = e."hostId"
-    LEFT JOIN (
-      SELECT "eventId", COUNT(*)::integer AS "acceptedCount"
-      FROM "JoinRequest"
-      WHERE "status" = 'ACCEPTED'
-      GROUP BY "eventId"
-    ) AS accepted ON accepted."eventId" = e."id"
     LEFT JOIN "JoinRequest" AS viewer_request
       ON viewer_request."eventId" = e."id"
      AND viewer_request."userId" = ${userId}
+    ${ACCEPTED_COUNT_JOIN}
     LEFT JOIN LATERAL (
       SELECT COUNT(*)::integer AS "unseenCount"
       FROM "Message" m
@@ -130,20 +438,30 @@ export const findNearbyEvents = async (
           OR m."createdAt" > viewer_request."lastSeenHostActivityAt"
         )
     ) AS host_updates ON TRUE
-    WHERE e."status" = 'ACTIVE'
-      AND ST_DWithin(e."location", ST_SetSRID(ST_MakePoint(${lng}, ${lat}), ${EARTH_SRID})::geography, ${radius})
+    WHERE ${buildStatusFilterFragment(userId)}
+      AND ${buildVisibilityFilterFragment(userId)}
+      AND ST_DWithin(e."location", origin."point", ${radius})
+      ${buildCategoryFilterFragment(filters.categories)}
+      ${buildTimeWindowFilterFragment(filters)}
+      ${buildSearchFilterFragment(searchQuery)}
+      ${cursorFilter}
       AND NOT EXISTS (
         SELECT 1 FROM "BlockedUser" b
         WHERE (b."blockerId" = ${userId} AND b."blockedId" = e."hostId")
            OR (b."blockerId" = e."hostId" AND b."blockedId" = ${userId})
       )
-    ORDER BY "distanceMeters" ASC
+    ORDER BY ${orderBy}
+    LIMIT ${limit + 1}
   `;
 
-  return events
+  // As with the map query, one extra row tells us whether another page exists.
+  const hasMore = events.length > limit;
+  const mapped = events
+    .slice(0, limit)
     .map((event) => ({
       ...event,
       datetime: toDate(event.datetime),
+      endDatetime: event.endDatetime ? toDate(event.endDatetime) : null,
       createdAt: toDate(event.createdAt),
       updatedAt: toDate(event.updatedAt),
       distanceMeters:
@@ -160,16 +478,46 @@ export const findNearbyEvents = async (
         typeof event.viewerHostUpdatesUnseen === 'number'
           ? event.viewerHostUpdatesUnseen
           : Number(event.viewerHostUpdatesUnseen ?? 0),
-    }))
-    .sort((a, b) => a.distanceMeters - b.distanceMeters);
+      searchScore: event.searchScore === null || typeof event.searchScore === 'undefined' ? null : Number(event.searchScore),
+    }));
+  // Search results keep the database's relevance order.
+  if (!searchQuery) {
+    mapped.sort((a, b) => a.distanceMeters - b.distanceMeters);
+  }
+
+  const last = mapped.at(-1);
+  const nextCursor =
+    hasMore && last
+      ? encodeNearbyCursor({
+          distanceMeters: last.distanceMeters,
+          id: last.id,
+          ...(searchQuery && typeof last.searchScore === 'number' ? { score: last.searchScore } : {}),
+        })
+      : null;
+
+  return { events: mapped, hasMore, nextCursor };
 };
 
-export const findActiveEventsForMap = async (userId: string): Promise<NearbyEventRecord[]> => {
+export const findEventsInBounds = async (
+  bounds: MapBounds,
+  userId: string,
+  filters: DiscoveryFilters = {},
+  limit?: number | null,
+  eventIds?: string[] | null
+): Promise<BoundedEventsResult> => {
   if (!userId) {
     throw new Error('userId is required');
   }
 
-  await expirePastEvents();
+  const minLat = assertFiniteCoordinate(bounds.minLat, 'latitude');
+  const maxLat = assertFiniteCoordinate(bounds.maxLat, 'latitude');
+  const minLng = assertFiniteCoordinate(bounds.minLng, 'longitude');
+  const maxLng = assertFiniteCoordinate(bounds.maxLng, 'longitude');
+  if (minLat > maxLat) {
+    throw new Error('minLat must not be greater than maxLat');
+  }
+
+  const cap = resolveMapLimit(limit);
 
   const events = await prisma.$queryRaw<NearbyEventRecord[]>`
     SELECT
@@ -177,9 +525,13 @@ export const findActiveEventsForMap = async (userId: string): Promise<NearbyEven
       e."title",
       e."description",
       e."datetime",
+      e."endDatetime",
       e."locationName",
+      e."category",
       e."maxParticipants",
       e."status",
+      e."cancellationReason",
+      e."coverImageKey",
       e."hostId",
       u."displayName" AS "hostDisplayName",
       u."photoUrl" AS "hostPhotoUrl",
@@ -193,15 +545,10 @@ export const findActiveEventsForMap = async (userId: string): Promise<NearbyEven
       COALESCE(host_updates."unseenCount", 0) AS "viewerHostUpdatesUnseen"
     FROM "Event" e
     INNER JOIN "User" u ON u."id" = e."hostId"
-    LEFT JOIN (
-      SELECT "eventId", COUNT(*)::integer AS "acceptedCount"
-      FROM "JoinRequest"
-      WHERE "status" = 'ACCEPTED'
-      GROUP BY "eventId"
-    ) AS accepted ON accepted."eventId" = e."id"
     LEFT JOIN "JoinRequest" AS viewer_request
       ON viewer_request."eventId" = e."id"
      AND viewer_request."userId" = ${userId}
+    ${ACCEPTED_COUNT_JOIN}
     LEFT JOIN LATERAL (
       SELECT COUNT(*)::integer AS "unseenCount"
       FROM "Message" m
@@ -213,18 +560,28 @@ export const findActiveEventsForMap = async (userId: string): Promise<NearbyEven
           OR m."createdAt" > viewer_request."lastSeenHostActivityAt"
         )
     ) AS host_updates ON TRUE
-    WHERE e."status" = 'ACTIVE'
+    WHERE ${buildStatusFilterFragment(userId)}
+      AND ${buildVisibilityFilterFragment(userId)}
+      AND ${buildBoundsFilterFragment({ minLat, minLng, maxLat, maxLng })}
+      ${buildCategoryFilterFragment(filters.categories)}
+      ${buildTimeWindowFilterFragment(filters)}
+      ${buildSearchFilterFragment(filters.query)}
+      ${eventIds && eventIds.length > 0 ? Prisma.sql`AND e."id" IN (${Prisma.join(eventIds)})` : Prisma.empty}
       AND NOT EXISTS (
         SELECT 1 FROM "BlockedUser" b
         WHERE (b."blockerId" = ${userId} AND b."blockedId" = e."hostId")
            OR (b."blockerId" = e."hostId" AND b."blockedId" = ${userId})
       )
-    ORDER BY e."createdAt" DESC
+    ORDER BY e."datetime" ASC, e."id" ASC
+    LIMIT ${cap + 1}
   `;
 
-  return events.map((event) => ({
+  // One extra row tells us whether the cap cut anything off.
+  const truncated = events.length > cap;
+  const mapped = events.slice(0, cap).map((event) => ({
     ...event,
     datetime: toDate(event.datetime),
+    endDatetime: event.endDatetime ? toDate(event.endDatetime) : null,
     createdAt: toDate(event.createdAt),
     updatedAt: toDate(event.updatedAt),
     distanceMeters:
@@ -242,4 +599,110 @@ export const findActiveEventsForMap = async (userId: string): Promise<NearbyEven
         ? event.viewerHostUpdatesUnseen
         : Number(event.viewerHostUpdatesUnseen ?? 0),
   }));
+
+  return { events: mapped, truncated };
+};
+
+/**
+ * Groups the events inside `bounds` into grid cells for low-zoom map rendering.
+ * Single-event cells are returned too (with `count` 1) so callers can load those
+ * events individually instead of drawing a bubble for one marker.
+ */
+export const findEventClustersInBounds = async (
+  bounds: MapBounds,
+  zoom: number,
+  userId: string,
+  filters: DiscoveryFilters = {},
+  limit?: number | null
+): Promise<{ clusters: EventClusterRecord[]; truncated: boolean }> => {
+  if (!userId) {
+    throw new Error('userId is required');
+  }
+
+  const minLat = assertFiniteCoordinate(bounds.minLat, 'latitude');
+  const maxLat = assertFiniteCoordinate(bounds.maxLat, 'latitude');
+  const minLng = assertFiniteCoordinate(bounds.minLng, 'longitude');
+  const maxLng = assertFiniteCoordinate(bounds.maxLng, 'longitude');
+  if (minLat > maxLat) {
+    throw new Error('minLat must not be greater than maxLat');
+  }
+  if (!Number.isFinite(zoom)) {
+    throw new Error('zoom must be a finite number');
+  }
+
+  const cap = resolveMapLimit(limit);
+  const cellSize = getClusterCellSizeDegrees(zoom);
+
+  const rows = await prisma.$queryRaw<EventClusterRow[]>`
+    WITH visible AS (
+      SELECT
+        e."id",
+        e."category",
+        e."datetime",
+        e."location"::geometry AS "geom",
+        ST_SnapToGrid(e."location"::geometry, ${cellSize}) AS "cell"
+      FROM "Event" e
+      LEFT JOIN "JoinRequest" AS viewer_request
+        ON viewer_request."eventId" = e."id"
+       AND viewer_request."userId" = ${userId}
+      WHERE ${buildStatusFilterFragment(userId)}
+        AND ${buildVisibilityFilterFragment(userId)}
+        AND ${buildBoundsFilterFragment({ minLat, minLng, maxLat, maxLng })}
+        ${buildCategoryFilterFragment(filters.categories)}
+        ${buildTimeWindowFilterFragment(filters)}
+        ${buildSearchFilterFragment(filters.query)}
+        AND NOT EXISTS (
+          SELECT 1 FROM "BlockedUser" b
+          WHERE (b."blockerId" = ${userId} AND b."blockedId" = e."hostId")
+             OR (b."blockerId" = e."hostId" AND b."blockedId" = ${userId})
+        )
+    )
+    SELECT
+      ST_X("cell") AS "cellX",
+      ST_Y("cell") AS "cellY",
+      COUNT(*)::integer AS "count",
+      ST_Y(ST_Centroid(ST_Collect("geom"))) AS "latitude",
+      ST_X(ST_Centroid(ST_Collect("geom"))) AS "longitude",
+      ST_YMin(ST_Extent("geom")) AS "minLat",
+      ST_XMin(ST_Extent("geom")) AS "minLng",
+      ST_YMax(ST_Extent("geom")) AS "maxLat",
+      ST_XMax(ST_Extent("geom")) AS "maxLng",
+      array_agg("category") AS "categories",
+      (array_agg("id" ORDER BY "datetime" ASC, "id" ASC))[1] AS "eventId"
+    FROM visible
+    GROUP BY "cell"
+    ORDER BY "count" DESC, "cellX" ASC, "cellY" ASC
+    LIMIT ${cap + 1}
+  `;
+
+  const toNumber = (value: number | string) => (typeof value === 'number' ? value : Number(value));
+  const level = Math.max(0, Math.floor(zoom));
+
+  const clusters = rows.slice(0, cap).map((row) => {
+    const categories: Partial<Record<CategoryId, number>> = {};
+    for (const category of row.categories ?? []) {
+      // Uncategorized events, and any value no longer in the category list, count as other.
+      const key: CategoryId = isCategoryId(category) ? category : 'other';
+      categories[key] = (categories[key] ?? 0) + 1;
+    }
+
+    const cellX = toNumber(row.cellX);
+    const cellY = toNumber(row.cellY);
+    return {
+      id: `${level}:${cellX.toFixed(6)}:${cellY.toFixed(6)}`,
+      count: toNumber(row.count),
+      latitude: toNumber(row.latitude),
+      longitude: toNumber(row.longitude),
+      bounds: {
+        minLat: toNumber(row.minLat),
+        minLng: toNumber(row.minLng),
+        maxLat: toNumber(row.maxLat),
+        maxLng: toNumber(row.maxLng),
+      },
+      categories,
+      eventId: row.eventId,
+    };
+  });
+
+  return { clusters, truncated: rows.length > cap };
 };
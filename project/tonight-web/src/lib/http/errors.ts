@@ -6,6 +6,9 @@ const STATUS_CODE_TO_DEFAULT_CODE: Record<number, string> = {
   403: 'forbidden',
   404: 'not_found',
   409: 'conflict',
+  410: 'gone',
+  413: 'payload_too_large',
+  415: 'unsupported_media_type',
   422: 'unprocessable_entity',
   429: 'too_many_requests',
   500: 'internal_server_error',
@@ -0,0 +1,10 @@
+/** Reads a single uploaded file from a multipart body, or null when the body has none. */
+export const readUploadedFile = async (request: Request, field = 'file') => {
+  try {
+    const formData = await request.formData();
+    const file = formData.get(field);
+    return file instanceof Blob ? file : null;
+  } catch {
+    return null;
+  }
+};
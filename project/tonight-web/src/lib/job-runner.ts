@@ -0,0 +1,125 @@
+export type ScheduledJob = {
+  name: string;
+  intervalMs: number;
+  run: (referenceDate: Date) => Promise<Record<string, unknown> | void>;
+};
+
+export type JobRunResult = {
+  name: string;
+  status: 'completed' | 'failed' | 'skipped';
+  startedAt: string;
+  durationMs: number;
+  result?: Record<string, unknown>;
+  error?: string;
+};
+
+export class UnknownJobError extends Error {
+  constructor(name: string) {
+    super(`Unknown job: ${name}`);
+    this.name = new.target.name;
+  }
+}
+
+/**
+ * Minimal in-process scheduler. Each job runs on its own interval and never
+ * overlaps with itself; a run that is still in flight when the next tick (or a
+ * manual trigger) arrives is reported as skipped.
+ */
+export class JobRunner {
+  private readonly jobs = new Map<string, ScheduledJob>();
+  private readonly timers = new Map<string, ReturnType<typeof setInterval>>();
+  private readonly inFlight = new Set<string>();
+
+  constructor(jobs: ScheduledJob[] = []) {
+    jobs.forEach((job) => this.register(job));
+  }
+
+  register(job: ScheduledJob) {
+    if (this.jobs.has(job.name)) {
+      throw new Error(`Job "${job.name}" is already registered`);
+    }
+    if (!Number.isFinite(job.intervalMs) || job.intervalMs <= 0) {
+      throw new Error(`Job "${job.name}" must have a positive interval`);
+    }
+    this.jobs.set(job.name, job);
+  }
+
+  getJobNames(): string[] {
+    return [...this.jobs.keys()];
+  }
+
+  isStarted(): boolean {
+    return this.timers.size > 0;
+  }
+
+  start() {
+    if (this.isStarted()) {
+      return;
+    }
+
+    for (const job of this.jobs.values()) {
+      const timer = setInterval(() => {
+        void this.runJob(job.name);
+      }, job.intervalMs);
+      // Scheduled chores should never keep the process alive on their own.
+      timer.unref?.();
+      this.timers.set(job.name, timer);
+    }
+  }
+
+  stop() {
+    for (const timer of this.timers.values()) {
+      clearInterval(timer);
+    }
+    this.timers.clear();
+  }
+
+  async runJob(name: string, referenceDate: Date = new Date()): Promise<JobRunResult> {
+    const job = this.jobs.get(name);
+    if (!job) {
+      throw new UnknownJobError(name);
+    }
+
+    const startedAt = new Date();
+    if (this.inFlight.has(name)) {
+      return { name, status: 'skipped', startedAt: startedAt.toISOString(), durationMs: 0 };
+    }
+
+    this.inFlight.add(name);
+    try {
+      const result = await job.run(referenceDate);
+      return {
+        name,
+        status: 'completed',
+        startedAt: startedAt.toISOString(),
+        durationMs: Date.now() - startedAt.getTime(),
+        ...(result ? { result } : {}),
+      };
+    } catch (error) {
+      console.error(`Scheduled job "${name}" failed`, error);
+      return {
+        name,
+        status: 'failed',
+        startedAt: startedAt.toISOString(),
+        durationMs: Date.now() - startedAt.getTime(),
+        error: error instanceof Error ? error.message : String(error),
+      };
+    } finally {
+      this.inFlight.delete(name);
+    }
+  }
+
+  /** Runs the named jobs (or all of them) one after another. */
+  async runJobs(names: string[] = this.getJobNames(), referenceDate: Date = new Date()): Promise<JobRunResult[]> {
+    const unknown = names.find((name) => !this.jobs.has(name));
+    if (unknown) {
+      throw new UnknownJobError(unknown);
+    }
+
+    const results: JobRunResult[] = [];
+    for (const name of names) {
+      results.push(await this.runJob(name, referenceDate));
+    }
+    return results;
+  }
+}
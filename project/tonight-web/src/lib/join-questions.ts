@@ -0,0 +1,83 @@
+export const JOIN_QUESTION_KINDS = ['SHORT_TEXT', 'YES_NO', 'SINGLE_CHOICE'] as const;
+
+export type JoinQuestionKind = (typeof JOIN_QUESTION_KINDS)[number];
+
+export const JOIN_QUESTION_KIND_LABELS: Record<JoinQuestionKind, string> = {
+  SHORT_TEXT: 'Short answer',
+  YES_NO: 'Yes or no',
+  SINGLE_CHOICE: 'Pick one',
+};
+
+export const MAX_JOIN_QUESTIONS = 5;
+export const JOIN_QUESTION_PROMPT_MAX_LENGTH = 140;
+export const JOIN_QUESTION_OPTION_MAX_LENGTH = 60;
+export const JOIN_QUESTION_OPTION_LIMITS = { min: 2, max: 6 } as const;
+/** Same limit as the intro note, since both are read on the request card. */
+export const JOIN_ANSWER_MAX_LENGTH = 280;
+
+export const YES_NO_ANSWERS = ['yes', 'no'] as const;
+
+export type JoinQuestion = {
+  kind: JoinQuestionKind;
+  prompt: string;
+  /** Empty unless `kind` is SINGLE_CHOICE. */
+  options: string[];
+};
+
+export type SerializedJoinQuestion = JoinQuestion & {
+  id: string;
+};
+
+/** Guest answers keyed by question id. */
+export type JoinAnswers = Record<string, string>;
+
+export type SerializedJoinAnswer = {
+  questionId: string | null;
+  kind: JoinQuestionKind;
+  prompt: string;
+  value: string;
+};
+
+export const isJoinQuestionKind = (value: unknown): value is JoinQuestionKind =>
+  typeof value === 'string' && (JOIN_QUESTION_KINDS as readonly string[]).includes(value);
+
+export const formatJoinAnswer = (answer: Pick<SerializedJoinAnswer, 'kind' | 'value'>): string => {
+  if (answer.kind === 'YES_NO') {
+    return answer.value === 'yes' ? 'Yes' : 'No';
+  }
+  return answer.value;
+};
+
+/**
+ * Checks a guest's answer to one question. Every question is required; the
+ * returned value is what gets stored ("yes"/"no" for yes-or-no questions).
+ */
+export const normalizeJoinAnswer = (question: JoinQuestion, value: unknown): { value: string } | { error: string } => {
+  const trimmed = typeof value === 'string' ? value.trim() : '';
+  if (!trimmed) {
+    return { error: `Answer "${question.prompt}"` };
+  }
+
+  if (question.kind === 'YES_NO') {
+    const normalized = trimmed.toLowerCase();
+    if (!(YES_NO_ANSWERS as readonly string[]).includes(normalized)) {
+      return { error: `Answer "${question.prompt}" with yes or no` };
+    }
+    return { value: normalized };
+  }
+
+  if (question.kind === 'SINGLE_CHOICE') {
+    if (!question.options.includes(trimmed)) {
+      return { error: `Pick one of the options for "${question.prompt}"` };
+    }
+    return { value: trimmed };
+  }
+
+  if (trimmed.length > JOIN_ANSWER_MAX_LENGTH) {
+    return {
+      error: `Keep your answer to "${question.prompt}" under ${JOIN_ANSWER_MAX_LENGTH} characters`,
+    };
+  }
+
+  return { value: trimmed };
+};
@@ -0,0 +1,52 @@
+export const JOIN_REQUEST_EXPIRY_REASONS = ["REQUESTS_CLOSED", "HOST_TIMEOUT", "EVENT_ENDED"] as const;
+
+export type JoinRequestExpiryReason = (typeof JOIN_REQUEST_EXPIRY_REASONS)[number];
+
+/** How long before the start a host can stop taking requests. */
+export const JOIN_REQUEST_CUTOFF_MINUTES_MAX = 24 * 60;
+/** Longest a host can leave a request unanswered before it closes on its own. */
+export const JOIN_REQUEST_TIMEOUT_HOURS_LIMITS = { min: 1, max: 7 * 24 } as const;
+
+export const JOIN_REQUEST_CUTOFF_PRESETS = [0, 30, 60, 180] as const;
+export const JOIN_REQUEST_TIMEOUT_PRESETS = [6, 24, 72] as const;
+
+/** What the guest is told once their request has expired. */
+export const JOIN_REQUEST_EXPIRY_MESSAGES: Record<JoinRequestExpiryReason, string> = {
+  REQUESTS_CLOSED: "The host stopped taking requests before the start, and yours hadn't been answered yet.",
+  HOST_TIMEOUT: "The host didn't get to your request in time, so it closed on its own.",
+  EVENT_ENDED: "The event ended before the host could answer your request.",
+};
+
+export const isJoinRequestExpiryReason = (value: unknown): value is JoinRequestExpiryReason =>
+  typeof value === "string" && (JOIN_REQUEST_EXPIRY_REASONS as readonly string[]).includes(value);
+
+/**
+ * When an event stops taking requests, or null if the host never closes them
+ * early. Requests stay open while the event is running otherwise.
+ */
+export const getJoinRequestCutoff = (start: Date | string, cutoffMinutes: number | null): Date | null => {
+  if (cutoffMinutes === null) {
+    return null;
+  }
+  const startMs = start instanceof Date ? start.getTime() : new Date(start).getTime();
+  return new Date(startMs - cutoffMinutes * 60 * 1000);
+};
+
+export const formatJoinRequestCutoff = (cutoffMinutes: number): string => {
+  if (cutoffMinutes === 0) {
+    return "At the start";
+  }
+  if (cutoffMinutes % 60 === 0) {
+    const hours = cutoffMinutes / 60;
+    return `${hours} ${hours === 1 ? "hour" : "hours"} before`;
+  }
+  return `${cutoffMinutes} min before`;
+};
+
+export const formatJoinRequestTimeout = (timeoutHours: number): string => {
+  if (timeoutHours % 24 === 0) {
+    const days = timeoutHours / 24;
+    return `After ${days} ${days === 1 ? "day" : "days"}`;
+  }
+  return `After ${timeoutHours} ${timeoutHours === 1 ? "hour" : "hours"}`;
+};
@@ -0,0 +1,5 @@
+/**
+ * Most requests a host can decide on in one batch. Lives apart from
+ * join-requests.ts so the requests page can cap its selection at the same number.
+ */
+export const JOIN_REQUEST_BATCH_LIMIT = 100;
@@ -1,5 +1,22 @@
-import { EventStatus, JoinRequestStatus, type JoinRequest } from '@/generated/prisma/client';
+import {
+  EventApprovalMode,
+  EventStatus,
+  EventVisibility,
+  JoinRequestStatus,
+  type EventJoinQuestion,
+  type JoinRequest,
+  type JoinRequestAnswer,
+  type JoinRequestExpiryReason,
+} from '@/generated/prisma/client';
 import { prisma } from '@/lib/prisma';
+import { getEventPhase, EVENT_END_SQL } from '@/lib/event-timing';
+import { getJoinRequestCutoff } from '@/lib/join-request-expiry';
+import {
+  normalizeJoinAnswer,
+  type JoinAnswers,
+  type SerializedJoinAnswer,
+  type SerializedJoinQuestion,
+} from '@/lib/join-questions';
 
 export class JoinRequestError extends Error {
   constructor(message: string) {
@@ -12,9 +29,17 @@ export class JoinRequestEventNotFoundError extends JoinRequestError {}
 export class JoinRequestInactiveEventError extends JoinRequestError {}
 export class JoinRequestDuplicateError extends JoinRequestError {}
 export class JoinRequestEventFullError extends JoinRequestError {}
+export class JoinRequestNotInvitedError extends JoinRequestError {}
 export class JoinRequestNotFoundError extends JoinRequestError {}
 export class JoinRequestUnauthorizedError extends JoinRequestError {}
 export class JoinRequestInvalidStatusError extends JoinRequestError {}
+export class JoinRequestWithdrawnError extends JoinRequestError {}
+export class JoinRequestExpiredError extends JoinRequestError {}
+export class JoinRequestIntroValidationError extends JoinRequestError {}
+export class JoinRequestAnswersError extends JoinRequestError {}
+
+/** Long enough to say hello and why, short enough to read at a glance. */
+export const JOIN_REQUEST_INTRO_MAX_LENGTH = 280;
 
 export type SerializedJoinRequest = {
   id: string;
@@ -24,6 +49,9 @@ export type SerializedJoinRequest = {
   createdAt: string;
   updatedAt: string;
   lastSeenHostActivityAt: string | null;
+  intro: string | null;
+  /** Why the request closed on its own; only set once it has EXPIRED. */
+  expiryReason: JoinRequestExpiryReason | null;
 };
 
 export type SerializedJoinRequestWithUser = SerializedJoinRequest & {
@@ -34,11 +62,14 @@ export type SerializedJoinRequestWithUser = SerializedJoinRequest & {
     photoUrl: string | null;
     createdAt: string;
   };
+  answers: SerializedJoinAnswer[];
 };
 
 export type CreateJoinRequestInput = {
   eventId: string;
   userId: string;
+  intro?: string | null;
+  answers?: JoinAnswers;
 };
 
 export type UpdateJoinRequestStatusInput = {
@@ -47,12 +78,60 @@ export type UpdateJoinRequestStatusInput = {
   status: JoinRequestStatus;
 };
 
+export type UpdateJoinRequestStatusesInput = {
+  eventId: string;
+  hostId: string;
+  status: JoinRequestStatus;
+  joinRequestIds: string[];
+};
+
+export type JoinRequestBatchFailure = 'not_found' | 'withdrawn' | 'expired' | 'event_full';
+
+export type JoinRequestBatchOutcome =
+  | {
+      joinRequestId: string;
+      ok: true;
+      joinRequest: SerializedJoinRequest;
+      previousStatus: JoinRequestStatus;
+    }
+  | {
+      joinRequestId: string;
+      ok: false;
+      reason: JoinRequestBatchFailure;
+    };
+
+export type WithdrawJoinRequestInput = {
+  joinRequestId: string;
+  userId: string;
+};
+
+export type WithdrawJoinRequestResult = {
+  joinRequest: SerializedJoinRequest;
+  previousStatus: JoinRequestStatus;
+  hostId: string;
+};
+
+export type WaitlistPromotion = {
+  id: string;
+  eventId: string;
+  userId: string;
+  status: JoinRequestStatus;
+};
+
+export type ExpiredJoinRequest = {
+  id: string;
+  eventId: string;
+  userId: string;
+  hostId: string;
+  reason: JoinRequestExpiryReason;
+};
+
 export type ListJoinRequestsForEventInput = {
   eventId: string;
   hostId: string;
 };
 
-const serializeJoinRequest = (record: JoinRequest): SerializedJoinRequest => ({
+export const serializeJoinRequest = (record: JoinRequest): SerializedJoinRequest => ({
   id: record.id,
   eventId: record.eventId,
   userId: record.userId,
@@ -60,6 +139,22 @@ const serializeJoinRequest = (record: JoinRequest): SerializedJoinRequest => ({
   createdAt: record.createdAt.toISOString(),
   updatedAt: record.updatedAt.toISOString(),
   lastSeenHostActivityAt: record.lastSeenHostActivityAt ? record.lastSeenHostActivityAt.toISOString() : null,
+  intro: record.intro ?? null,
+  expiryReason: record.expiryReason ?? null,
+});
+
+export const serializeJoinQuestion = (question: EventJoinQuestion): SerializedJoinQuestion => ({
+  id: question.id,
+  kind: question.kind,
+  prompt: question.prompt,
+  options: question.options,
+});
+
+const serializeJoinAnswer = (answer: JoinRequestAnswer): SerializedJoinAnswer => ({
+  questionId: answer.questionId,
+  kind: answer.kind,
+  prompt: answer.prompt,
+  value: answer.value,
 });
 
 const serializeJoinRequestWithUser = (
@@ -71,6 +166,7 @@ const serializeJoinRequestWithUser = (
       photoUrl: string | null;
       createdAt: Date;
     };
+    answers: JoinRequestAnswer[];
   }
 ): SerializedJoinRequestWithUser => {
   return {
@@ -82,10 +178,11 @@ const serializeJoinRequestWithUser = (
       photoUrl: record.user.photoUrl,
       createdAt: record.user.createdAt.toISOString(),
     },
+    answers: record.answers.map(serializeJoinAnswer),
   };
 };
 
-const calculateJoinCapacity = (maxParticipants: number) => {
+export const calculateJoinCapacity = (maxParticipants: number) => {
   const capacity = Math.floor(maxParticipants) - 1;
   return capacity < 0 ? 0 : capacity;
 };
@@ -94,16 +191,73 @@ const hasAvailableSlots = (maxParticipants: number, acceptedCount: number) => {
   return acceptedCount < calculateJoinCapacity(maxParticipants);
 };
 
+/**
+ * Trimmed and length-checked like a chat message, since it is the guest's
+ * first message to the host. Blank notes are stored as null.
+ */
+export const normalizeJoinRequestIntro = (value: string | null | undefined): string | null => {
+  const trimmed = value?.trim() ?? '';
+  if (!trimmed) {
+    return null;
+  }
+
+  if (trimmed.length > JOIN_REQUEST_INTRO_MAX_LENGTH) {
+    throw new JoinRequestIntroValidationError(
+      `Intro must be at most ${JOIN_REQUEST_INTRO_MAX_LENGTH} characters`
+    );
+  }
+
+  return trimmed;
+};
+
+// Every question must be answered; answers to questions the event does not
+// have are ignored.
+const resolveJoinAnswers = (questions: EventJoinQuestion[], answers: JoinAnswers) => {
+  return questions.map((question) => {
+    const answer = normalizeJoinAnswer(question, answers[question.id]);
+    if ('error' in answer) {
+      throw new JoinRequestAnswersError(answer.error);
+    }
+
+    return {
+      questionId: question.id,
+      kind: question.kind,
+      prompt: question.prompt,
+      position: question.position,
+      value: answer.value,
+    };
+  });
+};
+
+export const listJoinQuestionsForEvent = async (eventId: string): Promise<SerializedJoinQuestion[]> => {
+  const questions = await prisma.eventJoinQuestion.findMany({
+    where: { eventId },
+    orderBy: { position: 'asc' },
+  });
+  return questions.map(serializeJoinQuestion);
+};
+
 export const createJoinRequest = async (
   input: CreateJoinRequestInput
 ): Promise<SerializedJoinRequest> => {
+  const intro = normalizeJoinRequestIntro(input.intro);
+
   return prisma.$transaction(async (tx) => {
+    // Same lock as host accepts and waitlist promotions, so instant joins
+    // cannot overfill the event.
+    await tx.$queryRaw`SELECT "id" FROM "Event" WHERE "id" = ${input.eventId} FOR UPDATE`;
+
     const event = await tx.event.findUnique({
       where: { id: input.eventId },
       select: {
         id: true,
         status: true,
         maxParticipants: true,
+        datetime: true,
+        endDatetime: true,
+        visibility: true,
+        approvalMode: true,
+        joinRequestCutoffMinutes: true,
       },
     });
 
@@ -111,10 +265,34 @@ export const createJoinRequest = async (
       throw new JoinRequestEventNotFoundError('Event not found');
     }
 
-    if (event.status !== EventStatus.ACTIVE) {
+    if (event.visibility === EventVisibility.INVITE_ONLY) {
+      const invite = await tx.eventInviteLog.findUnique({
+        where: {
+          eventId_inviteeId: {
+            eventId: input.eventId,
+            inviteeId: input.userId,
+          },
+        },
+        select: { id: true },
+      });
+
+      if (!invite) {
+        throw new JoinRequestNotInvitedError('This event is invite-only');
+      }
+    }
+
+    // Expiry runs on a schedule, so an event can still be ACTIVE for a few
+    // minutes after it has ended.
+    if (event.status !== EventStatus.ACTIVE || getEventPhase(event.datetime, event.endDatetime) === 'ENDED') {
       throw new JoinRequestInactiveEventError('Event is not active');
     }
 
+    // Anything sent after the host's cutoff would only be expired by the next sweep.
+    const cutoff = getJoinRequestCutoff(event.datetime, event.joinRequestCutoffMinutes);
+    if (cutoff && cutoff <= new Date()) {
+      throw new JoinRequestInactiveEventError('Event has stopped taking join requests');
+    }
+
     const existing = await tx.joinRequest.findUnique({
       where: {
         eventId_userId: {
@@ -124,28 +302,67 @@ export const createJoinRequest = async (
       },
     });
 
-    if (existing) {
+    if (existing && existing.status !== JoinRequestStatus.WITHDRAWN) {
       throw new JoinRequestDuplicateError('Join request already exists for this event');
     }
 
-    const acceptedCount = await tx.joinRequest.count({
-      where: {
-        eventId: input.eventId,
-        status: JoinRequestStatus.ACCEPTED,
-      },
+    const questions = await tx.eventJoinQuestion.findMany({
+      where: { eventId: input.eventId },
+      orderBy: { position: 'asc' },
     });
+    const answers = resolveJoinAnswers(questions, input.answers ?? {});
 
-    if (!hasAvailableSlots(event.maxParticipants, acceptedCount)) {
-      throw new JoinRequestEventFullError('Event is already full');
+    const [acceptedCount, waitlistedCount] = await Promise.all([
+      tx.joinRequest.count({
+        where: {
+          eventId: input.eventId,
+          status: JoinRequestStatus.ACCEPTED,
+        },
+      }),
+      tx.joinRequest.count({
+        where: {
+          eventId: input.eventId,
+          status: JoinRequestStatus.WAITLISTED,
+        },
+      }),
+    ]);
+
+    // Once anyone is waiting, newcomers queue behind them even if a spot is
+    // briefly open, so promotion stays first come, first served. Instant-join
+    // events skip the host's queue for anyone who gets a spot.
+    const hasSpot = hasAvailableSlots(event.maxParticipants, acceptedCount) && waitlistedCount === 0;
+    const status = !hasSpot
+      ? JoinRequestStatus.WAITLISTED
+      : event.approvalMode === EventApprovalMode.AUTOMATIC
+        ? JoinRequestStatus.ACCEPTED
+        : JoinRequestStatus.PENDING;
+
+    // Guests who withdrew may ask again; they go to the back of the queue and
+    // answer the questions afresh.
+    let record: JoinRequest;
+    if (existing) {
+      const now = new Date();
+      record = await tx.joinRequest.update({
+        where: { id: existing.id },
+        data: { status, intro, createdAt: now, queuedAt: now },
+      });
+      await tx.joinRequestAnswer.deleteMany({ where: { joinRequestId: existing.id } });
+    } else {
+      record = await tx.joinRequest.create({
+        data: {
+          eventId: input.eventId,
+          userId: input.userId,
+          status,
+          intro,
+        },
+      });
     }
 
-    const record = await tx.joinRequest.create({
-      data: {
-        eventId: input.eventId,
-        userId: input.userId,
-        status: JoinRequestStatus.PENDING,
-      },
-    });
+    if (answers.length > 0) {
+      await tx.joinRequestAnswer.createMany({
+        data: answers.map((answer) => ({ ...answer, joinRequestId: record.id })),
+      });
+    }
 
     return serializeJoinRequest(record);
   });
@@ -182,12 +399,23 @@ export const updateJoinRequestStatus = async (
       throw new JoinRequestUnauthorizedError('You are not allowed to update this join request');
     }
 
+    if (joinRequest.status === JoinRequestStatus.WITHDRAWN) {
+      throw new JoinRequestWithdrawnError('The guest withdrew this join request');
+    }
+
+    if (joinRequest.status === JoinRequestStatus.EXPIRED) {
+      throw new JoinRequestExpiredError('This join request has expired');
+    }
+
     if (nextStatus === JoinRequestStatus.ACCEPTED) {
       if (joinRequest.event.status !== EventStatus.ACTIVE) {
         throw new JoinRequestInactiveEventError('Event is not active');
       }
 
       if (joinRequest.status !== JoinRequestStatus.ACCEPTED) {
+        // Same lock as instant joins and waitlist promotions, so concurrent accepts cannot overfill the event.
+        await tx.$queryRaw`SELECT "id" FROM "Event" WHERE "id" = ${joinRequest.eventId} FOR UPDATE`;
+
         const acceptedCount = await tx.joinRequest.count({
           where: {
             eventId: joinRequest.eventId,
@@ -210,6 +438,234 @@ export const updateJoinRequestStatus = async (
   });
 };
 
+/**
+ * Accepts or rejects several of an event's requests at once, in the order
+ * given. Each request succeeds or fails on its own, but the whole batch runs
+ * under the event lock so accepts cannot overfill the event between them.
+ */
+export const updateJoinRequestStatuses = async (
+  input: UpdateJoinRequestStatusesInput
+): Promise<JoinRequestBatchOutcome[]> => {
+  const nextStatus = input.status;
+  if (nextStatus !== JoinRequestStatus.ACCEPTED && nextStatus !== JoinRequestStatus.REJECTED) {
+    throw new JoinRequestInvalidStatusError('Status must be accepted or rejected');
+  }
+
+  return prisma.$transaction(async (tx) => {
+    // Same lock as event edits and waitlist promotions.
+    await tx.$queryRaw`SELECT "id" FROM "Event" WHERE "id" = ${input.eventId} FOR UPDATE`;
+
+    const event = await tx.event.findUnique({
+      where: { id: input.eventId },
+      select: { hostId: true, status: true, maxParticipants: true },
+    });
+
+    if (!event) {
+      throw new JoinRequestEventNotFoundError('Event not found');
+    }
+
+    if (event.hostId !== input.hostId) {
+      throw new JoinRequestUnauthorizedError('You are not allowed to update join requests for this event');
+    }
+
+    if (nextStatus === JoinRequestStatus.ACCEPTED && event.status !== EventStatus.ACTIVE) {
+      throw new JoinRequestInactiveEventError('Event is not active');
+    }
+
+    const joinRequestIds = [...new Set(input.joinRequestIds)];
+    const [records, initialAcceptedCount] = await Promise.all([
+      tx.joinRequest.findMany({ where: { id: { in: joinRequestIds }, eventId: input.eventId } }),
+      tx.joinRequest.count({ where: { eventId: input.eventId, status: JoinRequestStatus.ACCEPTED } }),
+    ]);
+    const recordsById = new Map(records.map((record) => [record.id, record]));
+
+    let acceptedCount = initialAcceptedCount;
+    const outcomes: JoinRequestBatchOutcome[] = [];
+    for (const joinRequestId of joinRequestIds) {
+      const existing = recordsById.get(joinRequestId);
+      if (!existing) {
+        outcomes.push({ joinRequestId, ok: false, reason: 'not_found' });
+        continue;
+      }
+
+      if (existing.status === JoinRequestStatus.WITHDRAWN) {
+        outcomes.push({ joinRequestId, ok: false, reason: 'withdrawn' });
+        continue;
+      }
+
+      if (existing.status === JoinRequestStatus.EXPIRED) {
+        outcomes.push({ joinRequestId, ok: false, reason: 'expired' });
+        continue;
+      }
+
+      if (nextStatus === JoinRequestStatus.ACCEPTED && existing.status !== JoinRequestStatus.ACCEPTED) {
+        if (!hasAvailableSlots(event.maxParticipants, acceptedCount)) {
+          outcomes.push({ joinRequestId, ok: false, reason: 'event_full' });
+          continue;
+        }
+        acceptedCount += 1;
+      }
+
+      const record = await tx.joinRequest.update({
+        where: { id: joinRequestId },
+        data: { status: nextStatus },
+      });
+      outcomes.push({
+        joinRequestId,
+        ok: true,
+        joinRequest: serializeJoinRequest(record),
+        previousStatus: existing.status,
+      });
+    }
+
+    return outcomes;
+  });
+};
+
+/**
+ * Lets a guest take back their own request, or their spot once accepted.
+ * The record is kept as WITHDRAWN rather than deleted so the host's history
+ * and the chat transcript stay intact.
+ */
+export const withdrawJoinRequest = async (input: WithdrawJoinRequestInput): Promise<WithdrawJoinRequestResult> => {
+  return prisma.$transaction(async (tx) => {
+    const joinRequest = await tx.joinRequest.findUnique({
+      where: { id: input.joinRequestId },
+      include: {
+        event: {
+          select: {
+            hostId: true,
+          },
+        },
+      },
+    });
+
+    if (!joinRequest) {
+      throw new JoinRequestNotFoundError('Join request not found');
+    }
+
+    if (joinRequest.userId !== input.userId) {
+      throw new JoinRequestUnauthorizedError('Only the guest can withdraw this join request');
+    }
+
+    if (
+      joinRequest.status === JoinRequestStatus.REJECTED ||
+      joinRequest.status === JoinRequestStatus.WITHDRAWN ||
+      joinRequest.status === JoinRequestStatus.EXPIRED
+    ) {
+      throw new JoinRequestInvalidStatusError('This join request is no longer open');
+    }
+
+    const record = await tx.joinRequest.update({
+      where: { id: joinRequest.id },
+      data: { status: JoinRequestStatus.WITHDRAWN },
+    });
+
+    return {
+      joinRequest: serializeJoinRequest(record),
+      previousStatus: joinRequest.status,
+      hostId: joinRequest.event.hostId,
+    };
+  });
+};
+
+/**
+ * Moves the longest-waiting guests off the waitlist while the event has room.
+ * Safe to call whenever a spot may have opened; it does nothing otherwise.
+ */
+export const promoteWaitlistedJoinRequests = async (eventId: string): Promise<WaitlistPromotion[]> => {
+  return prisma.$transaction(async (tx) => {
+    // Same lock as event edits and invite redemptions, so promotions cannot overfill the event.
+    await tx.$queryRaw`SELECT "id" FROM "Event" WHERE "id" = ${eventId} FOR UPDATE`;
+
+    const event = await tx.event.findUnique({
+      where: { id: eventId },
+      select: { status: true, maxParticipants: true, waitlistAutoAccept: true, approvalMode: true },
+    });
+
+    if (!event || event.status !== EventStatus.ACTIVE) {
+      return [];
+    }
+
+    // Instant-join events never queue guests for the host, whatever the waitlist setting.
+    const autoAccept = event.waitlistAutoAccept || event.approvalMode === EventApprovalMode.AUTOMATIC;
+
+    const [acceptedCount, pendingCount] = await Promise.all([
+      tx.joinRequest.count({ where: { eventId, status: JoinRequestStatus.ACCEPTED } }),
+      tx.joinRequest.count({ where: { eventId, status: JoinRequestStatus.PENDING } }),
+    ]);
+
+    // Without auto-accept, promoted guests wait in the host's pending queue, and
+    // that queue is never allowed to outgrow the open spots.
+    const openSpots =
+      calculateJoinCapacity(event.maxParticipants) - acceptedCount - (autoAccept ? 0 : pendingCount);
+    if (openSpots <= 0) {
+      return [];
+    }
+
+    const next = await tx.joinRequest.findMany({
+      where: { eventId, status: JoinRequestStatus.WAITLISTED },
+      orderBy: { createdAt: 'asc' },
+      take: openSpots,
+      select: { id: true, userId: true },
+    });
+
+    if (next.length === 0) {
+      return [];
+    }
+
+    const status = autoAccept ? JoinRequestStatus.ACCEPTED : JoinRequestStatus.PENDING;
+    await tx.joinRequest.updateMany({
+      where: { id: { in: next.map((request) => request.id) } },
+      data: { status, queuedAt: new Date() },
+    });
+
+    return next.map((request) => ({ id: request.id, eventId, userId: request.userId, status }));
+  });
+};
+
+/**
+ * Closes requests nobody is going to answer: pending ones past the event's
+ * cutoff or left waiting longer than its timeout, and anything still pending
+ * or waitlisted once the event has ended. Waitlisted guests are left alone
+ * before then, since a spot can still open for them. Run by the
+ * "expire-join-requests" job; returns what was closed so guests can be told.
+ */
+export const expireStaleJoinRequests = async (referenceDate: Date = new Date()): Promise<ExpiredJoinRequest[]> => {
+  // Pending requests time out from queuedAt rather than updatedAt, so later
+  // writes to a request do not restart the host's clock. Settings left null
+  // make their interval null, so those branches never match.
+  return prisma.$queryRaw<ExpiredJoinRequest[]>`
+    UPDATE "JoinRequest" AS jr
+    SET
+      "status" = 'EXPIRED',
+      "expiryReason" = stale."reason"::"JoinRequestExpiryReason",
+      "updatedAt" = ${referenceDate}
+    FROM (
+      SELECT
+        r."id",
+        r."status",
+        e."hostId",
+        CASE
+          WHEN ${EVENT_END_SQL} <= ${referenceDate} THEN 'EVENT_ENDED'
+          WHEN r."status" = 'PENDING'
+            AND e."datetime" - make_interval(mins => e."joinRequestCutoffMinutes") <= ${referenceDate}
+            THEN 'REQUESTS_CLOSED'
+          WHEN r."status" = 'PENDING'
+            AND r."queuedAt" + make_interval(hours => e."joinRequestTimeoutHours") <= ${referenceDate}
+            THEN 'HOST_TIMEOUT'
+        END AS "reason"
+      FROM "JoinRequest" r
+      JOIN "Event" e ON e."id" = r."eventId"
+      WHERE r."status" IN ('PENDING', 'WAITLISTED')
+    ) AS stale
+    WHERE jr."id" = stale."id"
+      AND jr."status" = stale."status"
+      AND stale."reason" IS NOT NULL
+    RETURNING jr."id", jr."eventId", jr."userId", stale."hostId", jr."expiryReason" AS "reason"
+  `;
+};
+
 export const listJoinRequestsForEvent = async (
   input: ListJoinRequestsForEventInput
 ): Promise<SerializedJoinRequestWithUser[]> => {
@@ -242,6 +698,9 @@ export const listJoinRequestsForEvent = async (
           createdAt: true,
         },
       },
+      answers: {
+        orderBy: { position: 'asc' },
+      },
     },
   });
 
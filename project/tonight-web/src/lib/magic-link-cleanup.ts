@@ -0,0 +1,25 @@
+import { prisma } from '@/lib/prisma';
+
+/** Used or expired links are kept this long so verify can still explain why a link failed. */
+export const MAGIC_LINK_RETENTION_HOURS = 24;
+
+export const cleanupMagicLinks = async (referenceDate: Date = new Date()) => {
+  const cutoff = new Date(referenceDate.getTime() - MAGIC_LINK_RETENTION_HOURS * 60 * 60 * 1000);
+
+  return prisma.magicLink.deleteMany({
+    where: {
+      OR: [
+        {
+          usedAt: {
+            lt: cutoff,
+          },
+        },
+        {
+          expiresAt: {
+            lt: cutoff,
+          },
+        },
+      ],
+    },
+  });
+};
@@ -0,0 +1,106 @@
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+
+export interface StoredMediaObject {
+  data: Buffer;
+  contentType: string;
+}
+
+/**
+ * Where uploaded media lives. Keys are slash-separated relative paths such as
+ * `events/<id>/cover-<id>/cover.webp`; implementations decide how they map to
+ * files or objects and which URL serves them.
+ */
+export interface MediaStorage {
+  put: (key: string, data: Buffer, contentType: string) => Promise<void>;
+  get: (key: string) => Promise<StoredMediaObject | null>;
+  delete: (key: string) => Promise<void>;
+  getUrl: (key: string) => string;
+}
+
+export const MEDIA_ROUTE_PREFIX = '/api/media';
+
+/** Image formats uploads may arrive in; everything is re-encoded before it is stored. */
+export const ACCEPTED_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp'] as const;
+
+const DEFAULT_LOCAL_MEDIA_DIR = '.media';
+const MEDIA_KEY_PATTERN = /^[a-z0-9][a-z0-9._-]*(\/[a-z0-9][a-z0-9._-]*)*$/i;
+
+const CONTENT_TYPES_BY_EXTENSION: Record<string, string> = {
+  '.webp': 'image/webp',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+};
+
+let cachedStorage: MediaStorage | undefined;
+
+export const isAcceptedImageType = (value: string): value is (typeof ACCEPTED_IMAGE_TYPES)[number] =>
+  (ACCEPTED_IMAGE_TYPES as readonly string[]).includes(value);
+
+export const isValidMediaKey = (key: string) =>
+  MEDIA_KEY_PATTERN.test(key) && !key.split('/').some((segment) => segment === '.' || segment === '..');
+
+const assertValidMediaKey = (key: string) => {
+  if (!isValidMediaKey(key)) {
+    throw new Error(`Invalid media key: ${key}`);
+  }
+};
+
+const isMissingFileError = (error: unknown) =>
+  typeof error === 'object' && error !== null && (error as NodeJS.ErrnoException).code === 'ENOENT';
+
+/** Keeps media on the local disk and serves it through the media route. Meant for dev and tests. */
+export class LocalMediaStorage implements MediaStorage {
+  constructor(private readonly rootDir: string) {}
+
+  private resolvePath(key: string) {
+    assertValidMediaKey(key);
+    return path.join(this.rootDir, ...key.split('/'));
+  }
+
+  // The content type is recovered from the file extension on read.
+  async put(key: string, data: Buffer) {
+    const filePath = this.resolvePath(key);
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await writeFile(filePath, data);
+  }
+
+  async get(key: string): Promise<StoredMediaObject | null> {
+    const filePath = this.resolvePath(key);
+    try {
+      const data = await readFile(filePath);
+      const contentType = CONTENT_TYPES_BY_EXTENSION[path.extname(filePath).toLowerCase()] ?? 'application/octet-stream';
+      return { data, contentType };
+    } catch (error) {
+      if (isMissingFileError(error)) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string) {
+    await rm(this.resolvePath(key), { force: true });
+  }
+
+  getUrl(key: string) {
+    assertValidMediaKey(key);
+    return `${MEDIA_ROUTE_PREFIX}/${key}`;
+  }
+}
+
+export const getMediaStorage = (): MediaStorage => {
+  if (cachedStorage) {
+    return cachedStorage;
+  }
+
+  const driver = process.env.MEDIA_STORAGE_DRIVER ?? 'local';
+  if (driver !== 'local') {
+    throw new Error(`Unsupported media storage driver: ${driver}`);
+  }
+
+  const rootDir = path.resolve(process.cwd(), process.env.MEDIA_STORAGE_DIR ?? DEFAULT_LOCAL_MEDIA_DIR);
+  cachedStorage = new LocalMediaStorage(rootDir);
+  return cachedStorage;
+};
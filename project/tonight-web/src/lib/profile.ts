@@ -17,7 +17,16 @@ export type HostEventSummary = {
   acceptedRequests: number;
 };
 
+export type PastEventSummary = {
+  id: string;
+  title: string;
+  datetime: string;
+  locationName: string;
+  status: EventStatus;
+};
+
 const UPCOMING_LOOKAHEAD_MS = 1000 * 60 * 60 * 24 * 7; // 7 days
+const PAST_EVENTS_LIMIT = 5;
 
 export const fetchProfileStats = async (userId: string): Promise<ProfileStats> => {
   const [eventsHosted, eventsJoined, acceptedAsHost, acceptedAsGuest] = await Promise.all([
@@ -73,7 +82,8 @@ export const fetchActiveEventSummaries = async (userId: string): Promise<HostEve
   const events = await prisma.event.findMany({
     where: {
       hostId: userId,
-      status: EventStatus.ACTIVE,
+      // Cancelled plans stay listed so the host can see they went out to guests.
+      status: { in: [EventStatus.ACTIVE, EventStatus.CANCELLED] },
       datetime: {
         gte: cutoff,
         lte: futureWindow,
@@ -133,3 +143,29 @@ export const fetchActiveEventSummaries = async (userId: string): Promise<HostEve
     };
   });
 };
+
+/** The host's most recent events that have already started, for "host again". */
+export const fetchPastEventSummaries = async (userId: string): Promise<PastEventSummary[]> => {
+  const events = await prisma.event.findMany({
+    where: {
+      hostId: userId,
+      datetime: { lt: new Date() },
+    },
+    orderBy: {
+      datetime: 'desc',
+    },
+    take: PAST_EVENTS_LIMIT,
+    select: {
+      id: true,
+      title: true,
+      datetime: true,
+      locationName: true,
+      status: true,
+    },
+  });
+
+  return events.map((event) => ({
+    ...event,
+    datetime: event.datetime.toISOString(),
+  }));
+};
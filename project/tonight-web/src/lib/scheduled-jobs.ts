@@ -0,0 +1,75 @@
+import { migrateDataUrlAvatars } from '@/lib/avatars';
+import { expirePastEvents } from '@/lib/event-expiration';
+import { notifyJoinRequestsExpired, notifyWaitlistPromotions } from '@/lib/event-notifications';
+import { JobRunner, type ScheduledJob } from '@/lib/job-runner';
+import { expireStaleJoinRequests, promoteWaitlistedJoinRequests } from '@/lib/join-requests';
+import { cleanupMagicLinks } from '@/lib/magic-link-cleanup';
+
+const MINUTE_MS = 60 * 1000;
+
+export const scheduledJobs: ScheduledJob[] = [
+  {
+    name: 'expire-events',
+    intervalMs: 5 * MINUTE_MS,
+    run: async (referenceDate) => {
+      const { count } = await expirePastEvents(referenceDate);
+      return { expired: count };
+    },
+  },
+  {
+    name: 'expire-join-requests',
+    intervalMs: 5 * MINUTE_MS,
+    run: async (referenceDate) => {
+      const expired = await expireStaleJoinRequests(referenceDate);
+      const notified = notifyJoinRequestsExpired(expired).length;
+
+      // Timed-out requests free room in the host's queue, which the waitlist
+      // gets first. Past the cutoff or the end there is nothing to promote into.
+      const timedOutEvents = new Map(
+        expired.filter((request) => request.reason === 'HOST_TIMEOUT').map((request) => [request.eventId, request.hostId])
+      );
+      let promoted = 0;
+      for (const [eventId, hostId] of timedOutEvents) {
+        const promotions = await promoteWaitlistedJoinRequests(eventId);
+        promoted += (await notifyWaitlistPromotions(hostId, promotions)).length;
+      }
+
+      return { expired: expired.length, notified, promoted };
+    },
+  },
+  {
+    name: 'cleanup-magic-links',
+    intervalMs: 60 * MINUTE_MS,
+    run: async (referenceDate) => {
+      const { count } = await cleanupMagicLinks(referenceDate);
+      return { deleted: count };
+    },
+  },
+  {
+    name: 'migrate-data-url-avatars',
+    intervalMs: 15 * MINUTE_MS,
+    run: async () => migrateDataUrlAvatars(),
+  },
+];
+
+export const getJobRunner = (): JobRunner => {
+  // Shared through globalThis so route handlers and instrumentation see the same
+  // runner across Next.js module contexts and dev reloads.
+  const globalJobs = globalThis as typeof globalThis & { __jobRunner?: JobRunner };
+  if (!globalJobs.__jobRunner) {
+    globalJobs.__jobRunner = new JobRunner(scheduledJobs);
+  }
+  return globalJobs.__jobRunner;
+};
+
+export const startScheduledJobs = () => {
+  const runner = getJobRunner();
+  if (runner.isStarted()) {
+    return runner;
+  }
+
+  runner.start();
+  // Catch up on anything that went stale while the server was down.
+  void runner.runJobs();
+  return runner;
+};
@@ -5,6 +5,10 @@ export const JOIN_REQUEST_MESSAGE_EVENT = 'join-request:message' as const;
 export const JOIN_REQUEST_JOIN_EVENT = 'join-request:join' as const;
 export const JOIN_REQUEST_READ_RECEIPT_EVENT = 'join-request:read-receipt' as const;
 
+// Hosts follow their event's room to hear about requests they have no chat room for yet
+export const EVENT_HOST_ROOM_PREFIX = 'event-host:' as const;
+export const EVENT_HOST_JOIN_EVENT = 'event-host:join' as const;
+
 // Typing indicator events
 export const CHAT_TYPING_START_EVENT = 'chat:typing_start' as const;
 export const CHAT_TYPING_STOP_EVENT = 'chat:typing_stop' as const;
@@ -14,15 +18,22 @@ export const CHAT_TYPING_STOP_BROADCAST_EVENT = 'chat:typing_stop' as const;
 // Join request status change event
 export const JOIN_REQUEST_STATUS_CHANGED_EVENT = 'join-request:status-changed' as const;
 
+// Host edited the event details
+export const EVENT_UPDATED_EVENT = 'event:updated' as const;
+
 export type SocketMessageReadReceipt = {
   userId: string;
   readAt: string;
 };
 
+// Shown in place of the sender's name on SYSTEM messages
+export const SYSTEM_MESSAGE_AUTHOR_NAME = 'Event update' as const;
+
 export type SocketMessagePayload = {
   id: string;
   joinRequestId: string;
   senderId: string;
+  kind: 'USER' | 'SYSTEM';
   content: string;
   createdAt: string;
   readBy: SocketMessageReadReceipt[];
@@ -49,3 +60,12 @@ export type JoinRequestStatusChangedPayload = {
   status: string;
   eventId: string;
 };
+
+export type EventUpdatedPayload = {
+  eventId: string;
+  joinRequestId: string;
+  changedFields: string[];
+  status: string;
+  summary: string;
+  updatedAt: string;
+};
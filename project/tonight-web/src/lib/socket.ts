@@ -2,7 +2,10 @@ import type { Server as HTTPServer } from 'node:http';
 import { Server as SocketIOServer, type Socket, type ServerOptions, type DefaultEventsMap } from 'socket.io';
 
 import { verifyJWT } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
 import {
+  EVENT_HOST_JOIN_EVENT,
+  EVENT_HOST_ROOM_PREFIX,
   JOIN_REQUEST_ROOM_PREFIX,
   JOIN_REQUEST_MESSAGE_EVENT,
   JOIN_REQUEST_JOIN_EVENT,
@@ -11,6 +14,10 @@ import {
   CHAT_TYPING_STOP_EVENT,
   CHAT_TYPING_EVENT,
   CHAT_TYPING_STOP_BROADCAST_EVENT,
+  EVENT_UPDATED_EVENT,
+  JOIN_REQUEST_STATUS_CHANGED_EVENT,
+  type EventUpdatedPayload,
+  type JoinRequestStatusChangedPayload,
   type SocketMessagePayload,
   type SocketReadReceiptEventPayload,
 } from '@/lib/socket-shared';
@@ -99,6 +106,40 @@ class SocketService {
     this.getIO().to(this.getRoomName(payload.joinRequestId)).emit(JOIN_REQUEST_READ_RECEIPT_EVENT, payload);
   }
 
+  public emitEventUpdated(payload: EventUpdatedPayload): void {
+    if (!payload.joinRequestId) {
+      throw new Error('joinRequestId is required for event update events');
+    }
+    if (!this.isInitialized()) {
+      console.warn('[SocketService] Cannot emit event update: Socket.IO not initialized');
+      return;
+    }
+    this.getIO().to(this.getRoomName(payload.joinRequestId)).emit(EVENT_UPDATED_EVENT, payload);
+  }
+
+  /**
+   * `includeHost` also reaches the event's host room, for changes the host
+   * has to hear about before they share a chat room with the guest. Sockets
+   * in both rooms still get the event once.
+   */
+  public emitJoinRequestStatusChanged(
+    payload: JoinRequestStatusChangedPayload,
+    { includeHost = false }: { includeHost?: boolean } = {}
+  ): void {
+    if (!payload.joinRequestId) {
+      throw new Error('joinRequestId is required for status change events');
+    }
+    if (!this.isInitialized()) {
+      console.warn('[SocketService] Cannot emit status change: Socket.IO not initialized');
+      return;
+    }
+    const rooms = [this.getRoomName(payload.joinRequestId)];
+    if (includeHost) {
+      rooms.push(this.getHostRoomName(payload.eventId));
+    }
+    this.getIO().to(rooms).emit(JOIN_REQUEST_STATUS_CHANGED_EVENT, payload);
+  }
+
   private configure(io: SocketIOServer): void {
     io.use(async (socket, next) => {
       try {
@@ -126,6 +167,13 @@ class SocketService {
         }
       });
 
+      socket.on(EVENT_HOST_JOIN_EVENT, (eventId: unknown) => {
+        this.handleHostRoomJoin(socket, eventId).catch((error) => {
+          const message = error instanceof Error ? error.message : 'Unable to join room';
+          socket.emit('error', message);
+        });
+      });
+
       // Typing indicator events
       socket.on(CHAT_TYPING_START_EVENT, ({ joinRequestId }: { joinRequestId: string }) => {
         if (!socket.data?.userId) return;
@@ -162,10 +210,27 @@ class SocketService {
     socket.join(this.getRoomName(joinRequestId));
   }
 
+  private async handleHostRoomJoin(socket: AuthenticatedSocket, eventId: unknown): Promise<void> {
+    if (typeof eventId !== 'string' || !eventId.trim()) {
+      throw new Error('eventId must be a non-empty string');
+    }
+
+    const event = await prisma.event.findUnique({ where: { id: eventId }, select: { hostId: true } });
+    if (!event || event.hostId !== socket.data.userId) {
+      throw new Error('Only the host can follow this event');
+    }
+
+    socket.join(this.getHostRoomName(eventId));
+  }
+
   private getRoomName(joinRequestId: string): string {
     return `${JOIN_REQUEST_ROOM_PREFIX}${joinRequestId}`;
   }
 
+  private getHostRoomName(eventId: string): string {
+    return `${EVENT_HOST_ROOM_PREFIX}${eventId}`;
+  }
+
   private extractToken(socket: AuthenticatedSocket): string | undefined {
     const authToken = socket.handshake.auth?.token;
     const tokenFromAuth = this.normalizeTokenValue(authToken);
@@ -0,0 +1,193 @@
+export const TIME_WINDOW_PRESETS = ["tonight", "tomorrow", "weekend"] as const;
+
+export type TimeWindowPreset = (typeof TIME_WINDOW_PRESETS)[number];
+
+export const TIME_WINDOW_LABELS: Record<TimeWindowPreset, string> = {
+  tonight: "Tonight",
+  tomorrow: "Tomorrow",
+  weekend: "This weekend",
+};
+
+export type TimeWindow = {
+  from: Date | null;
+  to: Date | null;
+};
+
+/** "Tonight" runs until this hour the next morning, local time. */
+const NIGHT_ENDS_AT_HOUR = 4;
+/** The weekend starts on Friday at this hour, local time. */
+const WEEKEND_STARTS_AT_HOUR = 18;
+const FRIDAY = 5;
+const SATURDAY = 6;
+const SUNDAY = 0;
+
+export const DEFAULT_TIME_ZONE = "UTC";
+
+export const isTimeWindowPreset = (value: unknown): value is TimeWindowPreset =>
+  typeof value === "string" && (TIME_WINDOW_PRESETS as readonly string[]).includes(value);
+
+export const isValidTimeZone = (value: string) => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+type CalendarDate = { year: number; month: number; day: number };
+
+type ZonedParts = CalendarDate & { hour: number; minute: number; second: number; weekday: number };
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string) => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+const getZonedParts = (instant: Date, timeZone: string): ZonedParts => {
+  const parts = Object.fromEntries(
+    getFormatter(timeZone)
+      .formatToParts(instant)
+      .filter((part) => part.type !== "literal")
+      .map((part) => [part.type, Number(part.value)])
+  ) as Record<"year" | "month" | "day" | "hour" | "minute" | "second", number>;
+  const weekday = new Date(Date.UTC(parts.year, parts.month - 1, parts.day)).getUTCDay();
+  return { ...parts, weekday };
+};
+
+const getOffsetMs = (instant: number, timeZone: string) => {
+  const parts = getZonedParts(new Date(instant), timeZone);
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return asUtc - Math.floor(instant / 1000) * 1000;
+};
+
+const wallClockToDate = (wallClock: number, timeZone: string): Date => {
+  const firstGuess = wallClock - getOffsetMs(wallClock, timeZone);
+  const offset = getOffsetMs(firstGuess, timeZone);
+  return new Date(wallClock - offset);
+};
+
+/**
+ * Converts a wall-clock time in `timeZone` to an instant. Times skipped by a DST
+ * jump resolve to the instant just after the gap.
+ */
+export const zonedTimeToDate = (date: CalendarDate, hour: number, timeZone: string): Date =>
+  wallClockToDate(Date.UTC(date.year, date.month - 1, date.day, hour), timeZone);
+
+/** Day of the week (0 = Sunday) of `instant` as seen in `timeZone`. */
+export const getZonedWeekday = (instant: Date, timeZone: string): number =>
+  getZonedParts(instant, timeZone).weekday;
+
+/** The same wall-clock time `days` calendar days later, across any DST change. */
+export const addZonedDays = (instant: Date, days: number, timeZone: string): Date => {
+  const local = getZonedParts(instant, timeZone);
+  const wallClock = Date.UTC(local.year, local.month - 1, local.day + days, local.hour, local.minute, local.second);
+  return wallClockToDate(wallClock, timeZone);
+};
+
+const addDays = (date: CalendarDate, days: number): CalendarDate => {
+  const shifted = new Date(Date.UTC(date.year, date.month - 1, date.day + days));
+  return { year: shifted.getUTCFullYear(), month: shifted.getUTCMonth() + 1, day: shifted.getUTCDate() };
+};
+
+/**
+ * Resolves a named preset to a concrete window in the viewer's time zone.
+ * Windows already under way start at `now` rather than in the past.
+ */
+export const resolveTimeWindowPreset = (
+  preset: TimeWindowPreset,
+  timeZone: string = DEFAULT_TIME_ZONE,
+  now: Date = new Date()
+): { from: Date; to: Date } => {
+  const local = getZonedParts(now, timeZone);
+  const today: CalendarDate = { year: local.year, month: local.month, day: local.day };
+
+  switch (preset) {
+    case "tonight": {
+      // Before NIGHT_ENDS_AT_HOUR it is still last night.
+      const endDay = local.hour < NIGHT_ENDS_AT_HOUR ? today : addDays(today, 1);
+      return { from: now, to: zonedTimeToDate(endDay, NIGHT_ENDS_AT_HOUR, timeZone) };
+    }
+    case "tomorrow": {
+      const tomorrow = addDays(today, 1);
+      return {
+        from: zonedTimeToDate(tomorrow, 0, timeZone),
+        to: zonedTimeToDate(addDays(tomorrow, 1), 0, timeZone),
+      };
+    }
+    case "weekend": {
+      const daysUntilMonday = (8 - local.weekday) % 7 || 7;
+      const to = zonedTimeToDate(addDays(today, daysUntilMonday), 0, timeZone);
+      const inWeekend =
+        local.weekday === SATURDAY ||
+        local.weekday === SUNDAY ||
+        (local.weekday === FRIDAY && local.hour >= WEEKEND_STARTS_AT_HOUR);
+      if (inWeekend) {
+        return { from: now, to };
+      }
+      const friday = addDays(today, (FRIDAY - local.weekday + 7) % 7);
+      return { from: zonedTimeToDate(friday, WEEKEND_STARTS_AT_HOUR, timeZone), to };
+    }
+  }
+};
+
+const parseInstant = (value: string | null) => {
+  if (value === null || !value.trim()) {
+    return { value: null } as const;
+  }
+  const parsed = new Date(value);
+  return Number.isNaN(parsed.getTime()) ? ({ error: true } as const) : ({ value: parsed } as const);
+};
+
+/**
+ * Parses the discovery time filter from `from`/`to` (ISO timestamps) or a named
+ * `window` preset plus the viewer's IANA `tz`. Presets and explicit bounds are
+ * mutually exclusive.
+ */
+export const parseTimeWindowParams = (searchParams: URLSearchParams, now: Date = new Date()) => {
+  const preset = searchParams.get("window");
+  const timeZone = searchParams.get("tz")?.trim() || DEFAULT_TIME_ZONE;
+  const fromField = parseInstant(searchParams.get("from"));
+  const toField = parseInstant(searchParams.get("to"));
+
+  if ("error" in fromField || "error" in toField) {
+    return { error: "from and to must be valid ISO 8601 timestamps" } as const;
+  }
+
+  if (!isValidTimeZone(timeZone)) {
+    return { error: "tz must be a valid IANA time zone" } as const;
+  }
+
+  if (preset !== null && preset !== "") {
+    if (!isTimeWindowPreset(preset)) {
+      return { error: `window must be one of: ${TIME_WINDOW_PRESETS.join(", ")}` } as const;
+    }
+    if (fromField.value || toField.value) {
+      return { error: "window cannot be combined with from or to" } as const;
+    }
+    return {
+      value: { ...resolveTimeWindowPreset(preset, timeZone, now), preset, timeZone },
+    } as const;
+  }
+
+  if (fromField.value && toField.value && fromField.value >= toField.value) {
+    return { error: "from must be before to" } as const;
+  }
+
+  return { value: { from: fromField.value, to: toField.value, preset: null, timeZone } } as const;
+};
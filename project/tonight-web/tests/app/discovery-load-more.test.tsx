@@ -0,0 +1,109 @@
+import '../setup-dom';
+import '@testing-library/jest-dom/vitest';
+import React from 'react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { cleanup, fireEvent, render, screen } from '@testing-library/react';
+
+import { DiscoveryList } from '@/app/page';
+
+vi.mock('@/components/tonight/MiniMap', () => ({
+  MiniMap: ({ locationName }: { locationName: string }) => (
+    <div data-testid={`mini-map-${locationName}`} />
+  ),
+}));
+
+type DiscoveryEvent = React.ComponentProps<typeof DiscoveryList>['events'][number];
+
+const baseEvent = {
+  id: 'evt-1',
+  title: 'Load More Test',
+  description: 'Details that should render',
+  datetime: '2026-02-13T00:00:00.000Z',
+  locationName: 'Downtown',
+  location: { latitude: 42, longitude: 23 },
+  maxParticipants: 5,
+  distanceMeters: 1200,
+  hostLabel: 'Casey Host',
+  hostInitials: 'CH',
+  hostPhotoUrl: null,
+  hostDisplayName: 'Casey Host',
+  categoryId: null,
+  datetimeLabel: 'Fri 8:00 PM',
+  distanceLabel: '2 km away',
+  spotsRemaining: 2,
+  host: {
+    id: 'host-1',
+    displayName: 'Casey Host',
+    photoUrl: null,
+    initials: 'CH',
+  },
+  availability: {
+    maxParticipants: 5,
+    acceptedCount: 3,
+    spotsRemaining: 2,
+  },
+} as unknown as DiscoveryEvent;
+
+// Reports every observed element as visible straight away, like a sentinel
+// that is already on screen.
+class VisibleIntersectionObserver {
+  constructor(private readonly callback: IntersectionObserverCallback) {}
+
+  observe(target: Element) {
+    this.callback([{ isIntersecting: true, target } as IntersectionObserverEntry], this as unknown as IntersectionObserver);
+  }
+
+  disconnect() {}
+
+  unobserve() {}
+}
+
+beforeEach(() => {
+  vi.stubGlobal('IntersectionObserver', VisibleIntersectionObserver);
+});
+
+afterEach(() => {
+  cleanup();
+  vi.unstubAllGlobals();
+});
+
+describe('DiscoveryList load more', () => {
+  it('loads the next page when the end of the list is visible', () => {
+    const onLoadMore = vi.fn();
+    render(
+      <DiscoveryList
+        events={[baseEvent]}
+        selectedEventId={null}
+        onSelect={() => {}}
+        locationReady
+        radiusSummary="10 km radius"
+        hasMore
+        onLoadMore={onLoadMore}
+      />
+    );
+
+    expect(onLoadMore).toHaveBeenCalledTimes(1);
+  });
+
+  it('waits for the retry button after a page fails to load', () => {
+    const onLoadMore = vi.fn();
+    render(
+      <DiscoveryList
+        events={[baseEvent]}
+        selectedEventId={null}
+        onSelect={() => {}}
+        locationReady
+        radiusSummary="10 km radius"
+        hasMore
+        loadMoreError="Couldn't load more events."
+        onLoadMore={onLoadMore}
+      />
+    );
+
+    expect(onLoadMore).not.toHaveBeenCalled();
+    expect(screen.getByRole('alert')).toHaveTextContent("Couldn't load more events.");
+
+    fireEvent.click(screen.getByRole('button', { name: 'Try again' }));
+    expect(onLoadMore).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,127 @@
+import '../../setup-dom';
+import '@testing-library/jest-dom/vitest';
+import React from 'react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { cleanup, fireEvent, render, screen, waitFor } from '@testing-library/react';
+
+import JoinRequestsManagementPage from '@/app/events/[id]/requests/page';
+import { JOIN_REQUEST_BATCH_LIMIT } from '@/lib/join-request-limits';
+
+vi.mock('next/navigation', () => ({
+  useParams: () => ({ id: 'evt-1' }),
+}));
+
+vi.mock('next/link', () => ({
+  default: ({ href, children, ...props }: React.AnchorHTMLAttributes<HTMLAnchorElement> & { href: string }) => (
+    <a href={href} {...props}>
+      {children}
+    </a>
+  ),
+}));
+
+vi.mock('@/lib/toast', () => ({
+  showSuccessToast: vi.fn(),
+  showErrorToast: vi.fn(),
+}));
+
+const PENDING_COUNT = 150;
+
+const pendingRequests = Array.from({ length: PENDING_COUNT }, (_, index) => ({
+  id: `jr-${index}`,
+  eventId: 'evt-1',
+  userId: `user-${index}`,
+  status: 'PENDING',
+  intro: null,
+  createdAt: '2026-03-01T18:00:00.000Z',
+  updatedAt: '2026-03-01T18:00:00.000Z',
+  user: {
+    id: `user-${index}`,
+    email: `guest${index}@example.com`,
+    displayName: `Guest ${index}`,
+    photoUrl: null,
+    createdAt: '2026-01-01T00:00:00.000Z',
+  },
+  answers: [],
+}));
+
+const jsonResponse = (body: unknown) =>
+  ({ ok: true, status: 200, json: async () => body }) as Response;
+
+describe('JoinRequestsManagementPage bulk decisions', () => {
+  let patchBodies: Array<{ status: string; joinRequestIds: string[] }>;
+
+  beforeEach(() => {
+    patchBodies = [];
+    vi.spyOn(window, 'confirm').mockReturnValue(true);
+    globalThis.fetch = vi.fn(async (input: RequestInfo | URL, init?: RequestInit) => {
+      const url = String(input);
+      if (url === '/api/events/evt-1') {
+        return jsonResponse({
+          event: {
+            id: 'evt-1',
+            title: 'Crowded rooftop',
+            description: 'Everyone wants in',
+            datetime: '2026-03-02T20:00:00.000Z',
+            locationName: 'Downtown',
+            maxParticipants: 200,
+            status: 'ACTIVE',
+          },
+        });
+      }
+      if (init?.method === 'PATCH') {
+        const body = JSON.parse(String(init.body)) as { status: string; joinRequestIds: string[] };
+        patchBodies.push(body);
+        return jsonResponse({
+          results: body.joinRequestIds.map((id) => ({
+            joinRequestId: id,
+            ok: true,
+            joinRequest: { id, status: 'REJECTED', updatedAt: '2026-03-01T19:00:00.000Z' },
+          })),
+          updated: body.joinRequestIds.length,
+          failed: 0,
+          promoted: 0,
+        });
+      }
+      return jsonResponse({ joinRequests: pendingRequests });
+    }) as typeof fetch;
+  });
+
+  afterEach(() => {
+    cleanup();
+    vi.restoreAllMocks();
+  });
+
+  it('passes on the oldest requests up to the batch limit in one request', async () => {
+    render(<JoinRequestsManagementPage />);
+
+    fireEvent.click(await screen.findByRole('button', { name: /pass on all remaining/i }));
+
+    await waitFor(() => {
+      expect(patchBodies).toHaveLength(1);
+    });
+    expect(window.confirm).toHaveBeenCalledWith(
+      `Reject the ${JOIN_REQUEST_BATCH_LIMIT} oldest of ${PENDING_COUNT} pending requests? You can pass on the rest afterwards.`
+    );
+    expect(patchBodies[0]).toEqual({
+      status: 'rejected',
+      joinRequestIds: pendingRequests.slice(0, JOIN_REQUEST_BATCH_LIMIT).map((request) => request.id),
+    });
+  });
+
+  it('stops selecting at the batch limit', async () => {
+    render(<JoinRequestsManagementPage />);
+
+    fireEvent.click(await screen.findByRole('checkbox', { name: /select all/i }));
+
+    expect(screen.getByText(`${JOIN_REQUEST_BATCH_LIMIT} selected`)).toBeInTheDocument();
+    expect(screen.getByRole('checkbox', { name: 'Select Guest 0' })).toBeChecked();
+    expect(screen.getByRole('checkbox', { name: `Select Guest ${PENDING_COUNT - 1}` })).toBeDisabled();
+
+    fireEvent.click(screen.getByRole('button', { name: /invite selected/i }));
+
+    await waitFor(() => {
+      expect(patchBodies).toHaveLength(1);
+    });
+    expect(patchBodies[0].joinRequestIds).toHaveLength(JOIN_REQUEST_BATCH_LIMIT);
+  });
+});
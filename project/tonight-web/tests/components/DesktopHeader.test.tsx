@@ -360,5 +360,21 @@ describe('DesktopHeader', () => {
     expect(screen.getByRole('button', { name: /clear draft for rina/i })).toBeInTheDocument();
   });
 
+  it('renders the event search field only when a search handler is provided', () => {
+    const onSearchChange = vi.fn();
+    const { rerender } = render(<DesktopHeader title="Discover" onNavigateProfile={noop} />);
+    expect(screen.queryByRole('searchbox', { name: /search events/i })).not.toBeInTheDocument();
 
+    rerender(
+      <DesktopHeader title="Discover" onNavigateProfile={noop} searchQuery="sushi" onSearchChange={onSearchChange} />
+    );
+
+    const field = screen.getByRole('searchbox', { name: /search events/i });
+    expect(field).toHaveValue('sushi');
+    fireEvent.change(field, { target: { value: 'board games' } });
+    expect(onSearchChange).toHaveBeenCalledWith('board games');
+
+    fireEvent.click(screen.getByRole('button', { name: /clear search/i }));
+    expect(onSearchChange).toHaveBeenLastCalledWith('');
+  });
 });
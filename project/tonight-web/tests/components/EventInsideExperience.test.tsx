@@ -3,6 +3,7 @@ import React from 'react';
 import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
 
 import { EventInsideExperience, type EventInsideExperienceProps } from '@/components/tonight/event-inside/EventInsideExperience';
+import type { JoinRequestStatusChangedPayload } from '@/lib/socket-shared';
 
 vi.mock('@/lib/toast', () => ({
   showSuccessToast: vi.fn(),
@@ -10,7 +11,11 @@ vi.mock('@/lib/toast', () => ({
 }));
 
 const joinRoomMock = vi.fn();
-let lastSocketOptions: { onMessage?: ((payload: any) => void) | undefined } | null = null;
+const joinEventHostRoomMock = vi.fn();
+let lastSocketOptions: {
+  onMessage?: ((payload: any) => void) | undefined;
+  onJoinRequestStatusChanged?: ((payload: JoinRequestStatusChangedPayload) => void) | undefined;
+} | null = null;
 
 vi.mock('@/hooks/useSocket', () => ({
   useSocket: (options: any) => {
@@ -23,6 +28,7 @@ vi.mock('@/hooks/useSocket', () => ({
       connect: vi.fn(),
       disconnect: vi.fn(),
       joinRoom: joinRoomMock,
+      joinEventHostRoom: joinEventHostRoomMock,
       sendMessage: vi.fn(),
       sendTypingStart: vi.fn(),
       sendTypingStop: vi.fn(),
@@ -136,6 +142,7 @@ describe('EventInsideExperience', () => {
   afterEach(() => {
     cleanup();
     joinRoomMock.mockClear();
+    joinEventHostRoomMock.mockClear();
     lastSocketOptions = null;
     vi.restoreAllMocks();
     delete (navigator as any).share;
@@ -1014,6 +1021,27 @@ describe('EventInsideExperience', () => {
     expect(within(hostUpdatesList as HTMLElement).getAllByText(/Doors now open/i)).toHaveLength(1);
   });
 
+  it('follows the event host room and drops withdrawn requests', async () => {
+    render(<EventInsideExperience {...baseProps} socketToken="jwt-token" />);
+
+    await waitFor(() => {
+      expect(joinEventHostRoomMock).toHaveBeenCalledWith('evt-123');
+    });
+    expect(screen.getByText('Sam')).toBeInTheDocument();
+
+    await act(async () => {
+      lastSocketOptions?.onJoinRequestStatusChanged?.({
+        joinRequestId: 'jr-1',
+        userId: 'a2',
+        status: 'WITHDRAWN',
+        eventId: 'evt-123',
+      });
+    });
+
+    expect(screen.queryByText('Sam')).not.toBeInTheDocument();
+    expect(screen.getByText(/No new requests right now/i)).toBeInTheDocument();
+  });
+
   it('shows a new update indicator when guests are mid-scroll', async () => {
     const props: EventInsideExperienceProps = {
       ...baseProps,
@@ -4,7 +4,12 @@ import { act, renderHook } from '@testing-library/react';
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 
 import { useSocket } from '@/hooks/useSocket';
-import { JOIN_REQUEST_MESSAGE_EVENT, JOIN_REQUEST_JOIN_EVENT, JOIN_REQUEST_READ_RECEIPT_EVENT } from '@/lib/socket-shared';
+import {
+  EVENT_HOST_JOIN_EVENT,
+  JOIN_REQUEST_MESSAGE_EVENT,
+  JOIN_REQUEST_JOIN_EVENT,
+  JOIN_REQUEST_READ_RECEIPT_EVENT,
+} from '@/lib/socket-shared';
 import type { SocketMessagePayload, SocketReadReceiptEventPayload } from '@/lib/socket-shared';
 
 type Listener = (...args: unknown[]) => void;
@@ -121,6 +126,25 @@ describe('useSocket', () => {
     expect(joinEvents[0]?.args).toEqual(['abc']);
   });
 
+  it('joins the event host room only once per eventId', async () => {
+    const { result } = renderHook(() => useSocket({ token: 'jwt-token', autoConnect: false }));
+
+    await act(async () => {
+      await result.current.connect();
+    });
+
+    const socket = getLastSocket();
+
+    act(() => {
+      result.current.joinEventHostRoom('event-1');
+      result.current.joinEventHostRoom(' event-1');
+    });
+
+    const joinEvents = socket.emittedEvents.filter((event) => event.event === EVENT_HOST_JOIN_EVENT);
+    expect(joinEvents).toHaveLength(1);
+    expect(joinEvents[0]?.args).toEqual(['event-1']);
+  });
+
   it('sends join request messages with joinRequestId injected', async () => {
     const { result } = renderHook(() => useSocket({ token: 'jwt-token', autoConnect: false }));
 
@@ -133,6 +157,7 @@ describe('useSocket', () => {
       id: 'msg-1',
       joinRequestId: 'placeholder',
       senderId: 'sender',
+      kind: 'USER',
       content: 'hello',
       createdAt: new Date().toISOString(),
       readBy: [],
@@ -160,6 +185,7 @@ describe('useSocket', () => {
       id: 'msg-2',
       joinRequestId: 'jr-abc',
       senderId: 'sender',
+      kind: 'USER',
       content: 'Hey',
       createdAt: new Date().toISOString(),
       readBy: [],
@@ -0,0 +1,129 @@
+import { createServer, type Server as HTTPServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+import { io as createClient, type Socket as ClientSocket } from 'socket.io-client';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+
+vi.mock('@/lib/auth', () => ({
+  // Tokens are the user ids themselves, so each client connects as whoever it names
+  verifyJWT: vi.fn(async (token: string) => ({ userId: token })),
+}));
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    event: {
+      findUnique: vi.fn(async ({ where }: { where: { id: string } }) =>
+        where.id === 'event-1' ? { hostId: 'host-1' } : null
+      ),
+    },
+  },
+}));
+
+import { notifyInstantJoin, notifyJoinRequestWithdrawn } from '@/lib/event-notifications';
+import { socketService } from '@/lib/socket';
+import {
+  EVENT_HOST_JOIN_EVENT,
+  EVENT_HOST_ROOM_PREFIX,
+  JOIN_REQUEST_STATUS_CHANGED_EVENT,
+  type JoinRequestStatusChangedPayload,
+} from '@/lib/socket-shared';
+
+let httpServer: HTTPServer;
+let url: string;
+const clients: ClientSocket[] = [];
+
+const connectAs = async (userId: string) => {
+  const client = createClient(url, { auth: { token: userId }, transports: ['websocket'], reconnection: false });
+  clients.push(client);
+  await new Promise<void>((resolve, reject) => {
+    client.once('connect', () => resolve());
+    client.once('connect_error', reject);
+  });
+  return client;
+};
+
+const waitForHostRoomSize = async (eventId: string, size: number) => {
+  const room = `${EVENT_HOST_ROOM_PREFIX}${eventId}`;
+  for (let attempt = 0; attempt < 50; attempt += 1) {
+    const sockets = await socketService.getIO().in(room).fetchSockets();
+    if (sockets.length === size) {
+      return;
+    }
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+  throw new Error(`Host room ${room} never reached ${size} socket(s)`);
+};
+
+describe('Event host room', () => {
+  beforeAll(async () => {
+    httpServer = createServer();
+    socketService.initialize(httpServer);
+    await new Promise<void>((resolve) => httpServer.listen(0, resolve));
+    url = `http://localhost:${(httpServer.address() as AddressInfo).port}`;
+  });
+
+  afterEach(() => {
+    clients.splice(0).forEach((client) => client.disconnect());
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => socketService.getIO().close(() => resolve()));
+  });
+
+  it('tells the host when a guest withdraws before they share a chat room', async () => {
+    const host = await connectAs('host-1');
+    host.emit(EVENT_HOST_JOIN_EVENT, 'event-1');
+    await waitForHostRoomSize('event-1', 1);
+
+    const received = new Promise<JoinRequestStatusChangedPayload>((resolve) => {
+      host.once(JOIN_REQUEST_STATUS_CHANGED_EVENT, resolve);
+    });
+    notifyJoinRequestWithdrawn({ id: 'jr-1', eventId: 'event-1', userId: 'guest-1' });
+
+    await expect(received).resolves.toEqual({
+      joinRequestId: 'jr-1',
+      userId: 'guest-1',
+      status: 'WITHDRAWN',
+      eventId: 'event-1',
+    });
+  });
+
+  it('tells the host when a guest joins an instant-join event', async () => {
+    const host = await connectAs('host-1');
+    host.emit(EVENT_HOST_JOIN_EVENT, 'event-1');
+    await waitForHostRoomSize('event-1', 1);
+
+    const received = new Promise<JoinRequestStatusChangedPayload>((resolve) => {
+      host.once(JOIN_REQUEST_STATUS_CHANGED_EVENT, resolve);
+    });
+    notifyInstantJoin({
+      id: 'jr-2',
+      eventId: 'event-1',
+      userId: 'guest-2',
+      status: 'ACCEPTED',
+      intro: null,
+      createdAt: '2026-03-01T18:00:00.000Z',
+      updatedAt: '2026-03-01T18:00:00.000Z',
+      lastSeenHostActivityAt: null,
+      expiryReason: null,
+    });
+
+    await expect(received).resolves.toEqual({
+      joinRequestId: 'jr-2',
+      userId: 'guest-2',
+      status: 'ACCEPTED',
+      eventId: 'event-1',
+    });
+  });
+
+  it('keeps other users out of the host room', async () => {
+    const guest = await connectAs('guest-1');
+    const rejection = new Promise<string>((resolve) => {
+      guest.once('error', resolve);
+    });
+    guest.emit(EVENT_HOST_JOIN_EVENT, 'event-1');
+
+    await expect(rejection).resolves.toBe('Only the host can follow this event');
+    await waitForHostRoomSize('event-1', 0);
+  });
+});
@@ -3,8 +3,10 @@ import fc from 'fast-check';
 import { SignJWT, jwtVerify } from 'jose';
 import {
   computeMagicLinkExpiration,
+  generateEventInviteToken,
   generateJWT,
   generateMagicLinkToken,
+  verifyEventInviteToken,
   verifyJWT,
 } from '@/lib/auth';
 
@@ -83,3 +85,31 @@ describe('Property 7: JWT Expiration Enforcement', () => {
     );
   });
 });
+
+describe('Event invite tokens', () => {
+  it('round-trips the invite link and event ids', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.uuid(), fc.uuid(), async (inviteLinkId, eventId) => {
+        const token = await generateEventInviteToken({ inviteLinkId, eventId }, new Date(Date.now() + 60 * 60 * 1000));
+        await expect(verifyEventInviteToken(token)).resolves.toEqual({ inviteLinkId, eventId });
+      })
+    );
+  });
+
+  it('rejects expired invites and never swaps with session tokens', async () => {
+    const expired = await generateEventInviteToken(
+      { inviteLinkId: 'link-id', eventId: 'event-id' },
+      new Date(Date.now() - 60 * 1000)
+    );
+    await expect(verifyEventInviteToken(expired)).rejects.toThrow();
+
+    const sessionToken = await generateJWT('user-id');
+    await expect(verifyEventInviteToken(sessionToken)).rejects.toThrow();
+
+    const inviteToken = await generateEventInviteToken(
+      { inviteLinkId: 'link-id', eventId: 'event-id' },
+      new Date(Date.now() + 60 * 1000)
+    );
+    await expect(verifyJWT(inviteToken)).rejects.toThrow();
+  });
+});
@@ -0,0 +1,200 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+import fc from 'fast-check';
+import sharp from 'sharp';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import {
+  buildAvatarUrl,
+  migrateDataUrlAvatars,
+  processAvatarImage,
+  removeUserAvatar,
+  setUserAvatar,
+  AvatarImageError,
+  AvatarUserNotFoundError,
+} from '@/lib/avatars';
+import { AVATAR_SIZES, buildAvatarSrcSet } from '@/lib/avatar-sizes';
+import { LocalMediaStorage, type MediaStorage } from '@/lib/media-storage';
+
+type MockPrisma = {
+  user: {
+    findUnique: ReturnType<typeof vi.fn>;
+    findMany: ReturnType<typeof vi.fn>;
+    update: ReturnType<typeof vi.fn>;
+    updateMany: ReturnType<typeof vi.fn>;
+  };
+};
+
+type GlobalWithPrisma = typeof globalThis & { __TEST_PRISMA__?: MockPrisma };
+
+vi.mock('@/lib/prisma', () => {
+  const prisma: MockPrisma = {
+    user: {
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+    },
+  };
+  (globalThis as GlobalWithPrisma).__TEST_PRISMA__ = prisma;
+  return { prisma };
+});
+
+const getMockPrisma = (): MockPrisma => {
+  const prisma = (globalThis as GlobalWithPrisma).__TEST_PRISMA__;
+  if (!prisma) {
+    throw new Error('Mock Prisma is not initialized');
+  }
+  return prisma;
+};
+
+const createPhoto = (width: number, height: number) =>
+  sharp({
+    create: { width, height, channels: 3, background: { r: 40, g: 120, b: 200 } },
+  })
+    .jpeg()
+    .withExif({
+      IFD0: { Artist: 'Someone' },
+      IFD3: { GPSLatitudeRef: 'N', GPSLatitude: '40/1 42/1 46/1' },
+    })
+    .toBuffer();
+
+let rootDir: string;
+let storage: MediaStorage;
+
+beforeAll(async () => {
+  rootDir = await mkdtemp(path.join(tmpdir(), 'tonight-avatars-'));
+  storage = new LocalMediaStorage(rootDir);
+});
+
+afterAll(async () => {
+  await rm(rootDir, { recursive: true, force: true });
+});
+
+beforeEach(() => {
+  const prisma = getMockPrisma();
+  Object.values(prisma.user).forEach((mock) => mock.mockReset());
+  prisma.user.findUnique.mockResolvedValue({ id: 'user-id', avatarKey: null });
+  prisma.user.update.mockImplementation(async ({ data }) => ({ id: 'user-id', ...data }));
+  prisma.user.updateMany.mockResolvedValue({ count: 1 });
+});
+
+describe('Avatar processing', () => {
+  it('produces square WebP avatars at every size without metadata', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.integer({ min: 16, max: 2000 }), fc.integer({ min: 16, max: 2000 }), async (width, height) => {
+        const images = await processAvatarImage(await createPhoto(width, height));
+
+        for (const size of AVATAR_SIZES) {
+          const meta = await sharp(images[size]).metadata();
+          expect(meta.format).toBe('webp');
+          expect(meta.width).toBe(size);
+          expect(meta.height).toBe(size);
+          expect(meta.exif).toBeUndefined();
+        }
+      }),
+      { numRuns: 6 }
+    );
+  });
+
+  it('rejects data that is not an image', async () => {
+    await expect(processAvatarImage(Buffer.from('not a photo'))).rejects.toBeInstanceOf(AvatarImageError);
+  });
+});
+
+describe('Avatar storage', () => {
+  it('stores every size and points photoUrl at the largest', async () => {
+    const prisma = getMockPrisma();
+    await setUserAvatar({ userId: 'user-id', data: await createPhoto(640, 480) }, { storage });
+
+    const { data } = prisma.user.update.mock.calls[0][0];
+    expect(data.avatarKey).toMatch(/^users\/user-id\/avatar-[a-z0-9]+$/);
+    expect(data.photoUrl).toBe(buildAvatarUrl(data.avatarKey, storage));
+    for (const size of AVATAR_SIZES) {
+      await expect(storage.get(`${data.avatarKey}/${size}.webp`)).resolves.toMatchObject({ contentType: 'image/webp' });
+    }
+    expect(buildAvatarSrcSet(data.photoUrl)).toBe(
+      AVATAR_SIZES.map((size) => `/api/media/${data.avatarKey}/${size}.webp ${size}w`).join(', ')
+    );
+  });
+
+  it('deletes the previous files on replace and remove', async () => {
+    const prisma = getMockPrisma();
+    const previousKey = 'users/user-id/avatar-old';
+    for (const size of AVATAR_SIZES) {
+      await storage.put(`${previousKey}/${size}.webp`, Buffer.from('old'), 'image/webp');
+    }
+    prisma.user.findUnique.mockResolvedValue({ id: 'user-id', avatarKey: previousKey });
+
+    await setUserAvatar({ userId: 'user-id', data: await createPhoto(64, 64) }, { storage });
+    await expect(storage.get(`${previousKey}/128.webp`)).resolves.toBeNull();
+
+    const { data } = prisma.user.update.mock.calls[0][0];
+    prisma.user.findUnique.mockResolvedValue({ id: 'user-id', avatarKey: data.avatarKey });
+    await removeUserAvatar('user-id', { storage });
+
+    expect(prisma.user.update).toHaveBeenLastCalledWith({
+      where: { id: 'user-id' },
+      data: { avatarKey: null, photoUrl: null },
+    });
+    await expect(storage.get(`${data.avatarKey}/256.webp`)).resolves.toBeNull();
+  });
+
+  it('reports missing users', async () => {
+    getMockPrisma().user.findUnique.mockResolvedValue(null);
+    await expect(setUserAvatar({ userId: 'ghost', data: await createPhoto(32, 32) }, { storage })).rejects.toBeInstanceOf(
+      AvatarUserNotFoundError
+    );
+  });
+
+  it('leaves photo URLs from elsewhere without a srcset', () => {
+    expect(buildAvatarSrcSet('https://example.com/me.jpg')).toBeUndefined();
+    expect(buildAvatarSrcSet(null)).toBeUndefined();
+  });
+});
+
+describe('Data URL avatar migration', () => {
+  it('moves readable data URLs into storage and clears unreadable ones', async () => {
+    const prisma = getMockPrisma();
+    const photo = await createPhoto(300, 200);
+    const readable = `data:image/jpeg;base64,${photo.toString('base64')}`;
+    const unreadable = `data:image/png;base64,${Buffer.from('garbage').toString('base64')}`;
+    prisma.user.findMany
+      .mockResolvedValueOnce([
+        { id: 'user-a', photoUrl: readable },
+        { id: 'user-b', photoUrl: unreadable },
+      ])
+      .mockResolvedValueOnce([]);
+
+    await expect(migrateDataUrlAvatars({ storage })).resolves.toEqual({ migrated: 1, cleared: 1 });
+
+    const [migratedCall, clearedCall] = prisma.user.updateMany.mock.calls.map(([args]) => args);
+    expect(migratedCall.where).toEqual({ id: 'user-a', photoUrl: readable });
+    expect(migratedCall.data.photoUrl).toBe(buildAvatarUrl(migratedCall.data.avatarKey, storage));
+    await expect(storage.get(`${migratedCall.data.avatarKey}/128.webp`)).resolves.not.toBeNull();
+    expect(clearedCall).toEqual({ where: { id: 'user-b', photoUrl: unreadable }, data: { photoUrl: null } });
+  });
+
+  it('discards the new files when the photo changed mid-run', async () => {
+    const prisma = getMockPrisma();
+    const photoUrl = `data:image/jpeg;base64,${(await createPhoto(64, 64)).toString('base64')}`;
+    prisma.user.findMany.mockResolvedValueOnce([{ id: 'user-c', photoUrl }]).mockResolvedValueOnce([]);
+    prisma.user.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(migrateDataUrlAvatars({ storage })).resolves.toEqual({ migrated: 0, cleared: 0 });
+
+    const { data } = prisma.user.updateMany.mock.calls[0][0];
+    await expect(storage.get(`${data.avatarKey}/256.webp`)).resolves.toBeNull();
+  });
+
+  it('stops after the per-run limit', async () => {
+    const prisma = getMockPrisma();
+    prisma.user.findMany.mockResolvedValue([{ id: 'user-d', photoUrl: 'data:image/png;base64,AAAA' }]);
+
+    await expect(migrateDataUrlAvatars({ storage, batchSize: 1, maxPerRun: 3 })).resolves.toEqual({
+      migrated: 0,
+      cleared: 3,
+    });
+    expect(prisma.user.findMany).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,209 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import fc from 'fast-check';
+import {
+  buildCalendar,
+  buildCalendarFilename,
+  escapeCalendarText,
+  foldCalendarLine,
+  formatCalendarDate,
+} from '@/lib/calendar';
+import { renderCalendarFeed } from '@/lib/calendar-feed';
+import type { EventRecordWithHost, SerializedEvent } from '@/lib/events';
+
+type MockPrisma = {
+  user: {
+    findUnique: ReturnType<typeof vi.fn>;
+    update: ReturnType<typeof vi.fn>;
+  };
+  $queryRaw: ReturnType<typeof vi.fn>;
+};
+
+type GlobalWithPrisma = typeof globalThis & { __TEST_PRISMA__?: MockPrisma };
+
+vi.mock('@/lib/prisma', () => {
+  const prisma: MockPrisma = {
+    user: {
+      findUnique: vi.fn(),
+      update: vi.fn(),
+    },
+    $queryRaw: vi.fn(),
+  };
+  (globalThis as GlobalWithPrisma).__TEST_PRISMA__ = prisma;
+  return { prisma };
+});
+
+const getMockPrisma = (): MockPrisma => {
+  const prisma = (globalThis as GlobalWithPrisma).__TEST_PRISMA__;
+  if (!prisma) {
+    throw new Error('Mock Prisma is not initialized');
+  }
+  return prisma;
+};
+
+const buildEvent = (overrides: Partial<SerializedEvent> = {}): SerializedEvent => ({
+  id: 'event-1',
+  title: 'Rooftop drinks',
+  description: 'Bring a jacket; it gets windy, honestly.',
+  datetime: '2030-01-01T20:00:00.000Z',
+  endDatetime: null,
+  phase: 'UPCOMING',
+  location: { latitude: 40.7128, longitude: -74.006 },
+  locationName: 'The Roof, Midtown',
+  category: null,
+  maxParticipants: 4,
+  status: 'ACTIVE',
+  visibility: 'PUBLIC',
+  approvalMode: 'MANUAL',
+  cancelledAt: null,
+  cancellationReason: null,
+  coverImage: null,
+  seriesId: null,
+  waitlistAutoAccept: true,
+  joinRequestCutoffMinutes: null,
+  joinRequestTimeoutHours: null,
+  host: {
+    id: 'host-1',
+    email: 'host@example.com',
+    displayName: 'Host',
+    photoUrl: null,
+    createdAt: '2029-01-01T00:00:00.000Z',
+  },
+  createdAt: '2029-12-01T00:00:00.000Z',
+  updatedAt: '2029-12-01T00:00:00.000Z',
+  ...overrides,
+});
+
+const unfold = (calendar: string) => calendar.replace(/\r\n /g, '');
+
+const readProperty = (calendar: string, name: string) =>
+  unfold(calendar)
+    .split('\r\n')
+    .filter((line) => line.startsWith(`${name}:`) || line.startsWith(`${name};`))
+    .map((line) => line.slice(line.indexOf(':') + 1));
+
+describe('iCalendar formatting', () => {
+  it('folds lines to at most 75 octets without losing content', () => {
+    fc.assert(
+      fc.property(fc.string({ unit: 'grapheme', maxLength: 400 }), (value) => {
+        const folded = foldCalendarLine(`DESCRIPTION:${value}`);
+        const encoder = new TextEncoder();
+        folded.split('\r\n').forEach((line) => {
+          expect(encoder.encode(line).length).toBeLessThanOrEqual(75);
+        });
+        expect(unfold(folded)).toBe(`DESCRIPTION:${value}`);
+      })
+    );
+  });
+
+  it('escapes separators and newlines in text values', () => {
+    fc.assert(
+      fc.property(fc.string({ maxLength: 200 }), (value) => {
+        const escaped = escapeCalendarText(value);
+        expect(escaped).not.toMatch(/[\r\n]/);
+        expect(escaped).not.toMatch(/(^|[^\\])(\\\\)*[;,]/);
+      })
+    );
+    expect(escapeCalendarText('a;b,c\\d\ne')).toBe('a\\;b\\,c\\\\d\\ne');
+  });
+
+  it('formats UTC date-times', () => {
+    expect(formatCalendarDate('2030-01-01T20:05:09.123Z')).toBe('20300101T200509Z');
+  });
+
+  it('builds safe download names', () => {
+    expect(buildCalendarFilename('Rooftop drinks!')).toBe('rooftop-drinks.ics');
+    expect(buildCalendarFilename('🎉🎉')).toBe('event.ics');
+  });
+});
+
+describe('Event calendar export', () => {
+  it('produces a VEVENT with location, geo and a link back', () => {
+    const calendar = buildCalendar([buildEvent()]);
+
+    expect(calendar.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\n')).toBe(true);
+    expect(calendar.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(readProperty(calendar, 'UID')).toEqual(['event-event-1@tonight.app']);
+    expect(readProperty(calendar, 'DTSTART')).toEqual(['20300101T200000Z']);
+    // Events without an end use the default three hour duration.
+    expect(readProperty(calendar, 'DTEND')).toEqual(['20300101T230000Z']);
+    expect(readProperty(calendar, 'LOCATION')).toEqual(['The Roof\\, Midtown']);
+    expect(readProperty(calendar, 'GEO')).toEqual(['40.7128;-74.006']);
+    expect(readProperty(calendar, 'URL')[0]).toMatch(/\/events\/event-1$/);
+    expect(readProperty(calendar, 'STATUS')).toEqual(['CONFIRMED']);
+  });
+
+  it('bumps the sequence on edits and marks cancelled events', () => {
+    const original = buildCalendar([buildEvent()]);
+    const cancelled = buildCalendar([
+      buildEvent({
+        status: 'CANCELLED',
+        cancellationReason: 'Rain',
+        updatedAt: '2029-12-02T00:00:00.000Z',
+      }),
+    ]);
+
+    expect(Number(readProperty(cancelled, 'SEQUENCE')[0])).toBeGreaterThan(Number(readProperty(original, 'SEQUENCE')[0]));
+    expect(readProperty(cancelled, 'STATUS')).toEqual(['CANCELLED']);
+    expect(readProperty(cancelled, 'DESCRIPTION')[0]).toMatch(/^Cancelled: Rain/);
+  });
+});
+
+describe('Personal calendar feed', () => {
+  beforeEach(() => {
+    const prisma = getMockPrisma();
+    prisma.user.findUnique.mockReset();
+    prisma.$queryRaw.mockReset();
+  });
+
+  it('returns null for unknown tokens', async () => {
+    getMockPrisma().user.findUnique.mockResolvedValue(null);
+    await expect(renderCalendarFeed('missing')).resolves.toBeNull();
+    expect(getMockPrisma().$queryRaw).not.toHaveBeenCalled();
+  });
+
+  it('lists the events returned for the token owner', async () => {
+    const prisma = getMockPrisma();
+    prisma.user.findUnique.mockResolvedValue({ id: 'guest-1' });
+    const record: EventRecordWithHost = {
+      id: 'event-2',
+      title: 'Board games',
+      description: '',
+      datetime: new Date('2030-02-01T19:00:00Z'),
+      endDatetime: new Date('2030-02-01T22:00:00Z'),
+      locationName: 'Cafe',
+      category: null,
+      maxParticipants: 6,
+      status: 'ACTIVE',
+      visibility: 'PUBLIC',
+      approvalMode: 'MANUAL',
+      cancelledAt: null,
+      cancellationReason: null,
+      coverImageKey: null,
+      seriesId: null,
+      waitlistAutoAccept: true,
+      joinRequestCutoffMinutes: null,
+      joinRequestTimeoutHours: null,
+      hostId: 'host-1',
+      createdAt: new Date('2030-01-01T00:00:00Z'),
+      updatedAt: new Date('2030-01-01T00:00:00Z'),
+      latitude: '51.5',
+      longitude: '-0.12',
+      hostEmail: 'host@example.com',
+      hostDisplayName: null,
+      hostPhotoUrl: null,
+      hostCreatedAt: new Date('2029-01-01T00:00:00Z'),
+    };
+    prisma.$queryRaw.mockResolvedValue([record]);
+
+    const calendar = await renderCalendarFeed('token-1');
+
+    expect(prisma.user.findUnique).toHaveBeenCalledWith({
+      where: { calendarFeedToken: 'token-1' },
+      select: { id: true },
+    });
+    expect(calendar).not.toBeNull();
+    expect(readProperty(calendar!, 'UID')).toEqual(['event-event-2@tonight.app']);
+    expect(readProperty(calendar!, 'GEO')).toEqual(['51.5;-0.12']);
+    expect(readProperty(calendar!, 'REFRESH-INTERVAL')).toEqual(['PT1H']);
+  });
+});
@@ -1,6 +1,6 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import fc from 'fast-check';
-import { JoinRequestStatus } from '@/generated/prisma/client';
+import { JoinRequestStatus, MessageKind } from '@/generated/prisma/client';
 import { createMessageForJoinRequest, CHAT_MESSAGE_MAX_LENGTH, ChatBlockedError } from '@/lib/chat';
 
 type MockPrisma = {
@@ -138,6 +138,7 @@ describe('Property 29: Message Storage Round Trip', () => {
             id: messageId,
             joinRequestId,
             senderId: userId,
+            kind: MessageKind.USER,
             content: trimmedContent,
             createdAt,
             readBy: [],
@@ -149,6 +150,7 @@ describe('Property 29: Message Storage Round Trip', () => {
             data: {
               joinRequestId,
               senderId: userId,
+              kind: MessageKind.USER,
               content: trimmedContent,
             },
             include: {
@@ -165,6 +167,7 @@ describe('Property 29: Message Storage Round Trip', () => {
             id: messageId,
             joinRequestId,
             senderId: userId,
+            kind: MessageKind.USER,
             content: trimmedContent,
             createdAt: createdAt.toISOString(),
             readBy: [],
@@ -218,6 +221,7 @@ describe('Property 30: Real-Time Message Delivery', () => {
             id: messageId,
             joinRequestId,
             senderId: userId,
+            kind: MessageKind.USER,
             content: trimmedContent,
             createdAt,
             readBy: [],
@@ -239,6 +243,7 @@ describe('Property 30: Real-Time Message Delivery', () => {
             id: messageId,
             joinRequestId,
             senderId: userId,
+            kind: MessageKind.USER,
             content: trimmedContent,
             createdAt: createdAt.toISOString(),
             readBy: [],
@@ -0,0 +1,179 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+import fc from 'fast-check';
+import sharp from 'sharp';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import {
+  buildEventCoverImage,
+  processCoverImage,
+  removeEventCoverImage,
+  setEventCoverImage,
+  EventCoverImageError,
+  EventCoverInactiveEventError,
+  EventCoverUnauthorizedError,
+} from '@/lib/event-covers';
+import { LocalMediaStorage, isValidMediaKey, type MediaStorage } from '@/lib/media-storage';
+import { EventStatus } from '@/generated/prisma/client';
+
+type MockPrisma = {
+  event: {
+    findUnique: ReturnType<typeof vi.fn>;
+    update: ReturnType<typeof vi.fn>;
+  };
+};
+
+type GlobalWithPrisma = typeof globalThis & { __TEST_PRISMA__?: MockPrisma };
+
+vi.mock('@/lib/prisma', () => {
+  const prisma: MockPrisma = {
+    event: {
+      findUnique: vi.fn(),
+      update: vi.fn(),
+    },
+  };
+  (globalThis as GlobalWithPrisma).__TEST_PRISMA__ = prisma;
+  return { prisma };
+});
+
+const getMockPrisma = (): MockPrisma => {
+  const prisma = (globalThis as GlobalWithPrisma).__TEST_PRISMA__;
+  if (!prisma) {
+    throw new Error('Mock Prisma is not initialized');
+  }
+  return prisma;
+};
+
+const createImage = (width: number, height: number) =>
+  sharp({
+    create: { width, height, channels: 3, background: { r: 200, g: 80, b: 120 } },
+  })
+    .jpeg()
+    .withExif({ IFD0: { Artist: 'Someone' } })
+    .toBuffer();
+
+let rootDir: string;
+let storage: MediaStorage;
+
+beforeAll(async () => {
+  rootDir = await mkdtemp(path.join(tmpdir(), 'tonight-media-'));
+  storage = new LocalMediaStorage(rootDir);
+});
+
+afterAll(async () => {
+  await rm(rootDir, { recursive: true, force: true });
+});
+
+beforeEach(() => {
+  const prisma = getMockPrisma();
+  prisma.event.findUnique.mockReset();
+  prisma.event.update.mockReset();
+  prisma.event.findUnique.mockResolvedValue({
+    id: 'event-id',
+    hostId: 'host-id',
+    status: EventStatus.ACTIVE,
+    coverImageKey: null,
+  });
+});
+
+describe('Cover image processing', () => {
+  it('produces a bounded cover and a fixed-size thumbnail without metadata', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.integer({ min: 16, max: 2400 }), fc.integer({ min: 16, max: 2400 }), async (width, height) => {
+        const { cover, thumbnail } = await processCoverImage(await createImage(width, height));
+
+        const coverMeta = await sharp(cover).metadata();
+        expect(coverMeta.format).toBe('webp');
+        expect(coverMeta.width).toBeLessThanOrEqual(Math.min(width, 1600));
+        expect(coverMeta.height).toBeLessThanOrEqual(Math.min(height, 900));
+        expect(coverMeta.exif).toBeUndefined();
+
+        const thumbMeta = await sharp(thumbnail).metadata();
+        expect(thumbMeta.width).toBe(480);
+        expect(thumbMeta.height).toBe(270);
+      }),
+      { numRuns: 8 }
+    );
+  });
+
+  it('rejects data that is not an image', async () => {
+    await expect(processCoverImage(Buffer.from('definitely not an image'))).rejects.toBeInstanceOf(
+      EventCoverImageError
+    );
+  });
+});
+
+describe('Event cover storage', () => {
+  it('stores both sizes and points the event at them', async () => {
+    const prisma = getMockPrisma();
+    const coverImage = await setEventCoverImage(
+      { eventId: 'event-id', hostId: 'host-id', data: await createImage(1200, 800) },
+      { storage }
+    );
+
+    const { data } = prisma.event.update.mock.calls[0][0];
+    expect(data.coverImageKey).toMatch(/^events\/event-id\/cover-[a-z0-9]+$/);
+    expect(coverImage).toEqual(buildEventCoverImage(data.coverImageKey, storage));
+    expect(coverImage.thumbnailUrl).toBe(`/api/media/${data.coverImageKey}/thumb.webp`);
+    await expect(storage.get(`${data.coverImageKey}/cover.webp`)).resolves.toMatchObject({ contentType: 'image/webp' });
+    await expect(storage.get(`${data.coverImageKey}/thumb.webp`)).resolves.not.toBeNull();
+  });
+
+  it('removes the previous files when the cover is replaced or removed', async () => {
+    const prisma = getMockPrisma();
+    const previousKey = 'events/event-id/cover-old';
+    await storage.put(`${previousKey}/cover.webp`, Buffer.from('old'), 'image/webp');
+    await storage.put(`${previousKey}/thumb.webp`, Buffer.from('old'), 'image/webp');
+    prisma.event.findUnique.mockResolvedValue({
+      id: 'event-id',
+      hostId: 'host-id',
+      status: EventStatus.ACTIVE,
+      coverImageKey: previousKey,
+    });
+
+    await setEventCoverImage({ eventId: 'event-id', hostId: 'host-id', data: await createImage(64, 64) }, { storage });
+    await expect(storage.get(`${previousKey}/cover.webp`)).resolves.toBeNull();
+
+    const { data } = prisma.event.update.mock.calls[0][0];
+    prisma.event.findUnique.mockResolvedValue({
+      id: 'event-id',
+      hostId: 'host-id',
+      status: EventStatus.ACTIVE,
+      coverImageKey: data.coverImageKey,
+    });
+    await removeEventCoverImage({ eventId: 'event-id', hostId: 'host-id' }, { storage });
+
+    expect(prisma.event.update).toHaveBeenLastCalledWith({ where: { id: 'event-id' }, data: { coverImageKey: null } });
+    await expect(storage.get(`${data.coverImageKey}/thumb.webp`)).resolves.toBeNull();
+  });
+
+  it('only lets the host change covers on active events', async () => {
+    const prisma = getMockPrisma();
+    const data = await createImage(64, 64);
+
+    await expect(setEventCoverImage({ eventId: 'event-id', hostId: 'guest-id', data }, { storage })).rejects.toBeInstanceOf(
+      EventCoverUnauthorizedError
+    );
+
+    prisma.event.findUnique.mockResolvedValue({
+      id: 'event-id',
+      hostId: 'host-id',
+      status: EventStatus.CANCELLED,
+      coverImageKey: null,
+    });
+    await expect(setEventCoverImage({ eventId: 'event-id', hostId: 'host-id', data }, { storage })).rejects.toBeInstanceOf(
+      EventCoverInactiveEventError
+    );
+    expect(prisma.event.update).not.toHaveBeenCalled();
+  });
+});
+
+describe('Media keys', () => {
+  it('rejects keys that could escape the storage root', () => {
+    expect(isValidMediaKey('events/abc/cover-1/cover.webp')).toBe(true);
+    ['../secret', 'events/../../etc/passwd', '/absolute', 'events//double', 'events/./cover', ''].forEach((key) => {
+      expect(isValidMediaKey(key)).toBe(false);
+    });
+    expect(() => storage.getUrl('../secret')).toThrow();
+  });
+});
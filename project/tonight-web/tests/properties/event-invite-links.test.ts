@@ -0,0 +1,303 @@
+import { describe, it, expect, vi, beforeAll, beforeEach } from 'vitest';
+import fc from 'fast-check';
+import {
+  createEventInviteLink,
+  listEventInviteLinks,
+  redeemEventInviteLink,
+  revokeEventInviteLink,
+  DEFAULT_INVITE_LINK_EXPIRATION_HOURS,
+  EventInviteLinkDeclinedError,
+  EventInviteLinkHostError,
+  EventInviteLinkNotFoundError,
+  EventInviteLinkUnauthorizedError,
+  EventInviteLinkUnavailableError,
+} from '@/lib/event-invite-links';
+import { JoinRequestEventFullError } from '@/lib/join-requests';
+import { generateEventInviteToken } from '@/lib/auth';
+import { EventStatus, JoinRequestStatus } from '@/generated/prisma/client';
+
+type MockPrisma = {
+  $queryRaw: ReturnType<typeof vi.fn>;
+  event: {
+    findUnique: ReturnType<typeof vi.fn>;
+  };
+  eventInviteLink: {
+    create: ReturnType<typeof vi.fn>;
+    findMany: ReturnType<typeof vi.fn>;
+    findUnique: ReturnType<typeof vi.fn>;
+    update: ReturnType<typeof vi.fn>;
+  };
+  joinRequest: {
+    findUnique: ReturnType<typeof vi.fn>;
+    count: ReturnType<typeof vi.fn>;
+    create: ReturnType<typeof vi.fn>;
+    update: ReturnType<typeof vi.fn>;
+  };
+  $transaction: ReturnType<typeof vi.fn>;
+};
+
+type GlobalWithPrisma = typeof globalThis & { __TEST_PRISMA__?: MockPrisma };
+
+function createMockPrisma(): MockPrisma {
+  const prisma = {
+    $queryRaw: vi.fn(),
+    event: {
+      findUnique: vi.fn(),
+    },
+    eventInviteLink: {
+      create: vi.fn(),
+      findMany: vi.fn(),
+      findUnique: vi.fn(),
+      update: vi.fn(),
+    },
+    joinRequest: {
+      findUnique: vi.fn(),
+      count: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+    },
+    $transaction: vi.fn(),
+  } as MockPrisma;
+  prisma.$transaction.mockImplementation(async (callback: (tx: MockPrisma) => Promise<unknown>) => callback(prisma));
+  return prisma;
+}
+
+vi.mock('@/lib/prisma', () => {
+  const prisma = createMockPrisma();
+  (globalThis as GlobalWithPrisma).__TEST_PRISMA__ = prisma;
+  return { prisma };
+});
+
+const getMockPrisma = (): MockPrisma => {
+  const prisma = (globalThis as GlobalWithPrisma).__TEST_PRISMA__;
+  if (!prisma) {
+    throw new Error('Mock Prisma is not initialized');
+  }
+  return prisma;
+};
+
+const NOW = Date.now();
+const FUTURE_EVENT_START = new Date('2030-01-01T20:00:00Z');
+
+const buildLink = (overrides: Record<string, unknown> = {}) => ({
+  id: 'link-id',
+  eventId: 'event-id',
+  createdById: 'host-id',
+  maxUses: 1,
+  useCount: 0,
+  expiresAt: new Date(NOW + 60 * 60 * 1000),
+  revokedAt: null,
+  createdAt: new Date(NOW - 60 * 1000),
+  event: {
+    id: 'event-id',
+    hostId: 'host-id',
+    status: EventStatus.ACTIVE,
+    maxParticipants: 4,
+    datetime: FUTURE_EVENT_START,
+    endDatetime: null,
+  },
+  ...overrides,
+});
+
+const buildJoinRequest = (overrides: Record<string, unknown> = {}) => ({
+  id: 'request-id',
+  eventId: 'event-id',
+  userId: 'guest-id',
+  status: JoinRequestStatus.ACCEPTED,
+  createdAt: new Date(NOW),
+  updatedAt: new Date(NOW),
+  lastSeenHostActivityAt: null,
+  inviteLinkId: 'link-id',
+  ...overrides,
+});
+
+const tokenFor = (link = buildLink()) =>
+  generateEventInviteToken({ inviteLinkId: link.id, eventId: link.eventId }, link.expiresAt);
+
+beforeAll(() => {
+  process.env.NEXTAUTH_SECRET = process.env.NEXTAUTH_SECRET ?? 'test-secret';
+});
+
+beforeEach(() => {
+  const prisma = getMockPrisma();
+  prisma.$queryRaw.mockReset();
+  prisma.event.findUnique.mockReset();
+  Object.values(prisma.eventInviteLink).forEach((fn) => fn.mockReset());
+  Object.values(prisma.joinRequest).forEach((fn) => fn.mockReset());
+  prisma.event.findUnique.mockResolvedValue({ id: 'event-id', hostId: 'host-id', status: EventStatus.ACTIVE });
+});
+
+describe('Invite link management', () => {
+  it('creates links with the default expiry and a signed url', async () => {
+    const prisma = getMockPrisma();
+    prisma.eventInviteLink.create.mockImplementation(async ({ data }: { data: Record<string, unknown> }) =>
+      buildLink({ ...data, createdAt: new Date() })
+    );
+
+    const link = await createEventInviteLink({ eventId: 'event-id', hostId: 'host-id', maxUses: 3 });
+
+    const { data } = prisma.eventInviteLink.create.mock.calls[0][0];
+    expect(data.maxUses).toBe(3);
+    const expectedExpiry = Date.now() + DEFAULT_INVITE_LINK_EXPIRATION_HOURS * 60 * 60 * 1000;
+    expect(Math.abs((data.expiresAt as Date).getTime() - expectedExpiry)).toBeLessThan(5_000);
+    expect(link.url).toMatch(/\/invite\/[\w-]+\.[\w-]+\.[\w-]+$/);
+    expect(link.remainingUses).toBe(3);
+  });
+
+  it('only lets the host manage links', async () => {
+    await expect(createEventInviteLink({ eventId: 'event-id', hostId: 'guest-id' })).rejects.toBeInstanceOf(
+      EventInviteLinkUnauthorizedError
+    );
+    await expect(listEventInviteLinks({ eventId: 'event-id', hostId: 'guest-id' })).rejects.toBeInstanceOf(
+      EventInviteLinkUnauthorizedError
+    );
+    await expect(
+      revokeEventInviteLink({ eventId: 'event-id', inviteLinkId: 'link-id', hostId: 'guest-id' })
+    ).rejects.toBeInstanceOf(EventInviteLinkUnauthorizedError);
+  });
+
+  it('lists only links that can still be redeemed', async () => {
+    const prisma = getMockPrisma();
+    prisma.eventInviteLink.findMany.mockResolvedValue([
+      buildLink({ id: 'open', maxUses: null, useCount: 7 }),
+      buildLink({ id: 'used-up', maxUses: 2, useCount: 2 }),
+    ]);
+
+    const links = await listEventInviteLinks({ eventId: 'event-id', hostId: 'host-id' });
+
+    expect(links.map((link) => link.id)).toEqual(['open']);
+    expect(links[0].remainingUses).toBeNull();
+    expect(prisma.eventInviteLink.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: expect.objectContaining({ eventId: 'event-id', revokedAt: null }) })
+    );
+  });
+
+  it('revokes links that belong to the event', async () => {
+    const prisma = getMockPrisma();
+    prisma.eventInviteLink.findUnique.mockResolvedValue(buildLink());
+    prisma.eventInviteLink.update.mockImplementation(async ({ data }: { data: Record<string, unknown> }) =>
+      buildLink(data)
+    );
+
+    const link = await revokeEventInviteLink({ eventId: 'event-id', inviteLinkId: 'link-id', hostId: 'host-id' });
+    expect(link.revokedAt).not.toBeNull();
+
+    prisma.eventInviteLink.findUnique.mockResolvedValue(buildLink({ eventId: 'other-event' }));
+    await expect(
+      revokeEventInviteLink({ eventId: 'event-id', inviteLinkId: 'link-id', hostId: 'host-id' })
+    ).rejects.toBeInstanceOf(EventInviteLinkNotFoundError);
+  });
+});
+
+describe('Invite link redemption', () => {
+  it('creates an accepted join request and spends one use', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.integer({ min: 2, max: 20 }), async (maxParticipants) => {
+        const prisma = getMockPrisma();
+        const link = buildLink({ maxUses: null, event: { ...buildLink().event, maxParticipants } });
+        prisma.eventInviteLink.findUnique.mockResolvedValue(link);
+        prisma.eventInviteLink.update.mockClear();
+        prisma.joinRequest.findUnique.mockResolvedValue(null);
+        prisma.joinRequest.count.mockResolvedValue(maxParticipants - 2);
+        prisma.joinRequest.create.mockResolvedValue(buildJoinRequest());
+
+        const result = await redeemEventInviteLink({ token: await tokenFor(link), userId: 'guest-id' });
+
+        expect(result.alreadyAccepted).toBe(false);
+        expect(result.joinRequest.status).toBe(JoinRequestStatus.ACCEPTED);
+        expect(prisma.joinRequest.create).toHaveBeenCalledWith({
+          data: {
+            eventId: 'event-id',
+            userId: 'guest-id',
+            status: JoinRequestStatus.ACCEPTED,
+            inviteLinkId: 'link-id',
+          },
+        });
+        expect(prisma.eventInviteLink.update).toHaveBeenCalledWith({
+          where: { id: 'link-id' },
+          data: { useCount: { increment: 1 } },
+        });
+      })
+    );
+  });
+
+  it('accepts a pending request in place', async () => {
+    const prisma = getMockPrisma();
+    prisma.eventInviteLink.findUnique.mockResolvedValue(buildLink());
+    prisma.joinRequest.findUnique.mockResolvedValue(buildJoinRequest({ status: JoinRequestStatus.PENDING, inviteLinkId: null }));
+    prisma.joinRequest.count.mockResolvedValue(0);
+    prisma.joinRequest.update.mockResolvedValue(buildJoinRequest());
+
+    await redeemEventInviteLink({ token: await tokenFor(), userId: 'guest-id' });
+
+    expect(prisma.joinRequest.update).toHaveBeenCalledWith({
+      where: { id: 'request-id' },
+      data: { status: JoinRequestStatus.ACCEPTED, inviteLinkId: 'link-id', expiryReason: null },
+    });
+    expect(prisma.joinRequest.create).not.toHaveBeenCalled();
+  });
+
+  it('does not spend a use on guests who were already accepted', async () => {
+    const prisma = getMockPrisma();
+    prisma.eventInviteLink.findUnique.mockResolvedValue(buildLink());
+    prisma.joinRequest.findUnique.mockResolvedValue(buildJoinRequest({ inviteLinkId: null }));
+
+    const result = await redeemEventInviteLink({ token: await tokenFor(), userId: 'guest-id' });
+
+    expect(result.alreadyAccepted).toBe(true);
+    expect(prisma.eventInviteLink.update).not.toHaveBeenCalled();
+  });
+
+  it('refuses revoked, expired and used-up links', async () => {
+    const prisma = getMockPrisma();
+    const unusable = [
+      buildLink({ revokedAt: new Date(NOW - 1000) }),
+      buildLink({ expiresAt: new Date(NOW - 1000) }),
+      buildLink({ maxUses: 3, useCount: 3 }),
+    ];
+
+    for (const link of unusable) {
+      prisma.eventInviteLink.findUnique.mockResolvedValue(link);
+      // Sign with a future expiry so the stored row, not the token, decides.
+      const token = await generateEventInviteToken(
+        { inviteLinkId: link.id, eventId: link.eventId },
+        new Date(NOW + 60 * 60 * 1000)
+      );
+      await expect(redeemEventInviteLink({ token, userId: 'guest-id' })).rejects.toBeInstanceOf(
+        EventInviteLinkUnavailableError
+      );
+    }
+    expect(prisma.joinRequest.create).not.toHaveBeenCalled();
+  });
+
+  it('respects the event capacity', async () => {
+    const prisma = getMockPrisma();
+    prisma.eventInviteLink.findUnique.mockResolvedValue(buildLink());
+    prisma.joinRequest.findUnique.mockResolvedValue(null);
+    prisma.joinRequest.count.mockResolvedValue(3);
+
+    await expect(redeemEventInviteLink({ token: await tokenFor(), userId: 'guest-id' })).rejects.toBeInstanceOf(
+      JoinRequestEventFullError
+    );
+    expect(prisma.eventInviteLink.update).not.toHaveBeenCalled();
+  });
+
+  it('rejects forged tokens, hosts and declined guests', async () => {
+    const prisma = getMockPrisma();
+
+    await expect(redeemEventInviteLink({ token: 'not-a-token', userId: 'guest-id' })).rejects.toBeInstanceOf(
+      EventInviteLinkNotFoundError
+    );
+    expect(prisma.eventInviteLink.findUnique).not.toHaveBeenCalled();
+
+    prisma.eventInviteLink.findUnique.mockResolvedValue(buildLink());
+    await expect(redeemEventInviteLink({ token: await tokenFor(), userId: 'host-id' })).rejects.toBeInstanceOf(
+      EventInviteLinkHostError
+    );
+
+    prisma.joinRequest.findUnique.mockResolvedValue(buildJoinRequest({ status: JoinRequestStatus.REJECTED }));
+    await expect(redeemEventInviteLink({ token: await tokenFor(), userId: 'guest-id' })).rejects.toBeInstanceOf(
+      EventInviteLinkDeclinedError
+    );
+  });
+});
@@ -143,3 +143,58 @@ describe('Property 22: List View Required Fields', () => {
     );
   });
 });
+
+describe('List View Pagination', () => {
+  const renderWithPaging = async (props: Partial<React.ComponentProps<typeof EventListView>>) => {
+    const host = document.createElement('div');
+    document.body.appendChild(host);
+    const root = createRoot(host);
+
+    await act(async () => {
+      root.render(<EventListView events={[{ id: 'event-1', title: 'Quiz night', locationName: 'The Crown' }]} {...props} />);
+    });
+
+    return {
+      host,
+      cleanup: async () => {
+        await act(async () => {
+          root.unmount();
+        });
+        host.remove();
+      },
+    };
+  };
+
+  const findLoadMoreButton = (host: HTMLElement) =>
+    Array.from(host.querySelectorAll('button')).find((button) => button.textContent?.includes('Load more events'));
+
+  it('offers a load more control while more events exist', async () => {
+    let loads = 0;
+    const { host, cleanup } = await renderWithPaging({ hasMore: true, onLoadMore: () => (loads += 1) });
+
+    try {
+      const button = findLoadMoreButton(host);
+      expect(button).toBeDefined();
+      expect(host.textContent).toContain('Showing 1 event so far');
+
+      await act(async () => {
+        button?.click();
+      });
+      expect(loads).toBe(1);
+    } finally {
+      await cleanup();
+    }
+  });
+
+  it('hides the control once every event is shown', async () => {
+    const { host, cleanup } = await renderWithPaging({ hasMore: false, onLoadMore: () => undefined });
+
+    try {
+      expect(findLoadMoreButton(host)).toBeUndefined();
+      expect(host.textContent).toContain('Showing 1 event');
+      expect(host.textContent).not.toContain('so far');
+    } finally {
+      await cleanup();
+    }
+  });
+});
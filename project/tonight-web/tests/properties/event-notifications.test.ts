@@ -0,0 +1,43 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { MessageKind } from '@/generated/prisma/client';
+import { createMessageForJoinRequest } from '@/lib/chat';
+import { notifyAcceptedGuests } from '@/lib/event-notifications';
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    joinRequest: {
+      findMany: vi.fn(async () => [{ id: 'jr-1' }, { id: 'jr-2' }]),
+    },
+  },
+}));
+
+vi.mock('@/lib/chat', () => ({
+  createMessageForJoinRequest: vi.fn(),
+}));
+
+vi.mock('@/lib/socket', () => ({
+  socketService: {},
+}));
+
+const mockedCreateMessageForJoinRequest = vi.mocked(createMessageForJoinRequest);
+
+beforeEach(() => {
+  mockedCreateMessageForJoinRequest.mockReset();
+});
+
+describe('notifyAcceptedGuests', () => {
+  it('posts the notice as a system message rather than as the host', async () => {
+    const delivered = await notifyAcceptedGuests({
+      eventId: 'event-1',
+      hostId: 'host-1',
+      content: 'Event updated: location is now Pier 39.',
+    });
+
+    expect(delivered).toEqual(['jr-1', 'jr-2']);
+    expect(mockedCreateMessageForJoinRequest).toHaveBeenCalledTimes(2);
+    expect(mockedCreateMessageForJoinRequest).toHaveBeenCalledWith(
+      { joinRequestId: 'jr-1', userId: 'host-1', content: 'Event updated: location is now Pier 39.' },
+      { skipRateLimit: true, kind: MessageKind.SYSTEM }
+    );
+  });
+});
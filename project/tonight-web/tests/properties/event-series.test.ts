@@ -0,0 +1,375 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import fc from 'fast-check';
+import {
+  buildOccurrenceStarts,
+  cancelEventSeries,
+  createEventSeries,
+  updateEventSeries,
+  EventNotInSeriesError,
+  MAX_SERIES_OCCURRENCES,
+  type RecurrenceRule,
+} from '@/lib/event-series';
+import {
+  writeEventCancellation,
+  writeEventUpdate,
+  EventCapacityError,
+  type EventRecordWithHost,
+} from '@/lib/events';
+import { validateRecurrencePayload } from '@/app/api/events/route';
+
+type MockPrisma = {
+  $transaction: ReturnType<typeof vi.fn>;
+  $queryRaw: ReturnType<typeof vi.fn>;
+  event: {
+    findUnique: ReturnType<typeof vi.fn>;
+  };
+  eventSeries: {
+    create: ReturnType<typeof vi.fn>;
+    findUnique: ReturnType<typeof vi.fn>;
+  };
+};
+
+type GlobalWithPrisma = typeof globalThis & { __TEST_PRISMA__?: MockPrisma };
+
+vi.mock('@/lib/prisma', () => {
+  const prisma: MockPrisma = {
+    $transaction: vi.fn(),
+    $queryRaw: vi.fn(),
+    event: {
+      findUnique: vi.fn(),
+    },
+    eventSeries: {
+      create: vi.fn(),
+      findUnique: vi.fn(),
+    },
+  };
+  (globalThis as GlobalWithPrisma).__TEST_PRISMA__ = prisma;
+  return { prisma };
+});
+
+vi.mock('@/lib/events', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/events')>()),
+  writeEventCancellation: vi.fn(),
+  writeEventUpdate: vi.fn(),
+}));
+
+const getMockPrisma = (): MockPrisma => {
+  const prisma = (globalThis as GlobalWithPrisma).__TEST_PRISMA__;
+  if (!prisma) {
+    throw new Error('Mock Prisma is not initialized');
+  }
+  return prisma;
+};
+
+const mockedWriteEventCancellation = vi.mocked(writeEventCancellation);
+const mockedWriteEventUpdate = vi.mocked(writeEventUpdate);
+
+const TIME_ZONE = 'Europe/Berlin';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const localParts = (date: Date) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: TIME_ZONE,
+    hourCycle: 'h23',
+    weekday: 'short',
+    hour: 'numeric',
+    minute: 'numeric',
+  }).formatToParts(date);
+  const get = (type: string) => parts.find((part) => part.type === type)?.value;
+  return { weekday: get('weekday'), time: `${get('hour')}:${get('minute')}` };
+};
+
+const WEEKDAY_SHORT = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const buildRecord = (overrides: Partial<EventRecordWithHost> = {}): EventRecordWithHost => ({
+  id: 'event-1',
+  title: 'Tuesday run club',
+  description: '5k around the park',
+  datetime: new Date('2030-03-05T18:00:00Z'),
+  endDatetime: new Date('2030-03-05T19:00:00Z'),
+  locationName: 'Park gate',
+  category: null,
+  maxParticipants: 6,
+  status: 'ACTIVE',
+  visibility: 'PUBLIC',
+  approvalMode: 'MANUAL',
+  cancelledAt: null,
+  cancellationReason: null,
+  coverImageKey: null,
+  seriesId: 'series-1',
+  waitlistAutoAccept: true,
+  joinRequestCutoffMinutes: null,
+  joinRequestTimeoutHours: null,
+  hostId: 'host-1',
+  createdAt: new Date('2030-02-01T00:00:00Z'),
+  updatedAt: new Date('2030-02-01T00:00:00Z'),
+  latitude: 52.52,
+  longitude: 13.405,
+  hostEmail: 'host@example.com',
+  hostDisplayName: null,
+  hostPhotoUrl: null,
+  hostCreatedAt: new Date('2029-01-01T00:00:00Z'),
+  ...overrides,
+});
+
+beforeEach(() => {
+  const prisma = getMockPrisma();
+  prisma.$transaction.mockReset();
+  prisma.$queryRaw.mockReset();
+  prisma.event.findUnique.mockReset();
+  Object.values(prisma.eventSeries).forEach((mock) => mock.mockReset());
+  mockedWriteEventCancellation.mockReset();
+  mockedWriteEventUpdate.mockReset();
+});
+
+describe('Occurrence dates', () => {
+  it('follows the rule and keeps the local start time across DST changes', () => {
+    fc.assert(
+      fc.property(
+        // Skips 2am starts, which do not exist on the day clocks go forward.
+        fc
+          .date({ min: new Date('2030-01-01T00:00:00Z'), max: new Date('2031-01-01T00:00:00Z'), noInvalidDate: true })
+          .filter((date) => Number.parseInt(localParts(date).time, 10) !== 2),
+        fc.constantFrom<RecurrenceRule['frequency']>('WEEKLY', 'BIWEEKLY', 'CUSTOM'),
+        fc.uniqueArray(fc.integer({ min: 0, max: 6 }), { minLength: 1, maxLength: 7 }),
+        fc.integer({ min: 1, max: 183 }),
+        (start, frequency, weekdays, spanDays) => {
+          const until = new Date(start.getTime() + spanDays * DAY_MS);
+          const starts = buildOccurrenceStarts(start, { frequency, weekdays, until, timeZone: TIME_ZONE });
+          const startParts = localParts(start);
+
+          expect(starts[0]).toEqual(start);
+          expect(starts.length).toBeLessThanOrEqual(MAX_SERIES_OCCURRENCES);
+          starts.forEach((occurrence, index) => {
+            expect(occurrence.getTime()).toBeLessThanOrEqual(until.getTime());
+            expect(localParts(occurrence).time).toBe(startParts.time);
+            if (index === 0) {
+              return;
+            }
+            expect(occurrence.getTime()).toBeGreaterThan(starts[index - 1].getTime());
+            const weekday = WEEKDAY_SHORT.indexOf(localParts(occurrence).weekday ?? '');
+            if (frequency === 'CUSTOM') {
+              expect(weekdays).toContain(weekday);
+            } else {
+              expect(localParts(occurrence).weekday).toBe(startParts.weekday);
+              const days = Math.round((occurrence.getTime() - starts[index - 1].getTime()) / DAY_MS);
+              expect(days).toBe(frequency === 'BIWEEKLY' ? 14 : 7);
+            }
+          });
+        }
+      )
+    );
+  });
+
+  it('stops at the occurrence limit', () => {
+    const start = new Date('2030-01-07T18:00:00Z');
+    const starts = buildOccurrenceStarts(start, {
+      frequency: 'CUSTOM',
+      weekdays: [0, 1, 2, 3, 4, 5, 6],
+      until: new Date(start.getTime() + 180 * DAY_MS),
+      timeZone: TIME_ZONE,
+    });
+    expect(starts).toHaveLength(MAX_SERIES_OCCURRENCES);
+  });
+});
+
+describe('Recurrence validation', () => {
+  const start = new Date('2030-03-05T18:00:00Z');
+
+  it('accepts lower-case frequencies and defaults the time zone', () => {
+    const result = validateRecurrencePayload({ frequency: 'weekly', until: '2030-04-30T21:59:00Z' }, start);
+    expect(result).toEqual({
+      ok: true,
+      data: { frequency: 'WEEKLY', weekdays: [], until: new Date('2030-04-30T21:59:00Z'), timeZone: 'UTC' },
+    });
+  });
+
+  it('rejects custom rules without days, runs that are too long and unknown zones', () => {
+    const result = validateRecurrencePayload(
+      { frequency: 'custom', weekdays: [], until: '2031-03-05T18:00:00Z', timeZone: 'Mars/Olympus' },
+      start
+    );
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(Object.keys(result.errors).sort()).toEqual(['timeZone', 'until', 'weekdays']);
+    }
+  });
+});
+
+describe('Creating a series', () => {
+  it('inserts every occurrence with the same duration and series id', async () => {
+    const prisma = getMockPrisma();
+    const series = {
+      id: 'series-1',
+      hostId: 'host-1',
+      frequency: 'WEEKLY',
+      weekdays: [2],
+      until: new Date('2030-03-26T22:59:00Z'),
+      timeZone: TIME_ZONE,
+      createdAt: new Date('2030-02-01T00:00:00Z'),
+    };
+    const tx = {
+      eventSeries: { create: vi.fn().mockResolvedValue(series) },
+      $queryRaw: vi.fn().mockResolvedValue([{ id: 'inserted' }]),
+    };
+    prisma.$transaction.mockImplementation(async (callback: (client: typeof tx) => Promise<unknown>) => callback(tx));
+    const records = [0, 7, 14, 21].map((days, index) =>
+      buildRecord({ id: `event-${index + 1}`, datetime: new Date(Date.parse('2030-03-05T18:00:00Z') + days * DAY_MS) })
+    );
+    prisma.$queryRaw.mockResolvedValue(records);
+
+    const result = await createEventSeries(
+      {
+        hostId: 'host-1',
+        title: 'Tuesday run club',
+        description: '5k around the park',
+        datetime: new Date('2030-03-05T18:00:00Z'),
+        endDatetime: new Date('2030-03-05T19:00:00Z'),
+        latitude: 52.52,
+        longitude: 13.405,
+        locationName: 'Park gate',
+        maxParticipants: 6,
+      },
+      { frequency: 'WEEKLY', weekdays: [], until: new Date('2030-03-26T22:59:00Z'), timeZone: TIME_ZONE }
+    );
+
+    expect(tx.eventSeries.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ hostId: 'host-1', frequency: 'WEEKLY', weekdays: [2], timeZone: TIME_ZONE }),
+    });
+    expect(tx.$queryRaw).toHaveBeenCalledTimes(4);
+    for (const call of tx.$queryRaw.mock.calls) {
+      const values = call.slice(1);
+      const start = values.find((value): value is Date => value instanceof Date);
+      expect(values).toContain('series-1');
+      expect(values).toContainEqual(new Date(start!.getTime() + 60 * 60 * 1000));
+    }
+    expect(result.event.id).toBe('event-1');
+    expect(result.event.seriesId).toBe('series-1');
+    expect(result.series.occurrences.map((occurrence) => occurrence.id)).toEqual([
+      'event-1',
+      'event-2',
+      'event-3',
+      'event-4',
+    ]);
+  });
+});
+
+describe('Editing and cancelling a series', () => {
+  const laterOccurrences = (acceptedCounts: number[]) => ({
+    timeZone: TIME_ZONE,
+    events: acceptedCounts.map((accepted, index) => ({
+      id: `event-${index + 1}`,
+      datetime: new Date(Date.parse('2030-03-05T18:00:00Z') + index * 7 * DAY_MS),
+      _count: { joinRequests: accepted },
+    })),
+  });
+
+  const editInput = {
+    eventId: 'event-1',
+    hostId: 'host-1',
+    title: 'Tuesday run club',
+    description: '5k around the park',
+    datetime: new Date('2030-03-05T18:30:00Z'),
+    endDatetime: null,
+    latitude: 52.52,
+    longitude: 13.405,
+    locationName: 'Park gate',
+    maxParticipants: 3,
+  };
+
+  // Serves each occurrence's own record, as fetchEventById would.
+  const mockOccurrenceRecords = (acceptedCounts: number[]) => {
+    const prisma = getMockPrisma();
+    const occurrences = laterOccurrences(acceptedCounts);
+    prisma.eventSeries.findUnique.mockResolvedValue(occurrences);
+    prisma.$queryRaw.mockImplementation(async (_strings: TemplateStringsArray, ...values: unknown[]) => {
+      const occurrence = occurrences.events.find((event) => values.includes(event.id)) ?? occurrences.events[0];
+      return [buildRecord({ id: occurrence.id, datetime: occurrence.datetime })];
+    });
+    const tx = { label: 'series-transaction' };
+    prisma.$transaction.mockImplementation(async (callback: (client: typeof tx) => Promise<unknown>) => callback(tx));
+    return tx;
+  };
+
+  it('moves every later occurrence to the new local time', async () => {
+    const tx = mockOccurrenceRecords([1, 2, 0, 1, 0]);
+
+    const results = await updateEventSeries(editInput);
+
+    expect(results).toHaveLength(5);
+    expect(getMockPrisma().$transaction).toHaveBeenCalledTimes(1);
+    expect(mockedWriteEventUpdate.mock.calls.map(([client]) => client)).toEqual(Array(5).fill(tx));
+    // Clocks go forward on 2030-03-31, so the last occurrence starts an hour earlier in UTC.
+    expect(mockedWriteEventUpdate.mock.calls.map(([, , input]) => input.datetime.toISOString())).toEqual([
+      '2030-03-05T18:30:00.000Z',
+      '2030-03-12T18:30:00.000Z',
+      '2030-03-19T18:30:00.000Z',
+      '2030-03-26T18:30:00.000Z',
+      '2030-04-02T17:30:00.000Z',
+    ]);
+  });
+
+  it('leaves the series untouched when any occurrence has too many guests', async () => {
+    mockOccurrenceRecords([1, 4]);
+
+    await expect(updateEventSeries(editInput)).rejects.toBeInstanceOf(EventCapacityError);
+    expect(mockedWriteEventUpdate).not.toHaveBeenCalled();
+  });
+
+  it('fails the whole edit when an occurrence fills up after the first check', async () => {
+    mockOccurrenceRecords([0, 0, 0]);
+    mockedWriteEventUpdate
+      .mockResolvedValueOnce(undefined)
+      .mockRejectedValueOnce(new EventCapacityError('maxParticipants cannot be lower than 4'));
+
+    await expect(updateEventSeries(editInput)).rejects.toBeInstanceOf(EventCapacityError);
+    // The earlier write ran in the same transaction, so it rolls back with it.
+    expect(getMockPrisma().$transaction).toHaveBeenCalledTimes(1);
+    expect(mockedWriteEventUpdate).toHaveBeenCalledTimes(2);
+  });
+
+  it('cancels this and every later active occurrence', async () => {
+    const prisma = getMockPrisma();
+    prisma.event.findUnique.mockResolvedValue({
+      hostId: 'host-1',
+      status: 'ACTIVE',
+      seriesId: 'series-1',
+      datetime: new Date('2030-03-12T18:00:00Z'),
+    });
+    const tx = mockOccurrenceRecords([0, 0, 0]);
+    mockedWriteEventCancellation.mockResolvedValue([]);
+
+    const results = await cancelEventSeries({ eventId: 'event-2', hostId: 'host-1', reason: null });
+
+    expect(results).toHaveLength(3);
+    expect(prisma.$transaction).toHaveBeenCalledTimes(1);
+    expect(mockedWriteEventCancellation.mock.calls.map(([client, input]) => [client, input.eventId])).toEqual([
+      [tx, 'event-1'],
+      [tx, 'event-2'],
+      [tx, 'event-3'],
+    ]);
+    expect(prisma.eventSeries.findUnique).toHaveBeenCalledWith(
+      expect.objectContaining({
+        select: expect.objectContaining({
+          events: expect.objectContaining({
+            where: { status: 'ACTIVE', datetime: { gte: new Date('2030-03-12T18:00:00Z') } },
+          }),
+        }),
+      })
+    );
+  });
+
+  it('refuses series changes for one-off events', async () => {
+    getMockPrisma().event.findUnique.mockResolvedValue({
+      hostId: 'host-1',
+      status: 'ACTIVE',
+      seriesId: null,
+      datetime: new Date('2030-03-12T18:00:00Z'),
+    });
+
+    await expect(cancelEventSeries({ eventId: 'event-9', hostId: 'host-1', reason: null })).rejects.toBeInstanceOf(
+      EventNotInSeriesError
+    );
+    expect(mockedWriteEventCancellation).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,238 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import fc from 'fast-check';
+import {
+  buildEventTemplateFromEvent,
+  deleteEventTemplate,
+  saveEventTemplate,
+  EventTemplateLimitError,
+  EventTemplateNotFoundError,
+  EventTemplateUnauthorizedError,
+  MAX_EVENT_TEMPLATES_PER_HOST,
+  type EventTemplateFields,
+} from '@/lib/event-templates';
+import { validateEventTemplatePayload } from '@/app/api/event-templates/route';
+import { CATEGORY_IDS } from '@/lib/categories';
+import { EVENT_VISIBILITIES } from '@/lib/event-visibility';
+import type { EventRecordWithHost } from '@/lib/events';
+
+type MockPrisma = {
+  eventTemplate: {
+    findUnique: ReturnType<typeof vi.fn>;
+    count: ReturnType<typeof vi.fn>;
+    create: ReturnType<typeof vi.fn>;
+    update: ReturnType<typeof vi.fn>;
+    delete: ReturnType<typeof vi.fn>;
+  };
+  $queryRaw: ReturnType<typeof vi.fn>;
+};
+
+type GlobalWithPrisma = typeof globalThis & { __TEST_PRISMA__?: MockPrisma };
+
+vi.mock('@/lib/prisma', () => {
+  const prisma: MockPrisma = {
+    eventTemplate: {
+      findUnique: vi.fn(),
+      count: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+      delete: vi.fn(),
+    },
+    $queryRaw: vi.fn(),
+  };
+  (globalThis as GlobalWithPrisma).__TEST_PRISMA__ = prisma;
+  return { prisma };
+});
+
+const getMockPrisma = (): MockPrisma => {
+  const prisma = (globalThis as GlobalWithPrisma).__TEST_PRISMA__;
+  if (!prisma) {
+    throw new Error('Mock Prisma is not initialized');
+  }
+  return prisma;
+};
+
+const fields: EventTemplateFields = {
+  title: 'Friday climbing',
+  description: 'Bouldering, then food.',
+  durationMinutes: 120,
+  location: { latitude: 52.52, longitude: 13.405 },
+  locationName: 'Boulder Hall',
+  category: 'fitness',
+  maxParticipants: 6,
+  visibility: 'PUBLIC',
+};
+
+const storedTemplate = (overrides: Record<string, unknown> = {}) => ({
+  id: 'template-1',
+  hostId: 'host-1',
+  name: 'Climbing',
+  title: fields.title,
+  description: fields.description,
+  durationMinutes: fields.durationMinutes,
+  latitude: 52.52,
+  longitude: 13.405,
+  locationName: fields.locationName,
+  category: fields.category,
+  maxParticipants: fields.maxParticipants,
+  visibility: fields.visibility,
+  createdAt: new Date('2030-01-01T00:00:00Z'),
+  updatedAt: new Date('2030-01-01T00:00:00Z'),
+  ...overrides,
+});
+
+beforeEach(() => {
+  const prisma = getMockPrisma();
+  Object.values(prisma.eventTemplate).forEach((mock) => mock.mockReset());
+  prisma.$queryRaw.mockReset();
+});
+
+describe('Event template validation', () => {
+  it('accepts any well-formed template', () => {
+    fc.assert(
+      fc.property(
+        fc.string({ minLength: 1, maxLength: 60 }).filter((value) => value.trim().length > 0),
+        fc.string({ minLength: 3, maxLength: 120 }).filter((value) => value.trim().length >= 3),
+        fc.option(fc.integer({ min: 1, max: 24 * 60 }), { nil: null }),
+        fc.option(fc.constantFrom(...CATEGORY_IDS), { nil: null }),
+        fc.integer({ min: 2, max: 50 }),
+        fc.constantFrom(...EVENT_VISIBILITIES),
+        (name, title, durationMinutes, category, maxParticipants, visibility) => {
+          const result = validateEventTemplatePayload({
+            name,
+            title,
+            durationMinutes,
+            category,
+            maxParticipants,
+            visibility,
+          });
+          expect(result.ok).toBe(true);
+          if (result.ok) {
+            expect(result.data.name).toBe(name.trim());
+            expect(result.data.fields).toMatchObject({
+              title: title.trim(),
+              durationMinutes,
+              category,
+              maxParticipants,
+              visibility,
+              location: null,
+              locationName: null,
+              description: '',
+            });
+          }
+        }
+      )
+    );
+  });
+
+  it('requires a name and title and rejects out-of-range values', () => {
+    const result = validateEventTemplatePayload({
+      name: '  ',
+      title: 'no',
+      durationMinutes: -5,
+      maxParticipants: 500,
+      category: 'knitting',
+      visibility: 'secret',
+      location: { latitude: 200, longitude: 0 },
+    });
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(Object.keys(result.errors).sort()).toEqual(
+        ['category', 'durationMinutes', 'location', 'maxParticipants', 'name', 'title', 'visibility'].sort()
+      );
+    }
+  });
+});
+
+describe('Saving event templates', () => {
+  it('replaces a template saved under the same name', async () => {
+    const prisma = getMockPrisma();
+    prisma.eventTemplate.findUnique.mockResolvedValue({ id: 'template-1' });
+    prisma.eventTemplate.update.mockResolvedValue(storedTemplate());
+
+    const template = await saveEventTemplate({ hostId: 'host-1', name: 'Climbing', fields });
+
+    expect(prisma.eventTemplate.update).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { id: 'template-1' } })
+    );
+    expect(prisma.eventTemplate.create).not.toHaveBeenCalled();
+    expect(template).toMatchObject({ id: 'template-1', name: 'Climbing', ...fields });
+  });
+
+  it('stops hosts from keeping more than the limit', async () => {
+    const prisma = getMockPrisma();
+    prisma.eventTemplate.findUnique.mockResolvedValue(null);
+    prisma.eventTemplate.count.mockResolvedValue(MAX_EVENT_TEMPLATES_PER_HOST);
+
+    await expect(saveEventTemplate({ hostId: 'host-1', name: 'One more', fields })).rejects.toBeInstanceOf(
+      EventTemplateLimitError
+    );
+    expect(prisma.eventTemplate.create).not.toHaveBeenCalled();
+  });
+
+  it("treats other hosts' templates as missing", async () => {
+    const prisma = getMockPrisma();
+    prisma.eventTemplate.findUnique.mockResolvedValue({ id: 'template-1', hostId: 'host-1' });
+
+    await expect(deleteEventTemplate({ hostId: 'host-2', templateId: 'template-1' })).rejects.toBeInstanceOf(
+      EventTemplateNotFoundError
+    );
+    expect(prisma.eventTemplate.delete).not.toHaveBeenCalled();
+  });
+});
+
+describe('Host again', () => {
+  const record: EventRecordWithHost = {
+    id: 'event-1',
+    title: 'Friday climbing',
+    description: 'Bouldering, then food.',
+    datetime: new Date('2030-03-01T18:00:00Z'),
+    endDatetime: new Date('2030-03-01T20:30:00Z'),
+    locationName: 'Boulder Hall',
+    category: 'fitness',
+    maxParticipants: 6,
+    status: 'EXPIRED',
+    visibility: 'UNLISTED',
+    approvalMode: 'MANUAL',
+    cancelledAt: null,
+    cancellationReason: null,
+    coverImageKey: null,
+    seriesId: null,
+    waitlistAutoAccept: true,
+    joinRequestCutoffMinutes: null,
+    joinRequestTimeoutHours: null,
+    hostId: 'host-1',
+    createdAt: new Date('2030-02-01T00:00:00Z'),
+    updatedAt: new Date('2030-02-01T00:00:00Z'),
+    latitude: '52.52',
+    longitude: '13.405',
+    hostEmail: 'host@example.com',
+    hostDisplayName: null,
+    hostPhotoUrl: null,
+    hostCreatedAt: new Date('2029-01-01T00:00:00Z'),
+  };
+
+  it('copies everything but the date from the host’s own event', async () => {
+    getMockPrisma().$queryRaw.mockResolvedValue([record]);
+
+    await expect(buildEventTemplateFromEvent('event-1', 'host-1')).resolves.toEqual({
+      template: {
+        title: 'Friday climbing',
+        description: 'Bouldering, then food.',
+        durationMinutes: 150,
+        location: { latitude: 52.52, longitude: 13.405 },
+        locationName: 'Boulder Hall',
+        category: 'fitness',
+        maxParticipants: 6,
+        visibility: 'UNLISTED',
+      },
+      previousDatetime: '2030-03-01T18:00:00.000Z',
+    });
+  });
+
+  it('only lets the host reuse an event', async () => {
+    getMockPrisma().$queryRaw.mockResolvedValue([record]);
+    await expect(buildEventTemplateFromEvent('event-1', 'guest-1')).rejects.toBeInstanceOf(
+      EventTemplateUnauthorizedError
+    );
+  });
+});
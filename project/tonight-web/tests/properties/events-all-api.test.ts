@@ -0,0 +1,80 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { getAllEventsHandler } from '@/app/api/events/all/route';
+import { findEventsInBounds, type NearbyEventRecord } from '@/lib/geospatial';
+import { EventStatus } from '@/generated/prisma/client';
+
+vi.mock('@/lib/geospatial', () => {
+  return {
+    DEFAULT_RADIUS_METERS: 10_000,
+    MAX_MAP_EVENT_LIMIT: 500,
+    findNearbyEvents: vi.fn(),
+    findEventsInBounds: vi.fn(),
+  };
+});
+
+const mockedFindEventsInBounds = vi.mocked(findEventsInBounds);
+
+const buildRequest = (query = '') => new NextRequest(`https://example.com/api/events/all${query}`);
+
+const eventRecord: NearbyEventRecord = {
+  id: 'event-id',
+  title: 'Sample Event',
+  description: 'Description',
+  datetime: new Date('2030-01-01T00:00:00.000Z'),
+  endDatetime: null,
+  locationName: 'Somewhere',
+  category: null,
+  maxParticipants: 5,
+  status: EventStatus.ACTIVE,
+  cancellationReason: null,
+  coverImageKey: null,
+  hostId: 'host-id',
+  hostDisplayName: 'Sample Host',
+  hostPhotoUrl: null,
+  createdAt: new Date('2030-01-01T00:00:00.000Z'),
+  updatedAt: new Date('2030-01-01T00:00:00.000Z'),
+  distanceMeters: 0,
+  latitude: 37.7749,
+  longitude: -122.4194,
+  acceptedCount: 1,
+  viewerJoinRequestStatus: null,
+  viewerHostUpdatesUnseen: 0,
+};
+
+beforeEach(() => {
+  mockedFindEventsInBounds.mockReset();
+  mockedFindEventsInBounds.mockResolvedValue({ events: [eventRecord], truncated: false });
+});
+
+describe('GET /api/events/all', () => {
+  it('runs the map query over the whole world with the category and time filters', async () => {
+    const response = await getAllEventsHandler(
+      buildRequest('?categories=music&from=2030-01-01T00:00:00.000Z&to=2030-01-02T00:00:00.000Z'),
+      {},
+      { userId: 'user-id', token: 'token' }
+    );
+
+    expect(response.status).toBe(200);
+    expect(mockedFindEventsInBounds).toHaveBeenCalledWith(
+      { minLat: -90, minLng: -180, maxLat: 90, maxLng: 180 },
+      'user-id',
+      {
+        categories: ['music'],
+        from: new Date('2030-01-01T00:00:00.000Z'),
+        to: new Date('2030-01-02T00:00:00.000Z'),
+      },
+      500
+    );
+    const body = await response.json();
+    expect(body.events).toHaveLength(1);
+    expect(body.events[0]).toMatchObject({ id: 'event-id', distanceMeters: null });
+  });
+
+  it('rejects unknown categories', async () => {
+    const response = await getAllEventsHandler(buildRequest('?categories=unknown'), {}, { userId: 'user-id', token: 'token' });
+
+    expect(response.status).toBe(400);
+    expect(mockedFindEventsInBounds).not.toHaveBeenCalled();
+  });
+});
@@ -4,6 +4,10 @@ import { NextRequest } from 'next/server';
 import { createEventHandler, EVENT_DEFAULT_MAX_PARTICIPANTS } from '@/app/api/events/route';
 import { createEvent, type SerializedEvent } from '@/lib/events';
 import { EventStatus } from '@/generated/prisma/client';
+import { CATEGORY_IDS } from '@/lib/categories';
+import { EVENT_APPROVAL_MODES } from '@/lib/event-approval';
+import { EVENT_VISIBILITIES } from '@/lib/event-visibility';
+import { JOIN_REQUEST_CUTOFF_MINUTES_MAX, JOIN_REQUEST_TIMEOUT_HOURS_LIMITS } from '@/lib/join-request-expiry';
 
 vi.mock('@/lib/events', () => ({
   createEvent: vi.fn(),
@@ -65,10 +69,22 @@ const buildSerializedEvent = (overrides: Partial<SerializedEvent> = {}): Seriali
     title: overrides.title ?? 'Sample Event',
     description: overrides.description ?? 'Description',
     datetime: overrides.datetime ?? iso,
+    endDatetime: overrides.endDatetime ?? null,
+    phase: overrides.phase ?? 'UPCOMING',
     location: overrides.location ?? { latitude: 1, longitude: 2 },
     locationName: overrides.locationName ?? 'Somewhere',
+    category: overrides.category ?? null,
     maxParticipants: overrides.maxParticipants ?? 5,
     status: overrides.status ?? EventStatus.ACTIVE,
+    visibility: overrides.visibility ?? 'PUBLIC',
+    approvalMode: overrides.approvalMode ?? 'MANUAL',
+    cancelledAt: overrides.cancelledAt ?? null,
+    cancellationReason: overrides.cancellationReason ?? null,
+    coverImage: overrides.coverImage ?? null,
+    seriesId: overrides.seriesId ?? null,
+    waitlistAutoAccept: overrides.waitlistAutoAccept ?? true,
+    joinRequestCutoffMinutes: overrides.joinRequestCutoffMinutes ?? null,
+    joinRequestTimeoutHours: overrides.joinRequestTimeoutHours ?? null,
     host: overrides.host ?? {
       id: 'host-id',
       email: 'host@example.com',
@@ -211,3 +227,289 @@ describe('Property 15: Future Datetime Validation', () => {
     );
   });
 });
+
+describe('Event category validation', () => {
+  it('normalizes known categories and forwards them to the service', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.constantFrom(...CATEGORY_IDS), futureDateArb(), fc.uuid(), async (category, datetime, userId) => {
+        const requestBody = {
+          title: 'Board games',
+          description: 'Bring your favourite game along',
+          datetime: datetime.toISOString(),
+          location: { latitude: 1, longitude: 2 },
+          locationName: 'Cafe',
+          category: ` ${category.toUpperCase()} `,
+        } satisfies Record<string, unknown>;
+
+        mockedCreateEvent.mockResolvedValue(buildSerializedEvent({ category }));
+        mockedCreateEvent.mockClear();
+
+        const response = await createEventHandler(buildRequest(requestBody), {}, { userId, token: 'token' });
+        expect(response.status).toBe(201);
+        expect(mockedCreateEvent).toHaveBeenCalledWith(expect.objectContaining({ category }));
+      })
+    );
+  });
+
+  it('rejects unknown categories', async () => {
+    mockedCreateEvent.mockClear();
+
+    const response = await createEventHandler(
+      buildRequest({
+        title: 'Board games',
+        description: 'Bring your favourite game along',
+        datetime: FUTURE_START.toISOString(),
+        location: { latitude: 1, longitude: 2 },
+        locationName: 'Cafe',
+        category: 'karaoke',
+      }),
+      {},
+      { userId: 'user', token: 'token' }
+    );
+
+    expect(response.status).toBe(400);
+    expect(mockedCreateEvent).not.toHaveBeenCalled();
+    const payload = await response.json();
+    expect(payload.errors.category).toBeDefined();
+  });
+});
+
+describe('Event end time validation', () => {
+  const baseBody = {
+    title: 'Board games',
+    description: 'Bring your favourite game along',
+    datetime: FUTURE_START.toISOString(),
+    location: { latitude: 1, longitude: 2 },
+    locationName: 'Cafe',
+  };
+
+  it('derives the end time from a duration in minutes', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.integer({ min: 1, max: 24 * 60 }), async (durationMinutes) => {
+        mockedCreateEvent.mockResolvedValue(buildSerializedEvent());
+        mockedCreateEvent.mockClear();
+
+        const response = await createEventHandler(
+          buildRequest({ ...baseBody, durationMinutes }),
+          {},
+          { userId: 'user', token: 'token' }
+        );
+
+        expect(response.status).toBe(201);
+        expect(mockedCreateEvent).toHaveBeenCalledWith(
+          expect.objectContaining({
+            endDatetime: new Date(FUTURE_START.getTime() + durationMinutes * 60 * 1000),
+          })
+        );
+      })
+    );
+  });
+
+  it('rejects end times that are not after the start or exceed the maximum length', async () => {
+    const invalidEnds = [
+      FUTURE_START.toISOString(),
+      new Date(FUTURE_START.getTime() - 60 * 1000).toISOString(),
+      new Date(FUTURE_START.getTime() + 25 * 60 * 60 * 1000).toISOString(),
+    ];
+
+    for (const endDatetime of invalidEnds) {
+      mockedCreateEvent.mockClear();
+      const response = await createEventHandler(
+        buildRequest({ ...baseBody, endDatetime }),
+        {},
+        { userId: 'user', token: 'token' }
+      );
+
+      expect(response.status).toBe(400);
+      expect(mockedCreateEvent).not.toHaveBeenCalled();
+      const payload = await response.json();
+      expect(payload.errors.endDatetime).toBeDefined();
+    }
+  });
+
+  it('rejects payloads that set both an end time and a duration', async () => {
+    const response = await createEventHandler(
+      buildRequest({
+        ...baseBody,
+        endDatetime: new Date(FUTURE_START.getTime() + 60 * 60 * 1000).toISOString(),
+        durationMinutes: 60,
+      }),
+      {},
+      { userId: 'user', token: 'token' }
+    );
+
+    expect(response.status).toBe(400);
+    const payload = await response.json();
+    expect(payload.errors.endDatetime).toBeDefined();
+  });
+});
+
+describe('Event visibility validation', () => {
+  const basePayload = {
+    title: 'Dinner party',
+    description: 'Small dinner at home',
+    datetime: FUTURE_START.toISOString(),
+    location: { latitude: 1, longitude: 2 },
+    locationName: 'My place',
+  };
+
+  it('defaults new events to public', async () => {
+    mockedCreateEvent.mockResolvedValue(buildSerializedEvent());
+
+    const response = await createEventHandler(buildRequest(basePayload), {}, { userId: 'user', token: 'token' });
+
+    expect(response.status).toBe(201);
+    expect(mockedCreateEvent).toHaveBeenCalledWith(expect.objectContaining({ visibility: 'PUBLIC' }));
+  });
+
+  it('accepts enum values and their lower-case, hyphenated spelling', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.constantFrom(...EVENT_VISIBILITIES), fc.boolean(), async (visibility, hyphenated) => {
+        const input = hyphenated ? visibility.toLowerCase().replace(/_/g, '-') : visibility;
+        mockedCreateEvent.mockResolvedValue(buildSerializedEvent({ visibility }));
+        mockedCreateEvent.mockClear();
+
+        const response = await createEventHandler(
+          buildRequest({ ...basePayload, visibility: input }),
+          {},
+          { userId: 'user', token: 'token' }
+        );
+
+        expect(response.status).toBe(201);
+        expect(mockedCreateEvent).toHaveBeenCalledWith(expect.objectContaining({ visibility }));
+      })
+    );
+  });
+
+  it('rejects unknown visibility values', async () => {
+    const response = await createEventHandler(
+      buildRequest({ ...basePayload, visibility: 'friends' }),
+      {},
+      { userId: 'user', token: 'token' }
+    );
+
+    expect(response.status).toBe(400);
+    expect(mockedCreateEvent).not.toHaveBeenCalled();
+    const payload = await response.json();
+    expect(payload.errors.visibility).toBeDefined();
+  });
+});
+
+describe('Join request expiry settings', () => {
+  const basePayload = {
+    title: 'Five-a-side',
+    description: 'Casual game, all levels',
+    datetime: FUTURE_START.toISOString(),
+    location: { latitude: 1, longitude: 2 },
+    locationName: 'Park pitch',
+  };
+
+  it('leaves requests open by default', async () => {
+    mockedCreateEvent.mockResolvedValue(buildSerializedEvent());
+
+    const response = await createEventHandler(buildRequest(basePayload), {}, { userId: 'user', token: 'token' });
+
+    expect(response.status).toBe(201);
+    expect(mockedCreateEvent).toHaveBeenCalledWith(
+      expect.objectContaining({ joinRequestCutoffMinutes: null, joinRequestTimeoutHours: null })
+    );
+  });
+
+  it('forwards any cutoff and timeout within range', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.integer({ min: 0, max: JOIN_REQUEST_CUTOFF_MINUTES_MAX }),
+        fc.integer({ min: JOIN_REQUEST_TIMEOUT_HOURS_LIMITS.min, max: JOIN_REQUEST_TIMEOUT_HOURS_LIMITS.max }),
+        async (joinRequestCutoffMinutes, joinRequestTimeoutHours) => {
+          mockedCreateEvent.mockResolvedValue(buildSerializedEvent({ joinRequestCutoffMinutes, joinRequestTimeoutHours }));
+          mockedCreateEvent.mockClear();
+
+          const response = await createEventHandler(
+            buildRequest({ ...basePayload, joinRequestCutoffMinutes, joinRequestTimeoutHours }),
+            {},
+            { userId: 'user', token: 'token' }
+          );
+
+          expect(response.status).toBe(201);
+          expect(mockedCreateEvent).toHaveBeenCalledWith(
+            expect.objectContaining({ joinRequestCutoffMinutes, joinRequestTimeoutHours })
+          );
+        }
+      )
+    );
+  });
+
+  it('rejects fractional, negative and out-of-range settings', async () => {
+    for (const settings of [
+      { joinRequestCutoffMinutes: -1 },
+      { joinRequestCutoffMinutes: 12.5 },
+      { joinRequestCutoffMinutes: JOIN_REQUEST_CUTOFF_MINUTES_MAX + 1 },
+      { joinRequestTimeoutHours: 0 },
+      { joinRequestTimeoutHours: '24' },
+      { joinRequestTimeoutHours: JOIN_REQUEST_TIMEOUT_HOURS_LIMITS.max + 1 },
+    ]) {
+      const response = await createEventHandler(
+        buildRequest({ ...basePayload, ...settings }),
+        {},
+        { userId: 'user', token: 'token' }
+      );
+
+      expect(response.status).toBe(400);
+      const payload = await response.json();
+      expect(Object.keys(payload.errors)).toEqual(Object.keys(settings));
+    }
+    expect(mockedCreateEvent).not.toHaveBeenCalled();
+  });
+});
+
+describe('Event approval mode', () => {
+  const basePayload = {
+    title: 'Five-a-side',
+    description: 'Casual game, all levels',
+    datetime: FUTURE_START.toISOString(),
+    location: { latitude: 1, longitude: 2 },
+    locationName: 'Park pitch',
+  };
+
+  it('has the host approve each request by default', async () => {
+    mockedCreateEvent.mockResolvedValue(buildSerializedEvent());
+
+    const response = await createEventHandler(buildRequest(basePayload), {}, { userId: 'user', token: 'token' });
+
+    expect(response.status).toBe(201);
+    expect(mockedCreateEvent).toHaveBeenCalledWith(expect.objectContaining({ approvalMode: 'MANUAL' }));
+  });
+
+  it('accepts either mode in any case', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.constantFrom(...EVENT_APPROVAL_MODES), fc.boolean(), async (approvalMode, lowerCase) => {
+        mockedCreateEvent.mockResolvedValue(buildSerializedEvent({ approvalMode }));
+        mockedCreateEvent.mockClear();
+
+        const response = await createEventHandler(
+          buildRequest({ ...basePayload, approvalMode: lowerCase ? approvalMode.toLowerCase() : approvalMode }),
+          {},
+          { userId: 'user', token: 'token' }
+        );
+
+        expect(response.status).toBe(201);
+        expect(mockedCreateEvent).toHaveBeenCalledWith(expect.objectContaining({ approvalMode }));
+      })
+    );
+  });
+
+  it('rejects unknown modes', async () => {
+    for (const approvalMode of ['instant', 1, true]) {
+      const response = await createEventHandler(
+        buildRequest({ ...basePayload, approvalMode }),
+        {},
+        { userId: 'user', token: 'token' }
+      );
+
+      expect(response.status).toBe(400);
+      const payload = await response.json();
+      expect(Object.keys(payload.errors)).toEqual(['approvalMode']);
+    }
+    expect(mockedCreateEvent).not.toHaveBeenCalled();
+  });
+});
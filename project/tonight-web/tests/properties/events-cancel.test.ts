@@ -0,0 +1,164 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import fc from 'fast-check';
+import { cancelEvent, EventInactiveError, EventUnauthorizedError } from '@/lib/events';
+import { EventStatus, JoinRequestStatus } from '@/generated/prisma/client';
+
+type MockPrisma = {
+  $queryRaw: ReturnType<typeof vi.fn>;
+  $transaction: ReturnType<typeof vi.fn>;
+  event: {
+    findUnique: ReturnType<typeof vi.fn>;
+    update: ReturnType<typeof vi.fn>;
+  };
+  joinRequest: {
+    findMany: ReturnType<typeof vi.fn>;
+    updateMany: ReturnType<typeof vi.fn>;
+  };
+};
+
+type GlobalWithPrisma = typeof globalThis & {
+  __TEST_PRISMA__?: MockPrisma;
+};
+
+function createMockPrisma(): MockPrisma {
+  const prisma: MockPrisma = {
+    $queryRaw: vi.fn(),
+    $transaction: vi.fn(),
+    event: {
+      findUnique: vi.fn(),
+      update: vi.fn(),
+    },
+    joinRequest: {
+      findMany: vi.fn(),
+      updateMany: vi.fn(),
+    },
+  };
+  prisma.$transaction.mockImplementation(async (callback: (tx: MockPrisma) => unknown) => callback(prisma));
+  return prisma;
+}
+
+vi.mock('@/lib/prisma', () => {
+  const prisma = createMockPrisma();
+  (globalThis as GlobalWithPrisma).__TEST_PRISMA__ = prisma;
+  return { prisma };
+});
+
+const getMockPrisma = (): MockPrisma => {
+  const prisma = (globalThis as GlobalWithPrisma).__TEST_PRISMA__;
+  if (!prisma) {
+    throw new Error('Mock Prisma is not initialized');
+  }
+  return prisma;
+};
+
+const buildEventRecord = (overrides: Partial<Record<string, unknown>> = {}) => ({
+  id: 'event-id',
+  title: 'Event Title',
+  description: 'Event description',
+  datetime: new Date('2030-01-01T00:00:00Z'),
+  endDatetime: null,
+  locationName: 'Location',
+  category: null,
+  maxParticipants: 4,
+  status: EventStatus.CANCELLED,
+  visibility: 'PUBLIC',
+  approvalMode: 'MANUAL',
+  cancelledAt: new Date('2029-12-31T00:00:00Z'),
+  cancellationReason: null,
+  coverImageKey: null,
+  seriesId: null,
+  waitlistAutoAccept: true,
+  joinRequestCutoffMinutes: null,
+  joinRequestTimeoutHours: null,
+  hostId: 'host-id',
+  createdAt: new Date('2029-01-01T00:00:00Z'),
+  updatedAt: new Date('2029-12-31T00:00:00Z'),
+  latitude: 1,
+  longitude: 2,
+  hostEmail: 'host@example.com',
+  hostDisplayName: 'Host',
+  hostPhotoUrl: null,
+  hostCreatedAt: new Date('2029-01-01T00:00:00Z'),
+  ...overrides,
+});
+
+beforeEach(() => {
+  const prisma = getMockPrisma();
+  prisma.$queryRaw.mockReset();
+  prisma.event.findUnique.mockReset();
+  prisma.event.update.mockReset();
+  prisma.joinRequest.findMany.mockReset();
+  prisma.joinRequest.updateMany.mockReset();
+});
+
+describe('Event cancellation', () => {
+  it('marks the event cancelled and rejects every pending join request', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.uniqueArray(fc.uuid(), { maxLength: 6 }),
+        fc.option(fc.string({ minLength: 1, maxLength: 80 }), { nil: null }),
+        async (pendingIds, reason) => {
+          const prisma = getMockPrisma();
+          prisma.event.update.mockClear();
+          prisma.joinRequest.updateMany.mockClear();
+          prisma.event.findUnique.mockResolvedValue({ id: 'event-id', hostId: 'host-id', status: EventStatus.ACTIVE });
+          prisma.joinRequest.findMany.mockResolvedValue(pendingIds.map((id) => ({ id, userId: `user-${id}` })));
+          prisma.$queryRaw.mockResolvedValue([buildEventRecord({ cancellationReason: reason })]);
+
+          const result = await cancelEvent({ eventId: 'event-id', hostId: 'host-id', reason });
+
+          expect(prisma.event.update).toHaveBeenCalledWith({
+            where: { id: 'event-id' },
+            data: expect.objectContaining({
+              status: EventStatus.CANCELLED,
+              cancellationReason: reason,
+            }),
+          });
+          expect(prisma.joinRequest.findMany).toHaveBeenCalledWith(
+            expect.objectContaining({
+              where: {
+                eventId: 'event-id',
+                status: { in: [JoinRequestStatus.PENDING, JoinRequestStatus.WAITLISTED] },
+              },
+            })
+          );
+
+          if (pendingIds.length > 0) {
+            expect(prisma.joinRequest.updateMany).toHaveBeenCalledWith({
+              where: { id: { in: pendingIds } },
+              data: { status: JoinRequestStatus.REJECTED },
+            });
+          } else {
+            expect(prisma.joinRequest.updateMany).not.toHaveBeenCalled();
+          }
+
+          expect(result.rejectedJoinRequests.map((request) => request.id)).toEqual(pendingIds);
+          expect(result.event.status).toBe(EventStatus.CANCELLED);
+          expect(result.event.cancellationReason).toBe(reason);
+        }
+      )
+    );
+  });
+
+  it('only lets the host cancel', async () => {
+    const prisma = getMockPrisma();
+    prisma.event.findUnique.mockResolvedValue({ id: 'event-id', hostId: 'host-id', status: EventStatus.ACTIVE });
+
+    await expect(cancelEvent({ eventId: 'event-id', hostId: 'someone-else', reason: null })).rejects.toBeInstanceOf(
+      EventUnauthorizedError
+    );
+    expect(prisma.event.update).not.toHaveBeenCalled();
+  });
+
+  it('refuses to cancel events that are no longer active', async () => {
+    const prisma = getMockPrisma();
+
+    for (const status of [EventStatus.EXPIRED, EventStatus.CANCELLED]) {
+      prisma.event.findUnique.mockResolvedValue({ id: 'event-id', hostId: 'host-id', status });
+      await expect(cancelEvent({ eventId: 'event-id', hostId: 'host-id', reason: null })).rejects.toBeInstanceOf(
+        EventInactiveError
+      );
+    }
+    expect(prisma.event.update).not.toHaveBeenCalled();
+  });
+});
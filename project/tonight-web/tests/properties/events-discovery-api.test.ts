@@ -2,12 +2,26 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 import fc from 'fast-check';
 import { NextRequest } from 'next/server';
 import { getNearbyEventsHandler, buildHostInitials } from '@/app/api/events/nearby/route';
-import { findNearbyEvents, DEFAULT_RADIUS_METERS, type NearbyEventRecord } from '@/lib/geospatial';
+import {
+  findNearbyEvents,
+  encodeNearbyCursor,
+  DEFAULT_RADIUS_METERS,
+  DEFAULT_NEARBY_EVENT_LIMIT,
+  MAX_NEARBY_EVENT_LIMIT,
+  MAX_SEARCH_QUERY_LENGTH,
+  type NearbyEventRecord,
+} from '@/lib/geospatial';
 import { EventStatus } from '@/generated/prisma/client';
 
-vi.mock('@/lib/geospatial', () => {
+vi.mock('@/lib/geospatial', async () => {
+  const actual = await vi.importActual<typeof import('@/lib/geospatial')>('@/lib/geospatial');
   return {
     DEFAULT_RADIUS_METERS: 10_000,
+    DEFAULT_NEARBY_EVENT_LIMIT: actual.DEFAULT_NEARBY_EVENT_LIMIT,
+    MAX_NEARBY_EVENT_LIMIT: actual.MAX_NEARBY_EVENT_LIMIT,
+    MAX_SEARCH_QUERY_LENGTH: actual.MAX_SEARCH_QUERY_LENGTH,
+    encodeNearbyCursor: actual.encodeNearbyCursor,
+    decodeNearbyCursor: actual.decodeNearbyCursor,
     findNearbyEvents: vi.fn(),
   };
 });
@@ -35,9 +49,13 @@ const buildNearbyEventRecord = (overrides: Partial<NearbyEventRecord> = {}): Nea
     title: overrides.title ?? 'Sample Event',
     description: overrides.description ?? 'Description',
     datetime: overrides.datetime ?? now,
+    endDatetime: overrides.endDatetime ?? null,
     locationName: overrides.locationName ?? 'Somewhere',
+    category: overrides.category ?? null,
     maxParticipants: overrides.maxParticipants ?? 5,
     status: overrides.status ?? EventStatus.ACTIVE,
+    cancellationReason: overrides.cancellationReason ?? null,
+    coverImageKey: overrides.coverImageKey ?? null,
     hostId: overrides.hostId ?? 'host-id',
     hostDisplayName: overrides.hostDisplayName ?? 'Sample Host',
     hostPhotoUrl: overrides.hostPhotoUrl ?? 'https://example.com/avatar.png',
@@ -50,6 +68,8 @@ const buildNearbyEventRecord = (overrides: Partial<NearbyEventRecord> = {}): Nea
   };
 };
 
+const EMPTY_PAGE = { events: [], hasMore: false, nextCursor: null };
+
 const numbersMatch = (actual: unknown, expected: number) => {
   if (typeof actual !== 'number') {
     return false;
@@ -82,7 +102,7 @@ describe('Event discovery API', () => {
         mockedFindNearbyEvents.mockClear();
         const request = buildRequest({ lat, lng, radius });
         const record = buildNearbyEventRecord({ distanceMeters: 456.78 });
-        mockedFindNearbyEvents.mockResolvedValue([record]);
+        mockedFindNearbyEvents.mockResolvedValue({ events: [record], hasMore: false, nextCursor: null });
         const hostInitials = buildHostInitials(record.hostDisplayName ?? null);
         const spotsRemaining = record.maxParticipants - record.acceptedCount;
 
@@ -128,7 +148,7 @@ describe('Event discovery API', () => {
       fc.asyncProperty(latArb(), lngArb(), fc.uuid(), async (lat, lng, userId) => {
         mockedFindNearbyEvents.mockClear();
         const request = buildRequest({ lat, lng });
-        mockedFindNearbyEvents.mockResolvedValue([]);
+        mockedFindNearbyEvents.mockResolvedValue(EMPTY_PAGE);
 
         const response = await getNearbyEventsHandler(request, {}, { userId, token: 'token' });
         expect(response.status).toBe(200);
@@ -143,7 +163,7 @@ describe('Event discovery API', () => {
       fc.asyncProperty(latArb(), lngArb(), fc.uuid(), async (lat, lng, userId) => {
         mockedFindNearbyEvents.mockClear();
         const request = buildRequest({ lat, lng, radius: 'not-a-number' });
-        mockedFindNearbyEvents.mockResolvedValue([]);
+        mockedFindNearbyEvents.mockResolvedValue(EMPTY_PAGE);
 
         const response = await getNearbyEventsHandler(request, {}, { userId, token: 'token' });
         expect(response.status).toBe(200);
@@ -165,6 +185,161 @@ describe('Event discovery API', () => {
     expect(mockedFindNearbyEvents).not.toHaveBeenCalled();
   });
 
+  it('forwards the parsed category filter to the geospatial service', async () => {
+    mockedFindNearbyEvents.mockResolvedValue(EMPTY_PAGE);
+    const request = buildRequest({ lat: 10, lng: 20, categories: 'Music,food,music' });
+
+    const response = await getNearbyEventsHandler(request, {}, { userId: 'user', token: 'token' });
+    expect(response.status).toBe(200);
+    expect(mockedFindNearbyEvents.mock.calls.at(-1)?.[4]).toEqual({ categories: ['music', 'food'], from: null, to: null, query: null });
+
+    const payload = await response.json();
+    expect(payload.meta.categories).toEqual(['music', 'food']);
+  });
+
+  it('resolves time window presets in the viewer time zone', async () => {
+    mockedFindNearbyEvents.mockResolvedValue(EMPTY_PAGE);
+    const request = buildRequest({ lat: 10, lng: 20, window: 'tomorrow', tz: 'America/New_York' });
+
+    const response = await getNearbyEventsHandler(request, {}, { userId: 'user', token: 'token' });
+    expect(response.status).toBe(200);
+
+    const filters = mockedFindNearbyEvents.mock.calls.at(-1)?.[4];
+    expect(filters?.from).toBeInstanceOf(Date);
+    expect(filters?.to).toBeInstanceOf(Date);
+    const localHour = (date: Date) =>
+      Number(new Intl.DateTimeFormat('en-US', { timeZone: 'America/New_York', hourCycle: 'h23', hour: 'numeric' }).format(date));
+    expect(localHour(filters!.from!)).toBe(0);
+    expect(localHour(filters!.to!)).toBe(0);
+
+    const payload = await response.json();
+    expect(payload.meta.window).toBe('tomorrow');
+    expect(payload.meta.from).toBe(filters!.from!.toISOString());
+  });
+
+  it('forwards explicit from/to bounds', async () => {
+    mockedFindNearbyEvents.mockResolvedValue(EMPTY_PAGE);
+    const request = buildRequest({ lat: 10, lng: 20, from: '2030-01-01T18:00:00Z', to: '2030-01-02T02:00:00Z' });
+
+    const response = await getNearbyEventsHandler(request, {}, { userId: 'user', token: 'token' });
+    expect(response.status).toBe(200);
+    expect(mockedFindNearbyEvents.mock.calls.at(-1)?.[4]).toEqual({
+      categories: [],
+      from: new Date('2030-01-01T18:00:00Z'),
+      to: new Date('2030-01-02T02:00:00Z'),
+      query: null,
+    });
+  });
+
+  it('rejects invalid or conflicting time filters', async () => {
+    const invalid = [
+      { window: 'next-week' },
+      { window: 'tonight', tz: 'Mars/Olympus_Mons' },
+      { window: 'tonight', from: '2030-01-01T18:00:00Z' },
+      { from: 'yesterday' },
+      { from: '2030-01-02T00:00:00Z', to: '2030-01-01T00:00:00Z' },
+    ];
+
+    for (const params of invalid) {
+      const request = buildRequest({ lat: 10, lng: 20, ...params });
+      const response = await getNearbyEventsHandler(request, {}, { userId: 'user', token: 'token' });
+      expect(response.status).toBe(400);
+    }
+    expect(mockedFindNearbyEvents).not.toHaveBeenCalled();
+  });
+
+  it('forwards trimmed search terms and rejects overlong ones', async () => {
+    mockedFindNearbyEvents.mockResolvedValue(EMPTY_PAGE);
+    const request = buildRequest({ lat: 10, lng: 20, q: '  board games ' });
+
+    const response = await getNearbyEventsHandler(request, {}, { userId: 'user', token: 'token' });
+    expect(response.status).toBe(200);
+    expect(mockedFindNearbyEvents.mock.calls.at(-1)?.[4]).toMatchObject({ query: 'board games' });
+    expect((await response.json()).meta.query).toBe('board games');
+
+    mockedFindNearbyEvents.mockClear();
+    const tooLong = buildRequest({ lat: 10, lng: 20, q: 'x'.repeat(MAX_SEARCH_QUERY_LENGTH + 1) });
+    const tooLongResponse = await getNearbyEventsHandler(tooLong, {}, { userId: 'user', token: 'token' });
+    expect(tooLongResponse.status).toBe(400);
+    expect(mockedFindNearbyEvents).not.toHaveBeenCalled();
+  });
+
+  it('rejects cursors from a different kind of listing', async () => {
+    const distanceCursor = encodeNearbyCursor({ distanceMeters: 10, id: 'event-a' });
+    const searchCursor = encodeNearbyCursor({ distanceMeters: 10, id: 'event-a', score: 0.4 });
+
+    const searchWithDistanceCursor = buildRequest({ lat: 10, lng: 20, q: 'sushi', cursor: distanceCursor });
+    expect((await getNearbyEventsHandler(searchWithDistanceCursor, {}, { userId: 'user', token: 'token' })).status).toBe(400);
+
+    const listingWithSearchCursor = buildRequest({ lat: 10, lng: 20, cursor: searchCursor });
+    expect((await getNearbyEventsHandler(listingWithSearchCursor, {}, { userId: 'user', token: 'token' })).status).toBe(400);
+
+    expect(mockedFindNearbyEvents).not.toHaveBeenCalled();
+  });
+
+  it('rejects unknown categories', async () => {
+    const request = buildRequest({ lat: 10, lng: 20, categories: 'music,karaoke' });
+    const response = await getNearbyEventsHandler(request, {}, { userId: 'user', token: 'token' });
+    expect(response.status).toBe(400);
+    expect(mockedFindNearbyEvents).not.toHaveBeenCalled();
+  });
+
+  it('passes the limit and decoded cursor through and returns the next cursor', async () => {
+    const nextCursor = encodeNearbyCursor({ distanceMeters: 900, id: 'event-b' });
+    mockedFindNearbyEvents.mockResolvedValue({ events: [buildNearbyEventRecord()], hasMore: true, nextCursor });
+    const cursor = encodeNearbyCursor({ distanceMeters: 450.25, id: 'event-a' });
+    const request = buildRequest({ lat: 10, lng: 20, limit: 12, cursor });
+
+    const response = await getNearbyEventsHandler(request, {}, { userId: 'user', token: 'token' });
+    expect(response.status).toBe(200);
+    expect(mockedFindNearbyEvents.mock.calls.at(-1)?.[5]).toEqual({
+      limit: 12,
+      cursor: { distanceMeters: 450.25, id: 'event-a' },
+    });
+
+    const payload = await response.json();
+    expect(payload.hasMore).toBe(true);
+    expect(payload.nextCursor).toBe(nextCursor);
+    expect(payload.meta.limit).toBe(12);
+  });
+
+  it('uses the default page size when no limit is given', async () => {
+    mockedFindNearbyEvents.mockResolvedValue(EMPTY_PAGE);
+    const request = buildRequest({ lat: 10, lng: 20 });
+
+    const response = await getNearbyEventsHandler(request, {}, { userId: 'user', token: 'token' });
+    expect(response.status).toBe(200);
+    expect(mockedFindNearbyEvents.mock.calls.at(-1)?.[5]).toEqual({ limit: DEFAULT_NEARBY_EVENT_LIMIT, cursor: null });
+
+    const payload = await response.json();
+    expect(payload.hasMore).toBe(false);
+    expect(payload.nextCursor).toBeNull();
+  });
+
+  it('rejects out-of-range limits and malformed cursors', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.oneof(
+          fc.integer({ max: 0 }),
+          fc.integer({ min: MAX_NEARBY_EVENT_LIMIT + 1 }),
+          fc.constantFrom('1.5', 'ten', '')
+        ),
+        async (limit) => {
+          mockedFindNearbyEvents.mockClear();
+          const request = buildRequest({ lat: 10, lng: 20, limit });
+          const response = await getNearbyEventsHandler(request, {}, { userId: 'user', token: 'token' });
+          expect(response.status).toBe(400);
+          expect(mockedFindNearbyEvents).not.toHaveBeenCalled();
+        }
+      )
+    );
+
+    const request = buildRequest({ lat: 10, lng: 20, cursor: 'bogus' });
+    const response = await getNearbyEventsHandler(request, {}, { userId: 'user', token: 'token' });
+    expect(response.status).toBe(400);
+    expect(mockedFindNearbyEvents).not.toHaveBeenCalled();
+  });
+
   it('surfaces server errors from the geospatial layer as 500 responses', async () => {
     await fc.assert(
       fc.asyncProperty(latArb(), lngArb(), fc.uuid(), async (lat, lng, userId) => {
@@ -0,0 +1,183 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import fc from 'fast-check';
+import { NextRequest } from 'next/server';
+import { getMapEventsHandler } from '@/app/api/events/map/route';
+import { findEventsInBounds, findEventClustersInBounds, type NearbyEventRecord } from '@/lib/geospatial';
+import { EventStatus } from '@/generated/prisma/client';
+
+vi.mock('@/lib/geospatial', () => {
+  return {
+    DEFAULT_RADIUS_METERS: 10_000,
+    DEFAULT_MAP_EVENT_LIMIT: 200,
+    MAX_MAP_EVENT_LIMIT: 500,
+    CLUSTER_MAX_ZOOM: 14,
+    findNearbyEvents: vi.fn(),
+    findEventsInBounds: vi.fn(),
+    findEventClustersInBounds: vi.fn(),
+  };
+});
+
+const mockedFindEventsInBounds = vi.mocked(findEventsInBounds);
+const mockedFindEventClustersInBounds = vi.mocked(findEventClustersInBounds);
+
+const buildRequest = (params: Record<string, string | number | undefined>) => {
+  const url = new URL('https://example.com/api/events/map');
+  Object.entries(params).forEach(([key, value]) => {
+    if (typeof value !== 'undefined') {
+      url.searchParams.set(key, String(value));
+    }
+  });
+  return new NextRequest(url.toString());
+};
+
+const buildEventRecord = (overrides: Partial<NearbyEventRecord> = {}): NearbyEventRecord => {
+  const now = new Date('2030-01-01T00:00:00.000Z');
+  return {
+    id: 'event-id',
+    title: 'Sample Event',
+    description: 'Description',
+    datetime: now,
+    endDatetime: null,
+    locationName: 'Somewhere',
+    category: null,
+    maxParticipants: 5,
+    status: EventStatus.ACTIVE,
+    cancellationReason: null,
+    coverImageKey: null,
+    hostId: 'host-id',
+    hostDisplayName: 'Sample Host',
+    hostPhotoUrl: null,
+    createdAt: now,
+    updatedAt: now,
+    distanceMeters: 0,
+    latitude: 37.7749,
+    longitude: -122.4194,
+    acceptedCount: 1,
+    viewerJoinRequestStatus: null,
+    viewerHostUpdatesUnseen: 0,
+    ...overrides,
+  };
+};
+
+// `+ 0` folds -0 into 0, which is what survives the round trip through the query string.
+const latArb = () => fc.double({ min: -89.999, max: 89.999, noDefaultInfinity: true, noNaN: true }).map((value) => value + 0);
+const lngArb = () => fc.double({ min: -179.999, max: 179.999, noDefaultInfinity: true, noNaN: true }).map((value) => value + 0);
+
+beforeEach(() => {
+  mockedFindEventsInBounds.mockReset();
+  mockedFindEventsInBounds.mockResolvedValue({ events: [], truncated: false });
+  mockedFindEventClustersInBounds.mockReset();
+  mockedFindEventClustersInBounds.mockResolvedValue({ clusters: [], truncated: false });
+});
+
+describe('Map viewport API', () => {
+  it('forwards the bounding box, filters and cap to the geospatial service', async () => {
+    await fc.assert(
+      fc.asyncProperty(latArb(), latArb(), lngArb(), lngArb(), fc.uuid(), async (latA, latB, minLng, maxLng, userId) => {
+        mockedFindEventsInBounds.mockClear();
+        const [minLat, maxLat] = latA <= latB ? [latA, latB] : [latB, latA];
+
+        const response = await getMapEventsHandler(
+          buildRequest({ minLat, minLng, maxLat, maxLng, zoom: 15, categories: 'music' }),
+          {},
+          { userId, token: 'token' }
+        );
+
+        expect(response.status).toBe(200);
+        expect(mockedFindEventsInBounds).toHaveBeenCalledWith(
+          { minLat, minLng, maxLat, maxLng },
+          userId,
+          { categories: ['music'], from: null, to: null, query: null },
+          200
+        );
+        const payload = await response.json();
+        expect(payload.meta.zoom).toBe(15);
+        expect(payload.meta.clustered).toBe(false);
+      })
+    );
+  });
+
+  it('reports when results were capped and omits distances', async () => {
+    mockedFindEventsInBounds.mockResolvedValue({ events: [buildEventRecord()], truncated: true });
+
+    const response = await getMapEventsHandler(
+      buildRequest({ minLat: 37, minLng: -123, maxLat: 38, maxLng: -122, limit: 1 }),
+      {},
+      { userId: 'user', token: 'token' }
+    );
+
+    expect(response.status).toBe(200);
+    expect(mockedFindEventsInBounds).toHaveBeenCalledWith(expect.anything(), 'user', expect.anything(), 1);
+    const payload = await response.json();
+    expect(payload.meta.truncated).toBe(true);
+    expect(payload.events).toHaveLength(1);
+    expect(payload.events[0].distanceMeters).toBeNull();
+  });
+
+  it('clusters low-zoom viewports and loads single-event cells as events', async () => {
+    const bounds = { minLat: 37, minLng: -123, maxLat: 38, maxLng: -122 };
+    mockedFindEventClustersInBounds.mockResolvedValue({
+      clusters: [
+        {
+          id: '10:-122.5:37.5',
+          count: 3,
+          latitude: 37.5,
+          longitude: -122.5,
+          bounds: { minLat: 37.4, minLng: -122.6, maxLat: 37.6, maxLng: -122.4 },
+          categories: { music: 2, other: 1 },
+          eventId: 'clustered-event',
+        },
+        {
+          id: '10:-122.2:37.8',
+          count: 1,
+          latitude: 37.8,
+          longitude: -122.2,
+          bounds: { minLat: 37.8, minLng: -122.2, maxLat: 37.8, maxLng: -122.2 },
+          categories: { food: 1 },
+          eventId: 'lonely-event',
+        },
+      ],
+      truncated: false,
+    });
+    mockedFindEventsInBounds.mockResolvedValue({ events: [buildEventRecord({ id: 'lonely-event' })], truncated: false });
+
+    const response = await getMapEventsHandler(buildRequest({ ...bounds, zoom: 10.5 }), {}, { userId: 'user', token: 'token' });
+
+    expect(response.status).toBe(200);
+    expect(mockedFindEventClustersInBounds).toHaveBeenCalledWith(bounds, 10.5, 'user', { categories: [], from: null, to: null, query: null }, 200);
+    expect(mockedFindEventsInBounds).toHaveBeenCalledWith(bounds, 'user', { categories: [], from: null, to: null, query: null }, 1, ['lonely-event']);
+
+    const payload = await response.json();
+    expect(payload.meta.clustered).toBe(true);
+    expect(payload.events.map((event: { id: string }) => event.id)).toEqual(['lonely-event']);
+    expect(payload.clusters).toEqual([
+      {
+        id: '10:-122.5:37.5',
+        count: 3,
+        location: { latitude: 37.5, longitude: -122.5 },
+        bounds: { minLat: 37.4, minLng: -122.6, maxLat: 37.6, maxLng: -122.4 },
+        categories: { music: 2, other: 1 },
+      },
+    ]);
+  });
+
+  it('rejects missing or invalid bounds, zoom and limit', async () => {
+    const bounds = { minLat: 37, minLng: -123, maxLat: 38, maxLng: -122 };
+    const invalidQueries = [
+      { ...bounds, minLat: undefined },
+      { ...bounds, maxLng: 'abc' },
+      { ...bounds, minLat: 39 },
+      { ...bounds, maxLat: 91 },
+      { ...bounds, minLng: -181 },
+      { ...bounds, zoom: 30 },
+      { ...bounds, limit: 0 },
+      { ...bounds, limit: 501 },
+    ];
+
+    for (const query of invalidQueries) {
+      const response = await getMapEventsHandler(buildRequest(query), {}, { userId: 'user', token: 'token' });
+      expect(response.status).toBe(400);
+    }
+    expect(mockedFindEventsInBounds).not.toHaveBeenCalled();
+  });
+});
@@ -1,14 +1,22 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import fc from 'fast-check';
-import { createEvent, buildLocationFragment } from '@/lib/events';
+import { createEvent, buildLocationFragment, canViewEvent } from '@/lib/events';
 import { expirePastEvents } from '@/lib/event-expiration';
+import { DEFAULT_EVENT_DURATION_MINUTES } from '@/lib/event-timing';
 import { EventStatus } from '@/generated/prisma/client';
 
 type MockPrisma = {
   $queryRaw: ReturnType<typeof vi.fn>;
+  $transaction: ReturnType<typeof vi.fn>;
   event: {
     updateMany: ReturnType<typeof vi.fn>;
   };
+  eventInviteLog: {
+    findUnique: ReturnType<typeof vi.fn>;
+  };
+  joinRequest: {
+    findUnique: ReturnType<typeof vi.fn>;
+  };
 };
 
 type GlobalWithPrisma = typeof globalThis & {
@@ -16,12 +24,21 @@ type GlobalWithPrisma = typeof globalThis & {
 };
 
 function createMockPrisma(): MockPrisma {
-  return {
+  const prisma: MockPrisma = {
     $queryRaw: vi.fn(),
+    $transaction: vi.fn(),
     event: {
       updateMany: vi.fn(),
     },
+    eventInviteLog: {
+      findUnique: vi.fn(),
+    },
+    joinRequest: {
+      findUnique: vi.fn(),
+    },
   };
+  prisma.$transaction.mockImplementation(async (callback: (tx: MockPrisma) => Promise<unknown>) => callback(prisma));
+  return prisma;
 }
 
 vi.mock('@/lib/prisma', () => {
@@ -43,6 +60,7 @@ const buildEventRecord = (overrides: Partial<Record<string, unknown>> = {}) => (
   title: overrides.title ?? 'Event Title',
   description: overrides.description ?? 'Event description',
   datetime: overrides.datetime ?? new Date('2030-01-01T00:00:00Z'),
+  endDatetime: overrides.endDatetime ?? null,
   locationName: overrides.locationName ?? 'Location',
   maxParticipants: overrides.maxParticipants ?? 4,
   status: overrides.status ?? EventStatus.ACTIVE,
@@ -159,7 +177,7 @@ describe('Property 13: Location Storage as PostGIS Point', () => {
 });
 
 describe('Property 16: Automatic Event Expiration', () => {
-  it('marks past active events as expired relative to the provided reference date', async () => {
+  it('marks active events as expired once they have ended', async () => {
     await fc.assert(
       fc.asyncProperty(fc.date({ min: new Date('2020-01-01T00:00:00Z'), max: new Date('2030-01-01T00:00:00Z') }), async (referenceDate) => {
         const prisma = getMockPrisma();
@@ -170,7 +188,13 @@ describe('Property 16: Automatic Event Expiration', () => {
         expect(prisma.event.updateMany).toHaveBeenCalledWith({
           where: {
             status: EventStatus.ACTIVE,
-            datetime: { lt: referenceDate },
+            OR: [
+              { endDatetime: { lt: referenceDate } },
+              {
+                endDatetime: null,
+                datetime: { lt: new Date(referenceDate.getTime() - DEFAULT_EVENT_DURATION_MINUTES * 60 * 1000) },
+              },
+            ],
           },
           data: { status: EventStatus.EXPIRED },
         });
@@ -178,3 +202,50 @@ describe('Property 16: Automatic Event Expiration', () => {
     );
   });
 });
+
+describe('Event visibility access', () => {
+  beforeEach(() => {
+    const prisma = getMockPrisma();
+    prisma.eventInviteLog.findUnique.mockReset();
+    prisma.joinRequest.findUnique.mockReset();
+    prisma.eventInviteLog.findUnique.mockResolvedValue(null);
+    prisma.joinRequest.findUnique.mockResolvedValue(null);
+  });
+
+  it('lets anyone with the link open public and unlisted events', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.constantFrom('PUBLIC' as const, 'UNLISTED' as const), fc.option(fc.uuid()), async (visibility, viewerId) => {
+        const allowed = await canViewEvent({ id: 'event-id', hostId: 'host-id', visibility }, viewerId);
+        expect(allowed).toBe(true);
+      })
+    );
+    expect(getMockPrisma().eventInviteLog.findUnique).not.toHaveBeenCalled();
+  });
+
+  it('limits invite-only events to the host, invitees and guests with open requests', async () => {
+    const prisma = getMockPrisma();
+    const event = { id: 'event-id', hostId: 'host-id', visibility: 'INVITE_ONLY' as const };
+
+    expect(await canViewEvent(event, null)).toBe(false);
+    expect(await canViewEvent(event, 'host-id')).toBe(true);
+    expect(await canViewEvent(event, 'stranger-id')).toBe(false);
+
+    prisma.eventInviteLog.findUnique.mockResolvedValueOnce({ id: 'invite-id' });
+    expect(await canViewEvent(event, 'invitee-id')).toBe(true);
+
+    for (const status of ['PENDING', 'ACCEPTED', 'WAITLISTED'] as const) {
+      prisma.joinRequest.findUnique.mockResolvedValueOnce({ status });
+      expect(await canViewEvent(event, 'requester-id')).toBe(true);
+    }
+  });
+
+  it('shuts guests out once their request to an invite-only event is closed', async () => {
+    const prisma = getMockPrisma();
+    const event = { id: 'event-id', hostId: 'host-id', visibility: 'INVITE_ONLY' as const };
+
+    for (const status of ['REJECTED', 'WITHDRAWN', 'EXPIRED'] as const) {
+      prisma.joinRequest.findUnique.mockResolvedValueOnce({ status });
+      expect(await canViewEvent(event, 'requester-id')).toBe(false);
+    }
+  });
+});
@@ -0,0 +1,307 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import fc from 'fast-check';
+import { NextRequest } from 'next/server';
+import { getEventHandler, patchEventHandler } from '@/app/api/events/[id]/route';
+import {
+  canViewEvent,
+  fetchEventById,
+  updateEvent,
+  EventCapacityError,
+  type EventRecordWithHost,
+  type SerializedEvent,
+} from '@/lib/events';
+import { notifyEventUpdated } from '@/lib/event-notifications';
+import { getCurrentUser } from '@/middleware/auth';
+import { EventStatus } from '@/generated/prisma/client';
+
+vi.mock('@/lib/events', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@/lib/events')>();
+  return {
+    ...actual,
+    canViewEvent: vi.fn(),
+    createEvent: vi.fn(),
+    fetchEventById: vi.fn(),
+    updateEvent: vi.fn(),
+  };
+});
+
+vi.mock('@/lib/event-notifications', () => ({
+  notifyEventUpdated: vi.fn(),
+}));
+
+vi.mock('@/middleware/auth', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@/middleware/auth')>();
+  return {
+    ...actual,
+    getCurrentUser: vi.fn(),
+  };
+});
+
+const mockedFetchEventById = vi.mocked(fetchEventById);
+const mockedUpdateEvent = vi.mocked(updateEvent);
+const mockedNotifyEventUpdated = vi.mocked(notifyEventUpdated);
+const mockedCanViewEvent = vi.mocked(canViewEvent);
+const mockedGetCurrentUser = vi.mocked(getCurrentUser);
+
+const FUTURE = new Date('2030-06-01T19:00:00Z');
+
+const buildRecord = (overrides: Partial<EventRecordWithHost> = {}): EventRecordWithHost => ({
+  id: 'event-id',
+  title: 'Board games',
+  description: 'Bring your favourite game along',
+  datetime: FUTURE,
+  endDatetime: null,
+  locationName: 'Cafe',
+  category: 'social',
+  maxParticipants: 6,
+  status: EventStatus.ACTIVE,
+  visibility: 'PUBLIC',
+  approvalMode: 'MANUAL',
+  cancelledAt: null,
+  cancellationReason: null,
+  coverImageKey: null,
+  seriesId: null,
+  waitlistAutoAccept: true,
+  joinRequestCutoffMinutes: null,
+  joinRequestTimeoutHours: null,
+  hostId: 'host-id',
+  createdAt: FUTURE,
+  updatedAt: FUTURE,
+  latitude: 1,
+  longitude: 2,
+  hostEmail: 'host@example.com',
+  hostDisplayName: 'Host',
+  hostPhotoUrl: null,
+  hostCreatedAt: FUTURE,
+  ...overrides,
+});
+
+const buildSerialized = (overrides: Partial<SerializedEvent> = {}): SerializedEvent => ({
+  id: 'event-id',
+  title: 'Board games',
+  description: 'Bring your favourite game along',
+  datetime: FUTURE.toISOString(),
+  endDatetime: null,
+  phase: 'UPCOMING',
+  location: { latitude: 1, longitude: 2 },
+  locationName: 'Cafe',
+  category: 'social',
+  maxParticipants: 6,
+  status: EventStatus.ACTIVE,
+  visibility: 'PUBLIC',
+  approvalMode: 'MANUAL',
+  cancelledAt: null,
+  cancellationReason: null,
+  coverImage: null,
+  seriesId: null,
+  waitlistAutoAccept: true,
+  joinRequestCutoffMinutes: null,
+  joinRequestTimeoutHours: null,
+  host: {
+    id: 'host-id',
+    email: 'host@example.com',
+    displayName: 'Host',
+    photoUrl: null,
+    createdAt: FUTURE.toISOString(),
+  },
+  createdAt: FUTURE.toISOString(),
+  updatedAt: FUTURE.toISOString(),
+  ...overrides,
+});
+
+const buildRequest = (body: Record<string, unknown>) =>
+  new NextRequest('https://example.com/api/events/event-id', {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+
+const buildContext = (id = 'event-id') => ({ params: Promise.resolve({ id }) });
+
+beforeEach(() => {
+  mockedFetchEventById.mockReset();
+  mockedUpdateEvent.mockReset();
+  mockedNotifyEventUpdated.mockReset();
+  mockedNotifyEventUpdated.mockResolvedValue([]);
+  mockedCanViewEvent.mockReset();
+  mockedGetCurrentUser.mockReset();
+  mockedGetCurrentUser.mockResolvedValue(null);
+});
+
+describe('PATCH /api/events/[id]', () => {
+  it('merges partial edits with the current event before updating', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.string({ minLength: 3, maxLength: 60 }).filter((value) => value.trim().length >= 3), async (title) => {
+        mockedFetchEventById.mockResolvedValue(buildRecord());
+        const updated = buildSerialized({ title: title.trim() });
+        mockedUpdateEvent.mockResolvedValue({
+          event: updated,
+          changes: [{ field: 'title', previous: 'Board games', next: title.trim() }],
+        });
+        mockedUpdateEvent.mockClear();
+
+        const response = await patchEventHandler(buildRequest({ title }), buildContext(), {
+          userId: 'host-id',
+          token: 'token',
+        });
+        expect(response.status).toBe(200);
+
+        expect(mockedUpdateEvent).toHaveBeenCalledWith({
+          eventId: 'event-id',
+          hostId: 'host-id',
+          title: title.trim(),
+          description: 'Bring your favourite game along',
+          datetime: FUTURE,
+          endDatetime: null,
+          latitude: 1,
+          longitude: 2,
+          locationName: 'Cafe',
+          category: 'social',
+          maxParticipants: 6,
+          visibility: 'PUBLIC',
+          approvalMode: 'MANUAL',
+          waitlistAutoAccept: true,
+          joinRequestCutoffMinutes: null,
+          joinRequestTimeoutHours: null,
+        });
+        expect(mockedNotifyEventUpdated).toHaveBeenCalled();
+      })
+    );
+  });
+
+  it('only lets the host edit the event', async () => {
+    mockedFetchEventById.mockResolvedValue(buildRecord());
+
+    const response = await patchEventHandler(buildRequest({ title: 'New title' }), buildContext(), {
+      userId: 'guest-id',
+      token: 'token',
+    });
+
+    expect(response.status).toBe(403);
+    expect(mockedUpdateEvent).not.toHaveBeenCalled();
+  });
+
+  it('returns 404 when the event does not exist', async () => {
+    mockedFetchEventById.mockResolvedValue(null);
+
+    const response = await patchEventHandler(buildRequest({ title: 'New title' }), buildContext(), {
+      userId: 'host-id',
+      token: 'token',
+    });
+
+    expect(response.status).toBe(404);
+  });
+
+  it('rejects payloads that fail the creation rules', async () => {
+    mockedFetchEventById.mockResolvedValue(buildRecord());
+
+    const response = await patchEventHandler(
+      buildRequest({ datetime: '2000-01-01T00:00:00Z', maxParticipants: 500 }),
+      buildContext(),
+      { userId: 'host-id', token: 'token' }
+    );
+
+    expect(response.status).toBe(400);
+    const payload = await response.json();
+    expect(payload.errors.datetime).toBeDefined();
+    expect(payload.errors.maxParticipants).toBeDefined();
+    expect(mockedUpdateEvent).not.toHaveBeenCalled();
+  });
+
+  it('lets the host edit an event that is already under way', async () => {
+    const startedAt = new Date(Date.now() - 30 * 60 * 1000);
+    const endsAt = new Date(Date.now() + 60 * 60 * 1000);
+    mockedFetchEventById.mockResolvedValue(buildRecord({ datetime: startedAt, endDatetime: endsAt }));
+    mockedUpdateEvent.mockResolvedValue({
+      event: buildSerialized({ datetime: startedAt.toISOString(), endDatetime: endsAt.toISOString(), phase: 'IN_PROGRESS' }),
+      changes: [],
+    });
+
+    const response = await patchEventHandler(
+      buildRequest({ description: 'Running late, come anyway' }),
+      buildContext(),
+      { userId: 'host-id', token: 'token' }
+    );
+
+    expect(response.status).toBe(200);
+    expect(mockedUpdateEvent).toHaveBeenCalledWith(
+      expect.objectContaining({ datetime: startedAt, endDatetime: endsAt, description: 'Running late, come anyway' })
+    );
+
+    const moved = await patchEventHandler(
+      buildRequest({ datetime: new Date(Date.now() - 60 * 1000).toISOString() }),
+      buildContext(),
+      { userId: 'host-id', token: 'token' }
+    );
+    expect(moved.status).toBe(400);
+  });
+
+  it('refuses to shrink capacity below the accepted guests', async () => {
+    mockedFetchEventById.mockResolvedValue(buildRecord());
+    mockedUpdateEvent.mockRejectedValue(new EventCapacityError('maxParticipants cannot be lower than 4'));
+
+    const response = await patchEventHandler(buildRequest({ maxParticipants: 2 }), buildContext(), {
+      userId: 'host-id',
+      token: 'token',
+    });
+
+    expect(response.status).toBe(409);
+    const payload = await response.json();
+    expect(payload.errors.maxParticipants).toContain('cannot be lower');
+    expect(mockedNotifyEventUpdated).not.toHaveBeenCalled();
+  });
+
+  it('keeps the current visibility unless the edit changes it', async () => {
+    mockedFetchEventById.mockResolvedValue(buildRecord({ visibility: 'INVITE_ONLY' }));
+    mockedUpdateEvent.mockResolvedValue({ event: buildSerialized({ visibility: 'INVITE_ONLY' }), changes: [] });
+
+    await patchEventHandler(buildRequest({ title: 'Dinner' }), buildContext(), { userId: 'host-id', token: 'token' });
+    expect(mockedUpdateEvent).toHaveBeenLastCalledWith(expect.objectContaining({ visibility: 'INVITE_ONLY' }));
+
+    await patchEventHandler(buildRequest({ visibility: 'unlisted' }), buildContext(), {
+      userId: 'host-id',
+      token: 'token',
+    });
+    expect(mockedUpdateEvent).toHaveBeenLastCalledWith(expect.objectContaining({ visibility: 'UNLISTED' }));
+  });
+
+  it('skips guest notifications when nothing changed', async () => {
+    mockedFetchEventById.mockResolvedValue(buildRecord());
+    mockedUpdateEvent.mockResolvedValue({ event: buildSerialized(), changes: [] });
+
+    const response = await patchEventHandler(buildRequest({}), buildContext(), {
+      userId: 'host-id',
+      token: 'token',
+    });
+
+    expect(response.status).toBe(200);
+    expect(mockedNotifyEventUpdated).not.toHaveBeenCalled();
+  });
+});
+
+describe('GET /api/events/[id]', () => {
+  const buildGetRequest = () => new NextRequest('https://example.com/api/events/event-id');
+
+  it('returns the event when the viewer may see it', async () => {
+    mockedFetchEventById.mockResolvedValue(buildRecord({ visibility: 'UNLISTED' }));
+    mockedCanViewEvent.mockResolvedValue(true);
+
+    const response = await getEventHandler(buildGetRequest(), buildContext());
+
+    expect(response.status).toBe(200);
+    const payload = await response.json();
+    expect(payload.event.visibility).toBe('UNLISTED');
+    expect(mockedCanViewEvent).toHaveBeenCalledWith(expect.objectContaining({ id: 'event-id' }), null);
+  });
+
+  it('answers 404 for invite-only events the viewer was not invited to', async () => {
+    mockedFetchEventById.mockResolvedValue(buildRecord({ visibility: 'INVITE_ONLY' }));
+    mockedGetCurrentUser.mockResolvedValue({ userId: 'stranger-id', token: 'token' });
+    mockedCanViewEvent.mockResolvedValue(false);
+
+    const response = await getEventHandler(buildGetRequest(), buildContext());
+
+    expect(response.status).toBe(404);
+    expect(mockedCanViewEvent).toHaveBeenCalledWith(expect.objectContaining({ id: 'event-id' }), 'stranger-id');
+  });
+});
@@ -1,6 +1,18 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import fc from 'fast-check';
-import { findNearbyEvents, DEFAULT_RADIUS_METERS, type NearbyEventRecord } from '@/lib/geospatial';
+import {
+  findNearbyEvents,
+  findEventsInBounds,
+  findEventClustersInBounds,
+  getClusterCellSizeDegrees,
+  getBoundsSearchCircle,
+  haversineDistanceMeters,
+  encodeNearbyCursor,
+  decodeNearbyCursor,
+  DEFAULT_RADIUS_METERS,
+  MAX_NEARBY_EVENT_LIMIT,
+  type NearbyEventRecord,
+} from '@/lib/geospatial';
 import { expirePastEvents } from '@/lib/event-expiration';
 
 interface MockPrisma {
@@ -65,7 +77,7 @@ const stubNearbyEvents = (distances: Array<number | string>): NearbyEventRecord[
 };
 
 describe('Property 17: Expired Event Exclusion from Discovery', () => {
-  it('triggers the expiration routine before executing the spatial query', async () => {
+  it('filters ended events by time without expiring them on the read path', async () => {
     await fc.assert(
       fc.asyncProperty(finiteLatitude(), finiteLongitude(), fc.uuid(), async (lat, lng, userId) => {
         const prisma = getMockPrisma();
@@ -75,10 +87,12 @@ describe('Property 17: Expired Event Exclusion from Discovery', () => {
 
         await findNearbyEvents(lat, lng, undefined, userId);
 
-        expect(mockedExpirePastEvents).toHaveBeenCalledTimes(1);
-        const expireOrder = mockedExpirePastEvents.mock.invocationCallOrder[0] ?? 0;
-        const queryOrder = prisma.$queryRaw.mock.invocationCallOrder[0] ?? Number.MAX_SAFE_INTEGER;
-        expect(expireOrder).toBeLessThan(queryOrder);
+        expect(mockedExpirePastEvents).not.toHaveBeenCalled();
+        const callArgs = prisma.$queryRaw.mock.calls.at(-1) ?? [];
+        const fragments = callArgs
+          .slice(1)
+          .filter((value): value is { sql: string } => typeof value === 'object' && value !== null && 'sql' in value);
+        expect(fragments.some((fragment) => fragment.sql.includes('"endDatetime"'))).toBe(true);
       })
     );
   });
@@ -130,7 +144,7 @@ describe('Property 20: Distance Calculation and Inclusion', () => {
         const returnedDistances = ['42.5', 1234.56];
         prisma.$queryRaw.mockResolvedValue(stubNearbyEvents(returnedDistances));
 
-        const result = await findNearbyEvents(lat, lng, undefined, userId);
+        const { events: result } = await findNearbyEvents(lat, lng, undefined, userId);
 
         result.forEach((event, index) => {
           expect(event.distanceMeters).toBeCloseTo(Number(returnedDistances[index]));
@@ -148,7 +162,7 @@ describe('Property 21: Distance-Based Result Ordering', () => {
         prisma.$queryRaw.mockClear();
         prisma.$queryRaw.mockResolvedValue(stubNearbyEvents([500, 50, 250]));
 
-        const result = await findNearbyEvents(lat, lng, undefined, userId);
+        const { events: result } = await findNearbyEvents(lat, lng, undefined, userId);
 
         const distances = result.map((event) => event.distanceMeters);
         expect(distances).toEqual([50, 250, 500]);
@@ -184,3 +198,340 @@ describe('Property 32: Bidirectional Event Discovery Blocking', () => {
     );
   });
 });
+
+describe('Discovery time window', () => {
+  it('keeps events overlapping the window and nothing else', async () => {
+    const prisma = getMockPrisma();
+    prisma.$queryRaw.mockResolvedValue([]);
+    const from = new Date('2030-03-01T18:00:00Z');
+    const to = new Date('2030-03-02T04:00:00Z');
+
+    await findNearbyEvents(10, 20, undefined, 'user', { from, to });
+
+    const call = prisma.$queryRaw.mock.calls.at(-1) ?? [];
+    const fragments = call.slice(1).filter(
+      (value): value is { sql: string; values: unknown[] } => typeof value === 'object' && value !== null && 'sql' in value
+    );
+    const window = fragments.find((fragment) => fragment.sql.includes('e."datetime" <'));
+    expect(window?.sql).toContain('"endDatetime"');
+    expect(window?.values).toEqual(expect.arrayContaining([from, to]));
+  });
+
+  it('adds no time condition without bounds', async () => {
+    const prisma = getMockPrisma();
+    prisma.$queryRaw.mockResolvedValue([]);
+
+    await findNearbyEvents(10, 20, undefined, 'user', { from: null, to: null });
+
+    const call = prisma.$queryRaw.mock.calls.at(-1) ?? [];
+    const dates = call.slice(1).flatMap((value) =>
+      typeof value === 'object' && value !== null && 'values' in value ? (value as { values: unknown[] }).values : [value]
+    );
+    expect(dates.some((value) => value instanceof Date)).toBe(false);
+  });
+});
+
+describe('Event visibility in discovery', () => {
+  const visibilityFragmentOf = (call: unknown[]) =>
+    call
+      .slice(1)
+      .find(
+        (value): value is { sql: string; values: unknown[] } =>
+          typeof value === 'object' && value !== null && 'sql' in value && String((value as { sql: string }).sql).includes('"visibility"')
+      );
+
+  const queries = {
+    nearby: (userId: string) => findNearbyEvents(10, 20, undefined, userId),
+    bounds: (userId: string) => findEventsInBounds({ minLat: 37, minLng: -123, maxLat: 38, maxLng: -122 }, userId),
+    clusters: (userId: string) =>
+      findEventClustersInBounds({ minLat: 37, minLng: -123, maxLat: 38, maxLng: -122 }, 10, userId),
+  };
+
+  it('lists public events plus the unlisted and invite-only events the viewer is tied to', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.constantFrom(...(Object.keys(queries) as Array<keyof typeof queries>)), fc.uuid(), async (query, userId) => {
+        const prisma = getMockPrisma();
+        prisma.$queryRaw.mockClear();
+        prisma.$queryRaw.mockResolvedValue([]);
+
+        await queries[query](userId);
+
+        const fragment = visibilityFragmentOf(prisma.$queryRaw.mock.calls.at(-1) ?? []);
+        expect(fragment?.sql).toContain(`e."visibility" = 'PUBLIC'`);
+        expect(fragment?.sql).toContain(`e."visibility" = 'INVITE_ONLY'`);
+        expect(fragment?.sql).toContain('FROM "EventInviteLog"');
+        expect(fragment?.sql).toContain(`viewer_request."status" IN ('PENDING', 'ACCEPTED', 'WAITLISTED')`);
+        expect(fragment?.sql).not.toContain('viewer_request."id" IS NOT NULL');
+        expect(fragment?.values.filter((value) => value === userId)).toHaveLength(2);
+      })
+    );
+  });
+});
+
+describe('Full-text search', () => {
+  const fragmentsOf = (call: unknown[]): { sql: string; values: unknown[] }[] =>
+    call.slice(1).flatMap((value) => {
+      if (typeof value !== 'object' || value === null || !('sql' in value)) {
+        return [];
+      }
+      const fragment = value as { sql: string; values: unknown[] };
+      return [fragment];
+    });
+
+  it('matches the search vector and orders by score before distance', async () => {
+    const prisma = getMockPrisma();
+    prisma.$queryRaw.mockResolvedValue([]);
+
+    await findNearbyEvents(10, 20, undefined, 'user', { query: '  sushi  ' });
+
+    const call = prisma.$queryRaw.mock.calls.at(-1) ?? [];
+    const fragments = fragmentsOf(call);
+    const match = fragments.find((fragment) => fragment.sql.includes('"searchVector" @@'));
+    expect(match?.sql).toContain('websearch_to_tsquery');
+    expect(match?.values).toEqual(['sushi']);
+    expect(fragments.some((fragment) => fragment.sql.startsWith('"searchScore" DESC'))).toBe(true);
+  });
+
+  it('keeps the database order for search results and carries the score in the cursor', async () => {
+    const prisma = getMockPrisma();
+    const rows = stubNearbyEvents([900, 100, 500]).map((event, index) => ({ ...event, searchScore: [0.9, 0.5, 0.2][index] }));
+    prisma.$queryRaw.mockResolvedValue(rows);
+
+    const page = await findNearbyEvents(10, 20, undefined, 'user', { query: 'sushi' }, { limit: 2 });
+
+    expect(page.events.map((event) => event.id)).toEqual(['event-0', 'event-1']);
+    expect(decodeNearbyCursor(page.nextCursor ?? '')).toEqual({ distanceMeters: 100, id: 'event-1', score: 0.5 });
+  });
+
+  it('resumes search pages after the cursor score, distance and id', async () => {
+    const prisma = getMockPrisma();
+    prisma.$queryRaw.mockResolvedValue([]);
+
+    await findNearbyEvents(10, 20, undefined, 'user', { query: 'sushi' }, { cursor: { distanceMeters: 100, id: 'event-1', score: 0.5 } });
+
+    const keyset = fragmentsOf(prisma.$queryRaw.mock.calls.at(-1) ?? []).find((fragment) => fragment.sql.includes(') > ('));
+    expect(keyset?.values).toEqual(expect.arrayContaining([-0.5, 100, 'event-1']));
+  });
+
+  it('refuses distance cursors for searches', async () => {
+    await expect(
+      findNearbyEvents(10, 20, undefined, 'user', { query: 'sushi' }, { cursor: { distanceMeters: 100, id: 'event-1' } })
+    ).rejects.toThrow('cursor');
+  });
+
+  it('ignores blank search terms', async () => {
+    const prisma = getMockPrisma();
+    prisma.$queryRaw.mockResolvedValue([]);
+
+    await findNearbyEvents(10, 20, undefined, 'user', { query: '   ' });
+
+    const fragments = fragmentsOf(prisma.$queryRaw.mock.calls.at(-1) ?? []);
+    expect(fragments.some((fragment) => fragment.sql.includes('"searchVector"'))).toBe(false);
+  });
+});
+
+describe('Nearby pagination', () => {
+  const fragmentsOf = (call: unknown[]) =>
+    call.slice(1).filter((value): value is { sql: string; values: unknown[] } => typeof value === 'object' && value !== null && 'sql' in value);
+
+  it('round-trips cursors exactly', () => {
+    fc.assert(
+      fc.property(
+        fc.double({ min: 0, max: 20_000_000, noNaN: true, noDefaultInfinity: true }).map((value) => value + 0),
+        fc.string({ minLength: 1, maxLength: 40 }),
+        (distanceMeters, id) => {
+          expect(decodeNearbyCursor(encodeNearbyCursor({ distanceMeters, id }))).toEqual({ distanceMeters, id });
+          const score = distanceMeters / 1e7;
+          expect(decodeNearbyCursor(encodeNearbyCursor({ distanceMeters, id, score }))).toEqual({ distanceMeters, id, score });
+        }
+      )
+    );
+  });
+
+  it('rejects cursors that were not issued by the server', () => {
+    const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+    expect(decodeNearbyCursor('not a cursor')).toBeNull();
+    expect(decodeNearbyCursor(encode({ d: -1, id: 'event' }))).toBeNull();
+    expect(decodeNearbyCursor(encode({ d: '12', id: 'event' }))).toBeNull();
+    expect(decodeNearbyCursor(encode({ d: 12, id: '' }))).toBeNull();
+    expect(decodeNearbyCursor(encode([12, 'event']))).toBeNull();
+  });
+
+  it('requests one row past the limit and returns a cursor for the last event', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.integer({ min: 1, max: 20 }), fc.integer({ min: 0, max: 25 }), async (limit, rowCount) => {
+        const prisma = getMockPrisma();
+        prisma.$queryRaw.mockClear();
+        prisma.$queryRaw.mockResolvedValue(stubNearbyEvents(Array.from({ length: rowCount }, (_, index) => index * 10)));
+
+        const page = await findNearbyEvents(10, 20, undefined, 'user', {}, { limit });
+
+        const values = (prisma.$queryRaw.mock.calls.at(-1) ?? []).slice(1);
+        expect(values).toContain(limit + 1);
+        expect(page.events).toHaveLength(Math.min(rowCount, limit));
+        expect(page.hasMore).toBe(rowCount > limit);
+        if (page.hasMore) {
+          const last = page.events[limit - 1];
+          expect(decodeNearbyCursor(page.nextCursor ?? '')).toEqual({ distanceMeters: last.distanceMeters, id: last.id });
+        } else {
+          expect(page.nextCursor).toBeNull();
+        }
+      })
+    );
+  });
+
+  it('caps oversized limits', async () => {
+    const prisma = getMockPrisma();
+    prisma.$queryRaw.mockResolvedValue([]);
+
+    await findNearbyEvents(10, 20, undefined, 'user', {}, { limit: MAX_NEARBY_EVENT_LIMIT * 10 });
+
+    expect((prisma.$queryRaw.mock.calls.at(-1) ?? []).slice(1)).toContain(MAX_NEARBY_EVENT_LIMIT + 1);
+  });
+
+  it('resumes strictly after the cursor position', async () => {
+    const prisma = getMockPrisma();
+    prisma.$queryRaw.mockResolvedValue([]);
+
+    await findNearbyEvents(10, 20, undefined, 'user', {}, { cursor: { distanceMeters: 812.5, id: 'event-9' } });
+
+    const keyset = fragmentsOf(prisma.$queryRaw.mock.calls.at(-1) ?? []).find((fragment) => fragment.sql.includes(') > ('));
+    expect(keyset?.sql).toContain('e."id"');
+    expect(keyset?.values).toEqual([812.5, 'event-9']);
+  });
+
+  it('omits the keyset condition on the first page', async () => {
+    const prisma = getMockPrisma();
+    prisma.$queryRaw.mockResolvedValue([]);
+
+    await findNearbyEvents(10, 20, undefined, 'user');
+
+    const fragments = fragmentsOf(prisma.$queryRaw.mock.calls.at(-1) ?? []);
+    expect(fragments.some((fragment) => fragment.sql.includes(') > ('))).toBe(false);
+  });
+});
+
+describe('Viewport-bounded map query', () => {
+  const fragmentsOf = (call: unknown[]) =>
+    call.slice(1).filter((value): value is { sql: string; values: unknown[] } => typeof value === 'object' && value !== null && 'sql' in value);
+
+  it('requests one row past the cap and reports truncation', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.integer({ min: 1, max: 20 }), fc.integer({ min: 0, max: 25 }), async (limit, rowCount) => {
+        const prisma = getMockPrisma();
+        prisma.$queryRaw.mockClear();
+        prisma.$queryRaw.mockResolvedValue(stubNearbyEvents(Array.from({ length: rowCount }, () => 0)));
+
+        const result = await findEventsInBounds({ minLat: 37, minLng: -123, maxLat: 38, maxLng: -122 }, 'user', {}, limit);
+
+        const values = (prisma.$queryRaw.mock.calls.at(-1) ?? []).slice(1);
+        expect(values).toContain(limit + 1);
+        expect(result.events).toHaveLength(Math.min(rowCount, limit));
+        expect(result.truncated).toBe(rowCount > limit);
+      })
+    );
+  });
+
+  it('splits viewports that cross the antimeridian into two envelopes', async () => {
+    const prisma = getMockPrisma();
+    prisma.$queryRaw.mockResolvedValue([]);
+
+    await findEventsInBounds({ minLat: -20, minLng: 170, maxLat: 0, maxLng: -170 }, 'user');
+
+    const bounds = fragmentsOf(prisma.$queryRaw.mock.calls.at(-1) ?? []).find((fragment) =>
+      fragment.sql.includes('ST_MakeEnvelope')
+    );
+    expect(bounds?.sql.match(/ST_MakeEnvelope/g)).toHaveLength(2);
+    expect(bounds?.values).toEqual(expect.arrayContaining([170, 180, -180, -170]));
+  });
+
+  it('rejects inverted latitude bounds', async () => {
+    await expect(
+      findEventsInBounds({ minLat: 10, minLng: 0, maxLat: 5, maxLng: 1 }, 'user')
+    ).rejects.toThrow('minLat');
+  });
+});
+
+describe('Map clustering', () => {
+  it('shrinks cells as the zoom increases', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 0, max: 21 }), (zoom) => {
+        expect(getClusterCellSizeDegrees(zoom + 1)).toBeCloseTo(getClusterCellSizeDegrees(zoom) / 2);
+        expect(getClusterCellSizeDegrees(zoom + 0.75)).toBe(getClusterCellSizeDegrees(zoom));
+      })
+    );
+  });
+
+  it('converts cluster rows and tallies the category mix', async () => {
+    const prisma = getMockPrisma();
+    prisma.$queryRaw.mockResolvedValue([
+      {
+        cellX: '-122.5',
+        cellY: 37.5,
+        count: '4',
+        latitude: '37.51',
+        longitude: -122.49,
+        minLat: 37.4,
+        minLng: -122.6,
+        maxLat: '37.6',
+        maxLng: -122.4,
+        categories: ['music', null, 'music', 'retired-category'],
+        eventId: 'first-event',
+      },
+    ]);
+
+    const result = await findEventClustersInBounds({ minLat: 37, minLng: -123, maxLat: 38, maxLng: -122 }, 10.2, 'user');
+
+    const values = (prisma.$queryRaw.mock.calls.at(-1) ?? []).slice(1);
+    expect(values).toContain(getClusterCellSizeDegrees(10));
+    expect(result.truncated).toBe(false);
+    expect(result.clusters).toEqual([
+      {
+        id: '10:-122.500000:37.500000',
+        count: 4,
+        latitude: 37.51,
+        longitude: -122.49,
+        bounds: { minLat: 37.4, minLng: -122.6, maxLat: 37.6, maxLng: -122.4 },
+        categories: { music: 2, other: 2 },
+        eventId: 'first-event',
+      },
+    ]);
+  });
+});
+
+describe('Viewport index prefilter', () => {
+  const boundsArb = () =>
+    fc
+      .tuple(
+        fc.double({ min: -85, max: 85, noNaN: true }),
+        fc.double({ min: 0.001, max: 60, noNaN: true }),
+        fc.double({ min: -180, max: 180, noNaN: true }),
+        fc.double({ min: 0.001, max: 179, noNaN: true })
+      )
+      .map(([minLat, latSpan, minLng, lngSpan]) => {
+        const maxLng = minLng + lngSpan > 180 ? minLng + lngSpan - 360 : minLng + lngSpan;
+        return { minLat, maxLat: Math.min(90, minLat + latSpan), minLng, maxLng, lngSpan };
+      });
+
+  it('draws a search circle that covers every point of the viewport', () => {
+    fc.assert(
+      fc.property(boundsArb(), fc.double({ min: 0, max: 1, noNaN: true }), fc.double({ min: 0, max: 1, noNaN: true }), (bounds, latT, lngT) => {
+        const circle = getBoundsSearchCircle(bounds);
+        expect(circle).not.toBeNull();
+
+        const rawLng = bounds.minLng + bounds.lngSpan * lngT;
+        const point = {
+          latitude: bounds.minLat + (bounds.maxLat - bounds.minLat) * latT,
+          longitude: rawLng > 180 ? rawLng - 360 : rawLng,
+        };
+        expect(haversineDistanceMeters(circle!.center, point)).toBeLessThanOrEqual(circle!.radiusMeters);
+      })
+    );
+  });
+
+  it('skips the prefilter for viewports spanning half the globe or more', () => {
+    expect(getBoundsSearchCircle({ minLat: -60, maxLat: 60, minLng: -180, maxLng: 180 })).toBeNull();
+    expect(getBoundsSearchCircle({ minLat: -60, maxLat: 60, minLng: 100, maxLng: -60 })).toBeNull();
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { redeemInviteLinkHandler } from '@/app/api/invite-links/redeem/route';
+import { redeemEventInviteLink } from '@/lib/event-invite-links';
+import { notifyInstantJoin } from '@/lib/event-notifications';
+import type { SerializedJoinRequest } from '@/lib/join-requests';
+
+vi.mock('@/lib/event-invite-links', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/event-invite-links')>()),
+  redeemEventInviteLink: vi.fn(),
+}));
+
+vi.mock('@/lib/event-notifications', () => ({
+  notifyInstantJoin: vi.fn(),
+}));
+
+const mockedRedeemEventInviteLink = vi.mocked(redeemEventInviteLink);
+const mockedNotifyInstantJoin = vi.mocked(notifyInstantJoin);
+
+const joinRequest: SerializedJoinRequest = {
+  id: 'request-id',
+  eventId: 'event-id',
+  userId: 'guest-id',
+  status: 'ACCEPTED',
+  createdAt: '2030-01-01T00:00:00.000Z',
+  updatedAt: '2030-01-01T00:00:00.000Z',
+  lastSeenHostActivityAt: null,
+  intro: null,
+  expiryReason: null,
+};
+
+const redeem = () =>
+  redeemInviteLinkHandler(
+    new NextRequest('http://localhost/api/invite-links/redeem', {
+      method: 'POST',
+      body: JSON.stringify({ token: 'invite-token' }),
+    }),
+    {},
+    { userId: 'guest-id', token: 'token' }
+  );
+
+beforeEach(() => {
+  mockedRedeemEventInviteLink.mockReset();
+  mockedNotifyInstantJoin.mockReset();
+});
+
+describe('POST /api/invite-links/redeem', () => {
+  it('tells the host when a guest joins through the link', async () => {
+    mockedRedeemEventInviteLink.mockResolvedValue({ joinRequest, alreadyAccepted: false });
+
+    const response = await redeem();
+
+    expect(response.status).toBe(201);
+    expect(mockedNotifyInstantJoin).toHaveBeenCalledWith(joinRequest);
+  });
+
+  it('stays quiet for guests who were already in', async () => {
+    mockedRedeemEventInviteLink.mockResolvedValue({ joinRequest, alreadyAccepted: true });
+
+    const response = await redeem();
+
+    expect(response.status).toBe(200);
+    expect(mockedNotifyInstantJoin).not.toHaveBeenCalled();
+  });
+});
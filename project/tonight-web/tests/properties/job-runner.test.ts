@@ -0,0 +1,136 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import fc from 'fast-check';
+import { JobRunner, UnknownJobError } from '@/lib/job-runner';
+import { cleanupMagicLinks, MAGIC_LINK_RETENTION_HOURS } from '@/lib/magic-link-cleanup';
+
+type MockPrisma = {
+  magicLink: {
+    deleteMany: ReturnType<typeof vi.fn>;
+  };
+};
+
+type GlobalWithPrisma = typeof globalThis & { __TEST_PRISMA__?: MockPrisma };
+
+vi.mock('@/lib/prisma', () => {
+  const prisma: MockPrisma = {
+    magicLink: {
+      deleteMany: vi.fn(),
+    },
+  };
+  (globalThis as GlobalWithPrisma).__TEST_PRISMA__ = prisma;
+  return { prisma };
+});
+
+const getMockPrisma = (): MockPrisma => {
+  const prisma = (globalThis as GlobalWithPrisma).__TEST_PRISMA__;
+  if (!prisma) {
+    throw new Error('Mock Prisma is not initialized');
+  }
+  return prisma;
+};
+
+beforeEach(() => {
+  getMockPrisma().magicLink.deleteMany.mockReset();
+  vi.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+describe('Job runner', () => {
+  it('runs every job in order and reports failures without stopping the rest', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.array(fc.boolean(), { minLength: 1, maxLength: 6 }), async (outcomes) => {
+        const calls: string[] = [];
+        const runner = new JobRunner(
+          outcomes.map((succeeds, index) => ({
+            name: `job-${index}`,
+            intervalMs: 1000,
+            run: async () => {
+              calls.push(`job-${index}`);
+              if (!succeeds) {
+                throw new Error(`job-${index} broke`);
+              }
+              return { index };
+            },
+          }))
+        );
+
+        const results = await runner.runJobs();
+
+        expect(calls).toEqual(outcomes.map((_, index) => `job-${index}`));
+        results.forEach((result, index) => {
+          expect(result.status).toBe(outcomes[index] ? 'completed' : 'failed');
+          if (outcomes[index]) {
+            expect(result.result).toEqual({ index });
+          } else {
+            expect(result.error).toBe(`job-${index} broke`);
+          }
+        });
+      })
+    );
+  });
+
+  it('skips a job that is still running instead of overlapping it', async () => {
+    let release: () => void = () => undefined;
+    const run = vi.fn(
+      () =>
+        new Promise<void>((resolve) => {
+          release = resolve;
+        })
+    );
+    const runner = new JobRunner([{ name: 'slow', intervalMs: 1000, run }]);
+
+    const first = runner.runJob('slow');
+    const second = await runner.runJob('slow');
+    release();
+
+    expect(second.status).toBe('skipped');
+    expect((await first).status).toBe('completed');
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects unknown job names before running anything', async () => {
+    const run = vi.fn();
+    const runner = new JobRunner([{ name: 'known', intervalMs: 1000, run }]);
+
+    await expect(runner.runJobs(['known', 'missing'])).rejects.toBeInstanceOf(UnknownJobError);
+    expect(run).not.toHaveBeenCalled();
+  });
+
+  it('starts and stops interval timers', async () => {
+    vi.useFakeTimers();
+    try {
+      const run = vi.fn().mockResolvedValue(undefined);
+      const runner = new JobRunner([{ name: 'tick', intervalMs: 1000, run }]);
+
+      runner.start();
+      await vi.advanceTimersByTimeAsync(3000);
+      expect(run).toHaveBeenCalledTimes(3);
+
+      runner.stop();
+      await vi.advanceTimersByTimeAsync(3000);
+      expect(run).toHaveBeenCalledTimes(3);
+      expect(runner.isStarted()).toBe(false);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
+
+describe('Magic link cleanup', () => {
+  it('deletes links that were used or expired before the retention window', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.date({ min: new Date('2020-01-01T00:00:00Z'), max: new Date('2030-01-01T00:00:00Z'), noInvalidDate: true }), async (referenceDate) => {
+        const prisma = getMockPrisma();
+        prisma.magicLink.deleteMany.mockResolvedValue({ count: 0 });
+
+        await cleanupMagicLinks(referenceDate);
+
+        const cutoff = new Date(referenceDate.getTime() - MAGIC_LINK_RETENTION_HOURS * 60 * 60 * 1000);
+        expect(prisma.magicLink.deleteMany).toHaveBeenLastCalledWith({
+          where: {
+            OR: [{ usedAt: { lt: cutoff } }, { expiresAt: { lt: cutoff } }],
+          },
+        });
+      })
+    );
+  });
+});
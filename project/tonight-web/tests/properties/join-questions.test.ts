@@ -0,0 +1,100 @@
+import { describe, it, expect, vi } from 'vitest';
+import fc from 'fast-check';
+import {
+  formatJoinAnswer,
+  normalizeJoinAnswer,
+  JOIN_ANSWER_MAX_LENGTH,
+  JOIN_QUESTION_KINDS,
+  JOIN_QUESTION_PROMPT_MAX_LENGTH,
+  MAX_JOIN_QUESTIONS,
+  type JoinQuestion,
+} from '@/lib/join-questions';
+import { validateJoinQuestionsPayload } from '@/app/api/events/route';
+
+vi.mock('@/lib/prisma', () => ({ prisma: {} }));
+
+const prompt = () =>
+  fc.string({ minLength: 1, maxLength: JOIN_QUESTION_PROMPT_MAX_LENGTH }).filter((value) => value.trim().length > 0);
+
+describe('Join question validation', () => {
+  it('accepts well-formed questions and only keeps options for single-choice ones', () => {
+    fc.assert(
+      fc.property(
+        fc.array(
+          fc.record({
+            kind: fc.constantFrom(...JOIN_QUESTION_KINDS),
+            prompt: prompt(),
+          }),
+          { maxLength: MAX_JOIN_QUESTIONS }
+        ),
+        (questions) => {
+          const result = validateJoinQuestionsPayload(
+            questions.map((question) => ({ ...question, options: ['Keeper', 'Defence', 'Attack'] }))
+          );
+          expect(result.ok).toBe(true);
+          if (result.ok) {
+            expect(result.data).toEqual(
+              questions.map((question) => ({
+                kind: question.kind,
+                prompt: question.prompt.trim(),
+                options: question.kind === 'SINGLE_CHOICE' ? ['Keeper', 'Defence', 'Attack'] : [],
+              }))
+            );
+          }
+        }
+      )
+    );
+  });
+
+  it('accepts lower-case kinds', () => {
+    const result = validateJoinQuestionsPayload([{ kind: 'yes_no', prompt: 'Do you have boots?' }]);
+    expect(result).toEqual({ ok: true, data: [{ kind: 'YES_NO', prompt: 'Do you have boots?', options: [] }] });
+  });
+
+  it('rejects too many questions, blank prompts and bad choice lists', () => {
+    const tooMany = Array.from({ length: MAX_JOIN_QUESTIONS + 1 }, () => ({ kind: 'SHORT_TEXT', prompt: 'Why?' }));
+    for (const payload of [
+      tooMany,
+      [{ kind: 'SHORT_TEXT', prompt: '   ' }],
+      [{ kind: 'ESSAY', prompt: 'Tell us everything' }],
+      [{ kind: 'SINGLE_CHOICE', prompt: 'Position?', options: ['Keeper'] }],
+      [{ kind: 'SINGLE_CHOICE', prompt: 'Position?', options: ['Keeper', 'keeper'] }],
+      'not a list',
+    ]) {
+      const result = validateJoinQuestionsPayload(payload);
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.errors.joinQuestions).toBeTruthy();
+      }
+    }
+  });
+});
+
+describe('Join answers', () => {
+  const yesNo: JoinQuestion = { kind: 'YES_NO', prompt: 'Do you have boots?', options: [] };
+  const choice: JoinQuestion = { kind: 'SINGLE_CHOICE', prompt: 'Position?', options: ['Keeper', 'Attack'] };
+  const text: JoinQuestion = { kind: 'SHORT_TEXT', prompt: 'Favourite team?', options: [] };
+
+  it('requires an answer to every kind of question', () => {
+    for (const question of [yesNo, choice, text]) {
+      expect(normalizeJoinAnswer(question, '  ')).toHaveProperty('error');
+      expect(normalizeJoinAnswer(question, undefined)).toHaveProperty('error');
+    }
+  });
+
+  it('stores yes-or-no answers in lower case and shows them capitalised', () => {
+    expect(normalizeJoinAnswer(yesNo, ' YES ')).toEqual({ value: 'yes' });
+    expect(normalizeJoinAnswer(yesNo, 'maybe')).toHaveProperty('error');
+    expect(formatJoinAnswer({ kind: 'YES_NO', value: 'no' })).toBe('No');
+  });
+
+  it('only accepts the listed options', () => {
+    expect(normalizeJoinAnswer(choice, 'Keeper')).toEqual({ value: 'Keeper' });
+    expect(normalizeJoinAnswer(choice, 'Striker')).toHaveProperty('error');
+  });
+
+  it('limits the length of short answers', () => {
+    expect(normalizeJoinAnswer(text, 'a'.repeat(JOIN_ANSWER_MAX_LENGTH))).toHaveProperty('value');
+    expect(normalizeJoinAnswer(text, 'a'.repeat(JOIN_ANSWER_MAX_LENGTH + 1))).toHaveProperty('error');
+  });
+});
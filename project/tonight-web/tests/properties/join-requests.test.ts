@@ -1,15 +1,27 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import fc from 'fast-check';
 import {
+  calculateJoinCapacity,
   createJoinRequest,
+  expireStaleJoinRequests,
   updateJoinRequestStatus,
+  updateJoinRequestStatuses,
   listJoinRequestsForEvent,
+  promoteWaitlistedJoinRequests,
+  withdrawJoinRequest,
+  JoinRequestAnswersError,
   JoinRequestDuplicateError,
-  JoinRequestEventFullError,
   JoinRequestEventNotFoundError,
+  JoinRequestExpiredError,
+  JoinRequestInactiveEventError,
+  JoinRequestIntroValidationError,
+  JoinRequestInvalidStatusError,
+  JoinRequestNotInvitedError,
   JoinRequestUnauthorizedError,
+  JoinRequestWithdrawnError,
+  JOIN_REQUEST_INTRO_MAX_LENGTH,
 } from '@/lib/join-requests';
-import { EventStatus, JoinRequestStatus } from '@/generated/prisma/client';
+import { EventStatus, EventVisibility, JoinRequestStatus } from '@/generated/prisma/client';
 
 type MockPrisma = {
   event: {
@@ -20,13 +32,27 @@ type MockPrisma = {
     count: ReturnType<typeof vi.fn>;
     create: ReturnType<typeof vi.fn>;
     update: ReturnType<typeof vi.fn>;
+    updateMany: ReturnType<typeof vi.fn>;
     findMany: ReturnType<typeof vi.fn>;
   };
+  eventInviteLog: {
+    findUnique: ReturnType<typeof vi.fn>;
+  };
+  eventJoinQuestion: {
+    findMany: ReturnType<typeof vi.fn>;
+  };
+  joinRequestAnswer: {
+    createMany: ReturnType<typeof vi.fn>;
+    deleteMany: ReturnType<typeof vi.fn>;
+  };
+  $queryRaw: ReturnType<typeof vi.fn>;
   $transaction: ReturnType<typeof vi.fn>;
 };
 
 type GlobalWithPrisma = typeof globalThis & { __TEST_PRISMA__?: MockPrisma };
 
+const FUTURE_EVENT_START = new Date('2030-01-01T00:00:00Z');
+
 function createMockPrisma(): MockPrisma {
   const eventDelegate = {
     findUnique: vi.fn(),
@@ -37,14 +63,41 @@ function createMockPrisma(): MockPrisma {
     count: vi.fn(),
     create: vi.fn(),
     update: vi.fn(),
+    updateMany: vi.fn(),
     findMany: vi.fn(),
   } as MockPrisma['joinRequest'];
 
+  const eventInviteLogDelegate = {
+    findUnique: vi.fn(),
+  } as MockPrisma['eventInviteLog'];
+
+  const eventJoinQuestionDelegate = {
+    findMany: vi.fn(),
+  } as MockPrisma['eventJoinQuestion'];
+
+  const joinRequestAnswerDelegate = {
+    createMany: vi.fn(),
+    deleteMany: vi.fn(),
+  } as MockPrisma['joinRequestAnswer'];
+
+  const queryRaw = vi.fn();
+
   const prisma: MockPrisma = {
     event: eventDelegate,
     joinRequest: joinRequestDelegate,
-    $transaction: vi.fn(async (callback: (transactionClient: { event: typeof eventDelegate; joinRequest: typeof joinRequestDelegate }) => Promise<unknown>) =>
-      callback({ event: eventDelegate, joinRequest: joinRequestDelegate })
+    eventInviteLog: eventInviteLogDelegate,
+    eventJoinQuestion: eventJoinQuestionDelegate,
+    joinRequestAnswer: joinRequestAnswerDelegate,
+    $queryRaw: queryRaw,
+    $transaction: vi.fn(async (callback: (transactionClient: Omit<MockPrisma, '$transaction'>) => Promise<unknown>) =>
+      callback({
+        event: eventDelegate,
+        joinRequest: joinRequestDelegate,
+        eventInviteLog: eventInviteLogDelegate,
+        eventJoinQuestion: eventJoinQuestionDelegate,
+        joinRequestAnswer: joinRequestAnswerDelegate,
+        $queryRaw: queryRaw,
+      })
     ),
   };
 
@@ -72,10 +125,24 @@ beforeEach(() => {
   prisma.joinRequest.count.mockReset();
   prisma.joinRequest.create.mockReset();
   prisma.joinRequest.update.mockReset();
+  prisma.joinRequest.updateMany.mockReset();
   prisma.joinRequest.findMany.mockReset();
+  prisma.eventInviteLog.findUnique.mockReset();
+  prisma.eventJoinQuestion.findMany.mockReset();
+  prisma.eventJoinQuestion.findMany.mockResolvedValue([]);
+  prisma.joinRequestAnswer.createMany.mockReset();
+  prisma.joinRequestAnswer.deleteMany.mockReset();
+  prisma.$queryRaw.mockReset();
   prisma.$transaction.mockReset();
-  prisma.$transaction.mockImplementation(async (callback: (transactionClient: { event: typeof prisma.event; joinRequest: typeof prisma.joinRequest }) => Promise<unknown>) =>
-    callback({ event: prisma.event, joinRequest: prisma.joinRequest })
+  prisma.$transaction.mockImplementation(async (callback: (transactionClient: Omit<MockPrisma, '$transaction'>) => Promise<unknown>) =>
+    callback({
+      event: prisma.event,
+      joinRequest: prisma.joinRequest,
+      eventInviteLog: prisma.eventInviteLog,
+      eventJoinQuestion: prisma.eventJoinQuestion,
+      joinRequestAnswer: prisma.joinRequestAnswer,
+      $queryRaw: prisma.$queryRaw,
+    })
   );
 });
 
@@ -95,6 +162,8 @@ describe('Property 23: Join Request Creation with Pending Status', () => {
             id: eventId,
             status: EventStatus.ACTIVE,
             maxParticipants,
+            datetime: FUTURE_EVENT_START,
+            endDatetime: null,
           });
           prisma.joinRequest.findUnique.mockResolvedValue(null);
           prisma.joinRequest.count.mockResolvedValue(0);
@@ -147,6 +216,8 @@ describe('Property 24: Duplicate Join Request Prevention', () => {
           id: eventId,
           status: EventStatus.ACTIVE,
           maxParticipants: 5,
+          datetime: FUTURE_EVENT_START,
+          endDatetime: null,
         });
         prisma.joinRequest.findUnique.mockResolvedValue(existingRecord);
 
@@ -155,6 +226,79 @@ describe('Property 24: Duplicate Join Request Prevention', () => {
       })
     );
   });
+
+  it('rejects join requests for events that have ended but not yet been expired', async () => {
+    const prisma = getMockPrisma();
+    prisma.event.findUnique.mockResolvedValue({
+      id: 'event-id',
+      status: EventStatus.ACTIVE,
+      maxParticipants: 5,
+      datetime: new Date(Date.now() - 2 * 60 * 60 * 1000),
+      endDatetime: new Date(Date.now() - 60 * 1000),
+    });
+
+    await expect(createJoinRequest({ eventId: 'event-id', userId: 'user-id' })).rejects.toBeInstanceOf(
+      JoinRequestInactiveEventError
+    );
+    expect(prisma.joinRequest.create).not.toHaveBeenCalled();
+  });
+});
+
+describe('Invite-only join requests', () => {
+  const inviteOnlyEvent = {
+    id: 'event-id',
+    status: EventStatus.ACTIVE,
+    maxParticipants: 5,
+    datetime: FUTURE_EVENT_START,
+    endDatetime: null,
+    visibility: EventVisibility.INVITE_ONLY,
+  };
+
+  it('rejects users the host has not invited', async () => {
+    const prisma = getMockPrisma();
+    prisma.event.findUnique.mockResolvedValue(inviteOnlyEvent);
+    prisma.eventInviteLog.findUnique.mockResolvedValue(null);
+
+    await expect(createJoinRequest({ eventId: 'event-id', userId: 'stranger' })).rejects.toBeInstanceOf(
+      JoinRequestNotInvitedError
+    );
+    expect(prisma.eventInviteLog.findUnique).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { eventId_inviteeId: { eventId: 'event-id', inviteeId: 'stranger' } } })
+    );
+    expect(prisma.joinRequest.create).not.toHaveBeenCalled();
+  });
+
+  it('lets invited users request to join', async () => {
+    const prisma = getMockPrisma();
+    const now = new Date();
+    prisma.event.findUnique.mockResolvedValue(inviteOnlyEvent);
+    prisma.eventInviteLog.findUnique.mockResolvedValue({ id: 'invite-id' });
+    prisma.joinRequest.findUnique.mockResolvedValue(null);
+    prisma.joinRequest.count.mockResolvedValue(0);
+    prisma.joinRequest.create.mockResolvedValue({
+      id: 'request-id',
+      eventId: 'event-id',
+      userId: 'invitee',
+      status: JoinRequestStatus.PENDING,
+      createdAt: now,
+      updatedAt: now,
+      lastSeenHostActivityAt: null,
+    });
+
+    const result = await createJoinRequest({ eventId: 'event-id', userId: 'invitee' });
+    expect(result.status).toBe(JoinRequestStatus.PENDING);
+  });
+
+  it('does not require an invite for unlisted events', async () => {
+    const prisma = getMockPrisma();
+    prisma.event.findUnique.mockResolvedValue({ ...inviteOnlyEvent, visibility: EventVisibility.UNLISTED });
+    prisma.joinRequest.findUnique.mockResolvedValue({ id: 'existing' });
+
+    await expect(createJoinRequest({ eventId: 'event-id', userId: 'user' })).rejects.toBeInstanceOf(
+      JoinRequestDuplicateError
+    );
+    expect(prisma.eventInviteLog.findUnique).not.toHaveBeenCalled();
+  });
 });
 
 describe('Property 25: Join Request Status Transitions', () => {
@@ -238,7 +382,7 @@ describe('Property 25: Join Request Status Transitions', () => {
 });
 
 describe('Property 26: Max Participants Enforcement', () => {
-  it('prevents creating join requests when the event has already reached its accepted limit', async () => {
+  it('puts join requests on the waitlist once the event has reached its accepted limit', async () => {
     await fc.assert(
       fc.asyncProperty(fc.uuid(), fc.uuid(), async (eventId, userId) => {
         const prisma = getMockPrisma();
@@ -247,17 +391,735 @@ describe('Property 26: Max Participants Enforcement', () => {
           id: eventId,
           status: EventStatus.ACTIVE,
           maxParticipants: 2,
+          datetime: FUTURE_EVENT_START,
+          endDatetime: null,
         });
         prisma.joinRequest.findUnique.mockResolvedValue(null);
-        prisma.joinRequest.count.mockResolvedValue(1);
+        prisma.joinRequest.count.mockImplementation(async ({ where }) =>
+          where.status === JoinRequestStatus.ACCEPTED ? 1 : 0
+        );
+        prisma.joinRequest.create.mockImplementation(async ({ data }) => ({
+          id: 'join-request-id',
+          ...data,
+          createdAt: FUTURE_EVENT_START,
+          updatedAt: FUTURE_EVENT_START,
+        }));
 
-        await expect(createJoinRequest({ eventId, userId })).rejects.toBeInstanceOf(JoinRequestEventFullError);
-        expect(prisma.joinRequest.create).not.toHaveBeenCalled();
+        const result = await createJoinRequest({ eventId, userId });
+
+        expect(prisma.joinRequest.create).toHaveBeenCalledWith({
+          data: { eventId, userId, status: JoinRequestStatus.WAITLISTED, intro: null },
+        });
+        expect(result.status).toBe(JoinRequestStatus.WAITLISTED);
+      })
+    );
+  });
+
+  it('queues newcomers behind the waitlist even when a spot is open', async () => {
+    const prisma = getMockPrisma();
+
+    prisma.event.findUnique.mockResolvedValue({
+      id: 'event-id',
+      status: EventStatus.ACTIVE,
+      maxParticipants: 5,
+      datetime: FUTURE_EVENT_START,
+      endDatetime: null,
+    });
+    prisma.joinRequest.findUnique.mockResolvedValue(null);
+    prisma.joinRequest.count.mockImplementation(async ({ where }) =>
+      where.status === JoinRequestStatus.WAITLISTED ? 1 : 0
+    );
+    prisma.joinRequest.create.mockImplementation(async ({ data }) => ({
+      id: 'join-request-id',
+      ...data,
+      createdAt: FUTURE_EVENT_START,
+      updatedAt: FUTURE_EVENT_START,
+    }));
+
+    await createJoinRequest({ eventId: 'event-id', userId: 'user-id' });
+
+    expect(prisma.joinRequest.create).toHaveBeenCalledWith({
+      data: { eventId: 'event-id', userId: 'user-id', status: JoinRequestStatus.WAITLISTED, intro: null },
+    });
+  });
+});
+
+describe('Waitlist promotion', () => {
+  const mockCounts = (accepted: number, pending: number) => {
+    getMockPrisma().joinRequest.count.mockImplementation(async ({ where }) =>
+      where.status === JoinRequestStatus.ACCEPTED ? accepted : pending
+    );
+  };
+
+  it('accepts the longest-waiting guests into every open spot', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.integer({ min: 2, max: 12 }),
+        fc.integer({ min: 0, max: 11 }),
+        fc.integer({ min: 0, max: 5 }),
+        async (maxParticipants, accepted, pending) => {
+          const prisma = getMockPrisma();
+          prisma.joinRequest.findMany.mockReset();
+          prisma.joinRequest.updateMany.mockReset();
+
+          const acceptedCount = Math.min(accepted, maxParticipants - 1);
+          prisma.event.findUnique.mockResolvedValue({
+            status: EventStatus.ACTIVE,
+            maxParticipants,
+            waitlistAutoAccept: true,
+          });
+          mockCounts(acceptedCount, pending);
+          prisma.joinRequest.findMany.mockImplementation(async ({ take }) =>
+            Array.from({ length: take }, (_, index) => ({ id: `request-${index}`, userId: `user-${index}` }))
+          );
+
+          const promotions = await promoteWaitlistedJoinRequests('event-id');
+          const openSpots = maxParticipants - 1 - acceptedCount;
+
+          if (openSpots === 0) {
+            expect(promotions).toEqual([]);
+            expect(prisma.joinRequest.findMany).not.toHaveBeenCalled();
+            return;
+          }
+
+          expect(prisma.joinRequest.findMany).toHaveBeenCalledWith(
+            expect.objectContaining({
+              where: { eventId: 'event-id', status: JoinRequestStatus.WAITLISTED },
+              orderBy: { createdAt: 'asc' },
+              take: openSpots,
+            })
+          );
+          expect(promotions).toHaveLength(openSpots);
+          expect(promotions.every((promotion) => promotion.status === JoinRequestStatus.ACCEPTED)).toBe(true);
+        }
+      )
+    );
+  });
+
+  it('accepts promoted guests on instant-join events even without waitlist auto-accept', async () => {
+    const prisma = getMockPrisma();
+    prisma.event.findUnique.mockResolvedValue({
+      status: EventStatus.ACTIVE,
+      maxParticipants: 6,
+      waitlistAutoAccept: false,
+      approvalMode: 'AUTOMATIC',
+    });
+    mockCounts(2, 1);
+    prisma.joinRequest.findMany.mockResolvedValue([{ id: 'request-1', userId: 'user-1' }]);
+
+    const promotions = await promoteWaitlistedJoinRequests('event-id');
+
+    // Nobody waits on the host, so stray pending requests do not hold spots back.
+    expect(prisma.joinRequest.findMany).toHaveBeenCalledWith(expect.objectContaining({ take: 3 }));
+    expect(prisma.joinRequest.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ['request-1'] } },
+      data: { status: JoinRequestStatus.ACCEPTED, queuedAt: expect.any(Date) },
+    });
+    expect(promotions).toEqual([
+      { id: 'request-1', eventId: 'event-id', userId: 'user-1', status: JoinRequestStatus.ACCEPTED },
+    ]);
+  });
+
+  it('moves guests to the pending queue when the host confirms promotions', async () => {
+    const prisma = getMockPrisma();
+    prisma.event.findUnique.mockResolvedValue({
+      status: EventStatus.ACTIVE,
+      maxParticipants: 6,
+      waitlistAutoAccept: false,
+    });
+    mockCounts(2, 1);
+    prisma.joinRequest.findMany.mockResolvedValue([{ id: 'request-1', userId: 'user-1' }]);
+
+    const promotions = await promoteWaitlistedJoinRequests('event-id');
+
+    expect(prisma.joinRequest.findMany).toHaveBeenCalledWith(expect.objectContaining({ take: 2 }));
+    expect(prisma.joinRequest.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ['request-1'] } },
+      data: { status: JoinRequestStatus.PENDING, queuedAt: expect.any(Date) },
+    });
+    expect(promotions).toEqual([
+      { id: 'request-1', eventId: 'event-id', userId: 'user-1', status: JoinRequestStatus.PENDING },
+    ]);
+  });
+
+  it('leaves the waitlist alone for inactive events', async () => {
+    const prisma = getMockPrisma();
+    prisma.event.findUnique.mockResolvedValue({
+      status: EventStatus.CANCELLED,
+      maxParticipants: 6,
+      waitlistAutoAccept: true,
+    });
+
+    await expect(promoteWaitlistedJoinRequests('event-id')).resolves.toEqual([]);
+    expect(prisma.joinRequest.updateMany).not.toHaveBeenCalled();
+  });
+});
+
+describe('Guest withdrawal', () => {
+  const storedRequest = (status: JoinRequestStatus) => ({
+    id: 'join-request-id',
+    eventId: 'event-id',
+    userId: 'guest-id',
+    status,
+    createdAt: new Date('2030-01-01T00:00:00.000Z'),
+    updatedAt: new Date('2030-01-01T00:00:00.000Z'),
+    lastSeenHostActivityAt: null,
+    event: { hostId: 'host-id' },
+  });
+
+  it('lets guests withdraw any open request and reports what it was', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.constantFrom(JoinRequestStatus.PENDING, JoinRequestStatus.ACCEPTED, JoinRequestStatus.WAITLISTED),
+        async (status) => {
+          const prisma = getMockPrisma();
+          prisma.joinRequest.findUnique.mockResolvedValue(storedRequest(status));
+          prisma.joinRequest.update.mockImplementation(async ({ data }) => ({
+            ...storedRequest(status),
+            ...data,
+          }));
+
+          const result = await withdrawJoinRequest({ joinRequestId: 'join-request-id', userId: 'guest-id' });
+
+          expect(prisma.joinRequest.update).toHaveBeenLastCalledWith({
+            where: { id: 'join-request-id' },
+            data: { status: JoinRequestStatus.WITHDRAWN },
+          });
+          expect(result.joinRequest.status).toBe(JoinRequestStatus.WITHDRAWN);
+          expect(result.previousStatus).toBe(status);
+          expect(result.hostId).toBe('host-id');
+        }
+      )
+    );
+  });
+
+  it('only lets the guest withdraw their own request', async () => {
+    const prisma = getMockPrisma();
+    prisma.joinRequest.findUnique.mockResolvedValue(storedRequest(JoinRequestStatus.ACCEPTED));
+
+    await expect(
+      withdrawJoinRequest({ joinRequestId: 'join-request-id', userId: 'host-id' })
+    ).rejects.toBeInstanceOf(JoinRequestUnauthorizedError);
+    expect(prisma.joinRequest.update).not.toHaveBeenCalled();
+  });
+
+  it('refuses to withdraw requests that are already closed', async () => {
+    const prisma = getMockPrisma();
+    for (const status of [JoinRequestStatus.REJECTED, JoinRequestStatus.WITHDRAWN, JoinRequestStatus.EXPIRED]) {
+      prisma.joinRequest.findUnique.mockResolvedValue(storedRequest(status));
+      await expect(
+        withdrawJoinRequest({ joinRequestId: 'join-request-id', userId: 'guest-id' })
+      ).rejects.toBeInstanceOf(JoinRequestInvalidStatusError);
+    }
+    expect(prisma.joinRequest.update).not.toHaveBeenCalled();
+  });
+
+  it('stops hosts from accepting a withdrawn request', async () => {
+    const prisma = getMockPrisma();
+    prisma.joinRequest.findUnique.mockResolvedValue({
+      ...storedRequest(JoinRequestStatus.WITHDRAWN),
+      event: { id: 'event-id', hostId: 'host-id', status: EventStatus.ACTIVE, maxParticipants: 5 },
+    });
+
+    await expect(
+      updateJoinRequestStatus({
+        joinRequestId: 'join-request-id',
+        hostId: 'host-id',
+        status: JoinRequestStatus.ACCEPTED,
+      })
+    ).rejects.toBeInstanceOf(JoinRequestWithdrawnError);
+  });
+
+  it('lets a guest who withdrew ask again at the back of the queue', async () => {
+    const prisma = getMockPrisma();
+    prisma.event.findUnique.mockResolvedValue({
+      id: 'event-id',
+      status: EventStatus.ACTIVE,
+      maxParticipants: 5,
+      datetime: FUTURE_EVENT_START,
+      endDatetime: null,
+    });
+    prisma.joinRequest.findUnique.mockResolvedValue(storedRequest(JoinRequestStatus.WITHDRAWN));
+    prisma.joinRequest.count.mockResolvedValue(0);
+    prisma.joinRequest.update.mockImplementation(async ({ data }) => ({
+      ...storedRequest(JoinRequestStatus.WITHDRAWN),
+      ...data,
+    }));
+
+    const result = await createJoinRequest({ eventId: 'event-id', userId: 'guest-id' });
+
+    expect(prisma.joinRequest.create).not.toHaveBeenCalled();
+    expect(prisma.joinRequest.update).toHaveBeenCalledWith({
+      where: { id: 'join-request-id' },
+      data: { status: JoinRequestStatus.PENDING, intro: null, createdAt: expect.any(Date), queuedAt: expect.any(Date) },
+    });
+    expect(result.status).toBe(JoinRequestStatus.PENDING);
+  });
+});
+
+describe('Join request expiry', () => {
+  const MINUTE_MS = 60 * 1000;
+
+  it('refuses new requests once the host has stopped taking them', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.integer({ min: 0, max: 24 * 60 }),
+        fc.integer({ min: 1, max: 24 * 60 }),
+        fc.boolean(),
+        async (cutoffMinutes, marginMinutes, beforeCutoff) => {
+          const prisma = getMockPrisma();
+          prisma.joinRequest.create.mockReset();
+          const startsInMinutes = cutoffMinutes + (beforeCutoff ? marginMinutes : -marginMinutes);
+          prisma.event.findUnique.mockResolvedValue({
+            id: 'event-id',
+            status: EventStatus.ACTIVE,
+            maxParticipants: 5,
+            datetime: new Date(Date.now() + startsInMinutes * MINUTE_MS),
+            endDatetime: null,
+            joinRequestCutoffMinutes: cutoffMinutes,
+          });
+          prisma.joinRequest.findUnique.mockResolvedValue(null);
+          prisma.joinRequest.count.mockResolvedValue(0);
+          prisma.joinRequest.create.mockImplementation(async ({ data }) => ({
+            id: 'join-request-id',
+            createdAt: new Date(),
+            updatedAt: new Date(),
+            lastSeenHostActivityAt: null,
+            expiryReason: null,
+            ...data,
+          }));
+
+          const attempt = createJoinRequest({ eventId: 'event-id', userId: 'guest-id' });
+
+          if (beforeCutoff) {
+            await expect(attempt).resolves.toMatchObject({ status: JoinRequestStatus.PENDING });
+          } else {
+            await expect(attempt).rejects.toBeInstanceOf(JoinRequestInactiveEventError);
+            expect(prisma.joinRequest.create).not.toHaveBeenCalled();
+          }
+        }
+      )
+    );
+  });
+
+  it('stops hosts from answering an expired request', async () => {
+    const prisma = getMockPrisma();
+    prisma.joinRequest.findUnique.mockResolvedValue({
+      id: 'join-request-id',
+      eventId: 'event-id',
+      userId: 'guest-id',
+      status: JoinRequestStatus.EXPIRED,
+      expiryReason: 'HOST_TIMEOUT',
+      event: { id: 'event-id', hostId: 'host-id', status: EventStatus.ACTIVE, maxParticipants: 5 },
+    });
+
+    for (const status of [JoinRequestStatus.ACCEPTED, JoinRequestStatus.REJECTED]) {
+      await expect(
+        updateJoinRequestStatus({ joinRequestId: 'join-request-id', hostId: 'host-id', status })
+      ).rejects.toBeInstanceOf(JoinRequestExpiredError);
+    }
+    expect(prisma.joinRequest.update).not.toHaveBeenCalled();
+  });
+
+  it('closes stale requests in one statement and reports them with their reasons', async () => {
+    const prisma = getMockPrisma();
+    const referenceDate = new Date('2030-01-01T12:00:00Z');
+    const expired = [
+      { id: 'request-1', eventId: 'event-1', userId: 'guest-1', hostId: 'host-1', reason: 'REQUESTS_CLOSED' },
+      { id: 'request-2', eventId: 'event-2', userId: 'guest-2', hostId: 'host-2', reason: 'HOST_TIMEOUT' },
+    ];
+    prisma.$queryRaw.mockResolvedValue(expired);
+
+    await expect(expireStaleJoinRequests(referenceDate)).resolves.toEqual(expired);
+
+    expect(prisma.$queryRaw).toHaveBeenCalledTimes(1);
+    const [strings, ...values] = prisma.$queryRaw.mock.calls[0];
+    expect(values.filter((value: unknown) => value === referenceDate).length).toBeGreaterThan(0);
+    // Any later write bumps updatedAt, so the host's clock must not start from it.
+    const sql = (strings as TemplateStringsArray).join('?');
+    expect(sql).toContain('r."queuedAt" + make_interval(hours => e."joinRequestTimeoutHours")');
+    expect(sql).not.toContain('r."updatedAt" + make_interval');
+  });
+});
+
+describe('Bulk join request decisions', () => {
+  const pendingRecord = (id: string, status: JoinRequestStatus = JoinRequestStatus.PENDING) => ({
+    id,
+    eventId: 'event-id',
+    userId: `guest-${id}`,
+    status,
+    intro: null,
+    expiryReason: null,
+    lastSeenHostActivityAt: null,
+    createdAt: FUTURE_EVENT_START,
+    updatedAt: FUTURE_EVENT_START,
+  });
+
+  const mockBatch = (records: ReturnType<typeof pendingRecord>[], acceptedCount: number, maxParticipants = 5) => {
+    const prisma = getMockPrisma();
+    prisma.event.findUnique.mockResolvedValue({
+      hostId: 'host-id',
+      status: EventStatus.ACTIVE,
+      maxParticipants,
+    });
+    prisma.joinRequest.findMany.mockResolvedValue(records);
+    prisma.joinRequest.count.mockResolvedValue(acceptedCount);
+    prisma.joinRequest.update.mockImplementation(async ({ where, data }) => ({
+      ...records.find((record) => record.id === where.id),
+      ...data,
+    }));
+    return prisma;
+  };
+
+  it('accepts requests in order until the event is full and reports the rest', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.integer({ min: 2, max: 10 }),
+        fc.integer({ min: 0, max: 10 }),
+        fc.integer({ min: 1, max: 10 }),
+        async (maxParticipants, alreadyAccepted, requested) => {
+          const capacity = calculateJoinCapacity(maxParticipants);
+          fc.pre(alreadyAccepted <= capacity);
+          const records = Array.from({ length: requested }, (_, index) => pendingRecord(`request-${index}`));
+          const prisma = mockBatch(records, alreadyAccepted, maxParticipants);
+          prisma.joinRequest.update.mockClear();
+
+          const outcomes = await updateJoinRequestStatuses({
+            eventId: 'event-id',
+            hostId: 'host-id',
+            status: JoinRequestStatus.ACCEPTED,
+            joinRequestIds: records.map((record) => record.id),
+          });
+
+          const openSpots = capacity - alreadyAccepted;
+          expect(outcomes.map((outcome) => outcome.joinRequestId)).toEqual(records.map((record) => record.id));
+          outcomes.forEach((outcome, index) => {
+            if (index < openSpots) {
+              expect(outcome).toMatchObject({ ok: true, previousStatus: JoinRequestStatus.PENDING });
+            } else {
+              expect(outcome).toEqual({ joinRequestId: records[index].id, ok: false, reason: 'event_full' });
+            }
+          });
+          expect(prisma.joinRequest.update).toHaveBeenCalledTimes(Math.min(openSpots, requested));
+        }
+      )
+    );
+  });
+
+  it('skips missing, withdrawn and expired requests without failing the batch', async () => {
+    const prisma = mockBatch(
+      [
+        pendingRecord('request-1'),
+        pendingRecord('request-2', JoinRequestStatus.WITHDRAWN),
+        pendingRecord('request-3', JoinRequestStatus.EXPIRED),
+      ],
+      0
+    );
+
+    const outcomes = await updateJoinRequestStatuses({
+      eventId: 'event-id',
+      hostId: 'host-id',
+      status: JoinRequestStatus.REJECTED,
+      joinRequestIds: ['request-1', 'request-2', 'request-3', 'request-4', 'request-1'],
+    });
+
+    expect(outcomes).toEqual([
+      expect.objectContaining({ joinRequestId: 'request-1', ok: true }),
+      { joinRequestId: 'request-2', ok: false, reason: 'withdrawn' },
+      { joinRequestId: 'request-3', ok: false, reason: 'expired' },
+      { joinRequestId: 'request-4', ok: false, reason: 'not_found' },
+    ]);
+    expect(prisma.joinRequest.update).toHaveBeenCalledTimes(1);
+    expect(prisma.$queryRaw).toHaveBeenCalledTimes(1);
+  });
+
+  it('only lets the host decide, and only accepts for active events', async () => {
+    const prisma = mockBatch([pendingRecord('request-1')], 0);
+
+    await expect(
+      updateJoinRequestStatuses({
+        eventId: 'event-id',
+        hostId: 'someone-else',
+        status: JoinRequestStatus.REJECTED,
+        joinRequestIds: ['request-1'],
+      })
+    ).rejects.toBeInstanceOf(JoinRequestUnauthorizedError);
+
+    prisma.event.findUnique.mockResolvedValue({ hostId: 'host-id', status: EventStatus.CANCELLED, maxParticipants: 5 });
+    await expect(
+      updateJoinRequestStatuses({
+        eventId: 'event-id',
+        hostId: 'host-id',
+        status: JoinRequestStatus.ACCEPTED,
+        joinRequestIds: ['request-1'],
+      })
+    ).rejects.toBeInstanceOf(JoinRequestInactiveEventError);
+
+    expect(prisma.joinRequest.update).not.toHaveBeenCalled();
+  });
+});
+
+describe('Instant-join events', () => {
+  const mockInstantJoinEvent = (acceptedCount: number, waitlistedCount = 0) => {
+    const prisma = getMockPrisma();
+    prisma.event.findUnique.mockResolvedValue({
+      id: 'event-id',
+      status: EventStatus.ACTIVE,
+      maxParticipants: 4,
+      datetime: FUTURE_EVENT_START,
+      endDatetime: null,
+      approvalMode: 'AUTOMATIC',
+    });
+    prisma.joinRequest.findUnique.mockResolvedValue(null);
+    prisma.joinRequest.count.mockImplementation(async ({ where }) =>
+      where.status === JoinRequestStatus.ACCEPTED ? acceptedCount : waitlistedCount
+    );
+    prisma.joinRequest.create.mockImplementation(async ({ data }) => ({
+      id: 'join-request-id',
+      createdAt: FUTURE_EVENT_START,
+      updatedAt: FUTURE_EVENT_START,
+      lastSeenHostActivityAt: null,
+      expiryReason: null,
+      ...data,
+    }));
+    return prisma;
+  };
+
+  it('accepts guests straight away while there is room, then waitlists them', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.integer({ min: 0, max: 5 }), async (acceptedCount) => {
+        const prisma = mockInstantJoinEvent(acceptedCount);
+
+        const result = await createJoinRequest({ eventId: 'event-id', userId: 'guest-id' });
+
+        const expected =
+          acceptedCount < calculateJoinCapacity(4) ? JoinRequestStatus.ACCEPTED : JoinRequestStatus.WAITLISTED;
+        expect(result.status).toBe(expected);
+        expect(prisma.joinRequest.create).toHaveBeenLastCalledWith({
+          data: { eventId: 'event-id', userId: 'guest-id', status: expected, intro: null },
+        });
       })
     );
   });
+
+  it('keeps newcomers behind an existing waitlist', async () => {
+    mockInstantJoinEvent(0, 1);
+
+    const result = await createJoinRequest({ eventId: 'event-id', userId: 'guest-id' });
+
+    expect(result.status).toBe(JoinRequestStatus.WAITLISTED);
+  });
+
+  it('locks the event before counting spots', async () => {
+    const prisma = mockInstantJoinEvent(0);
+    const calls: string[] = [];
+    prisma.$queryRaw.mockImplementation(async () => {
+      calls.push('lock');
+      return [];
+    });
+    prisma.joinRequest.count.mockImplementation(async () => {
+      calls.push('count');
+      return 0;
+    });
+
+    await createJoinRequest({ eventId: 'event-id', userId: 'guest-id' });
+
+    expect(calls[0]).toBe('lock');
+    expect(calls).toContain('count');
+  });
+
+  it('makes host accepts take the same lock before counting spots', async () => {
+    const prisma = getMockPrisma();
+    const calls: string[] = [];
+    const pendingRequest = {
+      id: 'join-request-id',
+      eventId: 'event-id',
+      userId: 'guest-id',
+      status: JoinRequestStatus.PENDING,
+      intro: null,
+      createdAt: FUTURE_EVENT_START,
+      updatedAt: FUTURE_EVENT_START,
+      lastSeenHostActivityAt: null,
+      expiryReason: null,
+    };
+    prisma.joinRequest.findUnique.mockResolvedValue({
+      ...pendingRequest,
+      event: { id: 'event-id', hostId: 'host-id', status: EventStatus.ACTIVE, maxParticipants: 4 },
+    });
+    prisma.$queryRaw.mockImplementation(async () => {
+      calls.push('lock');
+      return [];
+    });
+    prisma.joinRequest.count.mockImplementation(async () => {
+      calls.push('count');
+      return 0;
+    });
+    prisma.joinRequest.update.mockImplementation(async ({ data }) => ({ ...pendingRequest, ...data }));
+
+    await updateJoinRequestStatus({
+      joinRequestId: 'join-request-id',
+      hostId: 'host-id',
+      status: JoinRequestStatus.ACCEPTED,
+    });
+
+    expect(calls).toEqual(['lock', 'count']);
+    const [, ...values] = prisma.$queryRaw.mock.calls[0];
+    expect(values).toEqual(['event-id']);
+  });
 });
 
+describe('Join request intros', () => {
+  beforeEach(() => {
+    const prisma = getMockPrisma();
+    prisma.event.findUnique.mockResolvedValue({
+      id: 'event-id',
+      status: EventStatus.ACTIVE,
+      maxParticipants: 5,
+      datetime: FUTURE_EVENT_START,
+      endDatetime: null,
+    });
+    prisma.joinRequest.findUnique.mockResolvedValue(null);
+    prisma.joinRequest.count.mockResolvedValue(0);
+    prisma.joinRequest.create.mockImplementation(async ({ data }) => ({
+      id: 'join-request-id',
+      createdAt: FUTURE_EVENT_START,
+      updatedAt: FUTURE_EVENT_START,
+      ...data,
+    }));
+  });
+
+  it('stores the trimmed intro and drops blank ones', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.string({ maxLength: JOIN_REQUEST_INTRO_MAX_LENGTH }), async (intro) => {
+        const result = await createJoinRequest({ eventId: 'event-id', userId: 'guest-id', intro: `  ${intro}\n` });
+        expect(result.intro).toBe(intro.trim() || null);
+      })
+    );
+  });
+
+  it('rejects intros over the limit before touching the database', async () => {
+    const prisma = getMockPrisma();
+
+    await expect(
+      createJoinRequest({
+        eventId: 'event-id',
+        userId: 'guest-id',
+        intro: 'a'.repeat(JOIN_REQUEST_INTRO_MAX_LENGTH + 1),
+      })
+    ).rejects.toBeInstanceOf(JoinRequestIntroValidationError);
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+  });
+});
+
+describe('Join questions', () => {
+  const questions = [
+    { id: 'q-boots', eventId: 'event-id', position: 0, kind: 'YES_NO', prompt: 'Do you have boots?', options: [] },
+    {
+      id: 'q-position',
+      eventId: 'event-id',
+      position: 1,
+      kind: 'SINGLE_CHOICE',
+      prompt: 'What position do you play?',
+      options: ['Keeper', 'Defence', 'Attack'],
+    },
+  ];
+
+  beforeEach(() => {
+    const prisma = getMockPrisma();
+    prisma.event.findUnique.mockResolvedValue({
+      id: 'event-id',
+      status: EventStatus.ACTIVE,
+      maxParticipants: 10,
+      datetime: FUTURE_EVENT_START,
+      endDatetime: null,
+    });
+    prisma.joinRequest.findUnique.mockResolvedValue(null);
+    prisma.joinRequest.count.mockResolvedValue(0);
+    prisma.joinRequest.create.mockImplementation(async ({ data }) => ({
+      id: 'join-request-id',
+      createdAt: FUTURE_EVENT_START,
+      updatedAt: FUTURE_EVENT_START,
+      ...data,
+    }));
+    prisma.eventJoinQuestion.findMany.mockResolvedValue(questions);
+  });
+
+  it('stores an answer to every question with a copy of what was asked', async () => {
+    const prisma = getMockPrisma();
+
+    await createJoinRequest({
+      eventId: 'event-id',
+      userId: 'guest-id',
+      answers: { 'q-boots': 'Yes', 'q-position': 'Keeper', 'q-unknown': 'ignored' },
+    });
+
+    expect(prisma.joinRequestAnswer.createMany).toHaveBeenCalledWith({
+      data: [
+        {
+          joinRequestId: 'join-request-id',
+          questionId: 'q-boots',
+          kind: 'YES_NO',
+          prompt: 'Do you have boots?',
+          position: 0,
+          value: 'yes',
+        },
+        {
+          joinRequestId: 'join-request-id',
+          questionId: 'q-position',
+          kind: 'SINGLE_CHOICE',
+          prompt: 'What position do you play?',
+          position: 1,
+          value: 'Keeper',
+        },
+      ],
+    });
+  });
+
+  it('rejects requests that leave a question unanswered or pick an unknown option', async () => {
+    const prisma = getMockPrisma();
+
+    await expect(
+      createJoinRequest({ eventId: 'event-id', userId: 'guest-id', answers: { 'q-boots': 'no' } })
+    ).rejects.toBeInstanceOf(JoinRequestAnswersError);
+    await expect(
+      createJoinRequest({
+        eventId: 'event-id',
+        userId: 'guest-id',
+        answers: { 'q-boots': 'no', 'q-position': 'Striker' },
+      })
+    ).rejects.toBeInstanceOf(JoinRequestAnswersError);
+    expect(prisma.joinRequest.create).not.toHaveBeenCalled();
+  });
+
+  it('replaces earlier answers when a guest who withdrew asks again', async () => {
+    const prisma = getMockPrisma();
+    prisma.joinRequest.findUnique.mockResolvedValue({
+      id: 'join-request-id',
+      eventId: 'event-id',
+      userId: 'guest-id',
+      status: JoinRequestStatus.WITHDRAWN,
+      createdAt: FUTURE_EVENT_START,
+      updatedAt: FUTURE_EVENT_START,
+    });
+    prisma.joinRequest.update.mockImplementation(async ({ data }) => ({
+      id: 'join-request-id',
+      eventId: 'event-id',
+      userId: 'guest-id',
+      createdAt: FUTURE_EVENT_START,
+      updatedAt: FUTURE_EVENT_START,
+      ...data,
+    }));
+
+    await createJoinRequest({
+      eventId: 'event-id',
+      userId: 'guest-id',
+      answers: { 'q-boots': 'no', 'q-position': 'Attack' },
+    });
+
+    expect(prisma.joinRequestAnswer.deleteMany).toHaveBeenCalledWith({ where: { joinRequestId: 'join-request-id' } });
+    expect(prisma.joinRequestAnswer.createMany).toHaveBeenCalledTimes(1);
+  });
+});
 
 describe('Join request visibility for event hosts', () => {
   it('returns serialized join requests with user information when the requester is the host', async () => {
@@ -287,6 +1149,7 @@ describe('Join request visibility for event hosts', () => {
           photoUrl: null,
           createdAt: firstTimestamp,
         },
+        answers: [],
       },
       {
         id: 'jr-2',
@@ -302,6 +1165,7 @@ describe('Join request visibility for event hosts', () => {
           photoUrl: 'https://example.com/photo.png',
           createdAt: secondTimestamp,
         },
+        answers: [],
       },
     ]);
 
@@ -320,6 +1184,9 @@ describe('Join request visibility for event hosts', () => {
             createdAt: true,
           },
         },
+        answers: {
+          orderBy: { position: 'asc' },
+        },
       },
     });
 
@@ -338,6 +1205,7 @@ describe('Join request visibility for event hosts', () => {
           photoUrl: null,
           createdAt: firstTimestamp.toISOString(),
         },
+        answers: [],
       },
       {
         id: 'jr-2',
@@ -353,6 +1221,7 @@ describe('Join request visibility for event hosts', () => {
           photoUrl: 'https://example.com/photo.png',
           createdAt: secondTimestamp.toISOString(),
         },
+        answers: [],
       },
     ]);
   });
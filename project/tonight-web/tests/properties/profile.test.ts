@@ -5,6 +5,7 @@ import { patchProfileHandler } from '@/app/api/users/me/route';
 
 type MockPrisma = {
   user: {
+    findUnique: ReturnType<typeof vi.fn>;
     update: ReturnType<typeof vi.fn>;
   };
 };
@@ -14,6 +15,7 @@ type GlobalWithPrisma = typeof globalThis & { __TEST_PRISMA__?: MockPrisma };
 function createMockPrisma(): MockPrisma {
   return {
     user: {
+      findUnique: vi.fn().mockResolvedValue(null),
       update: vi.fn(),
     },
   };
@@ -101,11 +103,23 @@ describe('Property 10: Profile Update Round Trip', () => {
         const updateArgs = prisma.user.update.mock.calls.at(-1)?.[0];
         expect(updateArgs).toMatchObject({
           where: { id: userId },
-          data: { displayName: trimmedName, photoUrl: trimmedPhoto },
+          data: { displayName: trimmedName, photoUrl: trimmedPhoto, avatarKey: null },
         });
       })
     );
   });
+
+  it('rejects data URLs so photos go through the avatar upload', async () => {
+    const prisma = getMockPrisma();
+    const request = buildRequest({ photoUrl: 'data:image/png;base64,iVBORw0KGgo=' });
+
+    const response = await patchProfileHandler(request, {}, { userId: 'user-id', token: 'token' });
+    expect(response.status).toBe(400);
+
+    const payload = await response.json();
+    expect(payload.errors.photoUrl).toMatch(/\/api\/users\/me\/avatar/);
+    expect(prisma.user.update).not.toHaveBeenCalled();
+  });
 });
 
 describe('Property 11: Profile Creation Timestamp', () => {
@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import fc from 'fast-check';
+import {
+  parseTimeWindowParams,
+  resolveTimeWindowPreset,
+  zonedTimeToDate,
+  TIME_WINDOW_PRESETS,
+} from '@/lib/time-windows';
+
+const TIME_ZONES = ['UTC', 'America/New_York', 'America/Los_Angeles', 'Europe/Berlin', 'Asia/Kolkata', 'Australia/Sydney'];
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const nowArb = () =>
+  fc.date({ min: new Date('2024-01-01T00:00:00Z'), max: new Date('2030-12-31T00:00:00Z'), noInvalidDate: true });
+
+const localParts = (date: Date, timeZone: string) => {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      weekday: 'short',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+    })
+      .formatToParts(date)
+      .map((part) => [part.type, part.value])
+  );
+  return {
+    weekday: parts.weekday as string,
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    day: `${parts.year}-${parts.month}-${parts.day}`,
+  };
+};
+
+describe('Time window presets', () => {
+  it('resolves every preset to a non-empty window that ends in the future', () => {
+    fc.assert(
+      fc.property(fc.constantFrom(...TIME_WINDOW_PRESETS), fc.constantFrom(...TIME_ZONES), nowArb(), (preset, timeZone, now) => {
+        const { from, to } = resolveTimeWindowPreset(preset, timeZone, now);
+        expect(from.getTime()).toBeLessThan(to.getTime());
+        expect(to.getTime()).toBeGreaterThan(now.getTime());
+        expect(to.getTime() - now.getTime()).toBeLessThanOrEqual(8 * 24 * HOUR_MS);
+      })
+    );
+  });
+
+  it('ends tonight at 4am local time, within a day', () => {
+    fc.assert(
+      fc.property(fc.constantFrom(...TIME_ZONES), nowArb(), (timeZone, now) => {
+        const { from, to } = resolveTimeWindowPreset('tonight', timeZone, now);
+        expect(from).toEqual(now);
+        expect(localParts(to, timeZone)).toMatchObject({ hour: 4, minute: 0 });
+        expect(to.getTime() - now.getTime()).toBeLessThanOrEqual(25 * HOUR_MS);
+      })
+    );
+  });
+
+  it('covers the whole of the next local day for tomorrow', () => {
+    fc.assert(
+      fc.property(fc.constantFrom(...TIME_ZONES), nowArb(), (timeZone, now) => {
+        const { from, to } = resolveTimeWindowPreset('tomorrow', timeZone, now);
+        expect(localParts(from, timeZone)).toMatchObject({ hour: 0, minute: 0 });
+        expect(localParts(to, timeZone)).toMatchObject({ hour: 0, minute: 0 });
+        expect(localParts(from, timeZone).day).not.toBe(localParts(now, timeZone).day);
+        expect(from.getTime() - now.getTime()).toBeLessThanOrEqual(24 * HOUR_MS);
+        // 23 or 25 hours across a DST change.
+        expect(Math.abs(to.getTime() - from.getTime() - 24 * HOUR_MS)).toBeLessThanOrEqual(HOUR_MS);
+      })
+    );
+  });
+
+  it('runs the weekend from Friday evening (or now) until Monday midnight', () => {
+    fc.assert(
+      fc.property(fc.constantFrom(...TIME_ZONES), nowArb(), (timeZone, now) => {
+        const { from, to } = resolveTimeWindowPreset('weekend', timeZone, now);
+        expect(localParts(to, timeZone)).toMatchObject({ weekday: 'Mon', hour: 0, minute: 0 });
+        if (from.getTime() !== now.getTime()) {
+          expect(localParts(from, timeZone)).toMatchObject({ weekday: 'Fri', hour: 18, minute: 0 });
+          expect(from.getTime()).toBeGreaterThan(now.getTime());
+        }
+        expect(to.getTime() - from.getTime()).toBeLessThanOrEqual(55 * HOUR_MS);
+      })
+    );
+  });
+
+  it('resolves wall-clock times skipped by DST to just after the gap', () => {
+    // Clocks in Berlin jumped from 02:00 to 03:00 on 2025-03-30.
+    const resolved = zonedTimeToDate({ year: 2025, month: 3, day: 30 }, 2, 'Europe/Berlin');
+    expect(resolved.toISOString()).toBe('2025-03-30T01:00:00.000Z');
+  });
+});
+
+describe('Time window query parsing', () => {
+  it('accepts explicit bounds and leaves missing ones open', () => {
+    const result = parseTimeWindowParams(new URLSearchParams({ from: '2030-01-01T18:00:00Z' }));
+    expect(result).toEqual({
+      value: { from: new Date('2030-01-01T18:00:00Z'), to: null, preset: null, timeZone: 'UTC' },
+    });
+  });
+
+  it('resolves presets against the supplied reference time', () => {
+    const now = new Date('2030-06-05T12:00:00Z');
+    const result = parseTimeWindowParams(new URLSearchParams({ window: 'tonight', tz: 'Europe/Berlin' }), now);
+    expect(result).toEqual({
+      value: { ...resolveTimeWindowPreset('tonight', 'Europe/Berlin', now), preset: 'tonight', timeZone: 'Europe/Berlin' },
+    });
+  });
+
+  it('rejects unknown presets, time zones and inverted bounds', () => {
+    expect(parseTimeWindowParams(new URLSearchParams({ window: 'someday' }))).toHaveProperty('error');
+    expect(parseTimeWindowParams(new URLSearchParams({ window: 'tonight', tz: 'Nowhere/Special' }))).toHaveProperty('error');
+    expect(
+      parseTimeWindowParams(new URLSearchParams({ from: '2030-01-02T00:00:00Z', to: '2030-01-01T00:00:00Z' }))
+    ).toHaveProperty('error');
+    expect(
+      parseTimeWindowParams(new URLSearchParams({ window: 'weekend', to: '2030-01-01T00:00:00Z' }))
+    ).toHaveProperty('error');
+  });
+});